@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { LoginForm } from './components/auth/LoginForm';
 import { DashboardLayout } from './components/layout/DashboardLayout';
@@ -6,6 +7,8 @@ import { Inventory } from './components/views/Inventory';
 import { InventoryTrack } from './components/views/InventoryTrack';
 import Menu from './components/views/Menu';
 import { KOT } from './components/views/KOT';
+import { KitchenDisplay } from './components/views/KitchenDisplay';
+import { Tables } from './components/views/Tables';
 import { Invoices } from './components/views/Invoices';
 import { Customers } from './components/views/Customers';
 import { Accounting } from './components/views/Accounting';
@@ -16,9 +19,29 @@ import { Purchases } from './components/views/Purchases';
 import { ManageProfile } from './components/views/ManageProfile';
 import { Employees } from './components/views/Employees';
 import { PublicInvoice } from './components/views/PublicInvoice';
+import { TableOrder } from './components/views/TableOrder';
+import { OrderTracking } from './components/views/OrderTracking';
+import { VoidReport } from './components/views/VoidReport';
+import { Aggregators } from './components/views/Aggregators';
+import { ChannelReport } from './components/views/ChannelReport';
+import { Settlements } from './components/views/Settlements';
+import { Reservations } from './components/views/Reservations';
+import { Printers } from './components/views/Printers';
+import { Billing } from './components/views/Billing';
+import { OrderTiming } from './components/views/OrderTiming';
+import { MenuEngineering } from './components/views/MenuEngineering';
 
 function AppContent() {
   const { user, profile, loading } = useAuth();
+  const [kotTable, setKotTable] = useState<{ tableId: string; kotId?: string } | null>(null);
+
+  if (window.location.pathname === '/order') {
+    return <TableOrder />;
+  }
+
+  if (window.location.pathname === '/track') {
+    return <OrderTracking />;
+  }
 
   if (window.location.pathname === '/invoice' || window.location.search.includes('id=')) {
     return <PublicInvoice />;
@@ -48,8 +71,42 @@ function AppContent() {
             return <InventoryTrack />;
           case 'menu':
             return <Menu />;
+          case 'menu-engineering':
+            return <MenuEngineering />;
           case 'kot':
-            return <KOT />;
+            return <KOT openTable={kotTable} onTableOpened={() => setKotTable(null)} />;
+          case 'tables':
+            return (
+              <Tables
+                onOpenTable={(tableId, kotId) => {
+                  setKotTable({ tableId, kotId });
+                  setCurrentView('kot');
+                }}
+              />
+            );
+          case 'reservations':
+            return (
+              <Reservations
+                onOpenTable={(tableId) => {
+                  setKotTable({ tableId });
+                  setCurrentView('kot');
+                }}
+              />
+            );
+          case 'pos':
+            return <Billing />;
+          case 'kitchen-display':
+            return <KitchenDisplay />;
+          case 'aggregators':
+            return <Aggregators />;
+          case 'settlements':
+            return <Settlements />;
+          case 'channel-report':
+            return <ChannelReport />;
+          case 'order-timing':
+            return <OrderTiming />;
+          case 'void-report':
+            return <VoidReport />;
           case 'invoices':
             return <Invoices />;
           case 'customers':
@@ -64,6 +121,8 @@ function AppContent() {
             return <Purchases />;
           case 'employees':
             return <Employees />;
+          case 'printers':
+            return <Printers />;
           case 'profile':
             return <CompanyProfile />;
           case 'manage-profile':
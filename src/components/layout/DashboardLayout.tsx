@@ -18,6 +18,17 @@ import {
   UtensilsCrossed,
   ClipboardList,
   Activity,
+  ChefHat,
+  LayoutGrid,
+  Ban,
+  Bike,
+  PieChart,
+  Landmark,
+  CalendarClock,
+  Printer,
+  Calculator,
+  Timer,
+  Scale,
 } from 'lucide-react';
 
 interface DashboardLayoutProps {
@@ -36,7 +47,17 @@ const navItems: NavItem[] = [
   { name: 'Inventory', icon: Package, path: 'inventory', roles: ['admin', 'inventory_person'] },
   { name: 'Inventory Track', icon: Activity, path: 'inventory-track', roles: ['admin', 'inventory_person'] },
   { name: 'Menu', icon: UtensilsCrossed, path: 'menu', roles: ['admin', 'inventory_person'] },
+  { name: 'Menu Engineering', icon: Scale, path: 'menu-engineering', roles: ['admin', 'inventory_person'] },
+  { name: 'Tables', icon: LayoutGrid, path: 'tables', roles: ['admin', 'sales_person'] },
+  { name: 'Reservations', icon: CalendarClock, path: 'reservations', roles: ['admin', 'sales_person'] },
+  { name: 'Counter POS', icon: Calculator, path: 'pos', roles: ['admin', 'sales_person'] },
   { name: 'KOT', icon: ClipboardList, path: 'kot', roles: ['admin', 'sales_person'] },
+  { name: 'Kitchen Display', icon: ChefHat, path: 'kitchen-display', roles: ['admin', 'sales_person'] },
+  { name: 'Aggregators', icon: Bike, path: 'aggregators', roles: ['admin'] },
+  { name: 'Platform Payouts', icon: Landmark, path: 'settlements', roles: ['admin', 'accountant'] },
+  { name: 'Channel Revenue', icon: PieChart, path: 'channel-report', roles: ['admin'] },
+  { name: 'Order Timing', icon: Timer, path: 'order-timing', roles: ['admin'] },
+  { name: 'Void Report', icon: Ban, path: 'void-report', roles: ['admin', 'accountant'] },
   { name: 'Invoices', icon: FileText, path: 'invoices', roles: ['admin', 'sales_person'] },
   { name: 'Payment Receivables', icon: Receipt, path: 'receivables', roles: ['admin', 'sales_person'] },
   { name: 'Customers', icon: Users, path: 'customers', roles: ['admin', 'sales_person'] },
@@ -44,6 +65,7 @@ const navItems: NavItem[] = [
   { name: 'Purchases', icon: ShoppingCart, path: 'purchases', roles: ['admin', 'purchase_person', 'inventory_person'] },
   { name: 'Accounting', icon: BarChart3, path: 'accounting', roles: ['admin'] },
   { name: 'Employees', icon: User, path: 'employees', roles: ['admin'] },
+  { name: 'Printers', icon: Printer, path: 'printers', roles: ['admin'] },
   { name: 'Company Profile', icon: Building2, path: 'profile', roles: ['admin'] },
 ];
 
@@ -0,0 +1,422 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Bike, Plus, Trash2, Save, RefreshCw, KeyRound, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  AggregatorIntegration,
+  AggregatorItemMapping,
+  AggregatorOrder,
+  AggregatorPlatform,
+  pushAggregatorStatus,
+} from '../../lib/aggregators';
+
+interface MenuItemOption {
+  id: string;
+  name: string;
+}
+
+interface VariantOption {
+  id: string;
+  menu_item_id: string;
+  name: string;
+}
+
+interface StaffOption {
+  id: string;
+  full_name: string;
+  role: string;
+}
+
+const webhookUrl = (platform: string) => `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/aggregator-webhook/${platform}`;
+
+const generateSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24))).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export function Aggregators() {
+  const [integrations, setIntegrations] = useState<AggregatorIntegration[]>([]);
+  const [mappings, setMappings] = useState<AggregatorItemMapping[]>([]);
+  const [orders, setOrders] = useState<AggregatorOrder[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItemOption[]>([]);
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [platformFilter, setPlatformFilter] = useState<AggregatorPlatform>('zomato');
+  const [mappingForm, setMappingForm] = useState({ external_item_id: '', menu_item_id: '', variant_id: '' });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [integrationsRes, mappingsRes, ordersRes, menuItemsRes, variantsRes, staffRes] = await Promise.all([
+        supabase.from('aggregator_integrations').select('*').order('platform'),
+        supabase.from('aggregator_item_mappings').select('*').order('external_item_id'),
+        supabase.from('aggregator_orders').select('*').order('created_at', { ascending: false }).limit(50),
+        supabase.from('menu_items').select('id, name').order('name'),
+        supabase.from('menu_item_variants').select('id, menu_item_id, name').order('display_order'),
+        supabase.from('profiles').select('id, full_name, role').in('role', ['admin', 'sales', 'sales_person']).order('full_name'),
+      ]);
+
+      if (integrationsRes.error) throw integrationsRes.error;
+      if (mappingsRes.error) throw mappingsRes.error;
+      if (ordersRes.error) throw ordersRes.error;
+
+      setIntegrations(integrationsRes.data || []);
+      setMappings(mappingsRes.data || []);
+      setOrders(ordersRes.data || []);
+      setMenuItems(menuItemsRes.data || []);
+      setVariants(variantsRes.data || []);
+      setStaff(staffRes.data || []);
+    } catch (error) {
+      console.error('Error loading aggregator settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateIntegration = (id: string, changes: Partial<AggregatorIntegration>) => {
+    setIntegrations(integrations.map(integration => (integration.id === id ? { ...integration, ...changes } : integration)));
+  };
+
+  const handleSaveIntegration = async (integration: AggregatorIntegration) => {
+    if (integration.is_active && (!integration.webhook_secret || !integration.kot_user_id)) {
+      alert('Set a webhook secret and the staff account that owns orders before enabling');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('aggregator_integrations')
+        .update({
+          display_name: integration.display_name,
+          webhook_secret: integration.webhook_secret || null,
+          outbound_url: integration.outbound_url || null,
+          outbound_api_key: integration.outbound_api_key || null,
+          kot_user_id: integration.kot_user_id || null,
+          is_active: integration.is_active,
+        })
+        .eq('id', integration.id);
+
+      if (error) throw error;
+      alert(`${integration.display_name} settings saved`);
+    } catch (error) {
+      console.error('Error saving integration:', error);
+      alert('Failed to save integration');
+    }
+  };
+
+  const handleAddMapping = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase.from('aggregator_item_mappings').insert({
+        platform: platformFilter,
+        external_item_id: mappingForm.external_item_id.trim(),
+        menu_item_id: mappingForm.menu_item_id,
+        variant_id: mappingForm.variant_id || null,
+      });
+
+      if (error) throw error;
+      setMappingForm({ external_item_id: '', menu_item_id: '', variant_id: '' });
+      loadData();
+    } catch (error) {
+      console.error('Error adding mapping:', error);
+      alert('Failed to add mapping: ' + (error as Error).message);
+    }
+  };
+
+  const handleDeleteMapping = async (id: string) => {
+    if (!confirm('Remove this item mapping?')) return;
+
+    try {
+      const { error } = await supabase.from('aggregator_item_mappings').delete().eq('id', id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting mapping:', error);
+      alert('Failed to delete mapping');
+    }
+  };
+
+  const handleRetryPush = async (order: AggregatorOrder) => {
+    if (!order.kot_id) return;
+    await pushAggregatorStatus({ id: order.kot_id, delivery_order_id: order.external_order_id });
+    loadData();
+  };
+
+  const getMenuItemName = (mapping: AggregatorItemMapping) => {
+    const item = menuItems.find(m => m.id === mapping.menu_item_id);
+    const variant = variants.find(v => v.id === mapping.variant_id);
+    return `${item?.name || 'Unknown item'}${variant ? ` (${variant.name})` : ''}`;
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  const platformMappings = mappings.filter(mapping => mapping.platform === platformFilter);
+  const formVariants = variants.filter(variant => variant.menu_item_id === mappingForm.menu_item_id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Bike className="w-8 h-8 text-slate-700" />
+        <h1 className="text-3xl font-bold text-slate-900">Delivery Aggregators</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {integrations.map(integration => (
+          <div key={integration.id} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-slate-900">{integration.display_name}</h2>
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={integration.is_active}
+                  onChange={(e) => updateIntegration(integration.id, { is_active: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                Enabled
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Webhook URL</label>
+              <div className="px-3 py-2 bg-slate-50 rounded-lg border border-slate-200 text-xs font-mono break-all text-slate-700">
+                {webhookUrl(integration.platform)}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Webhook Secret</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={integration.webhook_secret || ''}
+                  onChange={(e) => updateIntegration(integration.id, { webhook_secret: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateIntegration(integration.id, { webhook_secret: generateSecret() })}
+                  className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg transition"
+                  title="Generate secret"
+                >
+                  <KeyRound className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Status Update URL</label>
+                <input
+                  type="url"
+                  value={integration.outbound_url || ''}
+                  onChange={(e) => updateIntegration(integration.id, { outbound_url: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  placeholder="https://partner-api.example.com"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Partner API Key</label>
+                <input
+                  type="password"
+                  value={integration.outbound_api_key || ''}
+                  onChange={(e) => updateIntegration(integration.id, { outbound_api_key: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Orders Created As</label>
+              <select
+                value={integration.kot_user_id || ''}
+                onChange={(e) => updateIntegration(integration.id, { kot_user_id: e.target.value || null })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              >
+                <option value="">Select staff account</option>
+                {staff.map(member => (
+                  <option key={member.id} value={member.id}>{member.full_name}</option>
+                ))}
+              </select>
+            </div>
+
+            <button
+              onClick={() => handleSaveIntegration(integration)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-slate-900">Item Mappings</h2>
+          <select
+            value={platformFilter}
+            onChange={(e) => setPlatformFilter(e.target.value as AggregatorPlatform)}
+            className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {integrations.map(integration => (
+              <option key={integration.platform} value={integration.platform}>{integration.display_name}</option>
+            ))}
+          </select>
+        </div>
+
+        <form onSubmit={handleAddMapping} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+          <input
+            type="text"
+            placeholder="Platform item ID"
+            value={mappingForm.external_item_id}
+            onChange={(e) => setMappingForm({ ...mappingForm, external_item_id: e.target.value })}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            required
+          />
+          <select
+            value={mappingForm.menu_item_id}
+            onChange={(e) => setMappingForm({ ...mappingForm, menu_item_id: e.target.value, variant_id: '' })}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            required
+          >
+            <option value="">Menu item</option>
+            {menuItems.map(item => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+          <select
+            value={mappingForm.variant_id}
+            onChange={(e) => setMappingForm({ ...mappingForm, variant_id: e.target.value })}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            disabled={formVariants.length === 0}
+          >
+            <option value="">No variant</option>
+            {formVariants.map(variant => (
+              <option key={variant.id} value={variant.id}>{variant.name}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Mapping
+          </button>
+        </form>
+
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Platform Item ID</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Menu Item</th>
+              <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {platformMappings.map(mapping => (
+              <tr key={mapping.id} className="border-b border-slate-100 hover:bg-slate-50">
+                <td className="px-4 py-3 text-sm font-mono text-slate-900">{mapping.external_item_id}</td>
+                <td className="px-4 py-3 text-sm text-slate-700">{getMenuItemName(mapping)}</td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => handleDeleteMapping(mapping.id)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    title="Remove Mapping"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {platformMappings.length === 0 && (
+              <tr>
+                <td colSpan={3} className="px-4 py-8 text-center text-sm text-slate-500">No items mapped yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-slate-900">Recent Orders</h2>
+          <button
+            onClick={loadData}
+            className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Received</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Platform</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Order ID</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Result</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Status Sync</th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map(order => (
+                <tr key={order.id} className="border-b border-slate-100 hover:bg-slate-50">
+                  <td className="px-4 py-3 text-sm text-slate-600">
+                    {new Date(order.created_at).toLocaleString('en-IN', {
+                      day: '2-digit',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </td>
+                  <td className="px-4 py-3 text-sm capitalize">{order.platform}</td>
+                  <td className="px-4 py-3 text-sm font-mono text-slate-900">{order.external_order_id}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {order.status === 'created' ? (
+                      <span className="inline-flex items-center gap-1 text-green-700">
+                        <CheckCircle className="w-4 h-4" />
+                        KOT created
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-start gap-1 text-red-700">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                        {order.error}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-600">
+                    {order.push_error ? (
+                      <div className="flex items-center gap-2">
+                        <span className="text-red-700">{order.push_error}</span>
+                        <button
+                          onClick={() => handleRetryPush(order)}
+                          className="p-1 text-blue-600 hover:bg-blue-50 rounded transition"
+                          title="Retry"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      order.last_pushed_status || '-'
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {orders.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-sm text-slate-500">No aggregator orders received yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,51 +1,83 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plus, Trash2, Eye, Receipt, Printer, Edit2 } from 'lucide-react';
-import { useAuth } from '../../contexts/AuthContext';
+import { Minus, Plus, Trash2, Printer, ScanBarcode, Search, X, CheckCircle } from 'lucide-react';
 import { formatINR } from '../../lib/currency';
+import { ReceiptData, ReceiptHeader, renderReceipt } from '../../lib/escpos';
+import { printReceipt } from '../../lib/printers';
+import { buildInvoiceLines, formatOffer } from '../../lib/orders';
+import { PriceList, findPriceList, getChannelPrice } from '../../lib/pricing';
+import { CartLine, DiscountMode, applyCartDiscount, getCartTotal, getDiscountAmount, getQuickTenders } from '../../lib/pos';
+import { MenuSchedule, applyPriceRules, getActiveOffers, isScheduledAvailable } from '../../lib/menuSchedules';
+
+interface MenuCategory {
+  id: string;
+  name: string;
+}
 
 interface MenuItem {
   id: string;
+  category_id: string | null;
   name: string;
   price: number;
+  barcode: string | null;
+  hsn_code: string | null;
+  gst_rate: number | null;
 }
 
-interface BillItem {
+interface Variant {
+  id: string;
   menu_item_id: string;
-  menu_item_name?: string;
-  quantity: number;
-  unit_price: number;
+  name: string;
+  price: number;
+  sku: string | null;
 }
 
-interface Bill {
+interface PaymentMethod {
   id: string;
-  bill_number: string;
-  bill_date: string;
-  customer_name: string;
-  customer_phone: string;
-  subtotal: number;
-  tax_amount: number;
-  total_amount: number;
-  payment_status: string;
-  payment_method: string;
-  notes: string;
+  name: string;
 }
 
+interface CustomerOption {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
+interface CompletedSale {
+  invoice_number: string;
+  total: number;
+  change: number;
+  isCash: boolean;
+  receipt: ReceiptData;
+}
+
+const lineKey = (line: { menu_item_id: string; variant_id?: string | null }) => `${line.menu_item_id}:${line.variant_id || ''}`;
+
+const isCashMethod = (method?: PaymentMethod) => method?.name.trim().toLowerCase() === 'cash';
+
 export function Billing() {
-  const { user } = useAuth();
-  const [bills, setBills] = useState<Bill[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [priceList, setPriceList] = useState<PriceList | null>(null);
+  const [schedules, setSchedules] = useState<MenuSchedule[]>([]);
+  const [companyProfile, setCompanyProfile] = useState<ReceiptHeader | null>(null);
   const [loading, setLoading] = useState(true);
-  const [showModal, setShowModal] = useState(false);
-  const [editingBill, setEditingBill] = useState<Bill | null>(null);
-  const [selectedItems, setSelectedItems] = useState<BillItem[]>([]);
-  const [formData, setFormData] = useState({
-    customer_name: '',
-    customer_phone: '',
-    payment_method: 'cash',
-    payment_status: 'paid',
-    notes: '',
-  });
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [query, setQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [scanMessage, setScanMessage] = useState('');
+  const [variantItem, setVariantItem] = useState<MenuItem | null>(null);
+  const [discountMode, setDiscountMode] = useState<DiscountMode>('percent');
+  const [discountValue, setDiscountValue] = useState('');
+  const [customerId, setCustomerId] = useState('');
+  const [paymentMethodId, setPaymentMethodId] = useState('');
+  const [tendered, setTendered] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [lastSale, setLastSale] = useState<CompletedSale | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadData();
@@ -53,722 +85,544 @@ export function Billing() {
 
   const loadData = async () => {
     try {
-      const [billsRes, menuItemsRes] = await Promise.all([
-        supabase
-          .from('bills')
-          .select('*')
-          .order('created_at', { ascending: false }),
+      const [categoriesRes, menuItemsRes, variantsRes, methodsRes, customersRes, priceListsRes, profileRes, schedulesRes] = await Promise.all([
+        supabase.from('menu_categories').select('id, name').eq('is_active', true).order('display_order'),
         supabase
           .from('menu_items')
-          .select('*')
+          .select('id, category_id, name, price, barcode, hsn_code, gst_rate')
           .eq('is_active', true)
           .eq('is_available', true)
-          .order('name'),
+          .order('display_order'),
+        supabase.from('menu_item_variants').select('id, menu_item_id, name, price, sku').eq('is_active', true).order('display_order'),
+        supabase.from('payment_methods').select('id, name').eq('is_active', true).order('name'),
+        supabase.from('customers').select('id, name, phone').order('name'),
+        supabase.from('price_lists').select('*, items:price_list_items(*)').eq('is_active', true),
+        supabase.from('company_profile').select('*').maybeSingle(),
+        supabase.from('menu_schedules').select('*, items:menu_schedule_items(*)').eq('is_active', true),
       ]);
 
-      if (billsRes.error) throw billsRes.error;
       if (menuItemsRes.error) throw menuItemsRes.error;
+      if (methodsRes.error) throw methodsRes.error;
 
-      setBills(billsRes.data || []);
+      const methods = methodsRes.data || [];
+      setCategories(categoriesRes.data || []);
       setMenuItems(menuItemsRes.data || []);
+      setVariants(variantsRes.data || []);
+      setPaymentMethods(methods);
+      setCustomers(customersRes.data || []);
+      // Counter sales are take-away sales, so they follow the take-away price list.
+      setPriceList(findPriceList(priceListsRes.data || [], 'take_away'));
+      setCompanyProfile(profileRes.data);
+      setSchedules(schedulesRes.data || []);
+      setPaymentMethodId((methods.find(isCashMethod) || methods[0])?.id || '');
     } catch (error) {
-      console.error('Error loading data:', error);
+      console.error('Error loading POS data:', error);
     } finally {
       setLoading(false);
     }
   };
 
-  const generateBillNumber = () => {
-    const date = new Date();
-    const timestamp = date.getTime().toString().slice(-6);
-    return `BILL-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}-${timestamp}`;
+  // Items outside their scheduled hours drop off the counter until they are back
+  const orderableItems = menuItems.filter(item => isScheduledAvailable(item, schedules));
+
+  const getItemVariants = (menuItemId: string) => variants.filter(v => v.menu_item_id === menuItemId);
+
+  const getPrice = (menuItem: MenuItem, variant?: Variant) =>
+    getChannelPrice(priceList, menuItem.id, variant?.id, variant ? variant.price : menuItem.price);
+
+  const addToCart = (menuItem: MenuItem, variant?: Variant) => {
+    const line: CartLine = {
+      menu_item_id: menuItem.id,
+      menu_item_name: variant ? `${menuItem.name} (${variant.name})` : menuItem.name,
+      variant_id: variant?.id || null,
+      variant_name: variant?.name || null,
+      quantity: 1,
+      unit_price: getPrice(menuItem, variant),
+    };
+
+    const existing = cart.find(l => lineKey(l) === lineKey(line));
+    setCart(existing
+      ? cart.map(l => (l === existing ? { ...l, quantity: l.quantity + 1 } : l))
+      : [...cart, line]);
+    setLastSale(null);
   };
 
-  const addItem = () => {
-    if (menuItems.length === 0) {
-      alert('Please add menu items first');
-      return;
+  const handleItemClick = (menuItem: MenuItem) => {
+    if (getItemVariants(menuItem.id).length > 0) {
+      setVariantItem(menuItem);
+    } else {
+      addToCart(menuItem);
     }
-    setSelectedItems([
-      ...selectedItems,
-      { menu_item_id: menuItems[0].id, quantity: 1, unit_price: menuItems[0].price },
-    ]);
   };
 
-  const removeItem = (index: number) => {
-    setSelectedItems(selectedItems.filter((_, i) => i !== index));
+  const updateQuantity = (key: string, quantity: number) => {
+    setCart(quantity <= 0
+      ? cart.filter(line => lineKey(line) !== key)
+      : cart.map(line => (lineKey(line) === key ? { ...line, quantity } : line)));
   };
 
-  const updateItem = (index: number, field: string, value: any) => {
-    const newItems = [...selectedItems];
-    if (field === 'menu_item_id') {
-      const menuItem = menuItems.find((m) => m.id === value);
-      if (menuItem) {
-        newItems[index] = {
-          ...newItems[index],
-          menu_item_id: value,
-          unit_price: menuItem.price,
-        };
-      }
+  // Barcode scanners act as keyboards: they type the code and press Enter.
+  const handleScan = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const code = query.trim();
+    if (!code) return;
+
+    const barcodeItem = orderableItems.find(item => item.barcode && item.barcode === code);
+    const skuVariant = variants.find(variant => variant.sku && variant.sku === code);
+    const skuItem = skuVariant && orderableItems.find(item => item.id === skuVariant.menu_item_id);
+
+    if (barcodeItem) {
+      addToCart(barcodeItem);
+    } else if (skuItem && skuVariant) {
+      addToCart(skuItem, skuVariant);
+    } else if (filteredItems.length === 1) {
+      handleItemClick(filteredItems[0]);
     } else {
-      newItems[index] = { ...newItems[index], [field]: value };
+      setScanMessage(`No item found for "${code}"`);
+      return;
     }
-    setSelectedItems(newItems);
-  };
 
-  const calculateTotals = () => {
-    const subtotal = selectedItems.reduce(
-      (sum, item) => sum + item.quantity * item.unit_price,
-      0
-    );
-    const taxAmount = subtotal * 0.05;
-    const total = subtotal + taxAmount;
-    return { subtotal, taxAmount, total };
+    setScanMessage('');
+    setQuery('');
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const resetSale = () => {
+    setCart([]);
+    setDiscountValue('');
+    setCustomerId('');
+    setTendered('');
+    setPaymentMethodId((paymentMethods.find(isCashMethod) || paymentMethods[0])?.id || '');
+    scanInputRef.current?.focus();
+  };
 
-    if (selectedItems.length === 0) {
-      alert('Please add at least one item');
+  const pricedCart = applyPriceRules(cart, schedules, menuItemId => menuItems.find(m => m.id === menuItemId)?.category_id);
+  const cartTotal = getCartTotal(pricedCart);
+  const discount = getDiscountAmount(cartTotal, discountMode, parseFloat(discountValue) || 0);
+  // Counter sales are always intra-state supplies
+  const invoiceLines = buildInvoiceLines(applyCartDiscount(pricedCart, discount), menuItems, false);
+  const paymentMethod = paymentMethods.find(m => m.id === paymentMethodId);
+  const isCash = isCashMethod(paymentMethod);
+  const tenderedAmount = parseFloat(tendered) || 0;
+  const changeDue = isCash ? Math.max(0, tenderedAmount - invoiceLines.total) : 0;
+
+  const handleCompleteSale = async () => {
+    if (cart.length === 0) return;
+    if (!paymentMethodId) {
+      alert('Select a payment method');
       return;
     }
-
-    try {
-      const { subtotal, taxAmount, total } = calculateTotals();
-
-      if (editingBill) {
-        const { error: billError } = await supabase
-          .from('bills')
-          .update({
-            customer_name: formData.customer_name,
-            customer_phone: formData.customer_phone,
-            subtotal,
-            tax_amount: taxAmount,
-            total_amount: total,
-            payment_status: formData.payment_status,
-            payment_method: formData.payment_method,
-            notes: formData.notes,
-          })
-          .eq('id', editingBill.id);
-
-        if (billError) throw billError;
-
-        await supabase.from('bill_items').delete().eq('bill_id', editingBill.id);
-
-        const billItems = selectedItems.map((item) => {
-          const menuItem = menuItems.find((m) => m.id === item.menu_item_id);
-          return {
-            bill_id: editingBill.id,
-            menu_item_id: item.menu_item_id,
-            menu_item_name: menuItem?.name || '',
-            quantity: item.quantity,
-            unit_price: item.unit_price,
-            total: item.quantity * item.unit_price,
-          };
-        });
-
-        const { error: itemsError } = await supabase.from('bill_items').insert(billItems);
-
-        if (itemsError) throw itemsError;
-
-        alert('Bill updated successfully!');
-      } else {
-        const billNumber = generateBillNumber();
-
-        const { data: bill, error: billError } = await supabase
-          .from('bills')
-          .insert({
-            user_id: user?.id,
-            bill_number: billNumber,
-            customer_name: formData.customer_name,
-            customer_phone: formData.customer_phone,
-            subtotal,
-            tax_amount: taxAmount,
-            total_amount: total,
-            payment_status: formData.payment_status,
-            payment_method: formData.payment_method,
-            notes: formData.notes,
-          })
-          .select()
-          .single();
-
-        if (billError) throw billError;
-
-        const billItems = selectedItems.map((item) => {
-          const menuItem = menuItems.find((m) => m.id === item.menu_item_id);
-          return {
-            bill_id: bill.id,
-            menu_item_id: item.menu_item_id,
-            menu_item_name: menuItem?.name || '',
-            quantity: item.quantity,
-            unit_price: item.unit_price,
-            total: item.quantity * item.unit_price,
-          };
-        });
-
-        const { error: itemsError } = await supabase.from('bill_items').insert(billItems);
-
-        if (itemsError) throw itemsError;
-
-        alert('Bill created successfully!');
-      }
-
-      setShowModal(false);
-      setEditingBill(null);
-      setFormData({
-        customer_name: '',
-        customer_phone: '',
-        payment_method: 'cash',
-        payment_status: 'paid',
-        notes: '',
-      });
-      setSelectedItems([]);
-      loadData();
-    } catch (error) {
-      console.error('Error saving bill:', error);
-      alert('Error saving bill');
+    if (isCash && tendered && tenderedAmount < invoiceLines.total) {
+      alert(`Cash tendered is less than the total of ${formatINR(invoiceLines.total)}`);
+      return;
     }
-  };
 
-  const handleEditBill = async (bill: Bill) => {
+    setSaving(true);
     try {
-      const { data: billItems, error } = await supabase
-        .from('bill_items')
-        .select('*')
-        .eq('bill_id', bill.id);
-
-      if (error) throw error;
-
-      setEditingBill(bill);
-      setFormData({
-        customer_name: bill.customer_name || '',
-        customer_phone: bill.customer_phone || '',
-        payment_method: bill.payment_method,
-        payment_status: bill.payment_status,
-        notes: bill.notes || '',
+      const { data: invoice, error: saleError } = await supabase.rpc('complete_counter_sale', {
+        p_customer_id: customerId || null,
+        p_discount: discount,
+        p_items: invoiceLines.items,
+        p_payment_method_id: paymentMethodId,
+        p_amount_tendered: isCash && tendered ? tenderedAmount : null,
       });
-      setSelectedItems(
-        billItems.map((item: any) => ({
-          menu_item_id: item.menu_item_id,
-          menu_item_name: item.menu_item_name,
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-        }))
-      );
-      setShowModal(true);
+      if (saleError) throw saleError;
+
+      const customer = customers.find(c => c.id === customerId);
+      const receipt: ReceiptData = {
+        title: 'TAX INVOICE',
+        number: invoice.invoice_number,
+        date: invoice.created_at,
+        customer_name: customer?.name,
+        customer_phone: customer?.phone,
+        payment_method: paymentMethod?.name,
+        lines: pricedCart.map(line => ({
+          name: line.menu_item_name,
+          quantity: line.quantity,
+          total: line.quantity * line.unit_price,
+          details: formatOffer(line),
+        })),
+        totals: [
+          ...(discount > 0 ? [{ label: 'Discount', amount: -discount }] : []),
+          { label: 'Taxable Value', amount: invoiceLines.subtotal },
+          { label: 'CGST', amount: invoiceLines.cgst },
+          { label: 'SGST', amount: invoiceLines.sgst },
+        ],
+        total: invoiceLines.total,
+      };
+
+      const sale = { invoice_number: invoice.invoice_number, total: invoiceLines.total, change: changeDue, isCash, receipt };
+      setLastSale(sale);
+      resetSale();
+      handlePrintReceipt(sale);
     } catch (error) {
-      console.error('Error loading bill for edit:', error);
-      alert('Error loading bill');
+      console.error('Error completing sale:', error);
+      alert('Error completing sale: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
     }
   };
 
-  const handlePrintBill = async (bill: Bill) => {
-    try {
-      const { data: billItems, error } = await supabase
-        .from('bill_items')
-        .select('*')
-        .eq('bill_id', bill.id);
-
-      if (error) throw error;
-
-      const printWindow = window.open('', '_blank');
-      if (!printWindow) return;
-
-      printWindow.document.write(`
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>Bill - ${bill.bill_number}</title>
-          <style>
-            * {
-              margin: 0;
-              padding: 0;
-              box-sizing: border-box;
-            }
-            body {
-              font-family: 'Courier New', monospace;
-              width: 80mm;
-              padding: 5mm;
-              font-size: 12px;
-              line-height: 1.4;
-            }
-            .center {
-              text-align: center;
-            }
-            .bold {
-              font-weight: bold;
-            }
-            .header {
-              text-align: center;
-              margin-bottom: 10px;
-              padding-bottom: 10px;
-              border-bottom: 1px dashed #000;
-            }
-            .header h1 {
-              font-size: 18px;
-              margin-bottom: 5px;
-            }
-            .header h2 {
-              font-size: 14px;
-              margin-bottom: 3px;
-            }
-            .info {
-              margin-bottom: 10px;
-              padding-bottom: 10px;
-              border-bottom: 1px dashed #000;
-              font-size: 11px;
-            }
-            .info div {
-              margin-bottom: 2px;
-            }
-            .items {
-              margin-bottom: 10px;
-              padding-bottom: 10px;
-              border-bottom: 1px dashed #000;
-            }
-            .item {
-              margin-bottom: 8px;
-            }
-            .item-name {
-              font-weight: bold;
-              margin-bottom: 2px;
-            }
-            .item-details {
-              display: flex;
-              justify-content: space-between;
-              font-size: 11px;
-            }
-            .totals {
-              margin-bottom: 10px;
-            }
-            .totals div {
-              display: flex;
-              justify-content: space-between;
-              margin-bottom: 3px;
-            }
-            .grand-total {
-              font-size: 14px;
-              font-weight: bold;
-              padding-top: 5px;
-              border-top: 1px solid #000;
-              margin-top: 5px;
-            }
-            .footer {
-              text-align: center;
-              margin-top: 15px;
-              padding-top: 10px;
-              border-top: 1px dashed #000;
-              font-size: 11px;
-            }
-            @media print {
-              body {
-                width: 80mm;
-                margin: 0;
-                padding: 5mm;
-              }
-              @page {
-                size: 80mm auto;
-                margin: 0;
-              }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>BILL RECEIPT</h1>
-            <h2>${bill.bill_number}</h2>
-            <div>${new Date(bill.bill_date).toLocaleDateString('en-IN', {
-              day: '2-digit',
-              month: '2-digit',
-              year: 'numeric',
-              hour: '2-digit',
-              minute: '2-digit'
-            })}</div>
-          </div>
-
-          <div class="info">
-            ${bill.customer_name ? `<div><strong>Customer:</strong> ${bill.customer_name}</div>` : ''}
-            ${bill.customer_phone ? `<div><strong>Phone:</strong> ${bill.customer_phone}</div>` : ''}
-            <div><strong>Payment:</strong> ${bill.payment_method.toUpperCase()}</div>
-          </div>
-
-          <div class="items">
-            ${billItems
-              .map(
-                (item: any) => `
-              <div class="item">
-                <div class="item-name">${item.menu_item_name}</div>
-                <div class="item-details">
-                  <span>${item.quantity} x ${formatINR(item.unit_price)}</span>
-                  <span>${formatINR(item.total)}</span>
-                </div>
-              </div>
-            `
-              )
-              .join('')}
-          </div>
-
-          <div class="totals">
-            <div>
-              <span>Subtotal:</span>
-              <span>${formatINR(bill.subtotal)}</span>
-            </div>
-            <div>
-              <span>Tax (5%):</span>
-              <span>${formatINR(bill.tax_amount)}</span>
-            </div>
-            <div class="grand-total">
-              <span>TOTAL:</span>
-              <span>${formatINR(bill.total_amount)}</span>
-            </div>
-          </div>
-
-          ${bill.notes ? `<div style="margin-top: 10px; font-size: 11px; border-top: 1px dashed #000; padding-top: 10px;"><strong>Notes:</strong> ${bill.notes}</div>` : ''}
-
-          <div class="footer">
-            <div>Thank you for your visit!</div>
-            <div>Please visit again</div>
-          </div>
-
-          <script>
-            window.onload = function() {
-              window.print();
-            }
-          </script>
-        </body>
-        </html>
-      `);
-
-      printWindow.document.close();
-    } catch (error) {
-      console.error('Error printing bill:', error);
-      alert('Error printing bill');
-    }
+  const handlePrintReceipt = async (sale: CompletedSale) => {
+    const printed = await printReceipt((builder, printer) =>
+      renderReceipt(builder, companyProfile, sale.receipt, { openCashDrawer: printer.open_cash_drawer && sale.isCash })
+    );
+    if (printed) return;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    const { receipt } = sale;
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Receipt - ${receipt.number}</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { font-family: 'Courier New', monospace; width: 80mm; padding: 5mm; font-size: 12px; line-height: 1.4; }
+          .header { text-align: center; margin-bottom: 10px; padding-bottom: 10px; border-bottom: 1px dashed #000; }
+          .header h1 { font-size: 16px; margin-bottom: 3px; }
+          .section { margin-bottom: 10px; padding-bottom: 10px; border-bottom: 1px dashed #000; font-size: 11px; }
+          .row { display: flex; justify-content: space-between; margin-bottom: 3px; }
+          .grand-total { font-size: 14px; font-weight: bold; padding-top: 5px; border-top: 1px solid #000; }
+          .footer { text-align: center; font-size: 11px; }
+          @media print { @page { size: 80mm auto; margin: 0; } }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          ${companyProfile?.company_name ? `<h1>${companyProfile.company_name}</h1>` : ''}
+          ${companyProfile?.gst_number ? `<div>GSTIN: ${companyProfile.gst_number}</div>` : ''}
+          <div><strong>${receipt.title}</strong></div>
+          <div>${receipt.number}</div>
+          <div>${new Date(receipt.date).toLocaleString('en-IN')}</div>
+        </div>
+        <div class="section">
+          ${receipt.customer_name ? `<div>Customer: ${receipt.customer_name}</div>` : ''}
+          <div>Payment: ${receipt.payment_method || '-'}</div>
+        </div>
+        <div class="section">
+          ${receipt.lines.map(line => `
+            <div class="row"><span>${line.quantity} x ${line.name}</span><span>${formatINR(line.total)}</span></div>
+            ${(line.details || []).map(detail => `<div style="font-size: 10px; padding-left: 8px;">${detail}</div>`).join('')}
+          `).join('')}
+        </div>
+        <div class="section">
+          ${receipt.totals.map(total => `
+            <div class="row"><span>${total.label}</span><span>${formatINR(total.amount)}</span></div>
+          `).join('')}
+          <div class="row grand-total"><span>TOTAL</span><span>${formatINR(receipt.total)}</span></div>
+        </div>
+        <div class="footer">Thank you for your visit!</div>
+        <script>
+          window.onload = function() {
+            window.print();
+          }
+        </script>
+      </body>
+      </html>
+    `);
+    printWindow.document.close();
   };
 
-  const { subtotal, taxAmount, total } = calculateTotals();
+  const searchTerm = query.trim().toLowerCase();
+  const filteredItems = orderableItems.filter(item =>
+    (categoryFilter === 'all' || item.category_id === categoryFilter) &&
+    (!searchTerm || item.name.toLowerCase().includes(searchTerm) || item.barcode === query.trim())
+  );
 
   if (loading) {
-    return <div className="p-6">Loading...</div>;
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
   }
 
   return (
-    <div className="p-6">
-      <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold text-slate-800">Billing</h1>
-        <button
-          onClick={() => setShowModal(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition"
-        >
-          <Plus className="w-5 h-5" />
-          Create Bill
-        </button>
-      </div>
+    <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+      <div className="xl:col-span-2 space-y-4">
+        <h1 className="text-3xl font-bold text-slate-900">Counter POS</h1>
+
+        <div className="relative">
+          <ScanBarcode className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            ref={scanInputRef}
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setScanMessage('');
+            }}
+            onKeyDown={handleScan}
+            placeholder="Scan barcode or search items"
+            className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            autoFocus
+          />
+          {scanMessage && <p className="text-sm text-red-600 mt-1">{scanMessage}</p>}
+        </div>
 
-      <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-slate-50 border-b border-slate-200">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
-                  Bill Number
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
-                  Date
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
-                  Customer
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
-                  Phone
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
-                  Amount
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
-                  Payment
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase">
-                  Status
-                </th>
-                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-200">
-              {bills.length === 0 ? (
-                <tr>
-                  <td colSpan={8} className="px-6 py-8 text-center text-slate-500">
-                    No bills yet. Create your first bill to get started.
-                  </td>
-                </tr>
-              ) : (
-                bills.map((bill) => (
-                  <tr key={bill.id} className="hover:bg-slate-50">
-                    <td className="px-6 py-4 text-sm font-medium text-slate-900">
-                      {bill.bill_number}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-slate-600">
-                      {new Date(bill.bill_date).toLocaleDateString()}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-slate-600">
-                      {bill.customer_name || '-'}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-slate-600">
-                      {bill.customer_phone || '-'}
-                    </td>
-                    <td className="px-6 py-4 text-sm font-medium text-slate-900">
-                      {formatINR(bill.total_amount)}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-slate-600 capitalize">
-                      {bill.payment_method}
-                    </td>
-                    <td className="px-6 py-4">
-                      <span
-                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          bill.payment_status === 'paid'
-                            ? 'bg-green-100 text-green-800'
-                            : 'bg-yellow-100 text-yellow-800'
-                        }`}
-                      >
-                        {bill.payment_status}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 text-right">
-                      <div className="flex items-center justify-end gap-2">
-                        <button
-                          onClick={() => handleEditBill(bill)}
-                          className="p-2 text-blue-600 hover:bg-blue-50 rounded transition"
-                          title="Edit Bill"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => handlePrintBill(bill)}
-                          className="p-2 text-green-600 hover:bg-green-50 rounded transition"
-                          title="Print Bill"
-                        >
-                          <Printer className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {[{ id: 'all', name: 'All' }, ...categories].map(category => (
+            <button
+              key={category.id}
+              onClick={() => setCategoryFilter(category.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition ${
+                categoryFilter === category.id
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white border border-slate-200 text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              {category.name}
+            </button>
+          ))}
         </div>
-      </div>
 
-      {showModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
-            <div className="p-6 border-b border-slate-200 sticky top-0 bg-white">
-              <h2 className="text-xl font-bold text-slate-800">
-                {editingBill ? 'Edit Bill' : 'Create New Bill'}
-              </h2>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {filteredItems.map(item => {
+            const itemVariants = getItemVariants(item.id);
+            return (
+              <button
+                key={item.id}
+                onClick={() => handleItemClick(item)}
+                className="bg-white rounded-xl border border-slate-200 p-4 text-left hover:border-blue-400 hover:shadow-md transition"
+              >
+                <div className="font-semibold text-slate-900 line-clamp-2">{item.name}</div>
+                <div className="text-sm text-slate-600 mt-1">
+                  {itemVariants.length > 0 ? `${itemVariants.length} options` : formatINR(getPrice(item))}
+                </div>
+                {getActiveOffers(item, schedules).map(offer => (
+                  <div key={offer.id} className="text-xs font-medium text-green-700 mt-1">{offer.name}</div>
+                ))}
+              </button>
+            );
+          })}
+          {filteredItems.length === 0 && (
+            <div className="col-span-full text-center py-12 text-slate-500">
+              <Search className="w-8 h-8 mx-auto mb-2 text-slate-300" />
+              No items match
             </div>
+          )}
+        </div>
+      </div>
 
-            <form onSubmit={handleSubmit} className="p-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">
-                    Customer Name (Optional)
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.customer_name}
-                    onChange={(e) =>
-                      setFormData({ ...formData, customer_name: e.target.value })
-                    }
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                    placeholder="Enter customer name"
-                  />
-                </div>
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 flex flex-col xl:sticky xl:top-6 xl:max-h-[calc(100vh-3rem)]">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-900">Current Sale</h2>
+          {cart.length > 0 && (
+            <button onClick={resetSale} className="text-sm text-red-600 hover:text-red-700 font-medium">
+              Clear
+            </button>
+          )}
+        </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">
-                    Phone (Optional)
-                  </label>
-                  <input
-                    type="tel"
-                    value={formData.customer_phone}
-                    onChange={(e) =>
-                      setFormData({ ...formData, customer_phone: e.target.value })
-                    }
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                    placeholder="Enter phone number"
-                  />
-                </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {lastSale && cart.length === 0 && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg space-y-2">
+              <div className="flex items-center gap-2 text-green-800 font-semibold">
+                <CheckCircle className="w-5 h-5" />
+                {lastSale.invoice_number} · {formatINR(lastSale.total)}
+              </div>
+              {lastSale.isCash && lastSale.change > 0 && (
+                <div className="text-2xl font-bold text-green-900">Change: {formatINR(lastSale.change)}</div>
+              )}
+              <button
+                onClick={() => handlePrintReceipt(lastSale)}
+                className="px-3 py-1.5 bg-white border border-green-300 text-green-800 rounded-lg text-sm font-medium hover:bg-green-100 transition flex items-center gap-2"
+              >
+                <Printer className="w-4 h-4" />
+                Reprint Receipt
+              </button>
+            </div>
+          )}
+
+          {pricedCart.map((line, index) => (
+            <div key={lineKey(line)} className="flex items-center gap-2 p-2 rounded-lg hover:bg-slate-50">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-slate-900 truncate">{line.menu_item_name}</div>
+                <div className="text-xs text-slate-500">{formatINR(cart[index].unit_price)}</div>
+                {formatOffer(line).map(offer => (
+                  <div key={offer} className="text-xs font-medium text-green-700">{offer}</div>
+                ))}
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => updateQuantity(lineKey(line), line.quantity - 1)}
+                  className="p-1 rounded bg-slate-100 hover:bg-slate-200 transition"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <input
+                  type="number"
+                  min="0"
+                  value={line.quantity}
+                  onChange={(e) => updateQuantity(lineKey(line), parseFloat(e.target.value) || 0)}
+                  className="w-12 px-1 py-1 border border-slate-300 rounded text-center text-sm"
+                />
+                <button
+                  onClick={() => updateQuantity(lineKey(line), line.quantity + 1)}
+                  className="p-1 rounded bg-slate-100 hover:bg-slate-200 transition"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="w-20 text-right text-sm font-semibold text-slate-900">{formatINR(line.quantity * line.unit_price)}</div>
+              <button
+                onClick={() => updateQuantity(lineKey(line), 0)}
+                className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">
-                    Payment Method
-                  </label>
-                  <select
-                    value={formData.payment_method}
-                    onChange={(e) =>
-                      setFormData({ ...formData, payment_method: e.target.value })
-                    }
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                  >
-                    <option value="cash">Cash</option>
-                    <option value="card">Card</option>
-                    <option value="upi">UPI</option>
-                    <option value="other">Other</option>
-                  </select>
-                </div>
+          {cart.length === 0 && !lastSale && (
+            <p className="text-center text-sm text-slate-500 py-8">Scan or tap items to start a sale</p>
+          )}
+        </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">
-                    Payment Status
-                  </label>
-                  <select
-                    value={formData.payment_status}
-                    onChange={(e) =>
-                      setFormData({ ...formData, payment_status: e.target.value })
-                    }
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                  >
-                    <option value="paid">Paid</option>
-                    <option value="pending">Pending</option>
-                  </select>
-                </div>
+        <div className="p-4 border-t border-slate-200 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-slate-700 w-20">Discount</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={discountValue}
+              onChange={(e) => setDiscountValue(e.target.value)}
+              className="flex-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+              placeholder="0"
+            />
+            <div className="flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+              {(['percent', 'amount'] as DiscountMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setDiscountMode(mode)}
+                  className={`px-3 py-1.5 ${discountMode === mode ? 'bg-slate-800 text-white' : 'bg-white text-slate-700'}`}
+                >
+                  {mode === 'percent' ? '%' : '₹'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between text-slate-600">
+              <span>Items</span>
+              <span>{formatINR(cartTotal)}</span>
+            </div>
+            {discount > 0 && (
+              <div className="flex justify-between text-green-700">
+                <span>Discount</span>
+                <span>-{formatINR(discount)}</span>
               </div>
+            )}
+            <div className="flex justify-between text-slate-600">
+              <span>CGST + SGST</span>
+              <span>{formatINR(invoiceLines.tax)}</span>
+            </div>
+            <div className="flex justify-between text-xl font-bold text-slate-900 pt-1 border-t border-slate-200">
+              <span>Total</span>
+              <span>{formatINR(invoiceLines.total)}</span>
+            </div>
+          </div>
 
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-slate-700 mb-1">
-                  Notes (Optional)
-                </label>
-                <textarea
-                  value={formData.notes}
-                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                  rows={2}
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                  placeholder="Add any notes"
+          <select
+            value={customerId}
+            onChange={(e) => setCustomerId(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+          >
+            <option value="">Walk-in customer</option>
+            {customers.map(customer => (
+              <option key={customer.id} value={customer.id}>
+                {customer.name}{customer.phone ? ` · ${customer.phone}` : ''}
+              </option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-3 gap-2">
+            {paymentMethods.map(method => (
+              <button
+                key={method.id}
+                onClick={() => setPaymentMethodId(method.id)}
+                className={`px-2 py-2 rounded-lg text-sm font-medium border transition ${
+                  paymentMethodId === method.id
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+                }`}
+              >
+                {method.name}
+              </button>
+            ))}
+          </div>
+
+          {isCash && cart.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-slate-700 w-20">Tendered</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={tendered}
+                  onChange={(e) => setTendered(e.target.value)}
+                  className="flex-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                  placeholder={invoiceLines.total.toFixed(2)}
                 />
               </div>
-
-              <div className="mb-6">
-                <div className="flex items-center justify-between mb-3">
-                  <label className="block text-sm font-medium text-slate-700">Menu Items</label>
+              <div className="flex gap-2">
+                {getQuickTenders(invoiceLines.total).map(amount => (
                   <button
-                    type="button"
-                    onClick={addItem}
-                    className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white text-sm font-medium rounded-lg transition"
+                    key={amount}
+                    onClick={() => setTendered(String(amount))}
+                    className="flex-1 px-2 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-sm font-medium transition"
                   >
-                    Add Menu Item
+                    {formatINR(amount)}
                   </button>
-                </div>
-
-                <div className="space-y-3">
-                  {selectedItems.map((item, index) => {
-                    const menuItem = menuItems.find((m) => m.id === item.menu_item_id);
-                    return (
-                      <div key={index} className="bg-slate-50 p-4 rounded-lg border border-slate-200">
-                        <div className="flex gap-3 items-start">
-                          <select
-                            value={item.menu_item_id}
-                            onChange={(e) => updateItem(index, 'menu_item_id', e.target.value)}
-                            className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
-                          >
-                            {menuItems.map((menuItem) => (
-                              <option key={menuItem.id} value={menuItem.id}>
-                                {menuItem.name} - {formatINR(menuItem.price)}
-                              </option>
-                            ))}
-                          </select>
-
-                          <input
-                            type="number"
-                            min="1"
-                            step="1"
-                            value={item.quantity}
-                            onChange={(e) => updateItem(index, 'quantity', parseFloat(e.target.value))}
-                            className="w-24 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                            placeholder="Qty"
-                          />
-
-                          <input
-                            type="number"
-                            min="0"
-                            step="0.01"
-                            value={item.unit_price}
-                            onChange={(e) => updateItem(index, 'unit_price', parseFloat(e.target.value))}
-                            className="w-32 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                            placeholder="Price"
-                          />
-
-                          <div className="w-32 px-4 py-2 bg-slate-100 border border-slate-300 rounded-lg text-slate-700 font-medium">
-                            {formatINR(item.quantity * item.unit_price)}
-                          </div>
-
-                          <button
-                            type="button"
-                            onClick={() => removeItem(index)}
-                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
-                          >
-                            <Trash2 className="w-5 h-5" />
-                          </button>
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-
-                {selectedItems.length === 0 && (
-                  <div className="text-center py-8 text-slate-500">
-                    No items added. Click "Add Menu Item" to start.
-                  </div>
-                )}
+                ))}
               </div>
-
-              {selectedItems.length > 0 && (
-                <div className="bg-slate-50 rounded-lg p-4 mb-6 space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-slate-600">Subtotal:</span>
-                    <span className="font-medium text-slate-900">{formatINR(subtotal)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-slate-600">Tax (5%):</span>
-                    <span className="font-medium text-slate-900">{formatINR(taxAmount)}</span>
-                  </div>
-                  <div className="flex justify-between text-lg font-bold border-t border-slate-300 pt-2">
-                    <span className="text-slate-800">Total:</span>
-                    <span className="text-blue-600">{formatINR(total)}</span>
-                  </div>
+              {tendered && (
+                <div className={`flex justify-between text-lg font-bold ${tenderedAmount < invoiceLines.total ? 'text-red-600' : 'text-green-700'}`}>
+                  <span>{tenderedAmount < invoiceLines.total ? 'Short' : 'Change'}</span>
+                  <span>{formatINR(Math.abs(tenderedAmount - invoiceLines.total))}</span>
                 </div>
               )}
+            </div>
+          )}
+
+          <button
+            onClick={handleCompleteSale}
+            disabled={cart.length === 0 || saving}
+            className="w-full py-3 bg-green-600 hover:bg-green-700 text-white text-lg font-bold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : `Charge ${formatINR(invoiceLines.total)}`}
+          </button>
+        </div>
+      </div>
 
-              <div className="flex gap-3">
-                <button
-                  type="submit"
-                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition"
-                >
-                  {editingBill ? 'Update Bill' : 'Create Bill'}
-                </button>
+      {variantItem && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-sm w-full">
+            <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+              <h2 className="text-xl font-bold text-slate-900">{variantItem.name}</h2>
+              <button onClick={() => setVariantItem(null)} className="text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 grid grid-cols-2 gap-3">
+              {getItemVariants(variantItem.id).map(variant => (
                 <button
-                  type="button"
+                  key={variant.id}
                   onClick={() => {
-                    setShowModal(false);
-                    setEditingBill(null);
-                    setFormData({
-                      customer_name: '',
-                      customer_phone: '',
-                      payment_method: 'cash',
-                      payment_status: 'paid',
-                      notes: '',
-                    });
-                    setSelectedItems([]);
+                    addToCart(variantItem, variant);
+                    setVariantItem(null);
+                    scanInputRef.current?.focus();
                   }}
-                  className="flex-1 px-4 py-2 bg-slate-200 hover:bg-slate-300 text-slate-700 font-medium rounded-lg transition"
+                  className="p-4 border border-slate-200 rounded-lg text-left hover:border-blue-400 hover:bg-blue-50 transition"
                 >
-                  Cancel
+                  <div className="font-semibold text-slate-900">{variant.name}</div>
+                  <div className="text-sm text-slate-600">{formatINR(getPrice(variantItem, variant))}</div>
                 </button>
-              </div>
-            </form>
+              ))}
+            </div>
           </div>
         </div>
       )}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { IndianRupee, ClipboardList, TrendingUp } from 'lucide-react';
+import { formatINR } from '../../lib/currency';
+import { CHANNEL_LABELS, OrderChannel } from '../../lib/pricing';
+
+interface ChannelKOT {
+  id: string;
+  order_type: OrderChannel;
+  delivery_platform: string | null;
+  items: { quantity: number; unit_price: number }[];
+}
+
+interface CounterSale {
+  id: string;
+  items: { quantity: number; total: number }[];
+}
+
+interface ChannelSummary {
+  key: string;
+  label: string;
+  orders: number;
+  items: number;
+  revenue: number;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Delivery orders are split by platform so each app's prices can be compared.
+function getChannel(kot: ChannelKOT) {
+  const platform = kot.order_type === 'delivery' ? (kot.delivery_platform || '').trim() : '';
+  return {
+    key: `${kot.order_type}:${platform.toLowerCase()}`,
+    label: platform ? `${CHANNEL_LABELS[kot.order_type]} · ${platform}` : CHANNEL_LABELS[kot.order_type],
+  };
+}
+
+const COUNTER_CHANNEL = { key: 'counter', label: 'Counter POS' };
+
+export function ChannelReport() {
+  const [kots, setKots] = useState<ChannelKOT[]>([]);
+  const [counterSales, setCounterSales] = useState<CounterSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState({ start: today(), end: today() });
+
+  useEffect(() => {
+    loadKOTs();
+  }, [dateRange]);
+
+  const loadKOTs = async () => {
+    try {
+      // Guest QR orders only count once staff have confirmed them
+      let query = supabase
+        .from('kots')
+        .select('id, order_type, delivery_platform, items:kot_items(quantity, unit_price)')
+        .neq('status', 'cancelled')
+        .eq('awaiting_confirmation', false);
+
+      let counterQuery = supabase
+        .from('invoices')
+        .select('id, items:invoice_items(quantity, total)')
+        .eq('counter_sale', true)
+        .neq('status', 'cancelled');
+
+      if (dateRange.start) {
+        const start = new Date(`${dateRange.start}T00:00:00`).toISOString();
+        query = query.gte('created_at', start);
+        counterQuery = counterQuery.gte('created_at', start);
+      }
+      if (dateRange.end) {
+        const end = new Date(`${dateRange.end}T23:59:59.999`).toISOString();
+        query = query.lte('created_at', end);
+        counterQuery = counterQuery.lte('created_at', end);
+      }
+
+      const [kotsRes, counterRes] = await Promise.all([query, counterQuery]);
+      if (kotsRes.error) throw kotsRes.error;
+      if (counterRes.error) throw counterRes.error;
+      setKots(kotsRes.data || []);
+      setCounterSales(counterRes.data || []);
+    } catch (error) {
+      console.error('Error loading channel revenue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summaries: ChannelSummary[] = [];
+  const addOrder = (channel: { key: string; label: string }, lines: { quantity: number; amount: number }[]) => {
+    let summary = summaries.find(s => s.key === channel.key);
+    if (!summary) {
+      summary = { ...channel, orders: 0, items: 0, revenue: 0 };
+      summaries.push(summary);
+    }
+    summary.orders += 1;
+    for (const line of lines) {
+      summary.items += line.quantity;
+      summary.revenue += line.amount;
+    }
+  };
+
+  for (const kot of kots) {
+    addOrder(getChannel(kot), (kot.items || []).map(item => ({
+      quantity: Number(item.quantity),
+      amount: Number(item.quantity) * Number(item.unit_price),
+    })));
+  }
+  // Counter sales are taken after their bill discount
+  for (const sale of counterSales) {
+    addOrder(COUNTER_CHANNEL, (sale.items || []).map(item => ({
+      quantity: Number(item.quantity),
+      amount: Number(item.total),
+    })));
+  }
+  summaries.sort((a, b) => b.revenue - a.revenue);
+
+  const totalRevenue = summaries.reduce((sum, row) => sum + row.revenue, 0);
+  const totalOrders = summaries.reduce((sum, row) => sum + row.orders, 0);
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold text-slate-900">Revenue by Channel</h1>
+        <div className="flex gap-3">
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">From Date</label>
+            <input
+              type="date"
+              value={dateRange.start}
+              onChange={(e) => setDateRange({ ...dateRange, start: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">To Date</label>
+            <input
+              type="date"
+              value={dateRange.end}
+              onChange={(e) => setDateRange({ ...dateRange, end: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <IndianRupee className="w-4 h-4" />
+            Revenue
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{formatINR(totalRevenue)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <ClipboardList className="w-4 h-4" />
+            Orders
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{totalOrders}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <TrendingUp className="w-4 h-4" />
+            Average Order
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">
+            {formatINR(totalOrders > 0 ? totalRevenue / totalOrders : 0)}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Channels</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Channel</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Orders</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Items Sold</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Revenue</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Average Order</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600 w-1/4">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(row => {
+                const share = totalRevenue > 0 ? (row.revenue / totalRevenue) * 100 : 0;
+                return (
+                  <tr key={row.key} className="border-b border-slate-100 hover:bg-slate-50">
+                    <td className="px-4 py-3 text-sm font-medium text-slate-900">{row.label}</td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-600">{row.orders}</td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-600">{row.items}</td>
+                    <td className="px-4 py-3 text-sm text-right font-medium text-slate-900">{formatINR(row.revenue)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-slate-600">{formatINR(row.revenue / row.orders)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-600" style={{ width: `${share}%` }} />
+                        </div>
+                        <span className="text-xs text-slate-600 w-12 text-right">{share.toFixed(1)}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {summaries.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-sm text-slate-500">No orders in this period</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ interface CompanyProfileData {
   ifsc_code: string;
   terms_conditions: string;
   logo_url: string;
+  portion_pricing_rule: string;
+  target_food_cost_percent: string;
 }
 
 export function CompanyProfile() {
@@ -51,6 +53,8 @@ export function CompanyProfile() {
     ifsc_code: '',
     terms_conditions: 'Payment due within 30 days',
     logo_url: '',
+    portion_pricing_rule: 'highest',
+    target_food_cost_percent: '30',
   });
 
   useEffect(() => {
@@ -435,6 +439,37 @@ export function CompanyProfile() {
                 placeholder="Payment due within 30 days. Late payments subject to 2% monthly interest."
               />
             </div>
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Half & Half Pricing
+              </label>
+              <select
+                value={profile.portion_pricing_rule}
+                onChange={(e) => handleChange('portion_pricing_rule', e.target.value)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="highest">Charge the highest priced portion</option>
+                <option value="average">Charge the average of all portions</option>
+              </select>
+            </div>
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Target Food Cost (%)
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                step="0.1"
+                required
+                value={profile.target_food_cost_percent}
+                onChange={(e) => handleChange('target_food_cost_percent', e.target.value)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                Menu items are flagged when an ingredient price change pushes their plate cost above this share of the price
+              </p>
+            </div>
           </div>
         </div>
 
@@ -56,9 +56,11 @@ export function Dashboard({ setCurrentView }: DashboardProps) {
       const totalProducts = products.data?.length || 0;
       const lowStockProducts = products.data?.filter(p => p.quantity <= p.reorder_level).length || 0;
 
-      const totalInvoices = invoices.data?.length || 0;
-      const pendingInvoices = invoices.data?.filter(i => i.status !== 'paid').length || 0;
-      const totalRevenue = invoices.data?.reduce((sum, inv) => sum + (inv.status === 'paid' ? Number(inv.total) : 0), 0) || 0;
+      // Split bills are counted through their parts
+      const billedInvoices = invoices.data?.filter(i => i.status !== 'split');
+      const totalInvoices = billedInvoices?.length || 0;
+      const pendingInvoices = billedInvoices?.filter(i => i.status !== 'paid').length || 0;
+      const totalRevenue = billedInvoices?.reduce((sum, inv) => sum + (inv.status === 'paid' ? Number(inv.total) : 0), 0) || 0;
 
       const totalCustomers = customers.count || 0;
 
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
 import { Printer, X as XIcon, FileText, Receipt } from 'lucide-react';
 import { formatINR } from '../../lib/currency';
+import { groupInvoiceItems } from '../../lib/orders';
 
 interface InvoiceViewProps {
   invoiceId: string;
@@ -262,11 +263,16 @@ export function InvoiceView({ invoiceId, onClose }: InvoiceViewProps) {
                     </tr>
                   </thead>
                   <tbody>
-                    {items.map((item: any) => (
-                      <tr key={item.id} className="border-b border-dashed border-slate-300">
-                        <td className="py-1">{item.menu_item_name || item.product_name || item.product?.description || item.product?.name || 'N/A'}</td>
-                        <td className="text-center py-1">{item.quantity}</td>
-                        <td className="text-right py-1">{formatINR(item.total)}</td>
+                    {groupInvoiceItems(items).map((line: any) => (
+                      <tr key={line.item.id} className="border-b border-dashed border-slate-300">
+                        <td className="py-1">
+                          {line.name || line.item.product?.description || line.item.product?.name || 'N/A'}
+                          {line.details.map((detail: string) => (
+                            <div key={detail} className="text-[10px] pl-2">{detail}</div>
+                          ))}
+                        </td>
+                        <td className="text-center py-1">{line.quantity}</td>
+                        <td className="text-right py-1">{formatINR(line.total)}</td>
                       </tr>
                     ))}
                   </tbody>
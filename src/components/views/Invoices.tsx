@@ -1,10 +1,58 @@
 import { useEffect, useState } from 'react';
 import { supabase, Invoice, Customer, Product, InvoiceItem, CompanyProfile } from '../../lib/supabase';
-import { Plus, Search, Eye, CreditCard as Edit, Trash2, Printer, ChevronDown, UserPlus } from 'lucide-react';
+import { Plus, Search, Eye, CreditCard as Edit, Trash2, Printer, ChevronDown, UserPlus, Scissors, X } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { InvoiceView } from './InvoiceView';
 import { formatINR } from '../../lib/currency';
-import { calculateGST, calculateItemGST } from '../../lib/gst';
+import { calculateGST } from '../../lib/gst';
+import {
+  Combo,
+  OrderLine,
+  buildComboComponents,
+  buildInvoiceLines,
+  generateInvoiceNumber,
+  getSlotOptions,
+  groupInvoiceItems,
+} from '../../lib/orders';
+import { SplitMode, buildSplitParts, getEqualShares, getItemShares, getSeatShares } from '../../lib/splitBill';
+import { CHANNEL_LABELS, PriceList, applyMarkup, getChannelPrice } from '../../lib/pricing';
+import { renderReceipt } from '../../lib/escpos';
+import { printReceipt } from '../../lib/printers';
+import { MenuSchedule, applyPriceRules, isScheduledAvailable } from '../../lib/menuSchedules';
+
+interface SplitInvoiceItem {
+  id: string;
+  invoice_id?: string;
+  created_at?: string;
+  menu_item_name?: string | null;
+  product_name?: string | null;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  gst_rate?: number | null;
+  seat?: number | null;
+  combo_group?: string | null;
+  combo_name?: string | null;
+  combo_quantity?: number | null;
+}
+
+interface SplitSource {
+  id: string;
+  invoice_number: string;
+  customer_id: string | null;
+  is_interstate: boolean;
+  place_of_supply: string | null;
+  due_date: string;
+  items: SplitInvoiceItem[];
+}
+
+interface MenuItemVariant {
+  id: string;
+  name: string;
+  price: number;
+  is_active: boolean;
+  display_order: number;
+}
 
 export function Invoices() {
   const { profile, user } = useAuth();
@@ -19,11 +67,26 @@ export function Invoices() {
   const [viewInvoiceId, setViewInvoiceId] = useState<string | null>(null);
   const [printDropdownOpen, setPrintDropdownOpen] = useState<string | null>(null);
   const [showCustomerForm, setShowCustomerForm] = useState(false);
-  const [selectedItems, setSelectedItems] = useState<Array<{ menu_item_id: string; quantity: number; custom_price?: number }>>([]);
+  const [selectedItems, setSelectedItems] = useState<Array<{
+    menu_item_id: string;
+    variant_id?: string;
+    combo_id?: string;
+    combo_choices?: string[];
+    quantity: number;
+    custom_price?: number;
+  }>>([]);
+  const [combos, setCombos] = useState<Combo[]>([]);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [schedules, setSchedules] = useState<MenuSchedule[]>([]);
+  const [splitSource, setSplitSource] = useState<SplitSource | null>(null);
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal');
+  const [splitCount, setSplitCount] = useState(2);
+  const [splitAssignments, setSplitAssignments] = useState<number[]>([]);
   const [formData, setFormData] = useState({
     customer_id: '',
     tax_rate: '10',
     include_gst: true,
+    price_list_id: '',
   });
   const [newCustomerData, setNewCustomerData] = useState({
     name: '',
@@ -50,15 +113,22 @@ export function Invoices() {
 
   const loadData = async () => {
     try {
-      const [invoicesRes, customersRes, productsRes, menuItemsRes, companyRes] = await Promise.all([
+      const [invoicesRes, customersRes, productsRes, menuItemsRes, companyRes, combosRes, priceListsRes, schedulesRes] = await Promise.all([
         supabase
           .from('invoices')
           .select('*, customer:customers(*)')
           .order('created_at', { ascending: false }),
         supabase.from('customers').select('*').order('name'),
         supabase.from('products').select('*').order('name'),
-        supabase.from('menu_items').select('*').eq('is_active', true).eq('is_available', true).order('name'),
+        supabase.from('menu_items').select('*, variants:menu_item_variants(*)').eq('is_active', true).eq('is_available', true).order('name'),
         supabase.from('company_profile').select('*').eq('user_id', user?.id || '').maybeSingle(),
+        supabase
+          .from('combos')
+          .select('*, slots:combo_slots(*, items:combo_slot_items(menu_item_id))')
+          .eq('is_active', true)
+          .order('display_order'),
+        supabase.from('price_lists').select('*, items:price_list_items(*)').eq('is_active', true).order('name'),
+        supabase.from('menu_schedules').select('*, items:menu_schedule_items(*)').eq('is_active', true),
       ]);
 
       if (invoicesRes.error) throw invoicesRes.error;
@@ -75,6 +145,9 @@ export function Invoices() {
       setProducts(productsRes.data || []);
       setMenuItems(menuItemsRes.data || []);
       setCompanyProfile(companyRes.data);
+      setCombos(combosRes.data || []);
+      setPriceLists(priceListsRes.data || []);
+      setSchedules(schedulesRes.data || []);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -82,12 +155,21 @@ export function Invoices() {
     }
   };
 
-  const generateInvoiceNumber = () => {
-    const date = new Date();
-    const timestamp = date.getTime().toString().slice(-6);
-    return `INV-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}-${timestamp}`;
+  const priceList = priceLists.find(list => list.id === formData.price_list_id) || null;
+
+  const getDefaultPrice = (menuItem?: { id: string; price: number }, variant?: MenuItemVariant) => {
+    if (!menuItem) return 0;
+    return getChannelPrice(priceList, menuItem.id, variant?.id, variant ? variant.price : menuItem.price);
   };
 
+  const availableMenuItems = menuItems.filter(menuItem => isScheduledAvailable(menuItem, schedules));
+
+  // A custom price is what the customer pays; otherwise running price rules apply
+  const priceLine = (line: OrderLine, customPrice?: number) =>
+    customPrice !== undefined
+      ? line
+      : applyPriceRules([line], schedules, menuItemId => menuItems.find(m => m.id === menuItemId)?.category_id)[0];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (selectedItems.length === 0) {
@@ -103,42 +185,45 @@ export function Invoices() {
     try {
       const customer = formData.customer_id ? customers.find(c => c.id === formData.customer_id) : null;
       const customerState = customer?.state || companyProfile.state;
-      let totalGstAmount = 0;
-      let subtotal = 0;
+      const isInterstate = companyProfile.state?.toLowerCase() !== customerState?.toLowerCase();
+
+      const orderLines: OrderLine[] = selectedItems.map(item => {
+        if (item.combo_id) {
+          const combo = combos.find(c => c.id === item.combo_id);
+          if (!combo) throw new Error('Combo not found');
+          if (!item.combo_choices || item.combo_choices.some(id => !id)) {
+            throw new Error(`Please choose every item in ${combo.name}`);
+          }
+
+          const bundlePrice = item.custom_price !== undefined ? item.custom_price : applyMarkup(priceList, Number(combo.price));
+          return {
+            menu_item_id: null,
+            menu_item_name: combo.name,
+            combo_id: combo.id,
+            components: buildComboComponents({ ...combo, price: bundlePrice }, item.combo_choices, menuItems),
+            quantity: item.quantity,
+            unit_price: bundlePrice,
+          };
+        }
 
-      const items = selectedItems.map(item => {
         const menuItem = menuItems.find(m => m.id === item.menu_item_id);
         if (!menuItem) throw new Error('Menu item not found');
 
-        const unitPrice = item.custom_price !== undefined ? item.custom_price : menuItem.price;
-        const itemName = menuItem.name;
-        const hsnCode = menuItem.hsn_code || '';
-        const gstRate = menuItem.gst_rate || 5;
-
-        const itemTotal = unitPrice * item.quantity;
-        subtotal += itemTotal;
-
-        const isInterstate = companyProfile.state?.toLowerCase() !== customerState?.toLowerCase();
-        const gstCalc = calculateItemGST(itemTotal, gstRate, isInterstate);
-        totalGstAmount += (gstCalc.cgst_amount + gstCalc.sgst_amount + gstCalc.igst_amount);
-
-        return {
-          product_id: null,
+        const variant = getActiveVariants(menuItem).find(v => v.id === item.variant_id);
+        return priceLine({
           menu_item_id: item.menu_item_id,
-          product_name: null,
-          menu_item_name: itemName,
+          menu_item_name: variant ? `${menuItem.name} (${variant.name})` : menuItem.name,
+          variant_id: variant?.id || null,
+          variant_name: variant?.name || null,
           quantity: item.quantity,
-          unit_price: unitPrice,
-          total: itemTotal,
-          hsn_code: hsnCode,
-          gst_rate: gstRate,
-          cgst_amount: gstCalc.cgst_amount,
-          sgst_amount: gstCalc.sgst_amount,
-          igst_amount: gstCalc.igst_amount,
-        };
+          unit_price: item.custom_price !== undefined ? item.custom_price : getDefaultPrice(menuItem, variant),
+        }, item.custom_price);
       });
 
-      const isInterstate = companyProfile.state?.toLowerCase() !== customerState?.toLowerCase();
+      const invoiceLines = buildInvoiceLines(orderLines, menuItems, isInterstate);
+      const { items, subtotal } = invoiceLines;
+      const totalGstAmount = invoiceLines.tax;
+
       const gstCalculation = calculateGST(subtotal, 0, companyProfile.state || '', customerState || '');
       const totalWithGst = formData.include_gst ? subtotal + totalGstAmount : subtotal;
 
@@ -176,8 +261,11 @@ export function Invoices() {
 
       if (itemsError) throw itemsError;
 
+      const { error: stockError } = await supabase.rpc('sync_invoice_recipe_consumption', { p_invoice_id: invoice.id });
+      if (stockError) throw stockError;
+
       setShowModal(false);
-      setFormData({ customer_id: '', tax_rate: '10', include_gst: true });
+      setFormData({ customer_id: '', tax_rate: '10', include_gst: true, price_list_id: '' });
       setSelectedItems([]);
       loadData();
     } catch (error) {
@@ -247,6 +335,12 @@ export function Invoices() {
         .eq('id', id);
 
       if (error) throw error;
+
+      if (status === 'cancelled' || invoice.status === 'cancelled') {
+        const { error: stockError } = await supabase.rpc('sync_invoice_recipe_consumption', { p_invoice_id: id });
+        if (stockError) throw stockError;
+      }
+
       loadData();
     } catch (error) {
       console.error('Error updating invoice:', error);
@@ -258,6 +352,17 @@ export function Invoices() {
     if (!confirm('Are you sure you want to delete this invoice?')) return;
 
     try {
+      // Return recipe stock before the invoice disappears
+      const { error: cancelError } = await supabase
+        .from('invoices')
+        .update({ status: 'cancelled' })
+        .eq('id', id);
+
+      if (cancelError) throw cancelError;
+
+      const { error: stockError } = await supabase.rpc('sync_invoice_recipe_consumption', { p_invoice_id: id });
+      if (stockError) throw stockError;
+
       const { error } = await supabase
         .from('invoices')
         .delete()
@@ -271,6 +376,92 @@ export function Invoices() {
     }
   };
 
+  const handleOpenSplit = async (invoiceId: string) => {
+    try {
+      const { count } = await supabase
+        .from('kots')
+        .select('id', { count: 'exact', head: true })
+        .eq('invoice_id', invoiceId);
+
+      if (!count) {
+        alert('Only bills generated from KOTs can be split');
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, items:invoice_items(*)')
+        .eq('id', invoiceId)
+        .single();
+
+      if (error) throw error;
+
+      setSplitSource(data);
+      setSplitMode('equal');
+      setSplitCount(2);
+      setSplitAssignments(groupInvoiceItems<SplitInvoiceItem>(data.items).map(() => 0));
+    } catch (error) {
+      console.error('Error loading invoice for split:', error);
+      alert('Error loading invoice');
+    }
+  };
+
+  const getSplitParts = (source: SplitSource) => {
+    const lines = groupInvoiceItems(source.items);
+
+    if (splitMode === 'seats') {
+      const { seats, shares } = getSeatShares(source.items);
+      return buildSplitParts(source.items, shares, seats.map(seat => `Seat ${seat}`), source.is_interstate);
+    }
+
+    if (splitMode === 'items') {
+      // Combo component rows follow the line they are folded into
+      const rowAssignments = source.items.map(item => {
+        const lineIndex = lines.findIndex(line => line.item === item || line.components.includes(item));
+        return splitAssignments[lineIndex] || 0;
+      });
+      const labels = Array.from({ length: splitCount }, (_, index) => `Part ${index + 1}`);
+      return buildSplitParts(source.items, getItemShares(rowAssignments, splitCount), labels, source.is_interstate);
+    }
+
+    const labels = Array.from({ length: splitCount }, (_, index) => `Part ${index + 1} of ${splitCount}`);
+    return buildSplitParts(source.items, getEqualShares(source.items.length, splitCount), labels, source.is_interstate);
+  };
+
+  const handleConfirmSplit = async () => {
+    if (!splitSource) return;
+
+    const parts = getSplitParts(splitSource);
+    if (parts.length < 2) {
+      alert(splitMode === 'seats'
+        ? 'Tag items with at least two seats on the KOT to split by seat'
+        : 'A split needs at least two parts');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('split_invoice', {
+        p_invoice_id: splitSource.id,
+        p_parts: parts.map(part => ({
+          ...part,
+          items: part.items.map(item => {
+            const row = { ...item };
+            delete row.created_at;
+            return row;
+          }),
+        })),
+      });
+
+      if (error) throw error;
+
+      setSplitSource(null);
+      loadData();
+    } catch (error) {
+      console.error('Error splitting invoice:', error);
+      alert('Error splitting invoice: ' + (error as Error).message);
+    }
+  };
+
   const handleDirectPrint = async (invoiceId: string, format: 'full' | 'thermal') => {
     try {
       const [invoiceRes, profileRes] = await Promise.all([
@@ -294,6 +485,30 @@ export function Invoices() {
 
       if (invoiceRes.error) throw invoiceRes.error;
 
+      if (format === 'thermal') {
+        const invoice = invoiceRes.data;
+        const printed = await printReceipt(builder => renderReceipt(builder, profileRes.data, {
+          title: 'INVOICE',
+          number: invoice.invoice_number,
+          date: invoice.created_at,
+          customer_name: invoice.customer?.name,
+          customer_phone: invoice.customer?.phone,
+          lines: groupInvoiceItems(invoice.items).map(line => ({
+            name: line.name || line.item.product?.name || '',
+            quantity: line.quantity,
+            total: line.total,
+            details: line.details,
+          })),
+          totals: [
+            ...(Number(invoice.discount) > 0 ? [{ label: 'Discount', amount: -invoice.discount }] : []),
+            { label: 'Subtotal', amount: invoice.subtotal },
+            { label: 'Tax', amount: invoice.tax },
+          ],
+          total: invoice.total,
+        }));
+        if (printed) return;
+      }
+
       const printWindow = window.open('', '_blank');
       if (!printWindow) {
         alert('Please allow pop-ups to print invoices');
@@ -395,15 +610,37 @@ export function Invoices() {
                   </tr>
                 </thead>
                 <tbody>
-                  ${items.map((item: any) => `
+                  ${groupInvoiceItems(items).map(line => line.components.length === 0 ? `
+                    <tr>
+                      <td style="font-weight: 500;">
+                        ${line.name || line.item.product?.name || 'N/A'}
+                        ${line.details.map(detail => `<div style="font-size: 10px; font-weight: normal; color: #475569;">${detail}</div>`).join('')}
+                      </td>
+                      <td style="text-align: center; color: #64748b;">${line.item.hsn_code || '-'}</td>
+                      <td style="text-align: center;">${line.quantity}</td>
+                      <td style="text-align: right;">₹${line.unit_price.toFixed(2)}</td>
+                      <td style="text-align: center; color: #64748b;">${line.item.gst_rate}%</td>
+                      <td style="text-align: right; font-weight: 600;">₹${line.total.toFixed(2)}</td>
+                    </tr>
+                  ` : `
                     <tr>
-                      <td style="font-weight: 500;">${item.menu_item_name || item.product_name || item.product?.name || 'N/A'}</td>
-                      <td style="text-align: center; color: #64748b;">${item.hsn_code || '-'}</td>
-                      <td style="text-align: center;">${item.quantity}</td>
-                      <td style="text-align: right;">₹${item.unit_price.toFixed(2)}</td>
-                      <td style="text-align: center; color: #64748b;">${item.gst_rate}%</td>
-                      <td style="text-align: right; font-weight: 600;">₹${item.total.toFixed(2)}</td>
+                      <td style="font-weight: 500;">${line.name}</td>
+                      <td></td>
+                      <td style="text-align: center;">${line.quantity}</td>
+                      <td style="text-align: right;">₹${line.unit_price.toFixed(2)}</td>
+                      <td></td>
+                      <td style="text-align: right; font-weight: 600;">₹${line.total.toFixed(2)}</td>
                     </tr>
+                    ${line.components.map((component: any) => `
+                      <tr style="font-size: 11px; color: #475569;">
+                        <td style="padding-left: 20px;">${component.menu_item_name}</td>
+                        <td style="text-align: center;">${component.hsn_code || '-'}</td>
+                        <td style="text-align: center;">${component.quantity}</td>
+                        <td style="text-align: right;">₹${Number(component.unit_price).toFixed(2)}</td>
+                        <td style="text-align: center;">${component.gst_rate}%</td>
+                        <td style="text-align: right;">₹${Number(component.total).toFixed(2)}</td>
+                      </tr>
+                    `).join('')}
                   `).join('')}
                 </tbody>
               </table>
@@ -503,12 +740,17 @@ export function Invoices() {
                 </tr>
               </thead>
               <tbody>
-                ${items.map((item: any) => `
+                ${groupInvoiceItems(items).map(line => `
                   <tr>
-                    <td>${item.product?.name || ''}</td>
-                    <td style="text-align: center;">${item.quantity}</td>
-                    <td style="text-align: right;">₹${item.total.toFixed(2)}</td>
+                    <td>${line.name || line.item.product?.name || ''}</td>
+                    <td style="text-align: center;">${line.quantity}</td>
+                    <td style="text-align: right;">₹${line.total.toFixed(2)}</td>
                   </tr>
+                  ${line.details.map(detail => `
+                    <tr>
+                      <td colspan="3" style="font-size: 10px; padding-left: 8px;">${detail}</td>
+                    </tr>
+                  `).join('')}
                 `).join('')}
               </tbody>
             </table>
@@ -549,12 +791,22 @@ export function Invoices() {
     }
   };
 
+  const getActiveVariants = (menuItem?: { variants?: MenuItemVariant[] }) => {
+    return (menuItem?.variants || [])
+      .filter(variant => variant.is_active)
+      .sort((a, b) => a.display_order - b.display_order);
+  };
+
   const addItem = () => {
-    if (menuItems.length === 0) {
+    if (availableMenuItems.length === 0) {
       alert('Please add menu items first');
       return;
     }
-    setSelectedItems([...selectedItems, { menu_item_id: menuItems[0].id, quantity: 1 }]);
+    setSelectedItems([...selectedItems, {
+      menu_item_id: availableMenuItems[0].id,
+      variant_id: getActiveVariants(availableMenuItems[0])[0]?.id,
+      quantity: 1,
+    }]);
   };
 
   const handleCreateCustomer = async (e: React.FormEvent) => {
@@ -606,6 +858,47 @@ export function Invoices() {
     setSelectedItems(newItems);
   };
 
+  const getComboSlots = (combo: Combo) => {
+    return [...combo.slots].sort((a, b) => a.display_order - b.display_order);
+  };
+
+  const getDefaultComboChoices = (combo: Combo) => {
+    return getComboSlots(combo).map(slot => getSlotOptions(slot, menuItems)[0]?.id || '');
+  };
+
+  const addCombo = () => {
+    setSelectedItems([...selectedItems, {
+      menu_item_id: '',
+      combo_id: combos[0].id,
+      combo_choices: getDefaultComboChoices(combos[0]),
+      quantity: 1,
+    }]);
+  };
+
+  const selectCombo = (index: number, comboId: string) => {
+    const combo = combos.find(c => c.id === comboId);
+    if (!combo) return;
+    const newItems = [...selectedItems];
+    newItems[index] = {
+      ...newItems[index],
+      combo_id: comboId,
+      combo_choices: getDefaultComboChoices(combo),
+      custom_price: undefined,
+    };
+    setSelectedItems(newItems);
+  };
+
+  const selectMenuItem = (index: number, menuItemId: string) => {
+    const menuItem = menuItems.find(m => m.id === menuItemId);
+    const newItems = [...selectedItems];
+    newItems[index] = {
+      ...newItems[index],
+      menu_item_id: menuItemId,
+      variant_id: getActiveVariants(menuItem)[0]?.id,
+    };
+    setSelectedItems(newItems);
+  };
+
   const filteredInvoices = invoices.filter(invoice =>
     invoice.invoice_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
     invoice.customer?.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -617,6 +910,7 @@ export function Invoices() {
       case 'sent': return 'bg-blue-100 text-blue-700';
       case 'draft': return 'bg-slate-100 text-slate-700';
       case 'cancelled': return 'bg-red-100 text-red-700';
+      case 'split': return 'bg-purple-100 text-purple-700';
       default: return 'bg-slate-100 text-slate-700';
     }
   };
@@ -663,23 +957,36 @@ export function Invoices() {
             <tbody className="divide-y divide-slate-200">
               {filteredInvoices.map((invoice) => (
                 <tr key={invoice.id} className="hover:bg-slate-50 transition">
-                  <td className="px-6 py-4 text-sm font-medium text-slate-900">{invoice.invoice_number}</td>
+                  <td className="px-6 py-4 text-sm font-medium text-slate-900">
+                    {invoice.invoice_number}
+                    {invoice.split_from_invoice_id && (
+                      <div className="text-xs font-normal text-purple-700">
+                        {invoice.split_label} of {invoices.find(i => i.id === invoice.split_from_invoice_id)?.invoice_number || 'split bill'}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-6 py-4 text-sm text-slate-900">{invoice.customer?.name}</td>
                   <td className="px-6 py-4 text-sm text-slate-600">
                     {new Date(invoice.created_at).toLocaleDateString()}
                   </td>
                   <td className="px-6 py-4 text-sm font-medium text-slate-900">{formatINR(invoice.total)}</td>
                   <td className="px-6 py-4">
-                    <select
-                      value={invoice.status}
-                      onChange={(e) => handleStatusUpdate(invoice.id, e.target.value)}
-                      className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(invoice.status)} border-0 outline-none cursor-pointer`}
-                    >
-                      <option value="draft">Draft</option>
-                      <option value="sent">Sent</option>
-                      <option value="paid">Paid</option>
-                      <option value="cancelled">Cancelled</option>
-                    </select>
+                    {invoice.status === 'split' ? (
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(invoice.status)}`}>
+                        Split
+                      </span>
+                    ) : (
+                      <select
+                        value={invoice.status}
+                        onChange={(e) => handleStatusUpdate(invoice.id, e.target.value)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(invoice.status)} border-0 outline-none cursor-pointer`}
+                      >
+                        <option value="draft">Draft</option>
+                        <option value="sent">Sent</option>
+                        <option value="paid">Paid</option>
+                        <option value="cancelled">Cancelled</option>
+                      </select>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-right">
                     <div className="flex items-center justify-end gap-2">
@@ -739,6 +1046,15 @@ export function Invoices() {
                           </div>
                         )}
                       </div>
+                      {invoice.status !== 'split' && invoice.status !== 'cancelled' && !invoice.split_from_invoice_id && !invoice.amount_paid && (
+                        <button
+                          onClick={() => handleOpenSplit(invoice.id)}
+                          className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition"
+                          title="Split Bill"
+                        >
+                          <Scissors className="w-4 h-4" />
+                        </button>
+                      )}
                       {profile?.role === 'admin' && (
                         <button
                           onClick={() => handleDelete(invoice.id)}
@@ -788,6 +1104,21 @@ export function Invoices() {
                     </button>
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Price List</label>
+                  <select
+                    value={formData.price_list_id}
+                    onChange={(e) => setFormData({ ...formData, price_list_id: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  >
+                    <option value="">Base menu prices</option>
+                    {priceLists.map(list => (
+                      <option key={list.id} value={list.id}>
+                        {list.name} ({list.delivery_platform || CHANNEL_LABELS[list.order_type]})
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
@@ -919,37 +1250,142 @@ export function Invoices() {
               <div>
                 <div className="flex items-center justify-between mb-3">
                   <label className="block text-sm font-medium text-slate-700">Menu Items</label>
-                  <button
-                    type="button"
-                    onClick={addItem}
-                    className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white text-sm font-medium rounded-lg transition"
-                  >
-                    Add Menu Item
-                  </button>
+                  <div className="flex gap-2">
+                    {combos.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={addCombo}
+                        className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-lg transition"
+                      >
+                        Add Combo
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={addItem}
+                      className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white text-sm font-medium rounded-lg transition"
+                    >
+                      Add Menu Item
+                    </button>
+                  </div>
                 </div>
                 <div className="space-y-3">
                   {selectedItems.map((item, index) => {
+                    if (item.combo_id) {
+                      const combo = combos.find(c => c.id === item.combo_id);
+                      const comboPrice = applyMarkup(priceList, Number(combo?.price || 0));
+                      const bundlePrice = item.custom_price !== undefined ? item.custom_price : comboPrice;
+                      return (
+                        <div key={index} className="bg-green-50 p-4 rounded-lg border border-green-200">
+                          <div className="flex gap-3 items-start mb-3">
+                            <select
+                              value={item.combo_id}
+                              onChange={(e) => selectCombo(index, e.target.value)}
+                              className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
+                            >
+                              {combos.map(c => (
+                                <option key={c.id} value={c.id}>
+                                  {c.name} - {formatINR(applyMarkup(priceList, Number(c.price)))}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              min="1"
+                              value={item.quantity}
+                              onChange={(e) => updateItem(index, 'quantity', parseInt(e.target.value))}
+                              placeholder="Qty"
+                              className="w-24 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeItem(index)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                            >
+                              <Trash2 className="w-5 h-5" />
+                            </button>
+                          </div>
+                          <div className="space-y-2 mb-3">
+                            {combo && getComboSlots(combo).map((slot, slotIndex) => (
+                              <div key={slot.id} className="flex items-center gap-3">
+                                <label className="w-32 text-sm text-slate-700">{slot.name}</label>
+                                <select
+                                  value={item.combo_choices?.[slotIndex] || ''}
+                                  onChange={(e) => {
+                                    const choices = [...(item.combo_choices || [])];
+                                    choices[slotIndex] = e.target.value;
+                                    updateItem(index, 'combo_choices', choices);
+                                  }}
+                                  className="flex-1 px-3 py-1.5 border border-slate-300 rounded-lg bg-white text-sm"
+                                >
+                                  <option value="">Choose...</option>
+                                  {getSlotOptions(slot, menuItems).map(option => (
+                                    <option key={option.id} value={option.id}>{option.name}</option>
+                                  ))}
+                                </select>
+                              </div>
+                            ))}
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <label className="text-sm font-medium text-slate-700 whitespace-nowrap">Custom Price:</label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={item.custom_price !== undefined ? item.custom_price : ''}
+                              onChange={(e) => updateItem(index, 'custom_price', e.target.value ? parseFloat(e.target.value) : undefined)}
+                              placeholder={`Default: ${formatINR(comboPrice)}`}
+                              className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
+                            />
+                            <span className="text-sm font-semibold text-slate-900 whitespace-nowrap min-w-[100px] text-right">
+                              Total: {formatINR(bundlePrice * item.quantity)}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    }
+
                     const menuItem = menuItems.find(m => m.id === item.menu_item_id);
-                    const displayPrice = item.custom_price !== undefined ? item.custom_price : (menuItem?.price || 0);
+                    const variants = getActiveVariants(menuItem);
+                    const variant = variants.find(v => v.id === item.variant_id);
+                    const defaultPrice = getDefaultPrice(menuItem, variant);
+                    const pricedLine = priceLine({
+                      menu_item_id: item.menu_item_id,
+                      quantity: item.quantity,
+                      unit_price: item.custom_price !== undefined ? item.custom_price : defaultPrice,
+                    }, item.custom_price);
                     console.log('Rendering item dropdown, menuItems count:', menuItems.length, 'menuItems:', menuItems);
                     return (
                       <div key={index} className="bg-slate-50 p-4 rounded-lg border border-slate-200">
                         <div className="flex gap-3 items-start mb-3">
                           <select
                             value={item.menu_item_id}
-                            onChange={(e) => updateItem(index, 'menu_item_id', e.target.value)}
+                            onChange={(e) => selectMenuItem(index, e.target.value)}
                             className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
                           >
                             {menuItems.length === 0 ? (
                               <option value="">No menu items available</option>
                             ) : (
-                              menuItems.map(menuItem => (
+                              menuItems.filter(m => m.id === item.menu_item_id || isScheduledAvailable(m, schedules)).map(menuItem => (
                                 <option key={menuItem.id} value={menuItem.id}>
-                                  {menuItem.name} - {formatINR(menuItem.price)}
+                                  {menuItem.name}{getActiveVariants(menuItem).length === 0 && ` - ${formatINR(getDefaultPrice(menuItem))}`}
                                 </option>
                               ))
                             )}
                           </select>
+                          {variants.length > 0 && (
+                            <select
+                              value={item.variant_id || ''}
+                              onChange={(e) => updateItem(index, 'variant_id', e.target.value)}
+                              className="w-44 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
+                            >
+                              {variants.map(v => (
+                                <option key={v.id} value={v.id}>
+                                  {v.name} - {formatINR(getDefaultPrice(menuItem, v))}
+                                </option>
+                              ))}
+                            </select>
+                          )}
                           <input
                             type="number"
                             min="1"
@@ -974,11 +1410,14 @@ export function Invoices() {
                             step="0.01"
                             value={item.custom_price !== undefined ? item.custom_price : ''}
                             onChange={(e) => updateItem(index, 'custom_price', e.target.value ? parseFloat(e.target.value) : undefined)}
-                            placeholder={`Default: ${formatINR(menuItem?.price || 0)}`}
+                            placeholder={`Default: ${formatINR(defaultPrice)}`}
                             className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none bg-white"
                           />
                           <span className="text-sm font-semibold text-slate-900 whitespace-nowrap min-w-[100px] text-right">
-                            Total: {formatINR(displayPrice * item.quantity)}
+                            Total: {formatINR(pricedLine.unit_price * pricedLine.quantity)}
+                            {pricedLine.offer_name && (
+                              <span className="block text-xs font-medium text-green-700">{pricedLine.offer_name}</span>
+                            )}
                           </span>
                         </div>
                       </div>
@@ -1005,7 +1444,7 @@ export function Invoices() {
                   type="button"
                   onClick={() => {
                     setShowModal(false);
-                    setFormData({ customer_id: '', tax_rate: '10', include_gst: true });
+                    setFormData({ customer_id: '', tax_rate: '10', include_gst: true, price_list_id: '' });
                     setSelectedItems([]);
                     setShowCustomerForm(false);
                     setNewCustomerData({ name: '', email: '', phone: '', address: '', state: '', gstin: '' });
@@ -1020,6 +1459,119 @@ export function Invoices() {
         </div>
       )}
 
+      {splitSource && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200 flex justify-between items-center">
+              <h2 className="text-2xl font-bold text-slate-900">Split {splitSource.invoice_number}</h2>
+              <button onClick={() => setSplitSource(null)} className="text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-6">
+              <div className="grid grid-cols-3 gap-3">
+                {([
+                  { mode: 'equal', label: 'Equally' },
+                  { mode: 'items', label: 'By Item' },
+                  { mode: 'seats', label: 'By Seat' },
+                ] as { mode: SplitMode; label: string }[]).map(option => (
+                  <button
+                    key={option.mode}
+                    type="button"
+                    onClick={() => setSplitMode(option.mode)}
+                    className={`p-3 border-2 rounded-lg font-semibold transition ${
+                      splitMode === option.mode ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-blue-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {splitMode !== 'seats' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Number of Parts</label>
+                  <input
+                    type="number"
+                    min="2"
+                    value={splitCount}
+                    onChange={(e) => {
+                      const count = Math.max(2, Number(e.target.value));
+                      setSplitCount(count);
+                      setSplitAssignments(splitAssignments.map(part => Math.min(part, count - 1)));
+                    }}
+                    className="w-32 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  />
+                </div>
+              )}
+
+              {splitMode === 'items' && (
+                <div className="space-y-2">
+                  {groupInvoiceItems(splitSource.items).map((line, index) => (
+                    <div key={line.item.id} className="flex items-center justify-between gap-4 bg-slate-50 p-3 rounded-lg">
+                      <div className="text-sm">
+                        <span className="font-medium">{line.quantity} x {line.name}</span>
+                        <span className="text-slate-500 ml-2">{formatINR(line.total)}</span>
+                      </div>
+                      <select
+                        value={splitAssignments[index] || 0}
+                        onChange={(e) => setSplitAssignments(splitAssignments.map((part, i) => i === index ? Number(e.target.value) : part))}
+                        className="px-3 py-1 border border-slate-300 rounded-lg text-sm"
+                      >
+                        {Array.from({ length: splitCount }).map((_, part) => (
+                          <option key={part} value={part}>Part {part + 1}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {splitMode === 'seats' && (
+                <p className="text-sm text-slate-500">
+                  Items are billed to the seat they were tagged with on the KOT. Untagged items are shared equally.
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {getSplitParts(splitSource).map(part => (
+                  <div key={part.label} className="border border-slate-200 rounded-lg p-3 text-sm">
+                    <div className="font-semibold mb-1">{part.label}</div>
+                    <div className="flex justify-between text-slate-600"><span>Subtotal</span><span>{formatINR(part.subtotal)}</span></div>
+                    {splitSource.is_interstate ? (
+                      <div className="flex justify-between text-slate-600"><span>IGST</span><span>{formatINR(part.igst)}</span></div>
+                    ) : (
+                      <>
+                        <div className="flex justify-between text-slate-600"><span>CGST</span><span>{formatINR(part.cgst)}</span></div>
+                        <div className="flex justify-between text-slate-600"><span>SGST</span><span>{formatINR(part.sgst)}</span></div>
+                      </>
+                    )}
+                    <div className="flex justify-between font-semibold border-t mt-1 pt-1"><span>Total</span><span>{formatINR(part.total)}</span></div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-4 pt-6 border-t border-slate-200">
+                <button
+                  type="button"
+                  onClick={() => setSplitSource(null)}
+                  className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirmSplit}
+                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition"
+                >
+                  Split Bill
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {viewInvoiceId && (
         <InvoiceView
           invoiceId={viewInvoiceId}
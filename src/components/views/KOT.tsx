@@ -1,28 +1,107 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plus, Search, Trash2, Edit2, Printer, Clock, CheckCircle, XCircle, Utensils, Truck, ShoppingBag, Eye } from 'lucide-react';
+import { Plus, Search, Trash2, Edit2, Printer, Clock, CheckCircle, XCircle, Utensils, Truck, ShoppingBag, Eye, Ban, KeyRound, MessageCircle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { formatINR } from '../../lib/currency';
+import { KitchenStation, resolveStationId } from '../../lib/kitchen';
+import {
+  Combo,
+  OrderComponent,
+  OrderModifier,
+  OrderPortion,
+  PortionPricingRule,
+  allocateBundlePrice,
+  buildComboComponents,
+  buildInvoiceLines,
+  getLineDetails,
+  getModifierTotal,
+  getSlotOptions,
+  priceComposite,
+} from '../../lib/orders';
+import { DiningTable, TABLE_STATUS_LABELS, getTableStatus } from '../../lib/tables';
+import { billTableSession, confirmGuestKOT, getOrOpenSession, refreshSessionInvoices, rejectGuestKOT } from '../../lib/tableSessions';
+import { VOID_REASONS, VoidReasonCode, isFiredLine, isPrepStarted } from '../../lib/voids';
+import { pushAggregatorStatus } from '../../lib/aggregators';
+import { PriceList, applyMarkup, findPriceList, getChannelPrice } from '../../lib/pricing';
+import { sendOrderTrackingLink } from '../../lib/orderTracking';
+import { printKOT } from '../../lib/kotPrint';
+import { escapeHtml } from '../../lib/printers';
+import { COURSES, getCourseLabel, getFiredCourse } from '../../lib/courses';
+import { KOTRevision, diffKOTItems, formatRevisionNumber, getKitchenDelta, saveKOTEdit } from '../../lib/kotRevisions';
+import { MenuSchedule, applyPriceRules, getActiveOffers, getListUnitPrice, isScheduledAvailable } from '../../lib/menuSchedules';
+
+interface MenuItemVariant {
+  id: string;
+  name: string;
+  price: number;
+  is_active: boolean;
+  display_order: number;
+}
+
+interface Modifier {
+  id: string;
+  name: string;
+  price_delta: number;
+  is_active: boolean;
+  display_order: number;
+}
+
+interface ModifierGroup {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  is_active: boolean;
+  modifiers: Modifier[];
+}
 
 interface MenuItem {
   id: string;
   name: string;
   price: number;
   category_id: string;
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+  station_id?: string | null;
+  allow_portions?: boolean;
+  variants?: MenuItemVariant[];
+  modifier_groups?: { display_order: number; group: ModifierGroup | null }[];
+}
+
+interface MenuCategory {
+  id: string;
+  station_id?: string | null;
 }
 
 interface KOTItem {
-  menu_item_id: string;
+  id?: string;
+  menu_item_id: string | null;
   menu_item_name?: string;
+  variant_id?: string | null;
+  variant_name?: string | null;
+  modifiers?: OrderModifier[];
+  portions?: OrderPortion[];
+  combo_id?: string | null;
+  components?: OrderComponent[];
   quantity: number;
   unit_price: number;
   notes?: string;
+  station_id?: string | null;
+  seat?: number | null;
+  course?: number;
+  status?: string;
+  fired_at?: string | null;
+  offer_name?: string | null;
+  offer_discount?: number | null;
+  saved_quantity?: number;
 }
 
 interface KOT {
   id: string;
   kot_number: string;
   order_type: 'dine_in' | 'delivery' | 'take_away';
+  table_id?: string | null;
+  session_id?: string | null;
   table_number?: string;
   customer_name?: string;
   customer_phone?: string;
@@ -32,23 +111,69 @@ interface KOT {
   notes?: string;
   created_at: string;
   invoice_id?: string;
+  bill_printed_at?: string | null;
+  settled_at?: string | null;
+  source?: 'staff' | 'qr';
+  awaiting_confirmation?: boolean;
+  revision?: number;
+}
+
+interface VoidableItem {
+  id: string;
+  menu_item_name: string;
+  variant_name?: string | null;
+  quantity: number;
+  unit_price: number;
+  status: string;
 }
 
-export function KOT() {
+interface KOTProps {
+  openTable?: { tableId: string; kotId?: string } | null;
+  onTableOpened?: () => void;
+}
+
+export function KOT({ openTable, onTableOpened }: KOTProps = {}) {
   const { user } = useAuth();
   const [kots, setKots] = useState<KOT[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  const [tables, setTables] = useState<DiningTable[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingKOT, setEditingKOT] = useState<KOT | null>(null);
   const [selectedItems, setSelectedItems] = useState<KOTItem[]>([]);
+  const [holdCourses, setHoldCourses] = useState(true);
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null);
+  const [optionsVariantId, setOptionsVariantId] = useState<string>('');
+  const [optionsModifierIds, setOptionsModifierIds] = useState<string[]>([]);
+  const [showPortionBuilder, setShowPortionBuilder] = useState(false);
+  const [portionItemIds, setPortionItemIds] = useState<string[]>(['', '']);
+  const [portionSize, setPortionSize] = useState('');
+  const [portionPricingRule, setPortionPricingRule] = useState<PortionPricingRule>('highest');
+  const [combos, setCombos] = useState<Combo[]>([]);
+  const [activeCombo, setActiveCombo] = useState<Combo | null>(null);
+  const [comboChoices, setComboChoices] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [orderTypeFilter, setOrderTypeFilter] = useState<string>('all');
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [schedules, setSchedules] = useState<MenuSchedule[]>([]);
+  const [voidKOT, setVoidKOT] = useState<KOT | null>(null);
+  const [revisionKOT, setRevisionKOT] = useState<KOT | null>(null);
+  const [revisions, setRevisions] = useState<KOTRevision[]>([]);
+  const [voidItems, setVoidItems] = useState<VoidableItem[]>([]);
+  const [voidData, setVoidData] = useState({
+    kot_item_id: '',
+    quantity: 1,
+    reason_code: '' as VoidReasonCode | '',
+    notes: '',
+    pin: '',
+  });
 
   const [formData, setFormData] = useState({
     order_type: 'dine_in' as 'dine_in' | 'delivery' | 'take_away',
-    table_number: '',
+    table_id: '',
     customer_name: '',
     customer_phone: '',
     delivery_platform: '',
@@ -61,6 +186,42 @@ export function KOT() {
     loadMenuItems();
   }, []);
 
+  useEffect(() => {
+    if (!openTable || loading) return;
+
+    const kot = openTable.kotId ? kots.find(k => k.id === openTable.kotId) : null;
+    if (kot) {
+      handleEdit(kot);
+    } else {
+      resetForm();
+      setFormData(current => ({ ...current, order_type: 'dine_in' }));
+      handleTableChange(openTable.tableId);
+      setShowModal(true);
+    }
+    onTableOpened?.();
+  }, [openTable, loading]);
+
+  // New KOTs start with the guest seated at the table, e.g. from a reservation.
+  const handleTableChange = async (tableId: string) => {
+    setFormData(current => ({ ...current, table_id: tableId }));
+    if (!tableId || editingKOT) return;
+
+    const { data: session } = await supabase
+      .from('table_sessions')
+      .select('customer_name, customer_phone')
+      .eq('table_id', tableId)
+      .neq('status', 'settled')
+      .maybeSingle();
+
+    if (session) {
+      setFormData(current => ({
+        ...current,
+        customer_name: current.customer_name || session.customer_name || '',
+        customer_phone: current.customer_phone || session.customer_phone || '',
+      }));
+    }
+  };
+
   const loadKOTs = async () => {
     try {
       const { data, error } = await supabase
@@ -80,56 +241,340 @@ export function KOT() {
 
   const loadMenuItems = async () => {
     try {
-      const { data, error } = await supabase
-        .from('menu_items')
-        .select('*')
-        .eq('is_available', true)
-        .order('name');
-
-      if (error) throw error;
-      setMenuItems(data || []);
+      const [itemsRes, categoriesRes, stationsRes, profileRes, combosRes, tablesRes, priceListsRes, schedulesRes] = await Promise.all([
+        supabase.from('menu_items').select('*, variants:menu_item_variants(*), modifier_groups:menu_item_modifier_groups(display_order, group:modifier_groups(*, modifiers(*)))').eq('is_available', true).order('name'),
+        supabase.from('menu_categories').select('id, station_id'),
+        supabase.from('kitchen_stations').select('*').eq('is_active', true).order('display_order'),
+        supabase.from('company_profile').select('portion_pricing_rule').maybeSingle(),
+        supabase
+          .from('combos')
+          .select('*, slots:combo_slots(*, items:combo_slot_items(menu_item_id))')
+          .eq('is_active', true)
+          .order('display_order'),
+        supabase.from('dining_tables').select('*').eq('is_active', true).order('name'),
+        supabase.from('price_lists').select('*, items:price_list_items(*)').eq('is_active', true),
+        supabase.from('menu_schedules').select('*, items:menu_schedule_items(*)').eq('is_active', true),
+      ]);
+
+      if (itemsRes.error) throw itemsRes.error;
+      if (profileRes.data?.portion_pricing_rule) setPortionPricingRule(profileRes.data.portion_pricing_rule);
+      setMenuItems(itemsRes.data || []);
+      setCategories(categoriesRes.data || []);
+      setStations(stationsRes.data || []);
+      setCombos(combosRes.data || []);
+      setTables(tablesRes.data || []);
+      setPriceLists(priceListsRes.data || []);
+      setSchedules(schedulesRes.data || []);
     } catch (error) {
       console.error('Error loading menu items:', error);
     }
   };
 
+  const getActiveVariants = (menuItem: MenuItem) => {
+    return (menuItem.variants || [])
+      .filter(variant => variant.is_active)
+      .sort((a, b) => a.display_order - b.display_order);
+  };
+
+  const getModifierGroups = (menuItem: MenuItem) => {
+    return (menuItem.modifier_groups || [])
+      .filter(link => link.group?.is_active)
+      .sort((a, b) => a.display_order - b.display_order)
+      .map(link => ({
+        ...link.group!,
+        modifiers: (link.group!.modifiers || [])
+          .filter(modifier => modifier.is_active)
+          .sort((a, b) => a.display_order - b.display_order),
+      }));
+  };
+
+  const priceList = findPriceList(priceLists, formData.order_type, formData.delivery_platform);
+
+  const getItemPrice = (menuItem: MenuItem, variant?: MenuItemVariant, list: PriceList | null = priceList) => {
+    return getChannelPrice(list, menuItem.id, variant?.id, variant ? variant.price : menuItem.price);
+  };
+
   const handleAddItem = (menuItem: MenuItem) => {
-    const existingItem = selectedItems.find(item => item.menu_item_id === menuItem.id);
+    const variants = getActiveVariants(menuItem);
+
+    if (variants.length > 0 || getModifierGroups(menuItem).length > 0) {
+      setOptionsItem(menuItem);
+      setOptionsVariantId(variants[0]?.id || '');
+      setOptionsModifierIds([]);
+      return;
+    }
+
+    addOrderLine(menuItem);
+  };
+
+  const addOrderLine = (menuItem: MenuItem, variant?: MenuItemVariant, modifiers: OrderModifier[] = []) => {
+    const variantId = variant?.id || null;
+    const modifierKey = modifiers.map(m => m.id).sort().join(',');
+    // Lines the kitchen has started stay as they are; more of the dish is a new line
+    const existingItem = selectedItems.find(item =>
+      !['preparing', 'ready'].includes(item.status || '') &&
+      (item.portions || []).length === 0 &&
+      !item.seat &&
+      (item.course || 1) === 1 &&
+      item.menu_item_id === menuItem.id &&
+      (item.variant_id || null) === variantId &&
+      (item.modifiers || []).map(m => m.id).sort().join(',') === modifierKey
+    );
 
     if (existingItem) {
       setSelectedItems(selectedItems.map(item =>
-        item.menu_item_id === menuItem.id
+        item === existingItem
           ? { ...item, quantity: item.quantity + 1 }
           : item
       ));
     } else {
       setSelectedItems([...selectedItems, {
         menu_item_id: menuItem.id,
-        menu_item_name: menuItem.name,
+        menu_item_name: variant ? `${menuItem.name} (${variant.name})` : menuItem.name,
+        variant_id: variantId,
+        variant_name: variant?.name || null,
+        modifiers,
         quantity: 1,
-        unit_price: menuItem.price,
+        unit_price: getItemPrice(menuItem, variant) + getModifierTotal(modifiers),
+        station_id: resolveStationId(menuItem, categories),
       }]);
     }
   };
 
-  const handleRemoveItem = (menuItemId: string) => {
-    setSelectedItems(selectedItems.filter(item => item.menu_item_id !== menuItemId));
+  const toggleOptionModifier = (group: ModifierGroup, modifierId: string) => {
+    if (optionsModifierIds.includes(modifierId)) {
+      setOptionsModifierIds(optionsModifierIds.filter(id => id !== modifierId));
+      return;
+    }
+
+    const groupIds = group.modifiers.map(m => m.id);
+    const selectedInGroup = optionsModifierIds.filter(id => groupIds.includes(id));
+
+    if (group.max_select === 1) {
+      setOptionsModifierIds([...optionsModifierIds.filter(id => !groupIds.includes(id)), modifierId]);
+    } else if (selectedInGroup.length < group.max_select) {
+      setOptionsModifierIds([...optionsModifierIds, modifierId]);
+    }
+  };
+
+  const handleConfirmOptions = () => {
+    if (!optionsItem) return;
+
+    const modifiers: OrderModifier[] = [];
+    for (const group of getModifierGroups(optionsItem)) {
+      const chosen = group.modifiers.filter(m => optionsModifierIds.includes(m.id));
+
+      if (chosen.length < group.min_select) {
+        alert(`Please choose at least ${group.min_select} from ${group.name}`);
+        return;
+      }
+      if (chosen.length > group.max_select) {
+        alert(`Please choose at most ${group.max_select} from ${group.name}`);
+        return;
+      }
+
+      modifiers.push(...chosen.map(m => ({
+        id: m.id,
+        group_id: group.id,
+        group_name: group.name,
+        name: m.name,
+        price_delta: applyMarkup(priceList, Number(m.price_delta)),
+      })));
+    }
+
+    const variant = getActiveVariants(optionsItem).find(v => v.id === optionsVariantId);
+    addOrderLine(optionsItem, variant, modifiers);
+    setOptionsItem(null);
   };
 
-  const handleUpdateQuantity = (menuItemId: string, quantity: number) => {
+  const getPortionItems = () => menuItems.filter(item => item.allow_portions);
+
+  const getPortionSizes = () => {
+    const chosen = portionItemIds.map(id => menuItems.find(m => m.id === id));
+    if (chosen.some(item => !item)) return [];
+
+    const [first, ...rest] = chosen.map(item => getActiveVariants(item!).map(v => v.name));
+    return first.filter(name => rest.every(names => names.includes(name)));
+  };
+
+  const handlePortionCountChange = (count: number) => {
+    setPortionItemIds(Array.from({ length: count }, (_, i) => portionItemIds[i] || ''));
+    setPortionSize('');
+  };
+
+  const handleAddComposite = () => {
+    if (portionItemIds.some(id => !id)) {
+      alert('Please choose an item for every portion');
+      return;
+    }
+
+    const sizes = getPortionSizes();
+    if (sizes.length > 0 && !portionSize) {
+      alert('Please choose a size');
+      return;
+    }
+
+    const portions: OrderPortion[] = portionItemIds.map(id => {
+      const menuItem = menuItems.find(m => m.id === id)!;
+      const variant = getActiveVariants(menuItem).find(v => v.name === portionSize);
+      return {
+        menu_item_id: menuItem.id,
+        menu_item_name: menuItem.name,
+        variant_id: variant?.id || null,
+        variant_name: variant?.name || null,
+        fraction: 1 / portionItemIds.length,
+        price: getItemPrice(menuItem, variant),
+      };
+    });
+
+    const baseItem = menuItems.find(m => m.id === portions[0].menu_item_id);
+    const label = portions.length === 2 ? 'Half & Half' : 'Quarters';
+
+    setSelectedItems([...selectedItems, {
+      menu_item_id: portions[0].menu_item_id,
+      menu_item_name: portionSize ? `${label} (${portionSize})` : label,
+      variant_id: null,
+      variant_name: portionSize || null,
+      modifiers: [],
+      portions,
+      quantity: 1,
+      unit_price: priceComposite(portions, portionPricingRule),
+      station_id: resolveStationId(baseItem, categories),
+    }]);
+
+    setShowPortionBuilder(false);
+    setPortionItemIds(['', '']);
+    setPortionSize('');
+  };
+
+  const getComboSlots = (combo: Combo) => {
+    return [...combo.slots].sort((a, b) => a.display_order - b.display_order);
+  };
+
+  const handleOpenCombo = (combo: Combo) => {
+    setActiveCombo(combo);
+    setComboChoices(getComboSlots(combo).map(slot => getSlotOptions(slot, menuItems)[0]?.id || ''));
+  };
+
+  const handleAddCombo = () => {
+    if (!activeCombo) return;
+
+    if (comboChoices.some(id => !id)) {
+      alert('Please choose an item for every combo slot');
+      return;
+    }
+
+    const price = applyMarkup(priceList, Number(activeCombo.price));
+    const components = buildComboComponents({ ...activeCombo, price }, comboChoices, menuItems).map(component => ({
+      ...component,
+      station_id: resolveStationId(menuItems.find(m => m.id === component.menu_item_id), categories),
+    }));
+
+    setSelectedItems([...selectedItems, {
+      menu_item_id: null,
+      menu_item_name: activeCombo.name,
+      combo_id: activeCombo.id,
+      components,
+      quantity: 1,
+      unit_price: price,
+      station_id: null,
+    }]);
+    setActiveCombo(null);
+  };
+
+  // Switching order type or platform re-prices the lines already in the cart.
+  const handleChannelChange = (changes: Partial<typeof formData>) => {
+    const nextForm = { ...formData, ...changes };
+    const list = findPriceList(priceLists, nextForm.order_type, nextForm.delivery_platform);
+
+    setFormData(nextForm);
+    setSelectedItems(selectedItems.map(item => {
+      if (item.combo_id) {
+        const combo = combos.find(c => c.id === item.combo_id);
+        if (!combo) return item;
+
+        const price = applyMarkup(list, Number(combo.price));
+        const allocated = allocateBundlePrice(price, (item.components || []).map(c => Number(c.allocated_price)));
+        return {
+          ...item,
+          unit_price: price,
+          components: (item.components || []).map((c, i) => ({ ...c, allocated_price: allocated[i] })),
+        };
+      }
+
+      if (item.portions && item.portions.length > 0) {
+        const portions = item.portions.map(portion => {
+          const menuItem = menuItems.find(m => m.id === portion.menu_item_id);
+          if (!menuItem) return portion;
+          const variant = (menuItem.variants || []).find(v => v.id === portion.variant_id);
+          return { ...portion, price: getItemPrice(menuItem, variant, list) };
+        });
+        return { ...item, portions, unit_price: priceComposite(portions, portionPricingRule) };
+      }
+
+      const menuItem = menuItems.find(m => m.id === item.menu_item_id);
+      if (!menuItem) return item;
+
+      const variant = (menuItem.variants || []).find(v => v.id === item.variant_id);
+      const baseModifiers = getModifierGroups(menuItem).flatMap(group => group.modifiers);
+      const modifiers = (item.modifiers || []).map(modifier => {
+        const base = baseModifiers.find(m => m.id === modifier.id);
+        return base ? { ...modifier, price_delta: applyMarkup(list, Number(base.price_delta)) } : modifier;
+      });
+      return { ...item, modifiers, unit_price: getItemPrice(menuItem, variant, list) + getModifierTotal(modifiers) };
+    }));
+  };
+
+  const isFiredItem = (item: KOTItem) => !!item.id && isFiredLine(item.status, editingKOT?.status);
+
+  // Only what was added in this edit can be taken back off a fired line
+  const getMinQuantity = (item: KOTItem) => (isFiredItem(item) ? item.saved_quantity || 0 : 0);
+
+  const handleRemoveItem = (index: number) => {
+    if (isFiredItem(selectedItems[index])) return;
+    setSelectedItems(selectedItems.filter((_, i) => i !== index));
+  };
+
+  const handleUpdateQuantity = (index: number, quantity: number) => {
+    if (quantity < getMinQuantity(selectedItems[index])) return;
     if (quantity <= 0) {
-      handleRemoveItem(menuItemId);
+      handleRemoveItem(index);
       return;
     }
-    setSelectedItems(selectedItems.map(item =>
-      item.menu_item_id === menuItemId
+    setSelectedItems(selectedItems.map((item, i) =>
+      i === index
         ? { ...item, quantity }
         : item
     ));
   };
 
+  const handleUpdateSeat = (index: number, seat: number | null) => {
+    setSelectedItems(selectedItems.map((item, i) =>
+      i === index
+        ? { ...item, seat }
+        : item
+    ));
+  };
+
+  const handleUpdateCourse = (index: number, course: number) => {
+    setSelectedItems(selectedItems.map((item, i) =>
+      i === index
+        ? { ...item, course }
+        : item
+    ));
+  };
+
+  // Lines hold list prices; running price rules are applied as of when the
+  // order was placed, so editing a happy-hour ticket later keeps its prices.
+  const pricedItems = applyPriceRules(
+    selectedItems,
+    schedules,
+    menuItemId => menuItems.find(m => m.id === menuItemId)?.category_id,
+    editingKOT ? new Date(editingKOT.created_at) : new Date()
+  );
+
   const calculateTotal = () => {
-    return selectedItems.reduce((sum, item) => sum + (item.quantity * item.unit_price), 0);
+    return pricedItems.reduce((sum, item) => sum + (item.quantity * item.unit_price), 0);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -140,11 +585,18 @@ export function KOT() {
       return;
     }
 
-    if (formData.order_type === 'dine_in' && !formData.table_number) {
-      alert('Please enter table number for dine-in orders');
+    if (formData.order_type === 'dine_in' && !formData.table_id) {
+      alert('Please select a table for dine-in orders');
       return;
     }
 
+    // Later courses wait on the table view until the server fires them
+    const firedCourse = getFiredCourse(selectedItems);
+    const getItemStatus = (item: KOTItem) =>
+      formData.order_type === 'dine_in' && holdCourses && (item.course || 1) > firedCourse ? 'held' : 'pending';
+    const getFiredAt = (item: KOTItem) =>
+      item.status === 'held' && getItemStatus(item) === 'pending' ? new Date().toISOString() : item.fired_at || null;
+
     try {
       const kotData: any = {
         order_type: formData.order_type,
@@ -152,44 +604,109 @@ export function KOT() {
         customer_phone: formData.customer_phone || null,
         notes: formData.notes || null,
         user_id: user?.id,
-        status: 'pending',
       };
 
+      // Table changes on a running KOT go through move_kot so they are audited
+      if (editingKOT?.session_id && formData.order_type === 'dine_in' && editingKOT.table_id !== formData.table_id) {
+        const { error: moveError } = await supabase.rpc('move_kot', {
+          p_kot_id: editingKOT.id,
+          p_to_table_id: formData.table_id,
+          p_reason: 'Table changed while editing KOT',
+        });
+        if (moveError) throw moveError;
+      }
+
+      // Dine-in KOTs join the table's running session and are billed together
+      const session = formData.order_type === 'dine_in'
+        ? editingKOT?.session_id && editingKOT.table_id === formData.table_id
+          ? { id: editingKOT.session_id }
+          : await getOrOpenSession(formData.table_id, user?.id)
+        : null;
+      kotData.session_id = session?.id || null;
+
       if (formData.order_type === 'dine_in') {
-        kotData.table_number = formData.table_number;
+        kotData.table_id = formData.table_id;
+        kotData.table_number = tables.find(t => t.id === formData.table_id)?.name || null;
       } else if (formData.order_type === 'delivery') {
         kotData.delivery_platform = formData.delivery_platform || null;
         kotData.delivery_order_id = formData.delivery_order_id || null;
       }
 
       if (editingKOT) {
-        const { error: kotError } = await supabase
-          .from('kots')
-          .update(kotData)
-          .eq('id', editingKOT.id);
-
-        if (kotError) throw kotError;
-
-        await supabase.from('kot_items').delete().eq('kot_id', editingKOT.id);
-
-        const kotItems = selectedItems.map(item => ({
+        const { data: previousItems, error: previousError } = await supabase
+          .from('kot_items')
+          .select('*')
+          .eq('kot_id', editingKOT.id);
+
+        if (previousError) throw previousError;
+
+        // Lines the kitchen is already working on keep their progress
+        const getEditedStatus = (item: KOTItem) => {
+          const status = getItemStatus(item);
+          const current = (previousItems || []).find(previous => previous.id === item.id)?.status;
+          return status === 'pending' && current && current !== 'held' ? current : status;
+        };
+
+        // Kept lines carry their id so they are updated in place
+        const kotItems = pricedItems.map(item => ({
+          id: item.id,
           kot_id: editingKOT.id,
           menu_item_id: item.menu_item_id,
           menu_item_name: item.menu_item_name,
+          variant_id: item.variant_id || null,
+          variant_name: item.variant_name || null,
+          modifiers: item.modifiers || [],
+          portions: item.portions || [],
+          combo_id: item.combo_id || null,
+          components: item.components || [],
           quantity: item.quantity,
           unit_price: item.unit_price,
+          offer_name: item.offer_name || null,
+          offer_discount: item.offer_discount || 0,
           notes: item.notes || null,
+          station_id: item.station_id || null,
+          seat: item.seat || null,
+          course: item.course || 1,
+          status: getEditedStatus(item),
+          fired_at: getFiredAt(item),
         }));
 
-        const { error: itemsError } = await supabase.from('kot_items').insert(kotItems);
-        if (itemsError) throw itemsError;
+        const { error: kotError } = await supabase
+          .from('kots')
+          .update(kotData)
+          .eq('id', editingKOT.id);
+
+        if (kotError) throw kotError;
+
+        // The kitchen only gets what changed, on a ticket numbered for this revision
+        const delta = diffKOTItems(previousItems || [], kotItems);
+        const revision = await saveKOTEdit(editingKOT.id, kotItems, delta);
+        if (revision !== null) {
+          const kitchenDelta = getKitchenDelta(delta);
+
+          const changes = [
+            ...kitchenDelta.added.map(item => ({ ...item, change: 'added' as const })),
+            ...kitchenDelta.cancelled.map(item => ({ ...item, change: 'cancelled' as const })),
+          ];
+          if (changes.length > 0) {
+            await printKOT(
+              { ...editingKOT, ...kotData, kot_number: formatRevisionNumber(editingKOT.kot_number, revision) },
+              changes,
+              stations,
+              'Order Change'
+            );
+          }
+        }
 
-        if (editingKOT.invoice_id) {
-          await updateInvoice(editingKOT.invoice_id);
+        if (editingKOT.session_id || session) {
+          await refreshSessionInvoices([editingKOT.session_id, session?.id]);
+        } else if (editingKOT.invoice_id) {
+          await syncKOTInvoice(editingKOT.id);
         }
       } else {
         const kotNumber = await generateKOTNumber();
         kotData.kot_number = kotNumber;
+        kotData.status = 'pending';
 
         const { data: kot, error: kotError } = await supabase
           .from('kots')
@@ -199,19 +716,36 @@ export function KOT() {
 
         if (kotError) throw kotError;
 
-        const kotItems = selectedItems.map(item => ({
+        const kotItems = pricedItems.map(item => ({
           kot_id: kot.id,
           menu_item_id: item.menu_item_id,
           menu_item_name: item.menu_item_name,
+          variant_id: item.variant_id || null,
+          variant_name: item.variant_name || null,
+          modifiers: item.modifiers || [],
+          portions: item.portions || [],
+          combo_id: item.combo_id || null,
+          components: item.components || [],
           quantity: item.quantity,
           unit_price: item.unit_price,
+          offer_name: item.offer_name || null,
+          offer_discount: item.offer_discount || 0,
           notes: item.notes || null,
+          station_id: item.station_id || null,
+          seat: item.seat || null,
+          course: item.course || 1,
+          status: getItemStatus(item),
+          fired_at: getFiredAt(item),
         }));
 
         const { error: itemsError } = await supabase.from('kot_items').insert(kotItems);
         if (itemsError) throw itemsError;
 
-        await createInvoiceForKOT(kot);
+        if (session) {
+          await refreshSessionInvoices([session.id]);
+        } else {
+          await syncKOTInvoice(kot.id);
+        }
       }
 
       resetForm();
@@ -229,82 +763,10 @@ export function KOT() {
     return data;
   };
 
-  const createInvoiceForKOT = async (kot: any) => {
-    try {
-      const subtotal = calculateTotal();
-      const taxRate = 0.05;
-      const tax = subtotal * taxRate;
-      const total = subtotal + tax;
-
-      const invoiceData = {
-        customer_id: null,
-        customer_name: kot.customer_name || 'Walk-in Customer',
-        customer_phone: kot.customer_phone || null,
-        subtotal,
-        tax,
-        total,
-        status: 'draft',
-        payment_status: 'unpaid',
-        user_id: user?.id,
-      };
-
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert(invoiceData)
-        .select()
-        .single();
-
-      if (invoiceError) throw invoiceError;
-
-      const invoiceItems = selectedItems.map(item => ({
-        invoice_id: invoice.id,
-        menu_item_id: item.menu_item_id,
-        menu_item_name: item.menu_item_name,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        tax_rate: 5,
-        tax_amount: item.quantity * item.unit_price * 0.05,
-        total: item.quantity * item.unit_price * 1.05,
-      }));
-
-      const { error: itemsError } = await supabase.from('invoice_items').insert(invoiceItems);
-      if (itemsError) throw itemsError;
-
-      await supabase.from('kots').update({ invoice_id: invoice.id }).eq('id', kot.id);
-    } catch (error) {
-      console.error('Error creating invoice:', error);
-    }
-  };
-
-  const updateInvoice = async (invoiceId: string) => {
-    try {
-      const subtotal = calculateTotal();
-      const taxRate = 0.05;
-      const tax = subtotal * taxRate;
-      const total = subtotal + tax;
-
-      await supabase
-        .from('invoices')
-        .update({ subtotal, tax, total })
-        .eq('id', invoiceId);
-
-      await supabase.from('invoice_items').delete().eq('invoice_id', invoiceId);
-
-      const invoiceItems = selectedItems.map(item => ({
-        invoice_id: invoiceId,
-        menu_item_id: item.menu_item_id,
-        menu_item_name: item.menu_item_name,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        tax_rate: 5,
-        tax_amount: item.quantity * item.unit_price * 0.05,
-        total: item.quantity * item.unit_price * 1.05,
-      }));
-
-      await supabase.from('invoice_items').insert(invoiceItems);
-    } catch (error) {
-      console.error('Error updating invoice:', error);
-    }
+  // Builds or rebuilds the KOT's draft invoice on the server in one transaction
+  const syncKOTInvoice = async (kotId: string) => {
+    const { error } = await supabase.rpc('sync_kot_invoice', { p_kot_id: kotId });
+    if (error) throw new Error(`KOT saved but its bill could not be updated: ${error.message}`);
   };
 
   const handleEdit = async (kot: KOT) => {
@@ -319,14 +781,15 @@ export function KOT() {
       setEditingKOT(kot);
       setFormData({
         order_type: kot.order_type,
-        table_number: kot.table_number || '',
+        table_id: kot.table_id || '',
         customer_name: kot.customer_name || '',
         customer_phone: kot.customer_phone || '',
         delivery_platform: kot.delivery_platform || '',
         delivery_order_id: kot.delivery_order_id || '',
         notes: kot.notes || '',
       });
-      setSelectedItems(items || []);
+      setSelectedItems((items || []).map(item => ({ ...item, unit_price: getListUnitPrice(item), saved_quantity: Number(item.quantity) })));
+      setHoldCourses(true);
       setShowModal(true);
     } catch (error) {
       console.error('Error loading KOT:', error);
@@ -334,213 +797,167 @@ export function KOT() {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this KOT?')) return;
-
-    try {
-      const { error } = await supabase.from('kots').delete().eq('id', id);
-      if (error) throw error;
-      loadKOTs();
-    } catch (error) {
-      console.error('Error deleting KOT:', error);
-      alert('Error deleting KOT');
-    }
-  };
-
-  const handleUpdateStatus = async (id: string, newStatus: string) => {
-    try {
-      const { error } = await supabase
-        .from('kots')
-        .update({ status: newStatus })
-        .eq('id', id);
-
-      if (error) throw error;
-      loadKOTs();
-    } catch (error) {
-      console.error('Error updating status:', error);
-      alert('Error updating status');
-    }
-  };
-
-  const handlePrintKOT = async (kot: KOT) => {
+  const openVoid = async (kot: KOT, kotItemId = '') => {
     try {
-      const { data: items, error } = await supabase
+      const { data, error } = await supabase
         .from('kot_items')
-        .select('*')
+        .select('id, menu_item_name, variant_name, quantity, unit_price, status')
         .eq('kot_id', kot.id);
 
       if (error) throw error;
 
-      const printWindow = window.open('', '_blank');
-      if (!printWindow) return;
-
-      const orderTypeIcons = {
-        dine_in: '🍽️',
-        delivery: '🚚',
-        take_away: '🛍️'
-      };
-
-      const orderTypeLabels = {
-        dine_in: 'DINE IN',
-        delivery: 'DELIVERY',
-        take_away: 'TAKE AWAY'
-      };
-
-      const orderTypeColors = {
-        dine_in: '#10b981',
-        delivery: '#f59e0b',
-        take_away: '#3b82f6'
-      };
-
-      printWindow.document.write(`
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>KOT - ${kot.kot_number}</title>
-          <style>
-            * {
-              margin: 0;
-              padding: 0;
-              box-sizing: border-box;
-            }
-            body {
-              font-family: 'Courier New', monospace;
-              width: 80mm;
-              padding: 5mm;
-              font-size: 12px;
-              line-height: 1.4;
-            }
-            .header {
-              text-align: center;
-              margin-bottom: 10px;
-              padding-bottom: 10px;
-              border-bottom: 2px solid #000;
-            }
-            .header h1 {
-              font-size: 20px;
-              margin-bottom: 5px;
-            }
-            .order-type-badge {
-              display: inline-block;
-              padding: 8px 16px;
-              margin: 10px 0;
-              border-radius: 4px;
-              font-weight: bold;
-              font-size: 16px;
-              color: white;
-              background-color: ${orderTypeColors[kot.order_type]};
-            }
-            .info {
-              margin-bottom: 10px;
-              padding-bottom: 10px;
-              border-bottom: 1px dashed #000;
-              font-size: 11px;
-            }
-            .info div {
-              margin-bottom: 3px;
-            }
-            .info-label {
-              font-weight: bold;
-              display: inline-block;
-              width: 80px;
-            }
-            .items {
-              margin-bottom: 10px;
-              padding-bottom: 10px;
-              border-bottom: 1px dashed #000;
-            }
-            .item {
-              margin-bottom: 10px;
-              padding: 8px;
-              background: #f9f9f9;
-              border-left: 3px solid #000;
-            }
-            .item-name {
-              font-weight: bold;
-              font-size: 13px;
-              margin-bottom: 3px;
-            }
-            .item-qty {
-              font-size: 14px;
-              font-weight: bold;
-            }
-            .item-notes {
-              font-style: italic;
-              font-size: 11px;
-              margin-top: 3px;
-              color: #666;
-            }
-            .footer {
-              text-align: center;
-              margin-top: 15px;
-              padding-top: 10px;
-              border-top: 1px dashed #000;
-              font-size: 11px;
-            }
-            .timestamp {
-              text-align: center;
-              font-size: 10px;
-              margin-top: 10px;
-            }
-            @media print {
-              body {
-                width: 80mm;
-                margin: 0;
-                padding: 5mm;
-              }
-              @page {
-                size: 80mm auto;
-                margin: 0;
-              }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>KITCHEN ORDER TICKET</h1>
-            <div>${kot.kot_number}</div>
-            <div class="order-type-badge">
-              ${orderTypeIcons[kot.order_type]} ${orderTypeLabels[kot.order_type]}
-            </div>
-          </div>
+      setVoidItems(data || []);
+      setVoidData({ kot_item_id: kotItemId, quantity: 1, reason_code: '', notes: '', pin: '' });
+      setVoidKOT(kot);
+    } catch (error) {
+      console.error('Error loading KOT items:', error);
+      alert('Error loading KOT items');
+    }
+  };
 
-          <div class="info">
-            ${kot.order_type === 'dine_in' ? `<div><span class="info-label">Table:</span> ${kot.table_number}</div>` : ''}
-            ${kot.customer_name ? `<div><span class="info-label">Customer:</span> ${kot.customer_name}</div>` : ''}
-            ${kot.customer_phone ? `<div><span class="info-label">Phone:</span> ${kot.customer_phone}</div>` : ''}
-            ${kot.delivery_platform ? `<div><span class="info-label">Platform:</span> ${kot.delivery_platform}</div>` : ''}
-            ${kot.delivery_order_id ? `<div><span class="info-label">Order ID:</span> ${kot.delivery_order_id}</div>` : ''}
-            ${kot.notes ? `<div><span class="info-label">Notes:</span> ${kot.notes}</div>` : ''}
-          </div>
+  const openRevisions = async (kot: KOT) => {
+    try {
+      const { data, error } = await supabase
+        .from('kot_revisions')
+        .select('*, created_by_profile:profiles!kot_revisions_created_by_fkey(full_name)')
+        .eq('kot_id', kot.id)
+        .order('revision', { ascending: false });
 
-          <div class="items">
-            ${items.map((item: any) => `
-              <div class="item">
-                <div class="item-name">${item.menu_item_name}</div>
-                <div class="item-qty">Quantity: ${item.quantity}</div>
-                ${item.notes ? `<div class="item-notes">Note: ${item.notes}</div>` : ''}
-              </div>
-            `).join('')}
-          </div>
+      if (error) throw error;
 
-          <div class="footer">
-            <div style="font-weight: bold;">Total Items: ${items.reduce((sum: number, item: any) => sum + parseFloat(item.quantity), 0)}</div>
-          </div>
+      setRevisions(data || []);
+      setRevisionKOT(kot);
+    } catch (error) {
+      console.error('Error loading KOT revisions:', error);
+      alert('Error loading KOT revisions');
+    }
+  };
 
-          <div class="timestamp">
-            Printed: ${new Date().toLocaleString('en-IN')}
-          </div>
+  const closeVoid = () => {
+    setVoidKOT(null);
+    setVoidItems([]);
+  };
 
-          <script>
-            window.onload = function() {
-              window.print();
-            }
-          </script>
-        </body>
-        </html>
-      `);
+  // Fired lines leave a KOT through a void, so the reason and approval are recorded
+  const handleVoidFromEdit = (kotItemId: string) => {
+    if (!editingKOT) return;
+    if (!confirm('Close this edit without saving and void the item?')) return;
 
-      printWindow.document.close();
+    const kot = editingKOT;
+    setShowModal(false);
+    resetForm();
+    openVoid(kot, kotItemId);
+  };
+
+  const voidItem = voidItems.find(item => item.id === voidData.kot_item_id);
+  const voidNeedsPin = !!voidKOT && isPrepStarted(
+    voidKOT.status,
+    (voidItem ? [voidItem] : voidItems).map(item => item.status)
+  );
+
+  // Voids go through the database so the reason, approval and invoice adjustment are recorded together
+  const handleVoid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!voidKOT || !voidData.reason_code) return;
+
+    try {
+      const { data, error } = voidItem
+        ? await supabase.rpc('void_kot_item', {
+          p_kot_item_id: voidItem.id,
+          p_quantity: voidData.quantity,
+          p_reason_code: voidData.reason_code,
+          p_notes: voidData.notes || null,
+          p_pin: voidNeedsPin ? voidData.pin : null,
+        })
+        : await supabase.rpc('void_kot', {
+          p_kot_id: voidKOT.id,
+          p_reason_code: voidData.reason_code,
+          p_notes: voidData.notes || null,
+          p_pin: voidNeedsPin ? voidData.pin : null,
+        });
+
+      if (error) throw error;
+      // A wrong PIN is counted towards the lockout rather than raised
+      if (!data) throw new Error('Invalid manager PIN');
+      pushAggregatorStatus(voidKOT);
+      closeVoid();
+      loadKOTs();
+    } catch (error) {
+      console.error('Error voiding KOT:', error);
+      alert('Failed to void: ' + (error as Error).message);
+    }
+  };
+
+  const handleUpdateStatus = async (id: string, newStatus: string) => {
+    try {
+      const { error } = await supabase
+        .from('kots')
+        .update({ status: newStatus })
+        .eq('id', id);
+
+      if (error) throw error;
+      const kot = kots.find(k => k.id === id);
+      if (kot) pushAggregatorStatus(kot);
+      loadKOTs();
+    } catch (error) {
+      console.error('Error updating status:', error);
+      alert('Error updating status');
+    }
+  };
+
+  const handleConfirmGuestKOT = async (kot: KOT) => {
+    if (!kot.table_id) return;
+
+    try {
+      await confirmGuestKOT({ id: kot.id, table_id: kot.table_id }, user?.id);
+      loadKOTs();
+    } catch (error) {
+      console.error('Error confirming guest order:', error);
+      alert('Error confirming guest order: ' + (error as Error).message);
+    }
+  };
+
+  const handleRejectGuestKOT = async (kot: KOT) => {
+    if (!confirm(`Reject guest order ${kot.kot_number}? It will not be sent to the kitchen.`)) return;
+
+    try {
+      await rejectGuestKOT(kot.id);
+      loadKOTs();
+    } catch (error) {
+      console.error('Error rejecting guest order:', error);
+      alert('Error rejecting guest order');
+    }
+  };
+
+  const handleSendTrackingLink = async (kot: KOT) => {
+    try {
+      const whatsappUrl = await sendOrderTrackingLink(kot.id);
+      if (whatsappUrl) {
+        window.open(whatsappUrl, '_blank');
+      } else {
+        alert(`Tracking link sent to ${kot.customer_phone}`);
+      }
+    } catch (error) {
+      console.error('Error sending tracking link:', error);
+      alert('Error sending tracking link: ' + (error as Error).message);
+    }
+  };
+
+  const handlePrintKOT = async (kot: KOT) => {
+    try {
+      const { data: items, error } = await supabase
+        .from('kot_items')
+        .select('*')
+        .eq('kot_id', kot.id);
+
+      if (error) throw error;
+
+      // Held courses print when they are fired
+      await printKOT(
+        { ...kot, kot_number: formatRevisionNumber(kot.kot_number, kot.revision || 0) },
+        items.filter(item => item.status !== 'held'),
+        stations
+      );
     } catch (error) {
       console.error('Error printing KOT:', error);
       alert('Error printing KOT');
@@ -549,6 +966,13 @@ export function KOT() {
 
   const handleViewReceipt = async (kot: KOT) => {
     try {
+      if (kot.session_id) {
+        const invoiceId = await billTableSession(kot.session_id);
+        loadKOTs();
+        if (invoiceId) window.open(`/invoice?id=${invoiceId}`, '_blank');
+        return;
+      }
+
       const { data: items, error: itemsError } = await supabase
         .from('kot_items')
         .select('*')
@@ -563,12 +987,11 @@ export function KOT() {
 
       if (profileError) throw profileError;
 
-      const subtotal = items.reduce((sum: number, item: any) =>
-        sum + (parseFloat(item.quantity) * parseFloat(item.unit_price)), 0
+      const { subtotal, tax, total } = buildInvoiceLines(
+        items.map((item: any) => ({ ...item, quantity: parseFloat(item.quantity), unit_price: parseFloat(item.unit_price) })),
+        menuItems,
+        false
       );
-      const taxRate = 0.05;
-      const tax = subtotal * taxRate;
-      const total = subtotal + tax;
 
       const orderTypeIcons = {
         dine_in: '🍽️',
@@ -595,7 +1018,7 @@ export function KOT() {
         <!DOCTYPE html>
         <html>
         <head>
-          <title>Order Receipt - ${kot.kot_number}</title>
+          <title>Order Receipt - ${escapeHtml(kot.kot_number)}</title>
           <style>
             * {
               margin: 0;
@@ -725,12 +1148,12 @@ export function KOT() {
         </head>
         <body>
           <div class="header">
-            <h1>${companyProfile?.company_name || 'Restaurant'}</h1>
+            <h1>${escapeHtml(companyProfile?.company_name || 'Restaurant')}</h1>
             ${companyProfile ? `
               <div class="company-info">
-                ${companyProfile.address_line1 ? `<div>${companyProfile.address_line1}</div>` : ''}
-                ${companyProfile.phone ? `<div>Tel: ${companyProfile.phone}</div>` : ''}
-                ${companyProfile.gst_number ? `<div>GST: ${companyProfile.gst_number}</div>` : ''}
+                ${companyProfile.address_line1 ? `<div>${escapeHtml(companyProfile.address_line1)}</div>` : ''}
+                ${companyProfile.phone ? `<div>Tel: ${escapeHtml(companyProfile.phone)}</div>` : ''}
+                ${companyProfile.gst_number ? `<div>GST: ${escapeHtml(companyProfile.gst_number)}</div>` : ''}
               </div>
             ` : ''}
             <div style="font-size: 16px; font-weight: bold; margin-top: 8px;">ORDER RECEIPT</div>
@@ -740,14 +1163,14 @@ export function KOT() {
           </div>
 
           <div class="info">
-            <div><span class="info-label">Order:</span> ${kot.kot_number}</div>
+            <div><span class="info-label">Order:</span> ${escapeHtml(kot.kot_number)}</div>
             <div><span class="info-label">Date:</span> ${new Date(kot.created_at).toLocaleDateString('en-IN')}</div>
             <div><span class="info-label">Time:</span> ${new Date(kot.created_at).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}</div>
-            ${kot.order_type === 'dine_in' ? `<div><span class="info-label">Table:</span> ${kot.table_number}</div>` : ''}
-            ${kot.customer_name ? `<div><span class="info-label">Customer:</span> ${kot.customer_name}</div>` : ''}
-            ${kot.customer_phone ? `<div><span class="info-label">Phone:</span> ${kot.customer_phone}</div>` : ''}
-            ${kot.delivery_platform ? `<div><span class="info-label">Platform:</span> ${kot.delivery_platform}</div>` : ''}
-            ${kot.delivery_order_id ? `<div><span class="info-label">Order ID:</span> ${kot.delivery_order_id}</div>` : ''}
+            ${kot.order_type === 'dine_in' ? `<div><span class="info-label">Table:</span> ${escapeHtml(kot.table_number)}</div>` : ''}
+            ${kot.customer_name ? `<div><span class="info-label">Customer:</span> ${escapeHtml(kot.customer_name)}</div>` : ''}
+            ${kot.customer_phone ? `<div><span class="info-label">Phone:</span> ${escapeHtml(kot.customer_phone)}</div>` : ''}
+            ${kot.delivery_platform ? `<div><span class="info-label">Platform:</span> ${escapeHtml(kot.delivery_platform)}</div>` : ''}
+            ${kot.delivery_order_id ? `<div><span class="info-label">Order ID:</span> ${escapeHtml(kot.delivery_order_id)}</div>` : ''}
           </div>
 
           <table class="items-table">
@@ -762,14 +1185,19 @@ export function KOT() {
             <tbody>
               ${items.map((item: any) => `
                 <tr>
-                  <td class="item-name">${item.menu_item_name}</td>
-                  <td class="qty">${item.quantity}</td>
+                  <td class="item-name">${escapeHtml(item.menu_item_name)}</td>
+                  <td class="qty">${escapeHtml(item.quantity)}</td>
                   <td class="price">₹${parseFloat(item.unit_price).toFixed(2)}</td>
                   <td class="price">₹${(parseFloat(item.quantity) * parseFloat(item.unit_price)).toFixed(2)}</td>
                 </tr>
+                ${getLineDetails(item).map(line => `
+                  <tr>
+                    <td colspan="4" style="font-size: 10px; padding-left: 10px;">${escapeHtml(line)}</td>
+                  </tr>
+                `).join('')}
                 ${item.notes ? `
                   <tr>
-                    <td colspan="4" style="font-size: 10px; font-style: italic; padding-left: 10px;">Note: ${item.notes}</td>
+                    <td colspan="4" style="font-size: 10px; font-style: italic; padding-left: 10px;">Note: ${escapeHtml(item.notes)}</td>
                   </tr>
                 ` : ''}
               `).join('')}
@@ -782,7 +1210,7 @@ export function KOT() {
               <span>₹${subtotal.toFixed(2)}</span>
             </div>
             <div>
-              <span>Tax (5%):</span>
+              <span>GST:</span>
               <span>₹${tax.toFixed(2)}</span>
             </div>
             <div class="grand-total">
@@ -794,7 +1222,7 @@ export function KOT() {
           <div class="footer">
             <div class="thank-you">Thank You!</div>
             <div>Please visit again</div>
-            ${companyProfile?.website ? `<div>${companyProfile.website}</div>` : ''}
+            ${companyProfile?.website ? `<div>${escapeHtml(companyProfile.website)}</div>` : ''}
           </div>
 
           <div class="timestamp">
@@ -820,7 +1248,7 @@ export function KOT() {
   const resetForm = () => {
     setFormData({
       order_type: 'dine_in',
-      table_number: '',
+      table_id: '',
       customer_name: '',
       customer_phone: '',
       delivery_platform: '',
@@ -828,7 +1256,11 @@ export function KOT() {
       notes: '',
     });
     setSelectedItems([]);
+    setOptionsItem(null);
+    setShowPortionBuilder(false);
+    setActiveCombo(null);
     setEditingKOT(null);
+    setHoldCourses(true);
   };
 
   const getStatusBadge = (status: string) => {
@@ -942,7 +1374,23 @@ export function KOT() {
             <tbody>
               {filteredKOTs.map((kot) => (
                 <tr key={kot.id} className="border-b border-slate-100 hover:bg-slate-50">
-                  <td className="px-4 py-3 text-sm font-medium text-slate-900">{kot.kot_number}</td>
+                  <td className="px-4 py-3 text-sm font-medium text-slate-900">
+                    {kot.kot_number}
+                    {(kot.revision || 0) > 0 && (
+                      <button
+                        onClick={() => openRevisions(kot)}
+                        className="ml-2 px-2 py-0.5 rounded-full bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-medium"
+                        title="View edit history"
+                      >
+                        R{kot.revision}
+                      </button>
+                    )}
+                    {kot.awaiting_confirmation && (
+                      <div className="mt-1 inline-block px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+                        Guest order · awaiting confirmation
+                      </div>
+                    )}
+                  </td>
                   <td className="px-4 py-3">
                     <div className="flex items-center gap-2">
                       {getOrderTypeIcon(kot.order_type)}
@@ -959,13 +1407,13 @@ export function KOT() {
                       value={kot.status}
                       onChange={(e) => handleUpdateStatus(kot.id, e.target.value)}
                       className="text-sm border border-slate-300 rounded px-2 py-1"
-                      disabled={kot.status === 'served' || kot.status === 'cancelled'}
+                      disabled={kot.status === 'served' || kot.status === 'cancelled' || kot.awaiting_confirmation}
                     >
                       <option value="pending">Pending</option>
                       <option value="preparing">Preparing</option>
                       <option value="ready">Ready</option>
                       <option value="served">Served</option>
-                      <option value="cancelled">Cancelled</option>
+                      {kot.status === 'cancelled' && <option value="cancelled">Cancelled</option>}
                     </select>
                   </td>
                   <td className="px-4 py-3 text-sm text-slate-600">
@@ -978,10 +1426,28 @@ export function KOT() {
                   </td>
                   <td className="px-4 py-3 text-right">
                     <div className="flex gap-2 justify-end">
+                      {kot.awaiting_confirmation && kot.status !== 'cancelled' && (
+                        <>
+                          <button
+                            onClick={() => handleConfirmGuestKOT(kot)}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition"
+                            title="Confirm Guest Order"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleRejectGuestKOT(kot)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                            title="Reject Guest Order"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
                       <button
                         onClick={() => handleViewReceipt(kot)}
                         className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition"
-                        title="View Order Receipt"
+                        title={kot.session_id ? 'Print Table Bill' : 'View Order Receipt'}
                       >
                         <Eye className="w-4 h-4" />
                       </button>
@@ -992,7 +1458,16 @@ export function KOT() {
                       >
                         <Printer className="w-4 h-4" />
                       </button>
-                      {kot.status !== 'served' && kot.status !== 'cancelled' && (
+                      {kot.order_type !== 'dine_in' && kot.customer_phone && kot.status !== 'cancelled' && (
+                        <button
+                          onClick={() => handleSendTrackingLink(kot)}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition"
+                          title="Send Tracking Link on WhatsApp"
+                        >
+                          <MessageCircle className="w-4 h-4" />
+                        </button>
+                      )}
+                      {kot.status !== 'served' && kot.status !== 'cancelled' && !kot.settled_at && !kot.awaiting_confirmation && (
                         <button
                           onClick={() => handleEdit(kot)}
                           className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
@@ -1001,13 +1476,15 @@ export function KOT() {
                           <Edit2 className="w-4 h-4" />
                         </button>
                       )}
-                      <button
-                        onClick={() => handleDelete(kot.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
-                        title="Delete KOT"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {kot.status !== 'cancelled' && !kot.settled_at && !kot.awaiting_confirmation && (
+                        <button
+                          onClick={() => openVoid(kot)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                          title="Void KOT or Item"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -1030,7 +1507,7 @@ export function KOT() {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <button
                   type="button"
-                  onClick={() => setFormData({ ...formData, order_type: 'dine_in' })}
+                  onClick={() => handleChannelChange({ order_type: 'dine_in' })}
                   className={`p-4 rounded-lg border-2 transition ${
                     formData.order_type === 'dine_in'
                       ? 'border-green-500 bg-green-50'
@@ -1043,7 +1520,7 @@ export function KOT() {
 
                 <button
                   type="button"
-                  onClick={() => setFormData({ ...formData, order_type: 'delivery' })}
+                  onClick={() => handleChannelChange({ order_type: 'delivery' })}
                   className={`p-4 rounded-lg border-2 transition ${
                     formData.order_type === 'delivery'
                       ? 'border-orange-500 bg-orange-50'
@@ -1056,7 +1533,7 @@ export function KOT() {
 
                 <button
                   type="button"
-                  onClick={() => setFormData({ ...formData, order_type: 'take_away' })}
+                  onClick={() => handleChannelChange({ order_type: 'take_away' })}
                   className={`p-4 rounded-lg border-2 transition ${
                     formData.order_type === 'take_away'
                       ? 'border-blue-500 bg-blue-50'
@@ -1072,15 +1549,21 @@ export function KOT() {
                 {formData.order_type === 'dine_in' && (
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-2">
-                      Table Number *
+                      Table *
                     </label>
-                    <input
-                      type="text"
-                      value={formData.table_number}
-                      onChange={(e) => setFormData({ ...formData, table_number: e.target.value })}
+                    <select
+                      value={formData.table_id}
+                      onChange={(e) => handleTableChange(e.target.value)}
                       className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       required={formData.order_type === 'dine_in'}
-                    />
+                    >
+                      <option value="">Select table</option>
+                      {tables.map((table) => (
+                        <option key={table.id} value={table.id}>
+                          {table.name} ({table.seats} seats) - {TABLE_STATUS_LABELS[getTableStatus(table, kots)]}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                 )}
 
@@ -1118,7 +1601,7 @@ export function KOT() {
                         type="text"
                         placeholder="e.g., Zomato, Swiggy"
                         value={formData.delivery_platform}
-                        onChange={(e) => setFormData({ ...formData, delivery_platform: e.target.value })}
+                        onChange={(e) => handleChannelChange({ delivery_platform: e.target.value })}
                         className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       />
                     </div>
@@ -1151,10 +1634,89 @@ export function KOT() {
               </div>
 
               <div className="border-t border-slate-200 pt-6">
-                <h3 className="text-lg font-semibold text-slate-900 mb-4">Select Menu Items</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-slate-900">Select Menu Items</h3>
+                  {getPortionItems().length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setShowPortionBuilder(!showPortionBuilder)}
+                      className="px-3 py-1.5 bg-orange-500 hover:bg-orange-600 text-white text-sm font-semibold rounded-lg transition"
+                    >
+                      Half & Half
+                    </button>
+                  )}
+                </div>
+
+                {showPortionBuilder && (
+                  <div className="mb-6 p-4 border border-orange-200 bg-orange-50 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex gap-2">
+                        {[2, 4].map((count) => (
+                          <button
+                            key={count}
+                            type="button"
+                            onClick={() => handlePortionCountChange(count)}
+                            className={`px-3 py-1.5 border rounded-lg text-sm font-medium transition ${
+                              portionItemIds.length === count
+                                ? 'bg-orange-500 border-orange-500 text-white'
+                                : 'bg-white border-slate-200 hover:border-orange-300'
+                            }`}
+                          >
+                            {count === 2 ? 'Halves' : 'Quarters'}
+                          </button>
+                        ))}
+                      </div>
+                      <span className="text-xs text-slate-600">
+                        Priced at {portionPricingRule === 'average' ? 'average' : 'highest'} portion
+                      </span>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      {portionItemIds.map((id, index) => (
+                        <select
+                          key={index}
+                          value={id}
+                          onChange={(e) => {
+                            const ids = [...portionItemIds];
+                            ids[index] = e.target.value;
+                            setPortionItemIds(ids);
+                            setPortionSize('');
+                          }}
+                          className="px-3 py-2 border border-slate-300 rounded-lg bg-white"
+                        >
+                          <option value="">Portion {index + 1}</option>
+                          {getPortionItems().map((item) => (
+                            <option key={item.id} value={item.id}>{item.name}</option>
+                          ))}
+                        </select>
+                      ))}
+                    </div>
+
+                    {getPortionSizes().length > 0 && (
+                      <select
+                        value={portionSize}
+                        onChange={(e) => setPortionSize(e.target.value)}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white"
+                      >
+                        <option value="">Choose size</option>
+                        {getPortionSizes().map((size) => (
+                          <option key={size} value={size}>{size}</option>
+                        ))}
+                      </select>
+                    )}
+
+                    <button
+                      type="button"
+                      onClick={handleAddComposite}
+                      className="w-full py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg transition"
+                    >
+                      Add to Order
+                    </button>
+                  </div>
+                )}
 
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6 max-h-60 overflow-y-auto p-2">
-                  {menuItems.map((item) => (
+                  {menuItems.filter(item => isScheduledAvailable(item, schedules)).map((item) => (
                     <button
                       key={item.id}
                       type="button"
@@ -1162,41 +1724,242 @@ export function KOT() {
                       className="p-3 border border-slate-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition text-left"
                     >
                       <div className="font-medium text-sm text-slate-900">{item.name}</div>
-                      <div className="text-xs text-slate-600">{formatINR(item.price)}</div>
+                      <div className="text-xs text-slate-600">
+                        {getActiveVariants(item).length > 0
+                          ? `${getActiveVariants(item).length} options from ${formatINR(Math.min(...getActiveVariants(item).map(v => getItemPrice(item, v))))}`
+                          : formatINR(getItemPrice(item))}
+                      </div>
+                      {getActiveOffers(item, schedules).map((offer) => (
+                        <div key={offer.id} className="text-xs text-green-700 font-medium">{offer.name}</div>
+                      ))}
                     </button>
                   ))}
                 </div>
 
+                {combos.length > 0 && (
+                  <div className="mb-6">
+                    <div className="text-sm font-medium text-slate-700 mb-2">Combos</div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {combos.map((combo) => (
+                        <button
+                          key={combo.id}
+                          type="button"
+                          onClick={() => handleOpenCombo(combo)}
+                          className="p-3 border border-green-200 bg-green-50 rounded-lg hover:bg-green-100 hover:border-green-300 transition text-left"
+                        >
+                          <div className="font-medium text-sm text-slate-900">{combo.name}</div>
+                          <div className="text-xs text-slate-600">{formatINR(applyMarkup(priceList, Number(combo.price)))}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {activeCombo && (
+                  <div className="mb-6 p-4 border border-green-200 bg-green-50 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-semibold text-slate-900">
+                        {activeCombo.name} - {formatINR(activeCombo.price)}
+                      </h4>
+                      <button
+                        type="button"
+                        onClick={() => setActiveCombo(null)}
+                        className="p-1 text-slate-500 hover:text-slate-700"
+                      >
+                        <XCircle className="w-5 h-5" />
+                      </button>
+                    </div>
+                    {getComboSlots(activeCombo).map((slot, index) => (
+                      <div key={slot.id} className="flex items-center gap-3">
+                        <label className="w-32 text-sm font-medium text-slate-700">
+                          {slot.name}{slot.quantity !== 1 && ` x${slot.quantity}`}
+                        </label>
+                        <select
+                          value={comboChoices[index] || ''}
+                          onChange={(e) => {
+                            const choices = [...comboChoices];
+                            choices[index] = e.target.value;
+                            setComboChoices(choices);
+                          }}
+                          className="flex-1 px-3 py-2 border border-slate-300 rounded-lg bg-white"
+                        >
+                          <option value="">Choose...</option>
+                          {getSlotOptions(slot, menuItems).map((item) => (
+                            <option key={item.id} value={item.id}>{item.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={handleAddCombo}
+                      className="w-full py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition"
+                    >
+                      Add to Order
+                    </button>
+                  </div>
+                )}
+
+                {optionsItem && (
+                  <div className="mb-6 p-4 border border-blue-200 bg-blue-50 rounded-lg space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-semibold text-slate-900">{optionsItem.name}</h4>
+                      <button
+                        type="button"
+                        onClick={() => setOptionsItem(null)}
+                        className="p-1 text-slate-500 hover:text-slate-700"
+                      >
+                        <XCircle className="w-5 h-5" />
+                      </button>
+                    </div>
+
+                    {getActiveVariants(optionsItem).length > 0 && (
+                      <div>
+                        <div className="text-sm font-medium text-slate-700 mb-2">Size</div>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                          {getActiveVariants(optionsItem).map((variant) => (
+                            <button
+                              key={variant.id}
+                              type="button"
+                              onClick={() => setOptionsVariantId(variant.id)}
+                              className={`p-3 border rounded-lg transition text-left ${
+                                optionsVariantId === variant.id
+                                  ? 'bg-blue-600 border-blue-600 text-white'
+                                  : 'bg-white border-slate-200 hover:border-blue-300'
+                              }`}
+                            >
+                              <div className="font-medium text-sm">{variant.name}</div>
+                              <div className="text-xs opacity-80">{formatINR(getItemPrice(optionsItem, variant))}</div>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {getModifierGroups(optionsItem).map((group) => (
+                      <div key={group.id}>
+                        <div className="text-sm font-medium text-slate-700 mb-2">
+                          {group.name}
+                          <span className="ml-2 text-xs text-slate-500">
+                            {group.min_select > 0 ? `Choose ${group.min_select === group.max_select ? group.min_select : `${group.min_select}-${group.max_select}`}` : `Optional, up to ${group.max_select}`}
+                          </span>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {group.modifiers.map((modifier) => (
+                            <button
+                              key={modifier.id}
+                              type="button"
+                              onClick={() => toggleOptionModifier(group, modifier.id)}
+                              className={`px-3 py-2 border rounded-lg text-sm transition ${
+                                optionsModifierIds.includes(modifier.id)
+                                  ? 'bg-blue-600 border-blue-600 text-white'
+                                  : 'bg-white border-slate-200 hover:border-blue-300'
+                              }`}
+                            >
+                              {modifier.name}
+                              {Number(modifier.price_delta) !== 0 && ` +${formatINR(applyMarkup(priceList, Number(modifier.price_delta)))}`}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    <button
+                      type="button"
+                      onClick={handleConfirmOptions}
+                      className="w-full py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
+                    >
+                      Add to Order
+                    </button>
+                  </div>
+                )}
+
                 {selectedItems.length > 0 && (
                   <div className="bg-slate-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-slate-900 mb-3">Selected Items</h4>
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="font-semibold text-slate-900">Selected Items</h4>
+                      {formData.order_type === 'dine_in' && (
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="checkbox"
+                            checked={holdCourses}
+                            onChange={(e) => setHoldCourses(e.target.checked)}
+                            className="rounded border-slate-300"
+                          />
+                          Hold later courses until fired
+                        </label>
+                      )}
+                    </div>
                     <div className="space-y-2">
-                      {selectedItems.map((item) => (
-                        <div key={item.menu_item_id} className="flex items-center justify-between gap-4 bg-white p-3 rounded-lg">
+                      {selectedItems.map((item, index) => (
+                        <div key={index} className="flex items-center justify-between gap-4 bg-white p-3 rounded-lg">
                           <div className="flex-1">
                             <div className="font-medium text-sm">{item.menu_item_name}</div>
-                            <div className="text-xs text-slate-600">{formatINR(item.unit_price)} each</div>
+                            {getLineDetails(pricedItems[index]).map((line) => (
+                              <div key={line} className="text-xs text-slate-500">{line}</div>
+                            ))}
+                            <div className="text-xs text-slate-600">
+                              {formatINR(item.unit_price)} each
+                              {item.status === 'held' && <span className="ml-2 text-amber-600 font-medium">Held</span>}
+                            </div>
+                            {editingKOT && isFiredItem(item) && (
+                              <div className="text-xs text-orange-600">
+                                Kitchen has this {item.status === 'ready' ? 'ready' : 'in preparation'}.{' '}
+                                <button
+                                  type="button"
+                                  onClick={() => handleVoidFromEdit(item.id!)}
+                                  className="underline hover:text-orange-800"
+                                >
+                                  Void to remove
+                                </button>
+                              </div>
+                            )}
                           </div>
                           <div className="flex items-center gap-2">
+                            {formData.order_type === 'dine_in' && (
+                              <select
+                                title="Course"
+                                value={item.course || 1}
+                                onChange={(e) => handleUpdateCourse(index, Number(e.target.value))}
+                                className="px-2 py-1 border border-slate-300 rounded text-sm"
+                              >
+                                {COURSES.map((course) => (
+                                  <option key={course} value={course}>{getCourseLabel(course)}</option>
+                                ))}
+                              </select>
+                            )}
+                            {formData.order_type === 'dine_in' && (
+                              <input
+                                type="number"
+                                min="1"
+                                placeholder="Seat"
+                                title="Seat (for split bills)"
+                                value={item.seat || ''}
+                                onChange={(e) => handleUpdateSeat(index, e.target.value ? Number(e.target.value) : null)}
+                                className="w-16 px-2 py-1 border border-slate-300 rounded text-sm"
+                              />
+                            )}
                             <button
                               type="button"
-                              onClick={() => handleUpdateQuantity(item.menu_item_id, item.quantity - 1)}
-                              className="w-7 h-7 flex items-center justify-center bg-slate-200 hover:bg-slate-300 rounded"
+                              onClick={() => handleUpdateQuantity(index, item.quantity - 1)}
+                              disabled={isFiredItem(item) && item.quantity <= getMinQuantity(item)}
+                              className="w-7 h-7 flex items-center justify-center bg-slate-200 hover:bg-slate-300 rounded disabled:opacity-40 disabled:cursor-not-allowed"
                             >
                               -
                             </button>
                             <span className="w-8 text-center font-medium">{item.quantity}</span>
                             <button
                               type="button"
-                              onClick={() => handleUpdateQuantity(item.menu_item_id, item.quantity + 1)}
+                              onClick={() => handleUpdateQuantity(index, item.quantity + 1)}
                               className="w-7 h-7 flex items-center justify-center bg-slate-200 hover:bg-slate-300 rounded"
                             >
                               +
                             </button>
                             <button
                               type="button"
-                              onClick={() => handleRemoveItem(item.menu_item_id)}
-                              className="ml-2 p-1.5 text-red-600 hover:bg-red-50 rounded"
+                              onClick={() => handleRemoveItem(index)}
+                              disabled={isFiredItem(item)}
+                              className="ml-2 p-1.5 text-red-600 hover:bg-red-50 rounded disabled:opacity-40 disabled:cursor-not-allowed"
                             >
                               <Trash2 className="w-4 h-4" />
                             </button>
@@ -1236,6 +1999,170 @@ export function KOT() {
           </div>
         </div>
       )}
+
+      {voidKOT && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200">
+              <h2 className="text-2xl font-bold text-slate-900">Void {voidKOT.kot_number}</h2>
+              {voidKOT.invoice_id && (
+                <p className="text-sm text-slate-500 mt-1">The linked bill will be reduced by the voided amount.</p>
+              )}
+            </div>
+
+            <form onSubmit={handleVoid} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">What to void</label>
+                <select
+                  value={voidData.kot_item_id}
+                  onChange={(e) => {
+                    const item = voidItems.find(i => i.id === e.target.value);
+                    setVoidData({ ...voidData, kot_item_id: e.target.value, quantity: item ? Number(item.quantity) : 1 });
+                  }}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Entire ticket ({formatINR(voidItems.reduce((sum, item) => sum + item.quantity * item.unit_price, 0))})</option>
+                  {voidItems.map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.quantity} x {item.menu_item_name}{item.variant_name ? ` (${item.variant_name})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {voidItem && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Quantity to void</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={voidItem.quantity}
+                    step="1"
+                    value={voidData.quantity}
+                    onChange={(e) => setVoidData({ ...voidData, quantity: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    Value: {formatINR(voidData.quantity * voidItem.unit_price)}
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Reason *</label>
+                <select
+                  value={voidData.reason_code}
+                  onChange={(e) => setVoidData({ ...voidData, reason_code: e.target.value as VoidReasonCode })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                >
+                  <option value="">Select a reason</option>
+                  {(Object.keys(VOID_REASONS) as VoidReasonCode[]).map(code => (
+                    <option key={code} value={code}>{VOID_REASONS[code]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Notes {voidData.reason_code === 'other' && '*'}
+                </label>
+                <textarea
+                  value={voidData.notes}
+                  onChange={(e) => setVoidData({ ...voidData, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required={voidData.reason_code === 'other'}
+                />
+              </div>
+
+              {voidNeedsPin && (
+                <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                  <label className="flex items-center gap-2 text-sm font-medium text-amber-900 mb-2">
+                    <KeyRound className="w-4 h-4" />
+                    Preparation has started - manager PIN required
+                  </label>
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={voidData.pin}
+                    onChange={(e) => setVoidData({ ...voidData, pin: e.target.value })}
+                    className="w-full px-4 py-2 border border-amber-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-4 pt-4 border-t border-slate-200">
+                <button
+                  type="button"
+                  onClick={closeVoid}
+                  className="flex-1 px-6 py-3 bg-slate-200 hover:bg-slate-300 text-slate-900 font-semibold rounded-lg transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition"
+                >
+                  {voidItem ? 'Void Item' : 'Void Ticket'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {revisionKOT && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200">
+              <h2 className="text-2xl font-bold text-slate-900">{revisionKOT.kot_number} Revisions</h2>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {revisions.length === 0 && (
+                <p className="text-sm text-slate-500">This KOT has not been edited.</p>
+              )}
+              {revisions.map((revision) => (
+                <div key={revision.id} className="border border-slate-200 rounded-lg p-3">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-semibold text-slate-900">
+                      {formatRevisionNumber(revisionKOT.kot_number, revision.revision)}
+                    </span>
+                    <span className="text-slate-500">
+                      {new Date(revision.created_at).toLocaleString('en-IN')}
+                      {revision.created_by_profile?.full_name && ` · ${revision.created_by_profile.full_name}`}
+                    </span>
+                  </div>
+                  {revision.added.map((line, index) => (
+                    <div key={`added-${index}`} className="text-sm text-green-700">
+                      + {line.quantity} × {line.menu_item_name}
+                      {line.status === 'held' && <span className="text-slate-500"> (held)</span>}
+                    </div>
+                  ))}
+                  {revision.cancelled.map((line, index) => (
+                    <div key={`cancelled-${index}`} className="text-sm text-red-700">
+                      − {line.quantity} × {line.menu_item_name}
+                      {line.status === 'held' && <span className="text-slate-500"> (held)</span>}
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              <button
+                type="button"
+                onClick={() => setRevisionKOT(null)}
+                className="w-full px-6 py-3 bg-slate-200 hover:bg-slate-300 text-slate-900 font-semibold rounded-lg transition"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
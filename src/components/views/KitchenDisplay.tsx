@@ -0,0 +1,360 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { DEFAULT_PREPARATION_TIME, KitchenStation, groupItemsByStation } from '../../lib/kitchen';
+import { OrderComponent, OrderModifier, OrderPortion, formatComponents, formatPortions } from '../../lib/orders';
+import { pushAggregatorStatus } from '../../lib/aggregators';
+import { Clock, Maximize2, Minimize2, Utensils, Truck, ShoppingBag, CheckCircle } from 'lucide-react';
+
+interface KDSItem {
+  id: string;
+  kot_id: string;
+  menu_item_id: string | null;
+  menu_item_name: string;
+  quantity: number;
+  notes: string | null;
+  status: 'held' | 'pending' | 'preparing' | 'ready';
+  station_id: string | null;
+  fired_at: string | null;
+  modifiers?: OrderModifier[] | null;
+  portions?: OrderPortion[] | null;
+  components?: OrderComponent[] | null;
+  menu_item?: { preparation_time: number | null } | null;
+}
+
+interface KDSTicket {
+  id: string;
+  kot_number: string;
+  order_type: 'dine_in' | 'delivery' | 'take_away';
+  table_number: string | null;
+  customer_name: string | null;
+  delivery_platform: string | null;
+  delivery_order_id: string | null;
+  status: 'pending' | 'preparing' | 'ready';
+  notes: string | null;
+  created_at: string;
+  items: KDSItem[];
+}
+
+interface StationTicket {
+  key: string;
+  ticket: KDSTicket;
+  station: KitchenStation | null;
+  stationCount: number;
+  items: KDSItem[];
+  status: KDSTicket['status'];
+}
+
+const columns: { status: KDSTicket['status']; label: string; headerClass: string }[] = [
+  { status: 'pending', label: 'Pending', headerClass: 'bg-yellow-500' },
+  { status: 'preparing', label: 'Preparing', headerClass: 'bg-blue-600' },
+  { status: 'ready', label: 'Ready', headerClass: 'bg-green-600' },
+];
+
+const nextItemStatus: { [key: string]: KDSItem['status'] } = {
+  pending: 'preparing',
+  preparing: 'ready',
+};
+
+export function KitchenDisplay() {
+  const [tickets, setTickets] = useState<KDSTicket[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  const [stationFilter, setStationFilter] = useState<string>('all');
+  const [loading, setLoading] = useState(true);
+  const [fullScreen, setFullScreen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    loadTickets();
+
+    const channel = supabase
+      .channel('kitchen-display')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'kots' }, () => loadTickets())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'kot_items' }, () => loadTickets())
+      .subscribe();
+
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+
+    return () => {
+      clearInterval(timer);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleFullScreenChange = () => {
+      if (!document.fullscreenElement) setFullScreen(false);
+    };
+    document.addEventListener('fullscreenchange', handleFullScreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullScreenChange);
+  }, []);
+
+  const loadTickets = async () => {
+    try {
+      const [ticketsRes, stationsRes] = await Promise.all([
+        supabase
+          .from('kots')
+          .select('*, items:kot_items(*, menu_item:menu_items(preparation_time))')
+          .in('status', ['pending', 'preparing', 'ready'])
+          .eq('awaiting_confirmation', false)
+          .order('created_at', { ascending: true }),
+        supabase.from('kitchen_stations').select('*').eq('is_active', true).order('display_order'),
+      ]);
+
+      if (ticketsRes.error) throw ticketsRes.error;
+
+      // Held courses stay off the display until the server fires them
+      const visibleTickets = (ticketsRes.data || [])
+        .map(ticket => ({ ...ticket, items: ticket.items.filter((item: KDSItem) => item.status !== 'held') }))
+        .filter(ticket => ticket.items.length > 0);
+      setTickets(visibleTickets);
+      setStations(stationsRes.data || []);
+    } catch (error) {
+      console.error('Error loading kitchen tickets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleFullScreen = async () => {
+    try {
+      if (!fullScreen) {
+        await document.documentElement.requestFullscreen?.();
+      } else if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      }
+    } catch (error) {
+      console.error('Error toggling full screen:', error);
+    }
+    setFullScreen(!fullScreen);
+  };
+
+  const getTicketStatus = (items: KDSItem[]): KDSTicket['status'] => {
+    if (items.length > 0 && items.every(item => item.status === 'ready')) return 'ready';
+    if (items.some(item => item.status !== 'pending')) return 'preparing';
+    return 'pending';
+  };
+
+  const handleBumpItem = async (ticket: KDSTicket, item: KDSItem) => {
+    const newStatus = nextItemStatus[item.status];
+    if (!newStatus) return;
+
+    try {
+      const { error } = await supabase
+        .from('kot_items')
+        .update({ status: newStatus })
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      const items = ticket.items.map(i => (i.id === item.id ? { ...i, status: newStatus } : i));
+      const ticketStatus = getTicketStatus(items);
+
+      if (ticketStatus !== ticket.status) {
+        const { error: kotError } = await supabase
+          .from('kots')
+          .update({ status: ticketStatus })
+          .eq('id', ticket.id);
+
+        if (kotError) throw kotError;
+        pushAggregatorStatus(ticket);
+      }
+
+      loadTickets();
+    } catch (error) {
+      console.error('Error bumping item:', error);
+      alert('Error updating item status');
+    }
+  };
+
+  const handleServed = async (ticket: KDSTicket) => {
+    try {
+      const { error } = await supabase
+        .from('kots')
+        .update({ status: 'served' })
+        .eq('id', ticket.id);
+
+      if (error) throw error;
+      pushAggregatorStatus(ticket);
+      loadTickets();
+    } catch (error) {
+      console.error('Error marking ticket served:', error);
+      alert('Error updating ticket status');
+    }
+  };
+
+  const getStationTickets = (): StationTicket[] => {
+    return tickets.flatMap((ticket) => {
+      const groups = groupItemsByStation(ticket.items, stations);
+      return groups
+        .filter(group => stationFilter === 'all' || (group.station?.id || 'none') === stationFilter)
+        .map(group => ({
+          key: `${ticket.id}-${group.station?.id || 'none'}`,
+          ticket,
+          station: group.station,
+          stationCount: groups.length,
+          items: group.items,
+          status: getTicketStatus(group.items),
+        }));
+    });
+  };
+
+  const getTargetMinutes = (items: KDSItem[]) => {
+    return items.reduce(
+      (max, item) => Math.max(max, item.menu_item?.preparation_time || DEFAULT_PREPARATION_TIME),
+      0
+    ) || DEFAULT_PREPARATION_TIME;
+  };
+
+  // A fired course is timed from when it was fired, not when the ticket was opened
+  const getElapsedMinutes = (ticket: KDSTicket, items: KDSItem[]) => {
+    const startedAt = items.reduce(
+      (latest, item) => (item.fired_at && item.fired_at > latest ? item.fired_at : latest),
+      ticket.created_at
+    );
+    return Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 60000));
+  };
+
+  const getOrderTypeIcon = (orderType: string) => {
+    const icons = {
+      dine_in: <Utensils className="w-4 h-4" />,
+      delivery: <Truck className="w-4 h-4" />,
+      take_away: <ShoppingBag className="w-4 h-4" />,
+    };
+    return icons[orderType as keyof typeof icons] || icons.dine_in;
+  };
+
+  const getItemStatusClass = (status: string) => {
+    switch (status) {
+      case 'preparing': return 'bg-blue-50 border-blue-300 text-blue-900';
+      case 'ready': return 'bg-green-50 border-green-300 text-green-900 line-through';
+      default: return 'bg-white border-slate-200 text-slate-900';
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  const stationTickets = getStationTickets();
+
+  return (
+    <div className={fullScreen ? 'fixed inset-0 z-50 bg-slate-900 p-4 overflow-y-auto' : 'space-y-6'}>
+      <div className="flex items-center justify-between mb-4">
+        <h1 className={`text-3xl font-bold ${fullScreen ? 'text-white' : 'text-slate-900'}`}>Kitchen Display</h1>
+        <div className="flex items-center gap-3">
+          <select
+            value={stationFilter}
+            onChange={(e) => setStationFilter(e.target.value)}
+            className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Stations</option>
+            {stations.map((station) => (
+              <option key={station.id} value={station.id}>{station.name}</option>
+            ))}
+            <option value="none">Unassigned</option>
+          </select>
+          <button
+            onClick={toggleFullScreen}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-800 text-white font-semibold rounded-lg transition flex items-center gap-2"
+          >
+            {fullScreen ? <Minimize2 className="w-5 h-5" /> : <Maximize2 className="w-5 h-5" />}
+            {fullScreen ? 'Exit Full Screen' : 'Full Screen'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {columns.map((column) => {
+          const columnTickets = stationTickets.filter(stationTicket => stationTicket.status === column.status);
+
+          return (
+            <div key={column.status} className="bg-slate-100 rounded-xl overflow-hidden">
+              <div className={`${column.headerClass} text-white px-4 py-3 flex items-center justify-between`}>
+                <span className="font-bold text-lg">{column.label}</span>
+                <span className="bg-white bg-opacity-25 px-2.5 py-0.5 rounded-full text-sm font-semibold">
+                  {columnTickets.length}
+                </span>
+              </div>
+
+              <div className="p-3 space-y-3">
+                {columnTickets.length === 0 && (
+                  <p className="text-center text-slate-500 py-6 text-sm">No tickets</p>
+                )}
+
+                {columnTickets.map(({ key, ticket, station, stationCount, items, status }) => {
+                  const elapsed = getElapsedMinutes(ticket, items);
+                  const target = getTargetMinutes(items);
+                  const overdue = status !== 'ready' && elapsed > target;
+
+                  return (
+                    <div
+                      key={key}
+                      className={`bg-white rounded-lg shadow-sm border-2 ${overdue ? 'border-red-500' : 'border-slate-200'}`}
+                    >
+                      <div className={`px-3 py-2 flex items-center justify-between rounded-t-lg ${overdue ? 'bg-red-600 text-white' : 'bg-slate-800 text-white'}`}>
+                        <div>
+                          <div className="font-bold">{ticket.kot_number}</div>
+                          {(station || stationCount > 1) && (
+                            <div className="text-xs font-semibold uppercase">{station?.name || 'Unassigned'}</div>
+                          )}
+                          <div className="flex items-center gap-1 text-xs opacity-90">
+                            {getOrderTypeIcon(ticket.order_type)}
+                            {ticket.order_type === 'dine_in' && ticket.table_number && <span>Table {ticket.table_number}</span>}
+                            {ticket.order_type === 'delivery' && <span>{ticket.delivery_platform || 'Delivery'}</span>}
+                            {ticket.order_type === 'take_away' && <span>{ticket.customer_name || 'Take Away'}</span>}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 font-semibold">
+                          <Clock className="w-4 h-4" />
+                          {elapsed}/{target}m
+                        </div>
+                      </div>
+
+                      <div className="p-3 space-y-2">
+                        {ticket.notes && (
+                          <div className="text-xs italic text-slate-600">Note: {ticket.notes}</div>
+                        )}
+                        {items.map((item) => (
+                          <button
+                            key={item.id}
+                            onClick={() => handleBumpItem(ticket, item)}
+                            disabled={item.status === 'ready'}
+                            className={`w-full text-left px-3 py-2 rounded border transition ${getItemStatusClass(item.status)}`}
+                          >
+                            <div className="flex justify-between font-semibold">
+                              <span>{item.quantity} × {item.menu_item_name}</span>
+                              <span className="text-xs uppercase">{item.status}</span>
+                            </div>
+                            {[...formatComponents(item.components), ...formatPortions(item.portions)].map((line) => (
+                              <div key={line} className="text-sm font-medium pl-3">{line}</div>
+                            ))}
+                            {(item.modifiers || []).map((modifier) => (
+                              <div key={modifier.id} className="text-sm font-medium pl-3">+ {modifier.name}</div>
+                            ))}
+                            {item.notes && <div className="text-xs italic">Note: {item.notes}</div>}
+                          </button>
+                        ))}
+                      </div>
+
+                      {ticket.status === 'ready' && (
+                        <div className="px-3 pb-3">
+                          <button
+                            onClick={() => handleServed(ticket)}
+                            className="w-full py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition flex items-center justify-center gap-2"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                            Mark Served
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
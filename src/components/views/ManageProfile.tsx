@@ -1,10 +1,10 @@
 import { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
-import { User, Lock, Mail, Save } from 'lucide-react';
+import { User, Lock, Mail, Save, KeyRound } from 'lucide-react';
 
 export function ManageProfile() {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
@@ -17,6 +17,11 @@ export function ManageProfile() {
     confirmPassword: '',
   });
 
+  const [pinData, setPinData] = useState({
+    pin: '',
+    confirmPin: '',
+  });
+
   const handleEmailChange = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -87,6 +92,39 @@ export function ManageProfile() {
     }
   };
 
+  const handlePinChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      if (!/^[0-9]{4,8}$/.test(pinData.pin)) {
+        throw new Error('PIN must be 4 to 8 digits');
+      }
+
+      if (pinData.pin !== pinData.confirmPin) {
+        throw new Error('PINs do not match');
+      }
+
+      const { error } = await supabase.rpc('set_approval_pin', { p_pin: pinData.pin });
+
+      if (error) throw error;
+
+      setMessage({
+        type: 'success',
+        text: 'Approval PIN updated successfully!',
+      });
+      setPinData({ pin: '', confirmPin: '' });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="p-6">
       <div className="mb-8">
@@ -214,6 +252,59 @@ export function ManageProfile() {
             </button>
           </form>
         </div>
+
+        {profile?.role === 'admin' && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 lg:col-span-2">
+            <div className="flex items-center gap-2 mb-4">
+              <KeyRound className="w-5 h-5 text-gray-600" />
+              <h2 className="text-xl font-semibold text-gray-900">Approval PIN</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Used to approve voids once the kitchen has started preparing an order.
+            </p>
+
+            <form onSubmit={handlePinChange} className="max-w-xl space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  New PIN
+                </label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={pinData.pin}
+                  onChange={(e) => setPinData({ ...pinData, pin: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="4 to 8 digits"
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm PIN
+                </label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={pinData.confirmPin}
+                  onChange={(e) => setPinData({ ...pinData, confirmPin: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Confirm PIN"
+                  disabled={loading}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex items-center justify-center gap-2 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                {loading ? 'Updating...' : 'Update PIN'}
+              </button>
+            </form>
+          </div>
+        )}
       </div>
     </div>
   );
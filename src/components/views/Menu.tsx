@@ -1,7 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plus, Edit2, Trash2, Save, X, ChevronDown, ChevronUp, Receipt } from 'lucide-react';
+import { Plus, Edit2, Trash2, Save, X, ChevronDown, ChevronUp, ChefHat, ListPlus, Package, Tags, Clock } from 'lucide-react';
 import { formatINR } from '../../lib/currency';
+import { KitchenStation } from '../../lib/kitchen';
+import { Combo } from '../../lib/orders';
+import { CHANNEL_LABELS, OrderChannel, PriceList, applyMarkup } from '../../lib/pricing';
+import { getPlateCost } from '../../lib/foodCost';
+import {
+  MenuSchedule,
+  SCHEDULE_TYPE_LABELS,
+  ScheduleType,
+  WEEKDAYS,
+  formatScheduleOffer,
+  formatScheduleWindow,
+} from '../../lib/menuSchedules';
 
 interface MenuCategory {
   id: string;
@@ -9,6 +21,7 @@ interface MenuCategory {
   description: string;
   display_order: number;
   is_active: boolean;
+  station_id: string | null;
 }
 
 interface MenuItem {
@@ -20,44 +33,125 @@ interface MenuItem {
   cost_price: number;
   image_url: string;
   hsn_code: string;
+  barcode?: string | null;
   gst_rate: number;
   preparation_time: number;
   is_vegetarian: boolean;
+  allow_portions?: boolean;
   is_available: boolean;
   is_active: boolean;
   display_order: number;
+  station_id: string | null;
+  variants?: VariantLine[];
 }
 
-interface BillItem {
-  menu_item_id: string;
+interface RecipeProduct {
+  id: string;
+  name: string;
+  unit: string;
+  cost_price: number;
+}
+
+interface RecipeLine {
+  product_id: string;
+  quantity: number;
+  variant_id: string | null;
+}
+
+interface VariantLine {
+  id?: string;
+  name: string;
+  price: number;
+  cost_price: number;
+  sku: string;
+  is_active: boolean;
+}
+
+interface Modifier {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  display_order: number;
+  is_active: boolean;
+}
+
+interface ModifierGroup {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  display_order: number;
+  is_active: boolean;
+  modifiers: Modifier[];
+}
+
+interface ComboSlotLine {
+  name: string;
   quantity: number;
-  unit_price: number;
+  category_id: string;
+  item_ids: string[];
 }
 
 export default function Menu() {
   const [categories, setCategories] = useState<MenuCategory[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [products, setProducts] = useState<RecipeProduct[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  const [showStationForm, setShowStationForm] = useState(false);
+  const [stationForm, setStationForm] = useState({ name: '', description: '', display_order: 0 });
+  const [recipeLines, setRecipeLines] = useState<RecipeLine[]>([]);
+  const [recipeVariantId, setRecipeVariantId] = useState('');
+  const [variantLines, setVariantLines] = useState<VariantLine[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [itemModifierGroupIds, setItemModifierGroupIds] = useState<string[]>([]);
+  const [showModifierForm, setShowModifierForm] = useState(false);
+  const [combos, setCombos] = useState<(Combo & { description: string | null })[]>([]);
+  const [showComboForm, setShowComboForm] = useState(false);
+  const [editingComboId, setEditingComboId] = useState<string | null>(null);
+  const [comboForm, setComboForm] = useState({ name: '', description: '', price: 0, is_active: true });
+  const [comboSlots, setComboSlots] = useState<ComboSlotLine[]>([]);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [showPriceListForm, setShowPriceListForm] = useState(false);
+  const [editingPriceListId, setEditingPriceListId] = useState<string | null>(null);
+  const [priceListForm, setPriceListForm] = useState({
+    name: '',
+    order_type: 'delivery' as OrderChannel,
+    delivery_platform: '',
+    markup_percent: 0,
+    is_active: true,
+  });
+  const [priceOverrides, setPriceOverrides] = useState<{ [key: string]: string }>({});
+  const [schedules, setSchedules] = useState<MenuSchedule[]>([]);
+  const [showScheduleForm, setShowScheduleForm] = useState(false);
+  const [editingScheduleId, setEditingScheduleId] = useState<string | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({
+    name: '',
+    schedule_type: 'availability' as ScheduleType,
+    days_of_week: [0, 1, 2, 3, 4, 5, 6],
+    start_time: '',
+    end_time: '',
+    discount_percent: 10,
+    buy_quantity: 1,
+    free_quantity: 1,
+    is_active: true,
+  });
+  const [scheduleCategoryIds, setScheduleCategoryIds] = useState<string[]>([]);
+  const [scheduleItemIds, setScheduleItemIds] = useState<string[]>([]);
+  const [modifierGroupForm, setModifierGroupForm] = useState({ name: '', min_select: 0, max_select: 1 });
+  const [modifierForms, setModifierForms] = useState<{ [groupId: string]: { name: string; price_delta: number } }>({});
   const [loading, setLoading] = useState(true);
   const [showCategoryForm, setShowCategoryForm] = useState(false);
   const [showItemForm, setShowItemForm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<MenuCategory | null>(null);
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
-  const [showBillingSection, setShowBillingSection] = useState(false);
-  const [billItems, setBillItems] = useState<BillItem[]>([]);
-  const [billForm, setBillForm] = useState({
-    customer_name: '',
-    customer_phone: '',
-    payment_method: 'cash',
-    payment_status: 'paid',
-    notes: '',
-  });
-
   const [categoryForm, setCategoryForm] = useState({
     name: '',
     description: '',
     display_order: 0,
     is_active: true,
+    station_id: '',
   });
 
   const [itemForm, setItemForm] = useState({
@@ -68,12 +162,15 @@ export default function Menu() {
     cost_price: 0,
     image_url: '',
     hsn_code: '',
+    barcode: '',
     gst_rate: 5,
     preparation_time: 15,
     is_vegetarian: true,
+    allow_portions: false,
     is_available: true,
     is_active: true,
     display_order: 0,
+    station_id: '',
   });
 
   useEffect(() => {
@@ -82,13 +179,33 @@ export default function Menu() {
 
   const loadData = async () => {
     try {
-      const [categoriesRes, itemsRes] = await Promise.all([
+      const [categoriesRes, itemsRes, productsRes, stationsRes, modifierGroupsRes, combosRes, priceListsRes, schedulesRes] = await Promise.all([
         supabase.from('menu_categories').select('*').order('display_order'),
-        supabase.from('menu_items').select('*').order('display_order'),
+        supabase.from('menu_items').select('*, variants:menu_item_variants(*)').order('display_order'),
+        supabase.from('products').select('id, name, unit, cost_price').order('name'),
+        supabase.from('kitchen_stations').select('*').order('display_order'),
+        supabase.from('modifier_groups').select('*, modifiers(*)').order('display_order'),
+        supabase
+          .from('combos')
+          .select('*, slots:combo_slots(*, items:combo_slot_items(menu_item_id))')
+          .order('display_order'),
+        supabase.from('price_lists').select('*, items:price_list_items(*)').order('name'),
+        supabase.from('menu_schedules').select('*, items:menu_schedule_items(*)').order('name'),
       ]);
 
       if (categoriesRes.data) setCategories(categoriesRes.data);
       if (itemsRes.data) setMenuItems(itemsRes.data);
+      if (productsRes.data) setProducts(productsRes.data);
+      if (stationsRes.data) setStations(stationsRes.data);
+      if (combosRes.data) setCombos(combosRes.data);
+      if (priceListsRes.data) setPriceLists(priceListsRes.data);
+      if (schedulesRes.data) setSchedules(schedulesRes.data);
+      if (modifierGroupsRes.data) {
+        setModifierGroups(modifierGroupsRes.data.map(group => ({
+          ...group,
+          modifiers: (group.modifiers || []).sort((a: Modifier, b: Modifier) => a.display_order - b.display_order),
+        })));
+      }
     } catch (error) {
       console.error('Error loading menu data:', error);
     } finally {
@@ -111,20 +228,22 @@ export default function Menu() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const categoryData = { ...categoryForm, station_id: categoryForm.station_id || null };
+
       if (editingCategory) {
         await supabase
           .from('menu_categories')
-          .update(categoryForm)
+          .update(categoryData)
           .eq('id', editingCategory.id);
       } else {
         await supabase
           .from('menu_categories')
-          .insert([{ ...categoryForm, created_by: user.id }]);
+          .insert([{ ...categoryData, created_by: user.id }]);
       }
 
       setShowCategoryForm(false);
       setEditingCategory(null);
-      setCategoryForm({ name: '', description: '', display_order: 0, is_active: true });
+      setCategoryForm({ name: '', description: '', display_order: 0, is_active: true, station_id: '' });
       loadData();
     } catch (error) {
       console.error('Error saving category:', error);
@@ -137,19 +256,35 @@ export default function Menu() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      let menuItemId = editingItem?.id;
+      const itemData = { ...itemForm, barcode: itemForm.barcode.trim() || null, station_id: itemForm.station_id || null };
+
       if (editingItem) {
         await supabase
           .from('menu_items')
-          .update(itemForm)
+          .update(itemData)
           .eq('id', editingItem.id);
       } else {
-        await supabase
+        const { data, error } = await supabase
           .from('menu_items')
-          .insert([{ ...itemForm, created_by: user.id }]);
+          .insert([{ ...itemData, created_by: user.id }])
+          .select()
+          .single();
+
+        if (error) throw error;
+        menuItemId = data.id;
       }
 
+      await saveVariants(menuItemId!);
+      await saveRecipe(menuItemId!);
+      await saveItemModifierGroups(menuItemId!);
+
       setShowItemForm(false);
       setEditingItem(null);
+      setRecipeLines([]);
+      setRecipeVariantId('');
+      setVariantLines([]);
+      setItemModifierGroupIds([]);
       setItemForm({
         category_id: '',
         name: '',
@@ -158,12 +293,15 @@ export default function Menu() {
         cost_price: 0,
         image_url: '',
         hsn_code: '',
+        barcode: '',
         gst_rate: 5,
         preparation_time: 15,
         is_vegetarian: true,
+        allow_portions: false,
         is_available: true,
         is_active: true,
         display_order: 0,
+        station_id: '',
       });
       loadData();
     } catch (error) {
@@ -172,6 +310,588 @@ export default function Menu() {
     }
   };
 
+  const saveRecipe = async (menuItemId: string) => {
+    const { error: deleteError } = await supabase
+      .from('menu_item_recipes')
+      .delete()
+      .eq('menu_item_id', menuItemId);
+
+    if (deleteError) throw deleteError;
+
+    // Recipes of variants removed in this edit went with them
+    const keptVariantIds = variantLines.filter(line => line.id && line.name.trim()).map(line => line.id);
+    const lines = recipeLines
+      .filter(line => line.product_id && line.quantity > 0)
+      .filter(line => !line.variant_id || keptVariantIds.includes(line.variant_id))
+      .map(line => ({
+        menu_item_id: menuItemId,
+        variant_id: line.variant_id,
+        product_id: line.product_id,
+        quantity: line.quantity,
+      }));
+
+    if (lines.length === 0) return;
+
+    const { error } = await supabase.from('menu_item_recipes').insert(lines);
+    if (error) throw error;
+  };
+
+  const saveVariants = async (menuItemId: string) => {
+    const lines = variantLines.filter(line => line.name.trim());
+    const keptIds = lines.filter(line => line.id).map(line => line.id);
+
+    let deleteQuery = supabase.from('menu_item_variants').delete().eq('menu_item_id', menuItemId);
+    if (keptIds.length > 0) {
+      deleteQuery = deleteQuery.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: deleteError } = await deleteQuery;
+    if (deleteError) throw deleteError;
+
+    for (const [index, line] of lines.entries()) {
+      const variantData = {
+        menu_item_id: menuItemId,
+        name: line.name.trim(),
+        price: line.price,
+        cost_price: line.cost_price,
+        sku: line.sku || null,
+        is_active: line.is_active,
+        display_order: index,
+      };
+
+      const { error } = line.id
+        ? await supabase.from('menu_item_variants').update(variantData).eq('id', line.id)
+        : await supabase.from('menu_item_variants').insert([variantData]);
+
+      if (error) throw error;
+    }
+  };
+
+  const saveItemModifierGroups = async (menuItemId: string) => {
+    const { error: deleteError } = await supabase
+      .from('menu_item_modifier_groups')
+      .delete()
+      .eq('menu_item_id', menuItemId);
+
+    if (deleteError) throw deleteError;
+    if (itemModifierGroupIds.length === 0) return;
+
+    const { error } = await supabase.from('menu_item_modifier_groups').insert(
+      itemModifierGroupIds.map((groupId, index) => ({
+        menu_item_id: menuItemId,
+        group_id: groupId,
+        display_order: index,
+      }))
+    );
+    if (error) throw error;
+  };
+
+  const toggleItemModifierGroup = (groupId: string) => {
+    setItemModifierGroupIds(
+      itemModifierGroupIds.includes(groupId)
+        ? itemModifierGroupIds.filter(id => id !== groupId)
+        : [...itemModifierGroupIds, groupId]
+    );
+  };
+
+  const handleSaveModifierGroup = async () => {
+    if (!modifierGroupForm.name.trim()) {
+      alert('Please enter a group name');
+      return;
+    }
+    if (modifierGroupForm.max_select < 1 || modifierGroupForm.min_select > modifierGroupForm.max_select) {
+      alert('Maximum must be at least 1 and not less than the minimum');
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('modifier_groups')
+        .insert([{ ...modifierGroupForm, display_order: modifierGroups.length, created_by: user.id }]);
+
+      if (error) throw error;
+
+      setModifierGroupForm({ name: '', min_select: 0, max_select: 1 });
+      loadData();
+    } catch (error) {
+      console.error('Error saving modifier group:', error);
+      alert('Failed to save modifier group');
+    }
+  };
+
+  const handleDeleteModifierGroup = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this modifier group?')) return;
+
+    try {
+      await supabase.from('modifier_groups').delete().eq('id', id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting modifier group:', error);
+      alert('Failed to delete modifier group');
+    }
+  };
+
+  const handleAddModifier = async (group: ModifierGroup) => {
+    const form = modifierForms[group.id];
+    if (!form?.name.trim()) {
+      alert('Please enter a modifier name');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('modifiers')
+        .insert([{
+          group_id: group.id,
+          name: form.name.trim(),
+          price_delta: form.price_delta,
+          display_order: group.modifiers.length,
+        }]);
+
+      if (error) throw error;
+
+      setModifierForms({ ...modifierForms, [group.id]: { name: '', price_delta: 0 } });
+      loadData();
+    } catch (error) {
+      console.error('Error saving modifier:', error);
+      alert('Failed to save modifier');
+    }
+  };
+
+  const handleDeleteModifier = async (id: string) => {
+    try {
+      await supabase.from('modifiers').delete().eq('id', id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting modifier:', error);
+      alert('Failed to delete modifier');
+    }
+  };
+
+  const resetComboForm = () => {
+    setEditingComboId(null);
+    setComboForm({ name: '', description: '', price: 0, is_active: true });
+    setComboSlots([]);
+  };
+
+  const editCombo = (combo: Combo & { description: string | null }) => {
+    setEditingComboId(combo.id);
+    setComboForm({
+      name: combo.name,
+      description: combo.description || '',
+      price: combo.price,
+      is_active: combo.is_active,
+    });
+    setComboSlots(
+      [...combo.slots]
+        .sort((a, b) => a.display_order - b.display_order)
+        .map(slot => ({
+          name: slot.name,
+          quantity: slot.quantity,
+          category_id: slot.category_id || '',
+          item_ids: (slot.items || []).map(item => item.menu_item_id),
+        }))
+    );
+  };
+
+  const addComboSlot = () => {
+    setComboSlots([...comboSlots, { name: '', quantity: 1, category_id: categories[0]?.id || '', item_ids: [] }]);
+  };
+
+  const updateComboSlot = (index: number, field: keyof ComboSlotLine, value: string | number | string[]) => {
+    const updated = [...comboSlots];
+    updated[index] = { ...updated[index], [field]: value };
+    setComboSlots(updated);
+  };
+
+  const removeComboSlot = (index: number) => {
+    setComboSlots(comboSlots.filter((_, i) => i !== index));
+  };
+
+  const handleSaveCombo = async () => {
+    if (!comboForm.name.trim() || comboSlots.length === 0) {
+      alert('Please enter a combo name and at least one slot');
+      return;
+    }
+    if (comboSlots.some(slot => !slot.name.trim() || (!slot.category_id && slot.item_ids.length === 0))) {
+      alert('Every slot needs a name and a category or at least one item');
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const comboData = { ...comboForm, description: comboForm.description || null };
+      let comboId = editingComboId;
+
+      if (comboId) {
+        const { error } = await supabase.from('combos').update(comboData).eq('id', comboId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase.from('combo_slots').delete().eq('combo_id', comboId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('combos')
+          .insert([{ ...comboData, display_order: combos.length, created_by: user.id }])
+          .select()
+          .single();
+
+        if (error) throw error;
+        comboId = data.id;
+      }
+
+      for (const [index, slot] of comboSlots.entries()) {
+        const { data: savedSlot, error: slotError } = await supabase
+          .from('combo_slots')
+          .insert([{
+            combo_id: comboId,
+            name: slot.name.trim(),
+            quantity: slot.quantity,
+            category_id: slot.category_id || null,
+            display_order: index,
+          }])
+          .select()
+          .single();
+
+        if (slotError) throw slotError;
+
+        if (!slot.category_id && slot.item_ids.length > 0) {
+          const { error: itemsError } = await supabase
+            .from('combo_slot_items')
+            .insert(slot.item_ids.map(menuItemId => ({ slot_id: savedSlot.id, menu_item_id: menuItemId })));
+
+          if (itemsError) throw itemsError;
+        }
+      }
+
+      resetComboForm();
+      loadData();
+    } catch (error) {
+      console.error('Error saving combo:', error);
+      alert('Failed to save combo');
+    }
+  };
+
+  const handleDeleteCombo = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this combo?')) return;
+
+    try {
+      await supabase.from('combos').delete().eq('id', id);
+      if (editingComboId === id) resetComboForm();
+      loadData();
+    } catch (error) {
+      console.error('Error deleting combo:', error);
+      alert('Failed to delete combo');
+    }
+  };
+
+  const priceOverrideKey = (menuItemId: string, variantId?: string | null) => `${menuItemId}:${variantId || ''}`;
+
+  const resetPriceListForm = () => {
+    setEditingPriceListId(null);
+    setPriceListForm({ name: '', order_type: 'delivery', delivery_platform: '', markup_percent: 0, is_active: true });
+    setPriceOverrides({});
+  };
+
+  const editPriceList = (list: PriceList) => {
+    setEditingPriceListId(list.id);
+    setPriceListForm({
+      name: list.name,
+      order_type: list.order_type,
+      delivery_platform: list.delivery_platform || '',
+      markup_percent: Number(list.markup_percent),
+      is_active: list.is_active,
+    });
+    setPriceOverrides(Object.fromEntries(
+      (list.items || []).map(item => [priceOverrideKey(item.menu_item_id, item.variant_id), String(item.price)])
+    ));
+  };
+
+  const handleSavePriceList = async () => {
+    if (!priceListForm.name.trim()) {
+      alert('Please enter a price list name');
+      return;
+    }
+
+    try {
+      const listData = {
+        ...priceListForm,
+        name: priceListForm.name.trim(),
+        delivery_platform: priceListForm.order_type === 'delivery' && priceListForm.delivery_platform.trim()
+          ? priceListForm.delivery_platform.trim()
+          : null,
+      };
+      let listId = editingPriceListId;
+
+      if (listId) {
+        const { error } = await supabase.from('price_lists').update(listData).eq('id', listId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase.from('price_list_items').delete().eq('price_list_id', listId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase.from('price_lists').insert([listData]).select().single();
+        if (error) throw error;
+        listId = data.id;
+      }
+
+      const items = Object.entries(priceOverrides)
+        .filter(([, price]) => price !== '')
+        .map(([key, price]) => {
+          const [menuItemId, variantId] = key.split(':');
+          return {
+            price_list_id: listId,
+            menu_item_id: menuItemId,
+            variant_id: variantId || null,
+            price: Number(price),
+          };
+        });
+
+      if (items.length > 0) {
+        const { error: itemsError } = await supabase.from('price_list_items').insert(items);
+        if (itemsError) throw itemsError;
+      }
+
+      resetPriceListForm();
+      loadData();
+    } catch (error) {
+      console.error('Error saving price list:', error);
+      alert('Failed to save price list. Only one active list is allowed per channel.');
+    }
+  };
+
+  const handleDeletePriceList = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this price list?')) return;
+
+    try {
+      await supabase.from('price_lists').delete().eq('id', id);
+      if (editingPriceListId === id) resetPriceListForm();
+      loadData();
+    } catch (error) {
+      console.error('Error deleting price list:', error);
+      alert('Failed to delete price list');
+    }
+  };
+
+  const resetScheduleForm = () => {
+    setEditingScheduleId(null);
+    setScheduleForm({
+      name: '',
+      schedule_type: 'availability',
+      days_of_week: [0, 1, 2, 3, 4, 5, 6],
+      start_time: '',
+      end_time: '',
+      discount_percent: 10,
+      buy_quantity: 1,
+      free_quantity: 1,
+      is_active: true,
+    });
+    setScheduleCategoryIds([]);
+    setScheduleItemIds([]);
+  };
+
+  const editSchedule = (schedule: MenuSchedule) => {
+    setEditingScheduleId(schedule.id);
+    setScheduleForm({
+      name: schedule.name,
+      schedule_type: schedule.schedule_type,
+      days_of_week: schedule.days_of_week,
+      start_time: schedule.start_time?.slice(0, 5) || '',
+      end_time: schedule.end_time?.slice(0, 5) || '',
+      discount_percent: Number(schedule.discount_percent || 10),
+      buy_quantity: schedule.buy_quantity || 1,
+      free_quantity: schedule.free_quantity || 1,
+      is_active: schedule.is_active,
+    });
+    setScheduleCategoryIds((schedule.items || []).flatMap(item => (item.category_id ? [item.category_id] : [])));
+    setScheduleItemIds((schedule.items || []).flatMap(item => (item.menu_item_id ? [item.menu_item_id] : [])));
+  };
+
+  const toggleScheduleDay = (day: number) => {
+    const days = scheduleForm.days_of_week;
+    setScheduleForm({
+      ...scheduleForm,
+      days_of_week: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!scheduleForm.name.trim()) {
+      alert('Please enter a schedule name');
+      return;
+    }
+    if (scheduleForm.days_of_week.length === 0) {
+      alert('Please choose at least one day');
+      return;
+    }
+    if (!scheduleForm.start_time !== !scheduleForm.end_time || (scheduleForm.start_time && scheduleForm.start_time === scheduleForm.end_time)) {
+      alert('Enter both a start and an end time, or leave both blank for all day');
+      return;
+    }
+    if (scheduleCategoryIds.length === 0 && scheduleItemIds.length === 0) {
+      alert('Please choose the categories or items this schedule covers');
+      return;
+    }
+
+    try {
+      const { schedule_type } = scheduleForm;
+      const scheduleData = {
+        name: scheduleForm.name.trim(),
+        schedule_type,
+        days_of_week: scheduleForm.days_of_week,
+        start_time: scheduleForm.start_time || null,
+        end_time: scheduleForm.end_time || null,
+        discount_percent: schedule_type === 'percent_off' ? scheduleForm.discount_percent : null,
+        buy_quantity: schedule_type === 'buy_get' ? scheduleForm.buy_quantity : null,
+        free_quantity: schedule_type === 'buy_get' ? scheduleForm.free_quantity : null,
+        is_active: scheduleForm.is_active,
+      };
+      let scheduleId = editingScheduleId;
+
+      if (scheduleId) {
+        const { error } = await supabase.from('menu_schedules').update(scheduleData).eq('id', scheduleId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase.from('menu_schedule_items').delete().eq('schedule_id', scheduleId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase.from('menu_schedules').insert([scheduleData]).select().single();
+        if (error) throw error;
+        scheduleId = data.id;
+      }
+
+      const { error: itemsError } = await supabase.from('menu_schedule_items').insert([
+        ...scheduleCategoryIds.map(categoryId => ({ schedule_id: scheduleId, category_id: categoryId })),
+        ...scheduleItemIds.map(menuItemId => ({ schedule_id: scheduleId, menu_item_id: menuItemId })),
+      ]);
+      if (itemsError) throw itemsError;
+
+      resetScheduleForm();
+      loadData();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      alert('Failed to save schedule');
+    }
+  };
+
+  const handleDeleteSchedule = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this schedule?')) return;
+
+    try {
+      await supabase.from('menu_schedules').delete().eq('id', id);
+      if (editingScheduleId === id) resetScheduleForm();
+      loadData();
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      alert('Failed to delete schedule');
+    }
+  };
+
+  const addVariantLine = () => {
+    setVariantLines([...variantLines, {
+      name: '',
+      price: itemForm.price,
+      cost_price: itemForm.cost_price,
+      sku: '',
+      is_active: true,
+    }]);
+  };
+
+  const updateVariantLine = (index: number, field: keyof VariantLine, value: string | number | boolean) => {
+    const updated = [...variantLines];
+    updated[index] = { ...updated[index], [field]: value };
+    setVariantLines(updated);
+  };
+
+  const removeVariantLine = (index: number) => {
+    if (variantLines[index].id === recipeVariantId) setRecipeVariantId('');
+    setVariantLines(variantLines.filter((_, i) => i !== index));
+  };
+
+  const addRecipeLine = () => {
+    if (products.length === 0) {
+      alert('Please add inventory products first');
+      return;
+    }
+    setRecipeLines([...recipeLines, { product_id: products[0].id, quantity: 1, variant_id: recipeVariantId || null }]);
+  };
+
+  const updateRecipeLine = (index: number, field: keyof RecipeLine, value: string | number) => {
+    const updated = [...recipeLines];
+    updated[index] = { ...updated[index], [field]: value };
+    setRecipeLines(updated);
+  };
+
+  const removeRecipeLine = (index: number) => {
+    setRecipeLines(recipeLines.filter((_, i) => i !== index));
+  };
+
+  const getRecipeLines = (variantId: string | null) => recipeLines.filter(line => line.variant_id === variantId);
+
+  const getRecipePlateCost = (variantId: string | null) => getPlateCost(getRecipeLines(variantId).map(line => ({
+    quantity: line.quantity,
+    product: products.find(p => p.id === line.product_id),
+  })));
+
+  const baseRecipeLines = getRecipeLines(null);
+  const recipePlateCost = getRecipePlateCost(null);
+  const savedVariants = variantLines.filter(line => line.id);
+
+  const handleSaveStation = async () => {
+    if (!stationForm.name.trim()) {
+      alert('Please enter a station name');
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('kitchen_stations')
+        .insert([{ ...stationForm, created_by: user.id }]);
+
+      if (error) throw error;
+
+      setStationForm({ name: '', description: '', display_order: 0 });
+      loadData();
+    } catch (error) {
+      console.error('Error saving station:', error);
+      alert('Failed to save station');
+    }
+  };
+
+  const handleToggleStation = async (station: KitchenStation) => {
+    try {
+      const { error } = await supabase
+        .from('kitchen_stations')
+        .update({ is_active: !station.is_active })
+        .eq('id', station.id);
+
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error updating station:', error);
+      alert('Failed to update station');
+    }
+  };
+
+  const handleDeleteStation = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this station? Items routed to it will become unassigned.')) return;
+
+    try {
+      await supabase.from('kitchen_stations').delete().eq('id', id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting station:', error);
+      alert('Failed to delete station');
+    }
+  };
+
   const handleDeleteCategory = async (id: string) => {
     if (!confirm('Are you sure you want to delete this category?')) return;
 
@@ -203,11 +923,33 @@ export default function Menu() {
       description: category.description,
       display_order: category.display_order,
       is_active: category.is_active,
+      station_id: category.station_id || '',
     });
     setShowCategoryForm(true);
   };
 
-  const editItem = (item: MenuItem) => {
+  const editItem = async (item: MenuItem) => {
+    const { data: recipe } = await supabase
+      .from('menu_item_recipes')
+      .select('product_id, quantity, variant_id')
+      .eq('menu_item_id', item.id);
+
+    const { data: variants } = await supabase
+      .from('menu_item_variants')
+      .select('id, name, price, cost_price, sku, is_active')
+      .eq('menu_item_id', item.id)
+      .order('display_order');
+
+    const { data: itemGroups } = await supabase
+      .from('menu_item_modifier_groups')
+      .select('group_id')
+      .eq('menu_item_id', item.id)
+      .order('display_order');
+
+    setRecipeLines(recipe || []);
+    setRecipeVariantId('');
+    setItemModifierGroupIds((itemGroups || []).map(g => g.group_id));
+    setVariantLines((variants || []).map(v => ({ ...v, sku: v.sku || '' })));
     setEditingItem(item);
     setItemForm({
       category_id: item.category_id,
@@ -217,12 +959,15 @@ export default function Menu() {
       cost_price: item.cost_price,
       image_url: item.image_url,
       hsn_code: item.hsn_code,
+      barcode: item.barcode || '',
       gst_rate: item.gst_rate,
       preparation_time: item.preparation_time,
       is_vegetarian: item.is_vegetarian,
+      allow_portions: item.allow_portions || false,
       is_available: item.is_available,
       is_active: item.is_active,
       display_order: item.display_order,
+      station_id: item.station_id || '',
     });
     setShowItemForm(true);
   };
@@ -231,128 +976,780 @@ export default function Menu() {
     return menuItems.filter(item => item.category_id === categoryId);
   };
 
-  const addItemToBill = (menuItem: MenuItem) => {
-    const existingIndex = billItems.findIndex(item => item.menu_item_id === menuItem.id);
-    if (existingIndex >= 0) {
-      const updated = [...billItems];
-      updated[existingIndex].quantity += 1;
-      setBillItems(updated);
-    } else {
-      setBillItems([...billItems, { menu_item_id: menuItem.id, quantity: 1, unit_price: menuItem.price }]);
-    }
-  };
-
-  const updateBillItem = (index: number, field: string, value: any) => {
-    const updated = [...billItems];
-    updated[index] = { ...updated[index], [field]: value };
-    setBillItems(updated);
-  };
-
-  const removeBillItem = (index: number) => {
-    setBillItems(billItems.filter((_, i) => i !== index));
-  };
-
-  const calculateBillTotals = () => {
-    const subtotal = billItems.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
-    const taxAmount = subtotal * 0.05;
-    const total = subtotal + taxAmount;
-    return { subtotal, taxAmount, total };
-  };
-
-  const generateBillNumber = () => {
-    const date = new Date();
-    const timestamp = date.getTime().toString().slice(-6);
-    return `BILL-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}-${timestamp}`;
-  };
-
-  const handleCreateBill = async () => {
-    if (billItems.length === 0) {
-      alert('Please add at least one item to the bill');
-      return;
-    }
-
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
 
-      const { subtotal, taxAmount, total } = calculateBillTotals();
-      const billNumber = generateBillNumber();
-
-      const { data: bill, error: billError } = await supabase
-        .from('bills')
-        .insert({
-          user_id: user.id,
-          bill_number: billNumber,
-          customer_name: billForm.customer_name,
-          customer_phone: billForm.customer_phone,
-          subtotal,
-          tax_amount: taxAmount,
-          total_amount: total,
-          payment_status: billForm.payment_status,
-          payment_method: billForm.payment_method,
-          notes: billForm.notes,
-        })
-        .select()
-        .single();
-
-      if (billError) throw billError;
-
-      const billItemsData = billItems.map((item) => {
-        const menuItem = menuItems.find((m) => m.id === item.menu_item_id);
-        return {
-          bill_id: bill.id,
-          menu_item_id: item.menu_item_id,
-          menu_item_name: menuItem?.name || '',
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-          total: item.quantity * item.unit_price,
-        };
-      });
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Menu Management</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowPriceListForm(true)}
+            className="bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-700"
+          >
+            <Tags className="h-4 w-4" />
+            Price Lists
+          </button>
+          <button
+            onClick={() => setShowScheduleForm(true)}
+            className="bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-700"
+          >
+            <Clock className="h-4 w-4" />
+            Schedules
+          </button>
+          <button
+            onClick={() => setShowComboForm(true)}
+            className="bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-700"
+          >
+            <Package className="h-4 w-4" />
+            Combos
+          </button>
+          <button
+            onClick={() => setShowModifierForm(true)}
+            className="bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-700"
+          >
+            <ListPlus className="h-4 w-4" />
+            Modifiers
+          </button>
+          <button
+            onClick={() => setShowStationForm(true)}
+            className="bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-slate-700"
+          >
+            <ChefHat className="h-4 w-4" />
+            Kitchen Stations
+          </button>
+          <button
+            onClick={() => setShowCategoryForm(true)}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4" />
+            Add Category
+          </button>
+          <button
+            onClick={() => setShowItemForm(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4" />
+            Add Menu Item
+          </button>
+        </div>
+      </div>
 
-      const { error: itemsError } = await supabase.from('bill_items').insert(billItemsData);
+      {showPriceListForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">Channel Price Lists</h2>
+              <button
+                onClick={() => {
+                  setShowPriceListForm(false);
+                  resetPriceListForm();
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-2 mb-4">
+              {priceLists.length === 0 && (
+                <p className="text-sm text-gray-500">No price lists yet. Every channel sells at base menu prices.</p>
+              )}
+              {priceLists.map((list) => (
+                <div key={list.id} className="flex items-center justify-between border rounded px-3 py-2">
+                  <div>
+                    <div className="font-medium">
+                      {list.name}
+                      {!list.is_active && <span className="ml-2 text-xs bg-gray-100 text-gray-800 px-2 py-0.5 rounded">Inactive</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {CHANNEL_LABELS[list.order_type]}{list.delivery_platform && ` · ${list.delivery_platform}`}
+                      {Number(list.markup_percent) !== 0 && ` · ${Number(list.markup_percent) > 0 ? '+' : ''}${list.markup_percent}%`}
+                      {` · ${(list.items || []).length} fixed prices`}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => editPriceList(list)}
+                      className="text-blue-600 hover:text-blue-800 p-1"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeletePriceList(list.id)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="border-t pt-4 space-y-3">
+              <h3 className="font-semibold">{editingPriceListId ? 'Edit Price List' : 'New Price List'}</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  placeholder="Name (e.g. Zomato Prices)"
+                  value={priceListForm.name}
+                  onChange={(e) => setPriceListForm({ ...priceListForm, name: e.target.value })}
+                  className="border rounded px-3 py-2"
+                />
+                <select
+                  value={priceListForm.order_type}
+                  onChange={(e) => setPriceListForm({ ...priceListForm, order_type: e.target.value as OrderChannel })}
+                  className="border rounded px-3 py-2"
+                >
+                  {(Object.keys(CHANNEL_LABELS) as OrderChannel[]).map(channel => (
+                    <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                  ))}
+                </select>
+                {priceListForm.order_type === 'delivery' && (
+                  <input
+                    type="text"
+                    placeholder="Platform (blank for all delivery)"
+                    value={priceListForm.delivery_platform}
+                    onChange={(e) => setPriceListForm({ ...priceListForm, delivery_platform: e.target.value })}
+                    className="border rounded px-3 py-2"
+                  />
+                )}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="-100"
+                    value={priceListForm.markup_percent}
+                    onChange={(e) => setPriceListForm({ ...priceListForm, markup_percent: Number(e.target.value) })}
+                    className="flex-1 border rounded px-3 py-2"
+                  />
+                  <span className="text-sm text-gray-600 whitespace-nowrap">% markup</span>
+                </div>
+              </div>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={priceListForm.is_active}
+                  onChange={(e) => setPriceListForm({ ...priceListForm, is_active: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">Active</span>
+              </label>
+              <div>
+                <label className="block text-sm font-medium mb-1">Fixed Prices</label>
+                <p className="text-xs text-gray-500 mb-2">Leave blank to use the base price with the markup.</p>
+                <div className="border rounded divide-y max-h-72 overflow-y-auto">
+                  {menuItems.flatMap(item => {
+                    const rows = (item.variants || []).length > 0
+                      ? (item.variants || []).map(variant => ({ item, variant, label: `${item.name} (${variant.name})`, base: variant.price }))
+                      : [{ item, variant: null, label: item.name, base: item.price }];
+                    return rows.map(({ variant, label, base }) => {
+                      const key = priceOverrideKey(item.id, variant?.id);
+                      return (
+                        <div key={key} className="flex items-center justify-between gap-3 px-3 py-1.5">
+                          <span className="text-sm">{label}</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={priceOverrides[key] ?? ''}
+                            onChange={(e) => setPriceOverrides({ ...priceOverrides, [key]: e.target.value })}
+                            placeholder={formatINR(applyMarkup({ ...priceListForm, id: '', delivery_platform: null }, Number(base)))}
+                            className="w-32 border rounded px-2 py-1 text-sm"
+                          />
+                        </div>
+                      );
+                    });
+                  })}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                {editingPriceListId && (
+                  <button
+                    onClick={resetPriceListForm}
+                    className="px-4 py-2 border rounded-lg hover:bg-gray-50"
+                  >
+                    Cancel Edit
+                  </button>
+                )}
+                <button
+                  onClick={handleSavePriceList}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  {editingPriceListId ? 'Update Price List' : 'Add Price List'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
 
-      if (itemsError) throw itemsError;
+      {showScheduleForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">Menu Schedules</h2>
+              <button
+                onClick={() => {
+                  setShowScheduleForm(false);
+                  resetScheduleForm();
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-2 mb-4">
+              {schedules.length === 0 && (
+                <p className="text-sm text-gray-500">No schedules yet. Items follow their Available switch alone.</p>
+              )}
+              {schedules.map((schedule) => (
+                <div key={schedule.id} className="flex items-center justify-between border rounded px-3 py-2">
+                  <div>
+                    <div className="font-medium">
+                      {schedule.name}
+                      {!schedule.is_active && <span className="ml-2 text-xs bg-gray-100 text-gray-800 px-2 py-0.5 rounded">Inactive</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {schedule.schedule_type === 'availability' ? 'Availability' : formatScheduleOffer(schedule)}
+                      {` · ${formatScheduleWindow(schedule)}`}
+                      {` · ${(schedule.items || []).length} targets`}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => editSchedule(schedule)}
+                      className="text-blue-600 hover:text-blue-800 p-1"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSchedule(schedule.id)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="border-t pt-4 space-y-3">
+              <h3 className="font-semibold">{editingScheduleId ? 'Edit Schedule' : 'New Schedule'}</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  placeholder="Name (e.g. Happy Hour)"
+                  value={scheduleForm.name}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+                  className="border rounded px-3 py-2"
+                />
+                <select
+                  value={scheduleForm.schedule_type}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, schedule_type: e.target.value as ScheduleType })}
+                  className="border rounded px-3 py-2"
+                >
+                  {(Object.keys(SCHEDULE_TYPE_LABELS) as ScheduleType[]).map(type => (
+                    <option key={type} value={type}>{SCHEDULE_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={scheduleForm.start_time}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, start_time: e.target.value })}
+                    className="flex-1 border rounded px-3 py-2"
+                  />
+                  <span className="text-sm text-gray-600">to</span>
+                  <input
+                    type="time"
+                    value={scheduleForm.end_time}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, end_time: e.target.value })}
+                    className="flex-1 border rounded px-3 py-2"
+                  />
+                </div>
+                {scheduleForm.schedule_type === 'percent_off' && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      max="100"
+                      value={scheduleForm.discount_percent}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, discount_percent: Number(e.target.value) })}
+                      className="flex-1 border rounded px-3 py-2"
+                    />
+                    <span className="text-sm text-gray-600 whitespace-nowrap">% off</span>
+                  </div>
+                )}
+                {scheduleForm.schedule_type === 'buy_get' && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">Buy</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={scheduleForm.buy_quantity}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, buy_quantity: Number(e.target.value) })}
+                      className="w-20 border rounded px-3 py-2"
+                    />
+                    <span className="text-sm text-gray-600">get</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={scheduleForm.free_quantity}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, free_quantity: Number(e.target.value) })}
+                      className="w-20 border rounded px-3 py-2"
+                    />
+                    <span className="text-sm text-gray-600">free</span>
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">Leave both times blank for all day. An end time before the start time runs past midnight.</p>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={scheduleForm.days_of_week.includes(day)}
+                      onChange={() => toggleScheduleDay(day)}
+                      className="rounded"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={scheduleForm.is_active}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, is_active: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">Active</span>
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Categories</label>
+                  <div className="border rounded divide-y max-h-60 overflow-y-auto">
+                    {categories.map(category => (
+                      <label key={category.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={scheduleCategoryIds.includes(category.id)}
+                          onChange={(e) => setScheduleCategoryIds(e.target.checked
+                            ? [...scheduleCategoryIds, category.id]
+                            : scheduleCategoryIds.filter(id => id !== category.id))}
+                          className="rounded"
+                        />
+                        {category.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Items</label>
+                  <div className="border rounded divide-y max-h-60 overflow-y-auto">
+                    {menuItems.map(item => (
+                      <label key={item.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={scheduleItemIds.includes(item.id)}
+                          onChange={(e) => setScheduleItemIds(e.target.checked
+                            ? [...scheduleItemIds, item.id]
+                            : scheduleItemIds.filter(id => id !== item.id))}
+                          className="rounded"
+                        />
+                        {item.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                {editingScheduleId && (
+                  <button
+                    onClick={resetScheduleForm}
+                    className="px-4 py-2 border rounded-lg hover:bg-gray-50"
+                  >
+                    Cancel Edit
+                  </button>
+                )}
+                <button
+                  onClick={handleSaveSchedule}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  {editingScheduleId ? 'Update Schedule' : 'Add Schedule'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
 
-      alert('Bill created successfully!');
-      setBillItems([]);
-      setBillForm({
-        customer_name: '',
-        customer_phone: '',
-        payment_method: 'cash',
-        payment_status: 'paid',
-        notes: '',
-      });
-    } catch (error) {
-      console.error('Error creating bill:', error);
-      alert('Error creating bill');
-    }
-  };
+      {showComboForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">Combos</h2>
+              <button
+                onClick={() => {
+                  setShowComboForm(false);
+                  resetComboForm();
+                }}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-2 mb-4">
+              {combos.length === 0 && (
+                <p className="text-sm text-gray-500">No combos yet.</p>
+              )}
+              {combos.map((combo) => (
+                <div key={combo.id} className="flex items-center justify-between border rounded px-3 py-2">
+                  <div>
+                    <div className="font-medium">
+                      {combo.name}
+                      {!combo.is_active && <span className="ml-2 text-xs bg-gray-100 text-gray-800 px-2 py-0.5 rounded">Inactive</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatINR(combo.price)} · {[...combo.slots].sort((a, b) => a.display_order - b.display_order).map(slot => slot.name).join(' + ')}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => editCombo(combo)}
+                      className="text-blue-600 hover:text-blue-800 p-1"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteCombo(combo.id)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="border-t pt-4 space-y-3">
+              <h3 className="font-semibold">{editingComboId ? 'Edit Combo' : 'New Combo'}</h3>
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  placeholder="Combo name (e.g. Meal Deal)"
+                  value={comboForm.name}
+                  onChange={(e) => setComboForm({ ...comboForm, name: e.target.value })}
+                  className="col-span-2 border rounded px-3 py-2"
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Bundle price"
+                  value={comboForm.price}
+                  onChange={(e) => setComboForm({ ...comboForm, price: Number(e.target.value) })}
+                  className="border rounded px-3 py-2"
+                />
+              </div>
+              <input
+                type="text"
+                placeholder="Description (optional)"
+                value={comboForm.description}
+                onChange={(e) => setComboForm({ ...comboForm, description: e.target.value })}
+                className="w-full border rounded px-3 py-2"
+              />
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={comboForm.is_active}
+                  onChange={(e) => setComboForm({ ...comboForm, is_active: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">Active</span>
+              </label>
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium">Slots</label>
+                <button
+                  type="button"
+                  onClick={addComboSlot}
+                  className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white text-sm rounded-lg"
+                >
+                  Add Slot
+                </button>
+              </div>
+              {comboSlots.map((slot, index) => (
+                <div key={index} className="border rounded p-3 space-y-2">
+                  <div className="flex gap-2 items-center">
+                    <input
+                      type="text"
+                      placeholder="Slot name (e.g. Drink)"
+                      value={slot.name}
+                      onChange={(e) => updateComboSlot(index, 'name', e.target.value)}
+                      className="flex-1 border rounded px-3 py-2"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      title="Quantity"
+                      value={slot.quantity}
+                      onChange={(e) => updateComboSlot(index, 'quantity', Number(e.target.value))}
+                      className="w-20 border rounded px-3 py-2"
+                    />
+                    <select
+                      value={slot.category_id}
+                      onChange={(e) => updateComboSlot(index, 'category_id', e.target.value)}
+                      className="w-48 border rounded px-3 py-2"
+                    >
+                      <option value="">Pick items...</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>Any {category.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeComboSlot(index)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  {!slot.category_id && (
+                    <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                      {menuItems.map((item) => (
+                        <label key={item.id} className="flex items-center gap-1 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={slot.item_ids.includes(item.id)}
+                            onChange={() => updateComboSlot(
+                              index,
+                              'item_ids',
+                              slot.item_ids.includes(item.id)
+                                ? slot.item_ids.filter(id => id !== item.id)
+                                : [...slot.item_ids, item.id]
+                            )}
+                            className="rounded"
+                          />
+                          {item.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                {editingComboId && (
+                  <button
+                    onClick={resetComboForm}
+                    className="px-4 py-2 border rounded-lg hover:bg-gray-50"
+                  >
+                    Cancel Edit
+                  </button>
+                )}
+                <button
+                  onClick={handleSaveCombo}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  {editingComboId ? 'Update Combo' : 'Add Combo'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
 
-  if (loading) {
-    return <div className="p-6">Loading...</div>;
-  }
+      {showModifierForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">Modifier Groups</h2>
+              <button
+                onClick={() => setShowModifierForm(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-4 mb-4">
+              {modifierGroups.length === 0 && (
+                <p className="text-sm text-gray-500">No modifier groups yet. Create toppings, dips or crust choices below.</p>
+              )}
+              {modifierGroups.map((group) => {
+                const form = modifierForms[group.id] || { name: '', price_delta: 0 };
+                return (
+                  <div key={group.id} className="border rounded-lg p-3">
+                    <div className="flex items-center justify-between mb-2">
+                      <div>
+                        <div className="font-semibold">{group.name}</div>
+                        <div className="text-xs text-gray-500">
+                          Min {group.min_select} / Max {group.max_select}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteModifierGroup(group.id)}
+                        className="text-red-600 hover:text-red-800 p-1"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="space-y-1 mb-2">
+                      {group.modifiers.map((modifier) => (
+                        <div key={modifier.id} className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1">
+                          <span>{modifier.name}</span>
+                          <div className="flex items-center gap-2">
+                            <span className="text-gray-600">+{formatINR(modifier.price_delta)}</span>
+                            <button
+                              onClick={() => handleDeleteModifier(modifier.id)}
+                              className="text-red-600 hover:text-red-800 p-1"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        placeholder="Modifier (e.g. Extra Cheese)"
+                        value={form.name}
+                        onChange={(e) => setModifierForms({ ...modifierForms, [group.id]: { ...form, name: e.target.value } })}
+                        className="flex-1 border rounded px-3 py-1 text-sm"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        placeholder="Price"
+                        value={form.price_delta}
+                        onChange={(e) => setModifierForms({ ...modifierForms, [group.id]: { ...form, price_delta: Number(e.target.value) } })}
+                        className="w-24 border rounded px-3 py-1 text-sm"
+                      />
+                      <button
+                        onClick={() => handleAddModifier(group)}
+                        className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                      >
+                        Add
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="border-t pt-4">
+              <div className="grid grid-cols-4 gap-2">
+                <input
+                  type="text"
+                  placeholder="Group name (e.g. Toppings)"
+                  value={modifierGroupForm.name}
+                  onChange={(e) => setModifierGroupForm({ ...modifierGroupForm, name: e.target.value })}
+                  className="col-span-2 border rounded px-3 py-2"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  title="Minimum selections"
+                  value={modifierGroupForm.min_select}
+                  onChange={(e) => setModifierGroupForm({ ...modifierGroupForm, min_select: Number(e.target.value) })}
+                  className="border rounded px-3 py-2"
+                />
+                <input
+                  type="number"
+                  min="1"
+                  title="Maximum selections"
+                  value={modifierGroupForm.max_select}
+                  onChange={(e) => setModifierGroupForm({ ...modifierGroupForm, max_select: Number(e.target.value) })}
+                  className="border rounded px-3 py-2"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Min 0 makes the group optional; min 1 / max 1 makes it a required single choice.</p>
+              <div className="flex justify-end mt-2">
+                <button
+                  onClick={handleSaveModifierGroup}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Add Group
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
 
-  return (
-    <div className="p-6">
-      <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold">Menu Management</h1>
-        <div className="flex gap-2">
-          <button
-            onClick={() => setShowCategoryForm(true)}
-            className="bg-green-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-green-700"
-          >
-            <Plus className="h-4 w-4" />
-            Add Category
-          </button>
-          <button
-            onClick={() => setShowItemForm(true)}
-            className="bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-blue-700"
-          >
-            <Plus className="h-4 w-4" />
-            Add Menu Item
-          </button>
+      {showStationForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-lg w-full">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">Kitchen Stations</h2>
+              <button
+                onClick={() => setShowStationForm(false)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+              {stations.length === 0 && (
+                <p className="text-sm text-gray-500">No stations yet. KOTs print as a single ticket.</p>
+              )}
+              {stations.map((station) => (
+                <div key={station.id} className="flex items-center justify-between border rounded px-3 py-2">
+                  <div>
+                    <div className="font-medium">{station.name}</div>
+                    {station.description && <div className="text-xs text-gray-500">{station.description}</div>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleToggleStation(station)}
+                      className={`text-xs px-2 py-1 rounded ${station.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}
+                    >
+                      {station.is_active ? 'Active' : 'Inactive'}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteStation(station.id)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="border-t pt-4 space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  placeholder="Station name (e.g. Pizza Oven)"
+                  value={stationForm.name}
+                  onChange={(e) => setStationForm({ ...stationForm, name: e.target.value })}
+                  className="col-span-2 border rounded px-3 py-2"
+                />
+                <input
+                  type="number"
+                  placeholder="Order"
+                  value={stationForm.display_order}
+                  onChange={(e) => setStationForm({ ...stationForm, display_order: Number(e.target.value) })}
+                  className="border rounded px-3 py-2"
+                />
+              </div>
+              <input
+                type="text"
+                placeholder="Description (optional)"
+                value={stationForm.description}
+                onChange={(e) => setStationForm({ ...stationForm, description: e.target.value })}
+                className="w-full border rounded px-3 py-2"
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSaveStation}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Add Station
+                </button>
+              </div>
+            </div>
+          </div>
         </div>
-      </div>
+      )}
 
       {showCategoryForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -388,6 +1785,19 @@ export default function Menu() {
                   className="w-full border rounded px-3 py-2"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Kitchen Station</label>
+                <select
+                  value={categoryForm.station_id}
+                  onChange={(e) => setCategoryForm({ ...categoryForm, station_id: e.target.value })}
+                  className="w-full border rounded px-3 py-2"
+                >
+                  <option value="">No Station</option>
+                  {stations.map((station) => (
+                    <option key={station.id} value={station.id}>{station.name}</option>
+                  ))}
+                </select>
+              </div>
               <div className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -402,7 +1812,7 @@ export default function Menu() {
                   onClick={() => {
                     setShowCategoryForm(false);
                     setEditingCategory(null);
-                    setCategoryForm({ name: '', description: '', display_order: 0, is_active: true });
+                    setCategoryForm({ name: '', description: '', display_order: 0, is_active: true, station_id: '' });
                   }}
                   className="px-4 py-2 border rounded-lg hover:bg-gray-50"
                 >
@@ -473,10 +1883,14 @@ export default function Menu() {
                 <input
                   type="number"
                   step="0.01"
-                  value={itemForm.cost_price}
+                  value={baseRecipeLines.length > 0 ? recipePlateCost : itemForm.cost_price}
                   onChange={(e) => setItemForm({ ...itemForm, cost_price: Number(e.target.value) })}
-                  className="w-full border rounded px-3 py-2"
+                  disabled={baseRecipeLines.length > 0}
+                  className="w-full border rounded px-3 py-2 disabled:bg-slate-100"
                 />
+                {baseRecipeLines.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Plate cost from the recipe at current ingredient costs</p>
+                )}
               </div>
               <div>
                 <label className="block text-sm font-medium mb-1">HSN Code</label>
@@ -487,6 +1901,16 @@ export default function Menu() {
                   className="w-full border rounded px-3 py-2"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Barcode</label>
+                <input
+                  type="text"
+                  value={itemForm.barcode}
+                  onChange={(e) => setItemForm({ ...itemForm, barcode: e.target.value })}
+                  className="w-full border rounded px-3 py-2"
+                  placeholder="Scan or type"
+                />
+              </div>
               <div>
                 <label className="block text-sm font-medium mb-1">GST Rate (%)</label>
                 <input
@@ -515,6 +1939,19 @@ export default function Menu() {
                   className="w-full border rounded px-3 py-2"
                 />
               </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium mb-1">Kitchen Station</label>
+                <select
+                  value={itemForm.station_id}
+                  onChange={(e) => setItemForm({ ...itemForm, station_id: e.target.value })}
+                  className="w-full border rounded px-3 py-2"
+                >
+                  <option value="">Same as category</option>
+                  {stations.map((station) => (
+                    <option key={station.id} value={station.id}>{station.name}</option>
+                  ))}
+                </select>
+              </div>
               <div className="col-span-2">
                 <label className="block text-sm font-medium mb-1">Image URL</label>
                 <input
@@ -534,6 +1971,15 @@ export default function Menu() {
                   />
                   <span className="text-sm font-medium">Vegetarian</span>
                 </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={itemForm.allow_portions}
+                    onChange={(e) => setItemForm({ ...itemForm, allow_portions: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="text-sm font-medium">Half & Half</span>
+                </label>
                 <label className="flex items-center gap-2">
                   <input
                     type="checkbox"
@@ -553,12 +1999,191 @@ export default function Menu() {
                   <span className="text-sm font-medium">Active</span>
                 </label>
               </div>
+              <div className="col-span-2 border-t pt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <label className="block text-sm font-medium">Variants</label>
+                    <p className="text-xs text-gray-500">Sizes or crusts with their own price; leave empty to sell at the item price</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={addVariantLine}
+                    className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white text-sm rounded-lg"
+                  >
+                    Add Variant
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {variantLines.length > 0 && (
+                    <div className="flex gap-2 text-xs text-gray-500">
+                      <span className="flex-1">Name</span>
+                      <span className="w-24">Price</span>
+                      <span className="w-24">Cost</span>
+                      <span className="w-28">SKU</span>
+                      <span className="w-14">Active</span>
+                      <span className="w-6"></span>
+                    </div>
+                  )}
+                  {variantLines.map((line, index) => {
+                    const hasOwnRecipe = !!line.id && getRecipeLines(line.id).length > 0;
+                    return (
+                    <div key={line.id || index} className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        placeholder="e.g. Large"
+                        value={line.name}
+                        onChange={(e) => updateVariantLine(index, 'name', e.target.value)}
+                        className="flex-1 border rounded px-3 py-2"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.price}
+                        onChange={(e) => updateVariantLine(index, 'price', Number(e.target.value))}
+                        className="w-24 border rounded px-3 py-2"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={hasOwnRecipe ? getRecipePlateCost(line.id!) : line.cost_price}
+                        onChange={(e) => updateVariantLine(index, 'cost_price', Number(e.target.value))}
+                        disabled={hasOwnRecipe}
+                        title={hasOwnRecipe ? 'Plate cost from this size\'s recipe' : undefined}
+                        className="w-24 border rounded px-3 py-2 disabled:bg-slate-100"
+                      />
+                      <input
+                        type="text"
+                        value={line.sku}
+                        onChange={(e) => updateVariantLine(index, 'sku', e.target.value)}
+                        className="w-28 border rounded px-3 py-2"
+                      />
+                      <div className="w-14 flex justify-center">
+                        <input
+                          type="checkbox"
+                          checked={line.is_active}
+                          onChange={(e) => updateVariantLine(index, 'is_active', e.target.checked)}
+                          className="rounded"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeVariantLine(index)}
+                        className="text-red-600 hover:text-red-800 p-1"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    );
+                  })}
+                  {variantLines.length === 0 && (
+                    <p className="text-xs text-gray-500">No variants</p>
+                  )}
+                </div>
+              </div>
+              <div className="col-span-2 border-t pt-4">
+                <label className="block text-sm font-medium">Modifier Groups</label>
+                <p className="text-xs text-gray-500 mb-2">Options offered when this item is added to an order</p>
+                <div className="flex flex-wrap gap-3">
+                  {modifierGroups.map((group) => (
+                    <label key={group.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={itemModifierGroupIds.includes(group.id)}
+                        onChange={() => toggleItemModifierGroup(group.id)}
+                        className="rounded"
+                      />
+                      <span className="text-sm">{group.name}</span>
+                    </label>
+                  ))}
+                  {modifierGroups.length === 0 && (
+                    <p className="text-xs text-gray-500">No modifier groups yet</p>
+                  )}
+                </div>
+              </div>
+              <div className="col-span-2 border-t pt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <label className="block text-sm font-medium">Recipe (per 1 unit sold)</label>
+                    <p className="text-xs text-gray-500">Inventory deducted automatically when this item is sold</p>
+                  </div>
+                  {savedVariants.length > 0 && (
+                    <select
+                      value={recipeVariantId}
+                      onChange={(e) => setRecipeVariantId(e.target.value)}
+                      className="ml-auto mr-2 border rounded px-2 py-1 text-sm"
+                    >
+                      <option value="">Base recipe</option>
+                      {savedVariants.map(variant => (
+                        <option key={variant.id} value={variant.id}>
+                          {variant.name}{getRecipeLines(variant.id!).length > 0 ? '' : ' (uses base)'}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    type="button"
+                    onClick={addRecipeLine}
+                    className="px-3 py-1 bg-slate-600 hover:bg-slate-700 text-white text-sm rounded-lg"
+                  >
+                    Add Ingredient
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {recipeLines.map((line, index) => {
+                    if (line.variant_id !== (recipeVariantId || null)) return null;
+                    const product = products.find(p => p.id === line.product_id);
+                    return (
+                      <div key={index} className="flex gap-2 items-center">
+                        <select
+                          value={line.product_id}
+                          onChange={(e) => updateRecipeLine(index, 'product_id', e.target.value)}
+                          className="flex-1 border rounded px-3 py-2"
+                        >
+                          {products.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          value={line.quantity}
+                          onChange={(e) => updateRecipeLine(index, 'quantity', Number(e.target.value))}
+                          className="w-28 border rounded px-3 py-2"
+                        />
+                        <span className="text-xs text-gray-500 w-16">{product?.unit}</span>
+                        <button
+                          type="button"
+                          onClick={() => removeRecipeLine(index)}
+                          className="text-red-600 hover:text-red-800 p-1"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {getRecipeLines(recipeVariantId || null).length === 0 && (
+                    <p className="text-xs text-gray-500">
+                      {recipeVariantId ? 'No ingredients of its own; this size uses the base recipe' : 'No ingredients linked'}
+                    </p>
+                  )}
+                  {variantLines.some(line => !line.id && line.name.trim()) && (
+                    <p className="text-xs text-gray-500">Save new variants first to give them a recipe of their own</p>
+                  )}
+                </div>
+              </div>
             </div>
             <div className="flex gap-2 justify-end mt-4">
               <button
                 onClick={() => {
                   setShowItemForm(false);
                   setEditingItem(null);
+                  setRecipeLines([]);
+                  setRecipeVariantId('');
+                  setVariantLines([]);
+                  setItemModifierGroupIds([]);
                   setItemForm({
                     category_id: '',
                     name: '',
@@ -567,12 +2192,15 @@ export default function Menu() {
                     cost_price: 0,
                     image_url: '',
                     hsn_code: '',
+                    barcode: '',
                     gst_rate: 5,
                     preparation_time: 15,
                     is_vegetarian: true,
+                    allow_portions: false,
                     is_available: true,
                     is_active: true,
                     display_order: 0,
+                    station_id: '',
                   });
                 }}
                 className="px-4 py-2 border rounded-lg hover:bg-gray-50"
@@ -646,13 +2274,6 @@ export default function Menu() {
                               <p className="text-sm text-gray-600 line-clamp-2">{item.description}</p>
                             </div>
                             <div className="flex gap-1">
-                              <button
-                                onClick={() => addItemToBill(item)}
-                                className="text-green-600 hover:text-green-800 p-1"
-                                title="Add to Bill"
-                              >
-                                <Plus className="h-4 w-4" />
-                              </button>
                               <button
                                 onClick={() => editItem(item)}
                                 className="text-blue-600 hover:text-blue-800 p-1"
@@ -668,7 +2289,18 @@ export default function Menu() {
                             </div>
                           </div>
                           <div className="flex items-center justify-between mt-3">
-                            <span className="font-bold text-lg">₹{item.price.toFixed(2)}</span>
+                            {item.variants && item.variants.some(v => v.is_active) ? (
+                              <div>
+                                <span className="font-bold text-lg">
+                                  ₹{Math.min(...item.variants.filter(v => v.is_active).map(v => v.price)).toFixed(2)}+
+                                </span>
+                                <div className="text-xs text-gray-500">
+                                  {item.variants.filter(v => v.is_active).map(v => v.name).join(' / ')}
+                                </div>
+                              </div>
+                            ) : (
+                              <span className="font-bold text-lg">₹{item.price.toFixed(2)}</span>
+                            )}
                             <div className="flex gap-2">
                               {item.is_vegetarian && (
                                 <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">Veg</span>
@@ -691,129 +2323,6 @@ export default function Menu() {
           );
         })}
       </div>
-
-      {billItems.length > 0 && (
-        <div className="fixed bottom-0 right-0 w-96 bg-white shadow-2xl rounded-t-lg border-2 border-blue-500 max-h-[80vh] overflow-y-auto z-50">
-          <div className="sticky top-0 bg-blue-600 text-white p-4 flex justify-between items-center">
-            <div className="flex items-center gap-2">
-              <Receipt className="h-5 w-5" />
-              <h3 className="font-bold text-lg">Current Bill</h3>
-            </div>
-            <button
-              onClick={() => setBillItems([])}
-              className="text-white hover:text-red-200"
-            >
-              <X className="h-5 w-5" />
-            </button>
-          </div>
-
-          <div className="p-4 space-y-3">
-            {billItems.map((item, index) => {
-              const menuItem = menuItems.find(m => m.id === item.menu_item_id);
-              return (
-                <div key={index} className="bg-slate-50 p-3 rounded-lg border">
-                  <div className="flex justify-between items-start mb-2">
-                    <span className="font-medium text-sm">{menuItem?.name}</span>
-                    <button
-                      onClick={() => removeBillItem(index)}
-                      className="text-red-600 hover:text-red-800"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
-                  <div className="flex gap-2 items-center">
-                    <input
-                      type="number"
-                      min="1"
-                      step="1"
-                      value={item.quantity}
-                      onChange={(e) => updateBillItem(index, 'quantity', parseFloat(e.target.value))}
-                      className="w-16 px-2 py-1 border rounded text-sm"
-                    />
-                    <span className="text-xs text-gray-600">×</span>
-                    <input
-                      type="number"
-                      min="0"
-                      step="0.01"
-                      value={item.unit_price}
-                      onChange={(e) => updateBillItem(index, 'unit_price', parseFloat(e.target.value))}
-                      className="w-20 px-2 py-1 border rounded text-sm"
-                    />
-                    <span className="text-xs text-gray-600">=</span>
-                    <span className="font-bold text-sm ml-auto">
-                      {formatINR(item.quantity * item.unit_price)}
-                    </span>
-                  </div>
-                </div>
-              );
-            })}
-
-            <div className="border-t pt-3 space-y-2">
-              <div className="flex justify-between text-sm">
-                <span>Subtotal:</span>
-                <span className="font-medium">{formatINR(calculateBillTotals().subtotal)}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Tax (5%):</span>
-                <span className="font-medium">{formatINR(calculateBillTotals().taxAmount)}</span>
-              </div>
-              <div className="flex justify-between text-lg font-bold border-t pt-2">
-                <span>Total:</span>
-                <span className="text-blue-600">{formatINR(calculateBillTotals().total)}</span>
-              </div>
-            </div>
-
-            <div className="space-y-3 border-t pt-3">
-              <input
-                type="text"
-                placeholder="Customer Name (Optional)"
-                value={billForm.customer_name}
-                onChange={(e) => setBillForm({ ...billForm, customer_name: e.target.value })}
-                className="w-full px-3 py-2 border rounded text-sm"
-              />
-              <input
-                type="tel"
-                placeholder="Phone (Optional)"
-                value={billForm.customer_phone}
-                onChange={(e) => setBillForm({ ...billForm, customer_phone: e.target.value })}
-                className="w-full px-3 py-2 border rounded text-sm"
-              />
-              <select
-                value={billForm.payment_method}
-                onChange={(e) => setBillForm({ ...billForm, payment_method: e.target.value })}
-                className="w-full px-3 py-2 border rounded text-sm"
-              >
-                <option value="cash">Cash</option>
-                <option value="card">Card</option>
-                <option value="upi">UPI</option>
-                <option value="other">Other</option>
-              </select>
-              <select
-                value={billForm.payment_status}
-                onChange={(e) => setBillForm({ ...billForm, payment_status: e.target.value })}
-                className="w-full px-3 py-2 border rounded text-sm"
-              >
-                <option value="paid">Paid</option>
-                <option value="pending">Pending</option>
-              </select>
-              <textarea
-                placeholder="Notes (Optional)"
-                value={billForm.notes}
-                onChange={(e) => setBillForm({ ...billForm, notes: e.target.value })}
-                rows={2}
-                className="w-full px-3 py-2 border rounded text-sm"
-              />
-            </div>
-
-            <button
-              onClick={handleCreateBill}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-lg transition"
-            >
-              Create Bill
-            </button>
-          </div>
-        </div>
-      )}
     </div>
   );
 }
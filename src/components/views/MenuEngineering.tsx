@@ -0,0 +1,336 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Scale, IndianRupee, Percent, AlertTriangle, Check } from 'lucide-react';
+import { formatINR } from '../../lib/currency';
+import {
+  CostedMenuItem,
+  DEFAULT_TARGET_FOOD_COST_PERCENT,
+  MENU_CLASSES,
+  MenuClass,
+  RecipeCostLine,
+  engineerMenu,
+  getPlateCost,
+  getVariantRecipe,
+} from '../../lib/foodCost';
+
+interface CostMenuItem {
+  id: string;
+  name: string;
+  price: number;
+  cost_price: number | null;
+  category?: { name: string } | null;
+  recipe?: RecipeCostLine[];
+}
+
+interface SalesInvoice {
+  id: string;
+  items: { menu_item_id: string | null; variant_id: string | null; quantity: number; unit_price: number }[];
+}
+
+interface FoodCostAlert {
+  id: string;
+  previous_plate_cost: number;
+  plate_cost: number;
+  price: number;
+  food_cost_percent: number;
+  target_percent: number;
+  created_at: string;
+  menu_item?: { name: string } | null;
+  variant?: { name: string } | null;
+  product?: { name: string } | null;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const monthStart = () => {
+  const date = new Date();
+  return new Date(date.getFullYear(), date.getMonth(), 1, 12).toISOString().split('T')[0];
+};
+
+const classStyles: Record<MenuClass, string> = {
+  star: 'bg-green-50 border-green-300 text-green-900',
+  plowhorse: 'bg-blue-50 border-blue-300 text-blue-900',
+  puzzle: 'bg-amber-50 border-amber-300 text-amber-900',
+  dog: 'bg-red-50 border-red-300 text-red-900',
+};
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+export function MenuEngineering() {
+  const { profile } = useAuth();
+  const [menuItems, setMenuItems] = useState<CostMenuItem[]>([]);
+  const [invoices, setInvoices] = useState<SalesInvoice[]>([]);
+  const [alerts, setAlerts] = useState<FoodCostAlert[]>([]);
+  const [targetPercent, setTargetPercent] = useState(DEFAULT_TARGET_FOOD_COST_PERCENT);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState({ start: monthStart(), end: today() });
+
+  const canAcknowledge = ['admin', 'inventory_manager', 'inventory_person'].includes(profile?.role || '');
+
+  useEffect(() => {
+    loadData();
+  }, [dateRange]);
+
+  const loadData = async () => {
+    try {
+      let invoicesQuery = supabase
+        .from('invoices')
+        .select('id, items:invoice_items(menu_item_id, variant_id, quantity, unit_price)')
+        .not('status', 'in', '("cancelled","split")');
+
+      if (dateRange.start) invoicesQuery = invoicesQuery.gte('created_at', new Date(`${dateRange.start}T00:00:00`).toISOString());
+      if (dateRange.end) invoicesQuery = invoicesQuery.lte('created_at', new Date(`${dateRange.end}T23:59:59.999`).toISOString());
+
+      const [itemsRes, invoicesRes, alertsRes, companyRes] = await Promise.all([
+        supabase
+          .from('menu_items')
+          .select('*, category:menu_categories(name), recipe:menu_item_recipes(*, product:products(*))')
+          .eq('is_active', true)
+          .order('name'),
+        invoicesQuery,
+        supabase
+          .from('food_cost_alerts')
+          .select('*, menu_item:menu_items(name), variant:menu_item_variants(name), product:products(name)')
+          .is('acknowledged_at', null)
+          .order('created_at', { ascending: false }),
+        supabase.from('company_profile').select('target_food_cost_percent').maybeSingle(),
+      ]);
+
+      if (itemsRes.error) throw itemsRes.error;
+      if (invoicesRes.error) throw invoicesRes.error;
+
+      setMenuItems(itemsRes.data || []);
+      setInvoices(invoicesRes.data || []);
+      setAlerts(alertsRes.data || []);
+      setTargetPercent(Number(companyRes.data?.target_food_cost_percent) || DEFAULT_TARGET_FOOD_COST_PERCENT);
+    } catch (error) {
+      console.error('Error loading menu engineering:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAcknowledge = async (alert: FoodCostAlert) => {
+    try {
+      const { error } = await supabase
+        .from('food_cost_alerts')
+        .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: profile?.id })
+        .eq('id', alert.id);
+
+      if (error) throw error;
+      setAlerts(alerts.filter(a => a.id !== alert.id));
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+      window.alert('Failed to acknowledge alert');
+    }
+  };
+
+  // Plate cost comes from the recipe at today's ingredient costs; items without one use their typed cost.
+  // Sizes with their own recipe are costed from it, so an item's plate cost is the average over what sold.
+  const costedItems: CostedMenuItem[] = menuItems.map(item => {
+    const recipe = item.recipe || [];
+    const sales = invoices.flatMap(invoice => invoice.items || []).filter(line => line.menu_item_id === item.id);
+    const baseRecipe = getVariantRecipe(recipe, null);
+    const basePlateCost = baseRecipe.length > 0 ? getPlateCost(baseRecipe) : Number(item.cost_price || 0);
+    const sold = sales.reduce((sum, line) => sum + Number(line.quantity), 0);
+    const soldCost = sales.reduce((sum, line) => {
+      const lineRecipe = getVariantRecipe(recipe, line.variant_id);
+      return sum + Number(line.quantity) * (lineRecipe.length > 0 ? getPlateCost(lineRecipe) : basePlateCost);
+    }, 0);
+
+    return {
+      id: item.id,
+      name: item.name,
+      category: item.category?.name || 'Uncategorized',
+      price: Number(item.price),
+      plateCost: sold > 0 ? soldCost / sold : basePlateCost,
+      hasRecipe: recipe.length > 0,
+      sold,
+      revenue: sales.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unit_price), 0),
+    };
+  });
+
+  const engineered = engineerMenu(costedItems).sort((a, b) => b.totalMargin - a.totalMargin);
+  const totalRevenue = engineered.reduce((sum, item) => sum + item.revenue, 0);
+  const totalFoodCost = engineered.reduce((sum, item) => sum + item.plateCost * item.sold, 0);
+  const totalMargin = engineered.reduce((sum, item) => sum + item.totalMargin, 0);
+  const aboveTarget = engineered.filter(item => item.foodCostPercent !== null && item.foodCostPercent > targetPercent);
+  const classes = Object.keys(MENU_CLASSES) as MenuClass[];
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Menu Engineering</h1>
+          <p className="text-sm text-slate-600 mt-1">Target food cost {targetPercent}% · set in Company Profile</p>
+        </div>
+        <div className="flex gap-3">
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">From Date</label>
+            <input
+              type="date"
+              value={dateRange.start}
+              onChange={(e) => setDateRange({ ...dateRange, start: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">To Date</label>
+            <input
+              type="date"
+              value={dateRange.end}
+              onChange={(e) => setDateRange({ ...dateRange, end: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl space-y-2">
+          <div className="flex items-center gap-2 font-semibold text-amber-900">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            Price changes pushed {alerts.length} item{alerts.length === 1 ? '' : 's'} over the food cost target
+          </div>
+          {alerts.map(alert => (
+            <div key={alert.id} className="flex items-center justify-between gap-4 text-sm text-amber-900">
+              <span>
+                <span className="font-semibold">
+                  {alert.menu_item?.name}{alert.variant?.name && ` (${alert.variant.name})`}
+                </span>
+                {alert.product?.name && ` · ${alert.product.name} price changed`}
+                {' · '}plate cost {formatINR(alert.previous_plate_cost)} → {formatINR(alert.plate_cost)} on a {formatINR(alert.price)} price
+                {' '}({formatPercent(Number(alert.food_cost_percent))} against {Number(alert.target_percent)}%)
+                <span className="text-amber-700 ml-2">{new Date(alert.created_at).toLocaleDateString('en-IN')}</span>
+              </span>
+              {canAcknowledge && (
+                <button
+                  onClick={() => handleAcknowledge(alert)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-white border border-amber-300 rounded hover:bg-amber-100"
+                >
+                  <Check className="w-3 h-3" />
+                  Acknowledge
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <IndianRupee className="w-4 h-4" />
+            Menu Sales
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{formatINR(totalRevenue)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Percent className="w-4 h-4" />
+            Theoretical Food Cost
+          </div>
+          <div className={`text-2xl font-bold mt-2 ${totalRevenue > 0 && (totalFoodCost / totalRevenue) * 100 > targetPercent ? 'text-red-600' : 'text-slate-900'}`}>
+            {formatPercent(totalRevenue > 0 ? (totalFoodCost / totalRevenue) * 100 : null)}
+          </div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Scale className="w-4 h-4" />
+            Gross Margin
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{formatINR(totalMargin)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <AlertTriangle className="w-4 h-4" />
+            Items Over Target
+          </div>
+          <div className="text-2xl font-bold text-red-600 mt-2">
+            {aboveTarget.length}
+            <span className="text-sm font-medium text-slate-500 ml-2">of {engineered.length}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {classes.map(menuClass => {
+          const classItems = engineered.filter(item => item.menuClass === menuClass);
+          return (
+            <div key={menuClass} className={`rounded-xl border p-4 ${classStyles[menuClass]}`}>
+              <div className="flex items-center justify-between">
+                <span className="font-bold text-lg">{MENU_CLASSES[menuClass].label}s</span>
+                <span className="text-sm font-semibold">{classItems.length}</span>
+              </div>
+              <p className="text-xs mb-2 opacity-80">{MENU_CLASSES[menuClass].action}</p>
+              <p className="text-sm">
+                {classItems.length > 0 ? classItems.map(item => item.name).join(', ') : 'None'}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Menu Items</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Item</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Price</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Plate Cost</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Food Cost</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Sold</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Margin / Plate</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Total Margin</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Class</th>
+              </tr>
+            </thead>
+            <tbody>
+              {engineered.map(item => (
+                <tr key={item.id} className="border-b border-slate-100 hover:bg-slate-50">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-slate-900">{item.name}</div>
+                    <div className="text-xs text-slate-500">{item.category}</div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right text-slate-600">{formatINR(item.price)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-slate-900">
+                    {formatINR(item.plateCost)}
+                    {!item.hasRecipe && <div className="text-xs text-slate-500">No recipe</div>}
+                  </td>
+                  <td className={`px-4 py-3 text-sm text-right font-medium ${
+                    item.foodCostPercent !== null && item.foodCostPercent > targetPercent ? 'text-red-600' : 'text-slate-900'
+                  }`}>
+                    {formatPercent(item.foodCostPercent)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right text-slate-600">
+                    {item.sold}
+                    <div className="text-xs text-slate-500">{(item.menuMix * 100).toFixed(1)}%</div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right text-slate-900">{formatINR(item.unitMargin)}</td>
+                  <td className="px-4 py-3 text-sm text-right font-medium text-slate-900">{formatINR(item.totalMargin)}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full border text-xs font-medium ${classStyles[item.menuClass]}`}>
+                      {MENU_CLASSES[item.menuClass].label}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+              {engineered.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-8 text-center text-sm text-slate-500">No active menu items</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Timer, ChefHat, AlarmClock, Truck, AlertTriangle } from 'lucide-react';
+import { CHANNEL_LABELS, OrderChannel } from '../../lib/pricing';
+import {
+  KOTStatusEvent,
+  TimedKOT,
+  TimingSummary,
+  formatMinutes,
+  getItemTimings,
+  getTicketTimings,
+  summarizeTimings,
+} from '../../lib/orderTiming';
+
+interface StationOption {
+  id: string;
+  name: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00 - ${String((hour + 1) % 24).padStart(2, '0')}:00`;
+
+export function OrderTiming() {
+  const [kots, setKots] = useState<TimedKOT[]>([]);
+  const [events, setEvents] = useState<KOTStatusEvent[]>([]);
+  const [stations, setStations] = useState<StationOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState({ start: today(), end: today() });
+
+  useEffect(() => {
+    loadData();
+  }, [dateRange]);
+
+  const loadData = async () => {
+    try {
+      const from = new Date(`${dateRange.start || today()}T00:00:00`);
+      const to = new Date(`${dateRange.end || today()}T23:59:59.999`);
+      // Tickets placed late in the range can be served after it ends
+      const eventsTo = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+
+      const [kotsRes, eventsRes, stationsRes] = await Promise.all([
+        supabase
+          .from('kots')
+          .select('id, kot_number, order_type, items:kot_items(*, menu_item:menu_items(preparation_time))')
+          .neq('status', 'cancelled')
+          .gte('created_at', from.toISOString())
+          .lte('created_at', to.toISOString()),
+        supabase
+          .from('kot_status_events')
+          .select('kot_id, kot_item_id, from_status, to_status, changed_at')
+          .gte('changed_at', from.toISOString())
+          .lte('changed_at', eventsTo.toISOString()),
+        supabase.from('kitchen_stations').select('id, name').order('display_order'),
+      ]);
+
+      if (kotsRes.error) throw kotsRes.error;
+      if (eventsRes.error) throw eventsRes.error;
+
+      setKots(kotsRes.data || []);
+      setEvents(eventsRes.data || []);
+      setStations(stationsRes.data || []);
+    } catch (error) {
+      console.error('Error loading order timings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const tickets = getTicketTimings(kots, events);
+  const items = getItemTimings(tickets, events);
+  const overall = summarizeTimings(tickets, () => ({ key: 'all', label: 'All' }), row => row.serveMinutes)[0];
+
+  const byHour = summarizeTimings(
+    tickets,
+    row => ({ key: String(row.firedAt.getHours()).padStart(2, '0'), label: formatHour(row.firedAt.getHours()) }),
+    row => row.serveMinutes
+  ).sort((a, b) => a.key.localeCompare(b.key));
+
+  const byOrderType = summarizeTimings(
+    tickets,
+    row => ({ key: row.kot.order_type, label: CHANNEL_LABELS[row.kot.order_type as OrderChannel] || row.kot.order_type }),
+    row => row.serveMinutes
+  );
+
+  const byStation = summarizeTimings(items, row => {
+    const station = stations.find(s => s.id === row.item.station_id);
+    return { key: station?.id || 'none', label: station?.name || 'No station' };
+  });
+
+  const byMenuItem = summarizeTimings(items, row => ({
+    key: row.item.menu_item_id || row.item.menu_item_name,
+    label: row.item.menu_item_name,
+  }));
+
+  const breachRate = (row: TimingSummary) => (row.measured > 0 ? row.breaches / row.measured : 0);
+  const bottleneck = [...byStation]
+    .filter(row => row.measured > 0 && row.breaches > 0)
+    .sort((a, b) => breachRate(b) - breachRate(a) || (b.avgPrepMinutes || 0) - (a.avgPrepMinutes || 0))[0];
+
+  const slowestTickets = tickets
+    .filter(ticket => ticket.breached)
+    .sort((a, b) => (b.prepMinutes! - b.targetMinutes) - (a.prepMinutes! - a.targetMinutes))
+    .slice(0, 10);
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  const renderSummary = (title: string, rows: TimingSummary[], countLabel: string, showServe: boolean) => (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <h2 className="text-lg font-semibold text-slate-900 mb-4">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">No timed orders in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="py-2 text-left text-sm font-semibold text-slate-600"></th>
+                <th className="py-2 text-right text-sm font-semibold text-slate-600">{countLabel}</th>
+                <th className="py-2 text-right text-sm font-semibold text-slate-600">Avg Prep</th>
+                {showServe && <th className="py-2 text-right text-sm font-semibold text-slate-600">Ready to Served</th>}
+                <th className="py-2 text-right text-sm font-semibold text-slate-600">SLA Breaches</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b border-slate-100">
+                  <td className="py-2 text-sm text-slate-900">{row.label}</td>
+                  <td className="py-2 text-sm text-right text-slate-600">{row.count}</td>
+                  <td className="py-2 text-sm text-right font-medium text-slate-900">{formatMinutes(row.avgPrepMinutes)}</td>
+                  {showServe && <td className="py-2 text-sm text-right text-slate-600">{formatMinutes(row.avgServeMinutes)}</td>}
+                  <td className={`py-2 text-sm text-right font-medium ${row.breaches > 0 ? 'text-red-600' : 'text-slate-600'}`}>
+                    {row.breaches}
+                    {row.measured > 0 && <span className="text-xs text-slate-500 ml-1">({Math.round(breachRate(row) * 100)}%)</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold text-slate-900">Order Timing</h1>
+        <div className="flex gap-3">
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">From Date</label>
+            <input
+              type="date"
+              value={dateRange.start}
+              onChange={(e) => setDateRange({ ...dateRange, start: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">To Date</label>
+            <input
+              type="date"
+              value={dateRange.end}
+              onChange={(e) => setDateRange({ ...dateRange, end: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <ChefHat className="w-4 h-4" />
+            Tickets Timed
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{overall?.measured || 0}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Timer className="w-4 h-4" />
+            Avg Prep Time
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{formatMinutes(overall?.avgPrepMinutes ?? null)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Truck className="w-4 h-4" />
+            Avg Ready to Served
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{formatMinutes(overall?.avgServeMinutes ?? null)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <AlarmClock className="w-4 h-4" />
+            SLA Breaches
+          </div>
+          <div className="text-2xl font-bold text-red-600 mt-2">
+            {overall?.breaches || 0}
+            {overall && overall.measured > 0 && (
+              <span className="text-sm font-medium text-slate-500 ml-2">{Math.round(breachRate(overall) * 100)}%</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {bottleneck && (
+        <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+          <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-amber-900">
+            <span className="font-semibold">{bottleneck.label}</span> is the bottleneck: {bottleneck.breaches} of {bottleneck.measured} items
+            ({Math.round(breachRate(bottleneck) * 100)}%) went past their preparation time, averaging {formatMinutes(bottleneck.avgPrepMinutes)}.
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderSummary('By Hour', byHour, 'Tickets', true)}
+        {renderSummary('By Order Type', byOrderType, 'Tickets', true)}
+        {renderSummary('By Station', byStation, 'Items', false)}
+        {renderSummary('By Menu Item', [...byMenuItem].sort((a, b) => (b.avgPrepMinutes || 0) - (a.avgPrepMinutes || 0)), 'Items', false)}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Slowest Tickets</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Sent to Kitchen</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">KOT #</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Order Type</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Target</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Prep Time</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Over By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {slowestTickets.map(ticket => (
+                <tr key={ticket.kot.id} className="border-b border-slate-100 hover:bg-slate-50">
+                  <td className="px-4 py-3 text-sm text-slate-600">
+                    {ticket.firedAt.toLocaleString('en-IN', {
+                      day: '2-digit',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-medium text-slate-900">{ticket.kot.kot_number}</td>
+                  <td className="px-4 py-3 text-sm text-slate-600">
+                    {CHANNEL_LABELS[ticket.kot.order_type as OrderChannel] || ticket.kot.order_type}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right text-slate-600">{ticket.targetMinutes}m</td>
+                  <td className="px-4 py-3 text-sm text-right font-medium text-slate-900">{formatMinutes(ticket.prepMinutes)}</td>
+                  <td className="px-4 py-3 text-sm text-right font-medium text-red-600">
+                    {formatMinutes(ticket.prepMinutes! - ticket.targetMinutes)}
+                  </td>
+                </tr>
+              ))}
+              {slowestTickets.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-sm text-slate-500">No tickets went past their preparation time</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { OrderTracking as OrderTrackingData, TRACKING_STEPS } from '../../lib/orderTracking';
+import { CheckCircle, Clock, ChefHat, Package, XCircle } from 'lucide-react';
+
+// Guests cannot subscribe to KOT changes, so the page polls instead.
+const REFRESH_INTERVAL = 20000;
+
+const stepIcons = [Clock, ChefHat, Package, CheckCircle];
+
+export function OrderTracking() {
+  const params = new URLSearchParams(window.location.search);
+  const kotId = params.get('kot') || '';
+  const signature = params.get('sig') || '';
+  const [order, setOrder] = useState<OrderTrackingData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!kotId || !signature) {
+      setError('This tracking link is incomplete. Please open the link from your WhatsApp message again.');
+      setLoading(false);
+      return;
+    }
+
+    loadOrder();
+    const interval = setInterval(() => {
+      loadOrder();
+      setNow(Date.now());
+    }, REFRESH_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadOrder = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_order_tracking', { p_kot_id: kotId, p_signature: signature });
+      if (error) throw error;
+
+      setOrder(data);
+      setError(null);
+    } catch (error) {
+      console.error('Error loading order:', error);
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center bg-slate-50 text-slate-600">Loading your order...</div>;
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-6">
+        <div className="bg-white rounded-xl shadow p-6 max-w-sm text-center text-slate-700">{error || 'Order not found'}</div>
+      </div>
+    );
+  }
+
+  const currentStep = TRACKING_STEPS.findIndex(step => step.status === order.status);
+  const minutesLeft = order.estimated_ready_at
+    ? Math.ceil((new Date(order.estimated_ready_at).getTime() - now) / 60000)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="text-center pt-4">
+          {order.company_name && <div className="text-sm text-slate-500">{order.company_name}</div>}
+          <h1 className="text-2xl font-bold text-slate-900">Order {order.kot_number}</h1>
+          {order.customer_name && <div className="text-sm text-slate-600">for {order.customer_name}</div>}
+        </div>
+
+        {order.status === 'cancelled' ? (
+          <div className="bg-white rounded-xl shadow-sm border border-red-200 p-6 text-center space-y-2">
+            <XCircle className="w-10 h-10 text-red-600 mx-auto" />
+            <p className="font-semibold text-slate-900">This order was cancelled</p>
+            <p className="text-sm text-slate-600">Please contact us if you have any questions.</p>
+          </div>
+        ) : (
+          <>
+            {(order.status === 'pending' || order.status === 'preparing') && (
+              <div className="bg-blue-600 text-white rounded-xl p-5 text-center">
+                <div className="text-sm opacity-80">Estimated ready time</div>
+                <div className="text-3xl font-bold">
+                  {order.estimated_ready_at
+                    ? new Date(order.estimated_ready_at).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })
+                    : '--'}
+                </div>
+                <div className="text-sm opacity-80">
+                  {minutesLeft !== null && minutesLeft > 0 ? `in about ${minutesLeft} min` : 'any minute now'}
+                  {order.orders_ahead ? ` · ${order.orders_ahead} order${order.orders_ahead === 1 ? '' : 's'} ahead of you` : ''}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+              <ol className="space-y-4">
+                {TRACKING_STEPS.map((step, index) => {
+                  const Icon = stepIcons[index];
+                  const done = index < currentStep;
+                  const active = index === currentStep;
+
+                  return (
+                    <li key={step.status} className="flex items-start gap-3">
+                      <div
+                        className={`w-9 h-9 rounded-full flex items-center justify-center shrink-0 ${
+                          active ? 'bg-blue-600 text-white' : done ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-400'
+                        }`}
+                      >
+                        <Icon className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <div className={`font-semibold ${active || done ? 'text-slate-900' : 'text-slate-400'}`}>{step.label}</div>
+                        {active && <div className="text-sm text-slate-600">{step.description}</div>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          </>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+          <h2 className="font-semibold text-slate-900 mb-2">Your Items</h2>
+          <ul className="space-y-1 text-sm text-slate-700">
+            {order.items.map((item, index) => (
+              <li key={index} className="flex justify-between">
+                <span>{item.quantity} x {item.name}</span>
+                {order.status !== 'cancelled' && item.status === 'ready' && <span className="text-green-600">Ready</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {error && <p className="text-xs text-center text-slate-500">Could not refresh: {error}</p>}
+        <p className="text-xs text-center text-slate-400">This page updates automatically.</p>
+      </div>
+    </div>
+  );
+}
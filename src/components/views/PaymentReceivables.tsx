@@ -67,6 +67,7 @@ export function PaymentReceivables() {
             customer:customers(name, phone)
           `)
           .neq('payment_status', 'paid')
+          .neq('status', 'split')
           .order('due_date', { ascending: true }),
         supabase
           .from('invoice_payments')
@@ -0,0 +1,474 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Printer as PrinterIcon, Plus, Edit2, Trash2, X, Usb, FileText } from 'lucide-react';
+import { KitchenStation } from '../../lib/kitchen';
+import { PaperWidth } from '../../lib/escpos';
+import {
+  PRINTER_CONNECTION_LABELS,
+  Printer,
+  PrinterConnection,
+  createBuilder,
+  invalidatePrinterSetup,
+  pairUsbPrinter,
+  sendToPrinter,
+} from '../../lib/printers';
+
+const emptyForm = {
+  name: '',
+  connection: 'bridge' as PrinterConnection,
+  bridge_url: 'http://localhost:9100/print',
+  host: '',
+  port: '9100',
+  usb_vendor_id: null as number | null,
+  usb_product_id: null as number | null,
+  paper_width: 80 as PaperWidth,
+  is_receipt_printer: false,
+  open_cash_drawer: false,
+  is_active: true,
+};
+
+export function Printers() {
+  const [printers, setPrinters] = useState<Printer[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPrinter, setEditingPrinter] = useState<Printer | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [printersRes, stationsRes] = await Promise.all([
+        supabase.from('printers').select('*').order('name'),
+        supabase.from('kitchen_stations').select('*').order('display_order'),
+      ]);
+
+      if (printersRes.error) throw printersRes.error;
+      if (stationsRes.error) throw stationsRes.error;
+
+      setPrinters(printersRes.data || []);
+      setStations(stationsRes.data || []);
+    } catch (error) {
+      console.error('Error loading printers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (printer?: Printer) => {
+    setEditingPrinter(printer || null);
+    setFormData(printer ? {
+      name: printer.name,
+      connection: printer.connection,
+      bridge_url: printer.bridge_url || '',
+      host: printer.host || '',
+      port: String(printer.port),
+      usb_vendor_id: printer.usb_vendor_id,
+      usb_product_id: printer.usb_product_id,
+      paper_width: printer.paper_width,
+      is_receipt_printer: printer.is_receipt_printer,
+      open_cash_drawer: printer.open_cash_drawer,
+      is_active: printer.is_active,
+    } : emptyForm);
+    setShowModal(true);
+  };
+
+  const handlePairUsb = async () => {
+    try {
+      const ids = await pairUsbPrinter();
+      setFormData({ ...formData, ...ids });
+    } catch (error) {
+      console.error('Error pairing USB printer:', error);
+      alert((error as Error).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.connection === 'webusb' && !formData.usb_vendor_id) {
+      alert('Pair the USB printer first');
+      return;
+    }
+
+    const payload = {
+      name: formData.name.trim(),
+      connection: formData.connection,
+      bridge_url: formData.connection === 'webusb' ? null : formData.bridge_url.trim() || null,
+      host: formData.connection === 'network' ? formData.host.trim() || null : null,
+      port: parseInt(formData.port) || 9100,
+      usb_vendor_id: formData.connection === 'webusb' ? formData.usb_vendor_id : null,
+      usb_product_id: formData.connection === 'webusb' ? formData.usb_product_id : null,
+      paper_width: formData.paper_width,
+      is_receipt_printer: formData.is_receipt_printer,
+      open_cash_drawer: formData.is_receipt_printer && formData.open_cash_drawer,
+      is_active: formData.is_active,
+    };
+
+    try {
+      // Only one printer can print receipts, so hand the role over first.
+      if (payload.is_receipt_printer) {
+        const current = printers.find(p => p.is_receipt_printer && p.id !== editingPrinter?.id);
+        if (current) {
+          const { error } = await supabase.from('printers').update({ is_receipt_printer: false }).eq('id', current.id);
+          if (error) throw error;
+        }
+      }
+
+      const { error } = editingPrinter
+        ? await supabase.from('printers').update(payload).eq('id', editingPrinter.id)
+        : await supabase.from('printers').insert(payload);
+
+      if (error) throw error;
+
+      invalidatePrinterSetup();
+      setShowModal(false);
+      loadData();
+    } catch (error) {
+      console.error('Error saving printer:', error);
+      alert('Failed to save printer: ' + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async (printer: Printer) => {
+    if (!confirm(`Delete ${printer.name}? Stations using it will fall back to the print dialog.`)) return;
+
+    try {
+      const { error } = await supabase.from('printers').delete().eq('id', printer.id);
+      if (error) throw error;
+      invalidatePrinterSetup();
+      loadData();
+    } catch (error) {
+      console.error('Error deleting printer:', error);
+      alert('Failed to delete printer');
+    }
+  };
+
+  const handleTestPrint = async (printer: Printer) => {
+    setTestingId(printer.id);
+    try {
+      const builder = createBuilder(printer)
+        .align('center').bold().size(2, 2).line('TEST PRINT').size().bold(false)
+        .line(printer.name)
+        .line(PRINTER_CONNECTION_LABELS[printer.connection])
+        .divider()
+        .align('left')
+        .pair('Paper width', `${printer.paper_width}mm`)
+        .pair('Characters per line', String(createBuilder(printer).columns))
+        .line(new Date().toLocaleString('en-IN'));
+
+      if (printer.open_cash_drawer) builder.openCashDrawer();
+      await sendToPrinter(printer, builder.feed(3).cut().build());
+    } catch (error) {
+      console.error('Error printing test page:', error);
+      alert('Test print failed: ' + (error as Error).message);
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleStationPrinterChange = async (stationId: string, printerId: string) => {
+    try {
+      const { error } = await supabase
+        .from('kitchen_stations')
+        .update({ printer_id: printerId || null })
+        .eq('id', stationId);
+
+      if (error) throw error;
+      invalidatePrinterSetup();
+      setStations(stations.map(s => (s.id === stationId ? { ...s, printer_id: printerId || null } : s)));
+    } catch (error) {
+      console.error('Error updating station printer:', error);
+      alert('Failed to update station printer');
+    }
+  };
+
+  const getConnectionDetail = (printer: Printer) => {
+    if (printer.connection === 'webusb') {
+      return `USB ${printer.usb_vendor_id?.toString(16).padStart(4, '0')}:${printer.usb_product_id?.toString(16).padStart(4, '0')}`;
+    }
+    if (printer.connection === 'network') return `${printer.host}:${printer.port}`;
+    return printer.bridge_url;
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <PrinterIcon className="w-8 h-8 text-slate-700" />
+          <h1 className="text-3xl font-bold text-slate-900">Printers</h1>
+        </div>
+        <button
+          onClick={() => openModal()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add Printer
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-200 bg-slate-50">
+              <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Name</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Connection</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Paper</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Role</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Status</th>
+              <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {printers.map(printer => (
+              <tr key={printer.id} className="border-b border-slate-100 hover:bg-slate-50">
+                <td className="px-4 py-3 text-sm font-medium text-slate-900">{printer.name}</td>
+                <td className="px-4 py-3 text-sm text-slate-700">
+                  <div>{PRINTER_CONNECTION_LABELS[printer.connection]}</div>
+                  <div className="text-xs font-mono text-slate-500 break-all">{getConnectionDetail(printer)}</div>
+                </td>
+                <td className="px-4 py-3 text-sm text-slate-700">{printer.paper_width}mm</td>
+                <td className="px-4 py-3 text-sm text-slate-700">
+                  {printer.is_receipt_printer ? (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      Receipts{printer.open_cash_drawer ? ' + Drawer' : ''}
+                    </span>
+                  ) : (
+                    stations.filter(s => s.printer_id === printer.id).map(s => s.name).join(', ') || '-'
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${printer.is_active ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-600'}`}>
+                    {printer.is_active ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => handleTestPrint(printer)}
+                      disabled={testingId === printer.id}
+                      className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition disabled:opacity-50"
+                      title="Test Print"
+                    >
+                      <FileText className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openModal(printer)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                      title="Edit Printer"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(printer)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                      title="Delete Printer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {printers.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-sm text-slate-500">
+                  No printers configured. KOTs and bills use the browser print dialog.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-semibold text-slate-900 mb-1">Station Routing</h2>
+        <p className="text-sm text-slate-500 mb-4">
+          Each station's KOT ticket prints on its printer. Items without a station print on the first mapped printer.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {stations.map(station => (
+            <div key={station.id} className="flex items-center justify-between gap-3 p-3 border border-slate-200 rounded-lg">
+              <span className={`font-medium ${station.is_active ? 'text-slate-900' : 'text-slate-400'}`}>{station.name}</span>
+              <select
+                value={station.printer_id || ''}
+                onChange={(e) => handleStationPrinterChange(station.id, e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              >
+                <option value="">Print dialog</option>
+                {printers.map(printer => (
+                  <option key={printer.id} value={printer.id}>{printer.name}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {stations.length === 0 && (
+            <p className="text-sm text-slate-500">No kitchen stations set up yet. Add them from the Menu page.</p>
+          )}
+        </div>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200 flex justify-between items-center">
+              <h2 className="text-2xl font-bold text-slate-900">{editingPrinter ? 'Edit Printer' : 'Add Printer'}</h2>
+              <button onClick={() => setShowModal(false)} className="text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Kitchen Printer"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Connection *</label>
+                  <select
+                    value={formData.connection}
+                    onChange={(e) => setFormData({ ...formData, connection: e.target.value as PrinterConnection })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(PRINTER_CONNECTION_LABELS) as PrinterConnection[]).map(connection => (
+                      <option key={connection} value={connection}>{PRINTER_CONNECTION_LABELS[connection]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Paper Width</label>
+                  <select
+                    value={formData.paper_width}
+                    onChange={(e) => setFormData({ ...formData, paper_width: Number(e.target.value) as PaperWidth })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value={80}>80mm</option>
+                    <option value={58}>58mm</option>
+                  </select>
+                </div>
+              </div>
+
+              {formData.connection === 'webusb' ? (
+                <div className="flex items-center justify-between gap-3 p-3 bg-slate-50 rounded-lg border border-slate-200">
+                  <span className="text-sm text-slate-700">
+                    {formData.usb_vendor_id
+                      ? `Paired: ${formData.usb_vendor_id.toString(16).padStart(4, '0')}:${formData.usb_product_id?.toString(16).padStart(4, '0')}`
+                      : 'No printer paired'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handlePairUsb}
+                    className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg transition flex items-center gap-2 text-sm font-medium"
+                  >
+                    <Usb className="w-4 h-4" />
+                    Pair
+                  </button>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Print Bridge URL *</label>
+                  <input
+                    type="url"
+                    value={formData.bridge_url}
+                    onChange={(e) => setFormData({ ...formData, bridge_url: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                    required
+                  />
+                </div>
+              )}
+
+              {formData.connection === 'network' && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Printer IP *</label>
+                    <input
+                      type="text"
+                      value={formData.host}
+                      onChange={(e) => setFormData({ ...formData, host: e.target.value })}
+                      className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                      placeholder="192.168.1.50"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Port</label>
+                    <input
+                      type="number"
+                      value={formData.port}
+                      onChange={(e) => setFormData({ ...formData, port: e.target.value })}
+                      className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_receipt_printer}
+                    onChange={(e) => setFormData({ ...formData, is_receipt_printer: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  Print bills and invoice receipts
+                </label>
+                {formData.is_receipt_printer && (
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700 ml-6">
+                    <input
+                      type="checkbox"
+                      checked={formData.open_cash_drawer}
+                      onChange={(e) => setFormData({ ...formData, open_cash_drawer: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    Open cash drawer on cash payments
+                  </label>
+                )}
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_active}
+                    onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  Active
+                </label>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 font-semibold rounded-lg hover:bg-slate-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
+                >
+                  {editingPrinter ? 'Save Changes' : 'Add Printer'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -340,52 +340,11 @@ export function Purchases() {
   };
 
   const handleMarkReceived = async (id: string) => {
-    if (!confirm('Mark this purchase as received? This will update inventory.')) return;
+    if (!confirm('Mark this purchase as received? This will update inventory and ingredient costs.')) return;
 
     try {
-      const { data: purchaseItems, error: itemsError } = await supabase
-        .from('purchase_items')
-        .select('product_id, quantity')
-        .eq('purchase_id', id);
-
-      if (itemsError) throw itemsError;
-
-      for (const item of purchaseItems || []) {
-        const { data: product } = await supabase
-          .from('products')
-          .select('quantity')
-          .eq('id', item.product_id)
-          .single();
-
-        if (product) {
-          const newQuantity = product.quantity + item.quantity;
-
-          await supabase
-            .from('products')
-            .update({ quantity: newQuantity })
-            .eq('id', item.product_id);
-
-          const purchase = purchases.find(p => p.id === id);
-
-          await supabase
-            .from('inventory_movements')
-            .insert([{
-              product_id: item.product_id,
-              type: 'in',
-              quantity: item.quantity,
-              reason: `Purchase ${purchase?.purchase_number} received`,
-              created_by: profile?.id,
-            }]);
-        }
-      }
-
-      const { error } = await supabase
-        .from('purchases')
-        .update({
-          status: 'received',
-          received_date: new Date().toISOString().split('T')[0],
-        })
-        .eq('id', id);
+      // Stock, weighted average cost and status are updated together
+      const { error } = await supabase.rpc('receive_purchase', { p_purchase_id: id });
 
       if (error) throw error;
       loadData();
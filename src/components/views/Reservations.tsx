@@ -0,0 +1,852 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { DiningTable } from '../../lib/tables';
+import {
+  GuestDetails,
+  RESERVATION_STATUS_LABELS,
+  Reservation,
+  WAITLIST_STATUS_LABELS,
+  WaitlistEntry,
+  isReminderDue,
+  seatGuests,
+  sendGuestMessage,
+} from '../../lib/reservations';
+import { Plus, Edit2, X, Users, Phone, MessageCircle, Bell, UserCheck, UserX, XCircle, Clock, CalendarDays } from 'lucide-react';
+
+interface ReservationsProps {
+  onOpenTable: (tableId: string) => void;
+}
+
+type SeatTarget = { kind: 'reservation'; reservation: Reservation } | { kind: 'waitlist'; entry: WaitlistEntry };
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const toTimeInput = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const emptyBookingForm = {
+  customer_name: '',
+  customer_phone: '',
+  party_size: 2,
+  date: today(),
+  time: '19:30',
+  duration_minutes: 90,
+  table_id: '',
+  notes: '',
+  send_confirmation: true,
+};
+
+const emptyWalkInForm = {
+  customer_name: '',
+  customer_phone: '',
+  party_size: 2,
+  quoted_wait_minutes: 15,
+  notes: '',
+};
+
+const reservationStatusStyles: Record<Reservation['status'], string> = {
+  booked: 'bg-blue-100 text-blue-800',
+  seated: 'bg-green-100 text-green-800',
+  cancelled: 'bg-slate-100 text-slate-600',
+  no_show: 'bg-red-100 text-red-800',
+};
+
+export function Reservations({ onOpenTable }: ReservationsProps) {
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<'reservations' | 'waitlist'>('reservations');
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [tables, setTables] = useState<DiningTable[]>([]);
+  const [occupiedTableIds, setOccupiedTableIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState(today());
+  const [showBookingModal, setShowBookingModal] = useState(false);
+  const [editingReservation, setEditingReservation] = useState<Reservation | null>(null);
+  const [bookingForm, setBookingForm] = useState(emptyBookingForm);
+  const [showWalkInModal, setShowWalkInModal] = useState(false);
+  const [walkInForm, setWalkInForm] = useState(emptyWalkInForm);
+  const [seatTarget, setSeatTarget] = useState<SeatTarget | null>(null);
+  const [seatTableId, setSeatTableId] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    loadTables();
+
+    const channel = supabase
+      .channel('waitlist')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'waitlist_entries' }, () => loadWaitlist())
+      .subscribe();
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(interval);
+    };
+  }, []);
+
+  useEffect(() => {
+    loadReservations();
+    loadWaitlist();
+  }, [selectedDate]);
+
+  const loadTables = async () => {
+    try {
+      const [tablesRes, sessionsRes] = await Promise.all([
+        supabase.from('dining_tables').select('*').eq('is_active', true).order('name'),
+        supabase.from('table_sessions').select('table_id').neq('status', 'settled'),
+      ]);
+
+      if (tablesRes.error) throw tablesRes.error;
+      setTables(tablesRes.data || []);
+      setOccupiedTableIds((sessionsRes.data || []).map(session => session.table_id));
+    } catch (error) {
+      console.error('Error loading tables:', error);
+    }
+  };
+
+  const loadReservations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('reservations')
+        .select('*')
+        .gte('reserved_at', new Date(`${selectedDate}T00:00:00`).toISOString())
+        .lte('reserved_at', new Date(`${selectedDate}T23:59:59.999`).toISOString())
+        .order('reserved_at');
+
+      if (error) throw error;
+      setReservations(data || []);
+    } catch (error) {
+      console.error('Error loading reservations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadWaitlist = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select('*')
+        .in('status', ['waiting', 'notified'])
+        .order('created_at');
+
+      if (error) throw error;
+      setWaitlist(data || []);
+    } catch (error) {
+      console.error('Error loading waitlist:', error);
+    }
+  };
+
+  const getTableName = (tableId: string | null) => tables.find(table => table.id === tableId)?.name || '';
+
+  const openWhatsApp = (whatsappUrl: string | null, name: string) => {
+    if (whatsappUrl) {
+      window.open(whatsappUrl, '_blank');
+    } else {
+      alert(`WhatsApp message sent to ${name}`);
+    }
+  };
+
+  const openNewBooking = () => {
+    setEditingReservation(null);
+    setBookingForm({ ...emptyBookingForm, date: selectedDate });
+    setShowBookingModal(true);
+  };
+
+  const openEditBooking = (reservation: Reservation) => {
+    const reservedAt = new Date(reservation.reserved_at);
+    setEditingReservation(reservation);
+    setBookingForm({
+      customer_name: reservation.customer_name,
+      customer_phone: reservation.customer_phone,
+      party_size: reservation.party_size,
+      date: toDateInput(reservedAt),
+      time: toTimeInput(reservedAt),
+      duration_minutes: reservation.duration_minutes,
+      table_id: reservation.table_id || '',
+      notes: reservation.notes || '',
+      send_confirmation: false,
+    });
+    setShowBookingModal(true);
+  };
+
+  const handleSaveBooking = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!bookingForm.customer_name.trim() || !bookingForm.customer_phone.trim()) {
+      alert('Please enter the guest name and phone');
+      return;
+    }
+
+    const reservationData = {
+      customer_name: bookingForm.customer_name.trim(),
+      customer_phone: bookingForm.customer_phone.trim(),
+      party_size: bookingForm.party_size,
+      reserved_at: new Date(`${bookingForm.date}T${bookingForm.time}`).toISOString(),
+      duration_minutes: bookingForm.duration_minutes,
+      table_id: bookingForm.table_id || null,
+      notes: bookingForm.notes.trim() || null,
+    };
+
+    try {
+      if (editingReservation) {
+        const { error } = await supabase.from('reservations').update(reservationData).eq('id', editingReservation.id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('reservations')
+          .insert([{ ...reservationData, created_by: user?.id }])
+          .select()
+          .single();
+        if (error) throw error;
+
+        if (bookingForm.send_confirmation) {
+          try {
+            const whatsappUrl = await sendGuestMessage({ reservationId: data.id, messageType: 'confirmation' });
+            openWhatsApp(whatsappUrl, data.customer_name);
+          } catch (sendError) {
+            console.error('Error sending confirmation:', sendError);
+            alert('Booking saved, but the WhatsApp confirmation could not be sent: ' + (sendError as Error).message);
+          }
+        }
+      }
+
+      setShowBookingModal(false);
+      setSelectedDate(bookingForm.date);
+      loadReservations();
+    } catch (error) {
+      console.error('Error saving reservation:', error);
+      alert('Failed to save booking: ' + (error as Error).message);
+    }
+  };
+
+  const handleSendReservationMessage = async (reservation: Reservation, messageType: 'confirmation' | 'reminder') => {
+    try {
+      const whatsappUrl = await sendGuestMessage({ reservationId: reservation.id, messageType });
+      openWhatsApp(whatsappUrl, reservation.customer_name);
+      loadReservations();
+    } catch (error) {
+      console.error('Error sending WhatsApp message:', error);
+      alert('Failed to send WhatsApp message: ' + (error as Error).message);
+    }
+  };
+
+  const handleReservationStatus = async (reservation: Reservation, status: 'cancelled' | 'no_show') => {
+    const action = status === 'cancelled' ? 'Cancel' : 'Mark as no-show';
+    if (!confirm(`${action} the booking for ${reservation.customer_name}?`)) return;
+
+    try {
+      const { error } = await supabase.from('reservations').update({ status }).eq('id', reservation.id);
+      if (error) throw error;
+      loadReservations();
+    } catch (error) {
+      console.error('Error updating reservation:', error);
+      alert('Failed to update booking');
+    }
+  };
+
+  const handleAddWalkIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!walkInForm.customer_name.trim()) {
+      alert('Please enter the guest name');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('waitlist_entries').insert([{
+        customer_name: walkInForm.customer_name.trim(),
+        customer_phone: walkInForm.customer_phone.trim() || null,
+        party_size: walkInForm.party_size,
+        quoted_wait_minutes: walkInForm.quoted_wait_minutes,
+        notes: walkInForm.notes.trim() || null,
+        created_by: user?.id,
+      }]);
+
+      if (error) throw error;
+      setShowWalkInModal(false);
+      setWalkInForm(emptyWalkInForm);
+      setActiveTab('waitlist');
+      loadWaitlist();
+    } catch (error) {
+      console.error('Error adding to waitlist:', error);
+      alert('Failed to add to waitlist');
+    }
+  };
+
+  const handleNotifyWaitlist = async (entry: WaitlistEntry) => {
+    try {
+      const whatsappUrl = await sendGuestMessage({ waitlistId: entry.id });
+      openWhatsApp(whatsappUrl, entry.customer_name);
+      loadWaitlist();
+    } catch (error) {
+      console.error('Error notifying guest:', error);
+      alert('Failed to send WhatsApp message: ' + (error as Error).message);
+    }
+  };
+
+  const handleWaitlistLeft = async (entry: WaitlistEntry) => {
+    if (!confirm(`Remove ${entry.customer_name} from the waitlist?`)) return;
+
+    try {
+      const { error } = await supabase.from('waitlist_entries').update({ status: 'left' }).eq('id', entry.id);
+      if (error) throw error;
+      loadWaitlist();
+    } catch (error) {
+      console.error('Error updating waitlist:', error);
+      alert('Failed to update waitlist');
+    }
+  };
+
+  const openSeat = (target: SeatTarget) => {
+    setSeatTarget(target);
+    setSeatTableId(target.kind === 'reservation' ? target.reservation.table_id || '' : '');
+    loadTables();
+  };
+
+  const handleSeat = async (startOrder: boolean) => {
+    if (!seatTarget || !seatTableId) {
+      alert('Please choose a table');
+      return;
+    }
+
+    const guest: GuestDetails = seatTarget.kind === 'reservation'
+      ? seatTarget.reservation
+      : seatTarget.entry;
+
+    try {
+      const session = await seatGuests(seatTableId, guest, user?.id);
+
+      const { error } = seatTarget.kind === 'reservation'
+        ? await supabase
+          .from('reservations')
+          .update({ status: 'seated', table_id: seatTableId, session_id: session.id })
+          .eq('id', seatTarget.reservation.id)
+        : await supabase
+          .from('waitlist_entries')
+          .update({ status: 'seated', table_id: seatTableId, session_id: session.id, seated_at: new Date().toISOString() })
+          .eq('id', seatTarget.entry.id);
+
+      if (error) throw error;
+
+      setSeatTarget(null);
+      if (startOrder) {
+        onOpenTable(seatTableId);
+        return;
+      }
+      loadReservations();
+      loadWaitlist();
+      loadTables();
+    } catch (error) {
+      console.error('Error seating guests:', error);
+      alert('Failed to seat guests: ' + (error as Error).message);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  const activeReservations = reservations.filter(r => r.status === 'booked' || r.status === 'seated');
+  const coversBooked = activeReservations.reduce((sum, r) => sum + r.party_size, 0);
+  const seatParty = seatTarget?.kind === 'reservation' ? seatTarget.reservation : seatTarget?.entry;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold text-slate-900">Reservations</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowWalkInModal(true)}
+            className="px-4 py-2 border border-slate-300 hover:bg-slate-50 text-slate-700 font-semibold rounded-lg transition flex items-center gap-2"
+          >
+            <Clock className="w-5 h-5" />
+            Add Walk-in
+          </button>
+          <button
+            onClick={openNewBooking}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition flex items-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            New Booking
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 border-b border-slate-200">
+        <button
+          onClick={() => setActiveTab('reservations')}
+          className={`px-4 py-2 font-medium border-b-2 ${
+            activeTab === 'reservations' ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-600 hover:text-slate-900'
+          }`}
+        >
+          Bookings
+        </button>
+        <button
+          onClick={() => setActiveTab('waitlist')}
+          className={`px-4 py-2 font-medium border-b-2 ${
+            activeTab === 'waitlist' ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-600 hover:text-slate-900'
+          }`}
+        >
+          Waitlist ({waitlist.length})
+        </button>
+      </div>
+
+      {activeTab === 'reservations' ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5 text-slate-500" />
+              <input
+                type="date"
+                value={selectedDate}
+                onChange={(e) => setSelectedDate(e.target.value)}
+                className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="text-sm text-slate-600">
+              {activeReservations.length} booking{activeReservations.length === 1 ? '' : 's'} · {coversBooked} covers
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Time</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Guest</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Party</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Table</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reservations.map(reservation => {
+                  const reminderDue = isReminderDue(reservation, now);
+
+                  return (
+                    <tr key={reservation.id} className="border-b border-slate-100 hover:bg-slate-50">
+                      <td className="px-4 py-3 text-sm font-medium text-slate-900">
+                        {new Date(reservation.reserved_at).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
+                        <div className="text-xs text-slate-500">{reservation.duration_minutes} min</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-slate-700">
+                        <div className="font-medium">{reservation.customer_name}</div>
+                        <div className="text-xs text-slate-500 flex items-center gap-1">
+                          <Phone className="w-3 h-3" />
+                          {reservation.customer_phone}
+                        </div>
+                        {reservation.notes && <div className="text-xs text-slate-500">{reservation.notes}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-slate-700">
+                        <span className="flex items-center gap-1">
+                          <Users className="w-4 h-4" />
+                          {reservation.party_size}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-slate-700">{getTableName(reservation.table_id) || '-'}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${reservationStatusStyles[reservation.status]}`}>
+                          {RESERVATION_STATUS_LABELS[reservation.status]}
+                        </span>
+                        <div className="text-xs text-slate-500 mt-1">
+                          {reservation.confirmation_sent_at ? 'Confirmed' : 'Not confirmed'}
+                          {reservation.reminder_sent_at && ' · Reminded'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {reservation.status === 'booked' && (
+                          <div className="flex gap-2 justify-end">
+                            <button
+                              onClick={() => handleSendReservationMessage(reservation, 'confirmation')}
+                              className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition"
+                              title="Send WhatsApp Confirmation"
+                            >
+                              <MessageCircle className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleSendReservationMessage(reservation, 'reminder')}
+                              className={`p-2 rounded-lg transition ${
+                                reminderDue ? 'text-white bg-amber-500 hover:bg-amber-600' : 'text-amber-600 hover:bg-amber-50'
+                              }`}
+                              title={reminderDue ? 'Reminder Due - Send on WhatsApp' : 'Send WhatsApp Reminder'}
+                            >
+                              <Bell className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => openSeat({ kind: 'reservation', reservation })}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                              title="Seat Guests"
+                            >
+                              <UserCheck className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => openEditBooking(reservation)}
+                              className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                              title="Edit Booking"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleReservationStatus(reservation, 'no_show')}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                              title="Mark No-show"
+                            >
+                              <UserX className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleReservationStatus(reservation, 'cancelled')}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                              title="Cancel Booking"
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {reservations.length === 0 && (
+              <p className="text-center text-sm text-slate-500 py-8">No bookings for this day.</p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="space-y-3">
+            {waitlist.map((entry, index) => {
+              const waited = Math.max(0, Math.floor((now - new Date(entry.created_at).getTime()) / 60000));
+              const overdue = waited > entry.quoted_wait_minutes;
+
+              return (
+                <div key={entry.id} className="flex flex-wrap items-center justify-between gap-3 border border-slate-200 rounded-lg p-4">
+                  <div className="flex items-center gap-4">
+                    <div className="w-8 h-8 rounded-full bg-slate-100 text-slate-700 font-semibold flex items-center justify-center">
+                      {index + 1}
+                    </div>
+                    <div>
+                      <div className="font-medium text-slate-900">
+                        {entry.customer_name}
+                        <span className="ml-2 text-sm text-slate-500">party of {entry.party_size}</span>
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {entry.customer_phone || 'No phone'}
+                        {entry.notes && ` · ${entry.notes}`}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-right text-sm">
+                      <div className={overdue ? 'text-red-600 font-semibold' : 'text-slate-700'}>
+                        Waiting {waited} min
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        Quoted {entry.quoted_wait_minutes} min · {WAITLIST_STATUS_LABELS[entry.status]}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {entry.customer_phone && (
+                        <button
+                          onClick={() => handleNotifyWaitlist(entry)}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition"
+                          title="Send Table Ready on WhatsApp"
+                        >
+                          <MessageCircle className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => openSeat({ kind: 'waitlist', entry })}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                        title="Seat Guests"
+                      >
+                        <UserCheck className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleWaitlistLeft(entry)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                        title="Guest Left"
+                      >
+                        <UserX className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            {waitlist.length === 0 && <p className="text-center text-sm text-slate-500 py-8">Nobody is waiting.</p>}
+          </div>
+        </div>
+      )}
+
+      {showBookingModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200 flex justify-between items-center">
+              <h2 className="text-2xl font-bold text-slate-900">{editingReservation ? 'Edit Booking' : 'New Booking'}</h2>
+              <button onClick={() => setShowBookingModal(false)} className="text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSaveBooking} className="p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Guest Name *</label>
+                  <input
+                    type="text"
+                    value={bookingForm.customer_name}
+                    onChange={(e) => setBookingForm({ ...bookingForm, customer_name: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Phone *</label>
+                  <input
+                    type="tel"
+                    value={bookingForm.customer_phone}
+                    onChange={(e) => setBookingForm({ ...bookingForm, customer_phone: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Date *</label>
+                  <input
+                    type="date"
+                    value={bookingForm.date}
+                    onChange={(e) => setBookingForm({ ...bookingForm, date: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Time *</label>
+                  <input
+                    type="time"
+                    value={bookingForm.time}
+                    onChange={(e) => setBookingForm({ ...bookingForm, time: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Party Size *</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={bookingForm.party_size}
+                    onChange={(e) => setBookingForm({ ...bookingForm, party_size: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Duration (minutes)</label>
+                  <input
+                    type="number"
+                    min="15"
+                    step="15"
+                    value={bookingForm.duration_minutes}
+                    onChange={(e) => setBookingForm({ ...bookingForm, duration_minutes: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Table</label>
+                <select
+                  value={bookingForm.table_id}
+                  onChange={(e) => setBookingForm({ ...bookingForm, table_id: e.target.value })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Assign on arrival</option>
+                  {tables.map(table => (
+                    <option key={table.id} value={table.id}>
+                      {table.name} ({table.seats} seats){table.seats < bookingForm.party_size ? ' - too small' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Notes</label>
+                <textarea
+                  value={bookingForm.notes}
+                  onChange={(e) => setBookingForm({ ...bookingForm, notes: e.target.value })}
+                  rows={2}
+                  placeholder="Occasion, seating preference, allergies..."
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              {!editingReservation && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={bookingForm.send_confirmation}
+                    onChange={(e) => setBookingForm({ ...bookingForm, send_confirmation: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="text-sm text-slate-700">Send WhatsApp confirmation</span>
+                </label>
+              )}
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowBookingModal(false)}
+                  className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
+                >
+                  {editingReservation ? 'Update Booking' : 'Save Booking'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showWalkInModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full">
+            <div className="p-6 border-b border-slate-200 flex justify-between items-center">
+              <h2 className="text-2xl font-bold text-slate-900">Add Walk-in</h2>
+              <button onClick={() => setShowWalkInModal(false)} className="text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleAddWalkIn} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Guest Name *</label>
+                <input
+                  type="text"
+                  value={walkInForm.customer_name}
+                  onChange={(e) => setWalkInForm({ ...walkInForm, customer_name: e.target.value })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Phone</label>
+                <input
+                  type="tel"
+                  value={walkInForm.customer_phone}
+                  onChange={(e) => setWalkInForm({ ...walkInForm, customer_phone: e.target.value })}
+                  placeholder="To message when the table is ready"
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Party Size *</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={walkInForm.party_size}
+                    onChange={(e) => setWalkInForm({ ...walkInForm, party_size: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Quoted Wait (min)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="5"
+                    value={walkInForm.quoted_wait_minutes}
+                    onChange={(e) => setWalkInForm({ ...walkInForm, quoted_wait_minutes: Number(e.target.value) })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                {waitlist.length} {waitlist.length === 1 ? 'party' : 'parties'} ahead · {occupiedTableIds.length} of {tables.length} tables occupied
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Notes</label>
+                <input
+                  type="text"
+                  value={walkInForm.notes}
+                  onChange={(e) => setWalkInForm({ ...walkInForm, notes: e.target.value })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowWalkInModal(false)}
+                  className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
+                >
+                  Add to Waitlist
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {seatTarget && seatParty && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold text-slate-900">
+                Seat {seatParty.customer_name} ({seatParty.party_size})
+              </h2>
+              <button onClick={() => setSeatTarget(null)} className="text-slate-500 hover:text-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <select
+              value={seatTableId}
+              onChange={(e) => setSeatTableId(e.target.value)}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Select table</option>
+              {tables.map(table => (
+                <option key={table.id} value={table.id}>
+                  {table.name} ({table.seats} seats){occupiedTableIds.includes(table.id) ? ' - occupied' : ''}
+                </option>
+              ))}
+            </select>
+            {seatTableId && occupiedTableIds.includes(seatTableId) && (
+              <p className="text-sm text-amber-700">
+                This table already has a running session. The guests will join its bill.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleSeat(false)}
+                className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+              >
+                Seat
+              </button>
+              <button
+                onClick={() => handleSeat(true)}
+                className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
+              >
+                Seat &amp; Start KOT
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
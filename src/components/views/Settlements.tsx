@@ -0,0 +1,614 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Landmark, Upload, Save, Plus, Trash2, AlertTriangle, CheckCircle, XCircle, HelpCircle } from 'lucide-react';
+import { formatINR } from '../../lib/currency';
+import {
+  DeliveryPlatformSettings,
+  MissingPayout,
+  PlatformSettlement,
+  PlatformSettlementLine,
+  SETTLEMENT_STATUS_LABELS,
+  SettlementLineStatus,
+  parseSettlementCsv,
+} from '../../lib/settlements';
+
+interface SettlementLineRow extends PlatformSettlementLine {
+  invoice?: { invoice_number: string; total: number } | null;
+}
+
+const STATUS_STYLES: Record<SettlementLineStatus, string> = {
+  matched: 'bg-green-100 text-green-800',
+  short_paid: 'bg-orange-100 text-orange-800',
+  cancelled_charged: 'bg-red-100 text-red-800',
+  unmatched: 'bg-slate-100 text-slate-700',
+  posted: 'bg-blue-100 text-blue-800',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptySettings = { delivery_platform: '', commission_percent: 0, gst_on_commission_percent: 18, tcs_percent: 1, tolerance: 1 };
+
+export function Settlements() {
+  const [settings, setSettings] = useState<DeliveryPlatformSettings[]>([]);
+  const [settlements, setSettlements] = useState<PlatformSettlement[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [lines, setLines] = useState<SettlementLineRow[]>([]);
+  const [missing, setMissing] = useState<MissingPayout[]>([]);
+  const [statusFilter, setStatusFilter] = useState<SettlementLineStatus | 'all'>('all');
+  const [postIds, setPostIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newSettings, setNewSettings] = useState(emptySettings);
+  const [showImport, setShowImport] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importForm, setImportForm] = useState({
+    delivery_platform: '',
+    period_start: today(),
+    period_end: today(),
+    file: null as File | null,
+  });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadSettlement(selectedId);
+  }, [selectedId]);
+
+  const loadData = async () => {
+    try {
+      const [settingsRes, settlementsRes] = await Promise.all([
+        supabase.from('delivery_platform_settings').select('*').order('delivery_platform'),
+        supabase.from('platform_settlements').select('*').order('created_at', { ascending: false }),
+      ]);
+
+      if (settingsRes.error) throw settingsRes.error;
+      if (settlementsRes.error) throw settlementsRes.error;
+
+      setSettings(settingsRes.data || []);
+      setSettlements(settlementsRes.data || []);
+      if (!selectedId && settlementsRes.data?.length) setSelectedId(settlementsRes.data[0].id);
+    } catch (error) {
+      console.error('Error loading settlements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSettlement = async (settlementId: string) => {
+    try {
+      const [linesRes, missingRes] = await Promise.all([
+        supabase
+          .from('platform_settlement_lines')
+          .select('*, invoice:invoices(invoice_number, total)')
+          .eq('settlement_id', settlementId)
+          .order('created_at'),
+        supabase.rpc('get_missing_settlement_payouts', { p_settlement_id: settlementId }),
+      ]);
+
+      if (linesRes.error) throw linesRes.error;
+      if (missingRes.error) throw missingRes.error;
+
+      setLines(linesRes.data || []);
+      setMissing(missingRes.data || []);
+      setPostIds([]);
+    } catch (error) {
+      console.error('Error loading settlement lines:', error);
+    }
+  };
+
+  const updateSettings = (id: string, changes: Partial<DeliveryPlatformSettings>) => {
+    setSettings(settings.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const handleSaveSettings = async (row: DeliveryPlatformSettings) => {
+    try {
+      const { error } = await supabase
+        .from('delivery_platform_settings')
+        .update({
+          commission_percent: row.commission_percent,
+          gst_on_commission_percent: row.gst_on_commission_percent,
+          tcs_percent: row.tcs_percent,
+          tolerance: row.tolerance,
+        })
+        .eq('id', row.id);
+
+      if (error) throw error;
+      alert(`${row.delivery_platform} rates saved`);
+    } catch (error) {
+      console.error('Error saving platform settings:', error);
+      alert('Failed to save platform settings');
+    }
+  };
+
+  const handleAddSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('delivery_platform_settings')
+        .insert({ ...newSettings, delivery_platform: newSettings.delivery_platform.trim() });
+
+      if (error) throw error;
+      setNewSettings(emptySettings);
+      loadData();
+    } catch (error) {
+      console.error('Error adding platform settings:', error);
+      alert('Failed to add platform: ' + (error as Error).message);
+    }
+  };
+
+  const handleDeleteSettings = async (id: string) => {
+    if (!confirm('Remove the rates for this platform?')) return;
+
+    try {
+      const { error } = await supabase.from('delivery_platform_settings').delete().eq('id', id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting platform settings:', error);
+      alert('Failed to delete platform settings');
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importForm.file) {
+      alert('Choose the settlement CSV file');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const settlementLines = parseSettlementCsv(await importForm.file.text());
+
+      const { data, error } = await supabase.rpc('import_platform_settlement', {
+        p_platform: importForm.delivery_platform,
+        p_file_name: importForm.file.name,
+        p_period_start: importForm.period_start,
+        p_period_end: importForm.period_end,
+        p_lines: settlementLines,
+      });
+
+      if (error) throw error;
+
+      setShowImport(false);
+      setImportForm({ delivery_platform: '', period_start: today(), period_end: today(), file: null });
+      setSelectedId(data);
+      loadData();
+    } catch (error) {
+      console.error('Error importing settlement:', error);
+      alert('Failed to import settlement: ' + (error as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDeleteSettlement = async () => {
+    if (lines.some(line => line.status === 'posted')) {
+      alert('This settlement has posted payouts and cannot be deleted');
+      return;
+    }
+    if (!confirm('Delete this settlement import?')) return;
+
+    try {
+      const { error } = await supabase.from('platform_settlements').delete().eq('id', selectedId);
+      if (error) throw error;
+      setSelectedId('');
+      setLines([]);
+      setMissing([]);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting settlement:', error);
+      alert('Failed to delete settlement');
+    }
+  };
+
+  const handlePost = async () => {
+    if (postIds.length === 0) return;
+    if (!confirm(`Post ${postIds.length} payout(s) to their invoices?`)) return;
+
+    try {
+      const { error } = await supabase.rpc('post_settlement_lines', { p_line_ids: postIds });
+      if (error) throw error;
+      loadSettlement(selectedId);
+    } catch (error) {
+      console.error('Error posting payouts:', error);
+      alert('Failed to post payouts: ' + (error as Error).message);
+    }
+  };
+
+  const togglePost = (id: string) => {
+    setPostIds(postIds.includes(id) ? postIds.filter(lineId => lineId !== id) : [...postIds, id]);
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  const selected = settlements.find(s => s.id === selectedId);
+  const postable = lines.filter(line => (line.status === 'matched' || line.status === 'short_paid') && Number(line.net_payout) > 0);
+  const filteredLines = statusFilter === 'all' ? lines : lines.filter(line => line.status === statusFilter);
+  const totalNet = lines.reduce((sum, line) => sum + Number(line.net_payout), 0);
+  const totalDeductions = lines.reduce(
+    (sum, line) => sum + Number(line.commission) + Number(line.gst_on_commission) + Number(line.tcs) + Number(line.other_deductions),
+    0
+  );
+  const shortBy = lines
+    .filter(line => line.status === 'short_paid')
+    .reduce((sum, line) => sum + Number(line.expected_net) - Number(line.net_payout), 0);
+  const chargedOnCancelled = lines
+    .filter(line => line.status === 'cancelled_charged')
+    .reduce((sum, line) => sum + Number(line.commission) + Number(line.gst_on_commission) + Number(line.tcs) + Number(line.other_deductions) - Number(line.net_payout), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Landmark className="w-8 h-8 text-slate-700" />
+          <h1 className="text-3xl font-bold text-slate-900">Platform Payouts</h1>
+        </div>
+        <button
+          onClick={() => setShowImport(true)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition flex items-center gap-2"
+        >
+          <Upload className="w-4 h-4" />
+          Import Settlement
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-semibold text-slate-900 mb-1">Commission Rates</h2>
+        <p className="text-sm text-slate-600 mb-4">
+          Commission and TCS apply to the invoice subtotal; GST applies to the commission. Match the platform name used on delivery KOTs.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Platform</th>
+                <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Commission %</th>
+                <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">GST on Commission %</th>
+                <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">TCS %</th>
+                <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Tolerance (₹)</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings.map(row => (
+                <tr key={row.id} className="border-b border-slate-100">
+                  <td className="px-3 py-2 text-sm font-medium text-slate-900">{row.delivery_platform}</td>
+                  {(['commission_percent', 'gst_on_commission_percent', 'tcs_percent', 'tolerance'] as const).map(field => (
+                    <td key={field} className="px-3 py-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={row[field]}
+                        onChange={(e) => updateSettings(row.id, { [field]: Number(e.target.value) })}
+                        className="w-24 px-2 py-1 border border-slate-300 rounded-lg text-sm"
+                      />
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleSaveSettings(row)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                      title="Save"
+                    >
+                      <Save className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSettings(row.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <form onSubmit={handleAddSettings} className="flex flex-wrap items-end gap-3 mt-4">
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">Platform</label>
+            <input
+              type="text"
+              required
+              value={newSettings.delivery_platform}
+              onChange={(e) => setNewSettings({ ...newSettings, delivery_platform: e.target.value })}
+              placeholder="e.g., Zomato"
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">Commission %</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={newSettings.commission_percent}
+              onChange={(e) => setNewSettings({ ...newSettings, commission_percent: Number(e.target.value) })}
+              className="w-28 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-800 text-white font-semibold rounded-lg transition flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Platform
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <h2 className="text-xl font-semibold text-slate-900">Reconciliation</h2>
+          <div className="flex gap-2">
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            >
+              {settlements.length === 0 && <option value="">No settlements imported</option>}
+              {settlements.map(settlement => (
+                <option key={settlement.id} value={settlement.id}>
+                  {settlement.delivery_platform} · {settlement.period_start} to {settlement.period_end}
+                  {settlement.file_name ? ` · ${settlement.file_name}` : ''}
+                </option>
+              ))}
+            </select>
+            {selected && (
+              <button
+                onClick={handleDeleteSettlement}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                title="Delete settlement"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {selected && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-4 rounded-lg bg-slate-50 border border-slate-200">
+                <div className="text-sm text-slate-600">Net Received</div>
+                <div className="text-xl font-bold text-slate-900 mt-1">{formatINR(totalNet)}</div>
+                <div className="text-xs text-slate-500">after {formatINR(totalDeductions)} deductions</div>
+              </div>
+              <div className="p-4 rounded-lg bg-orange-50 border border-orange-200">
+                <div className="text-sm text-orange-700">Short Paid</div>
+                <div className="text-xl font-bold text-orange-800 mt-1">{formatINR(shortBy)}</div>
+                <div className="text-xs text-orange-700">{lines.filter(line => line.status === 'short_paid').length} orders</div>
+              </div>
+              <div className="p-4 rounded-lg bg-red-50 border border-red-200">
+                <div className="text-sm text-red-700">Charged on Cancelled</div>
+                <div className="text-xl font-bold text-red-800 mt-1">{formatINR(chargedOnCancelled)}</div>
+                <div className="text-xs text-red-700">{lines.filter(line => line.status === 'cancelled_charged').length} orders</div>
+              </div>
+              <div className="p-4 rounded-lg bg-yellow-50 border border-yellow-200">
+                <div className="text-sm text-yellow-700">Missing Payouts</div>
+                <div className="text-xl font-bold text-yellow-800 mt-1">{formatINR(missing.reduce((sum, row) => sum + Number(row.total), 0))}</div>
+                <div className="text-xs text-yellow-700">{missing.length} orders</div>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as SettlementLineStatus | 'all')}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              >
+                <option value="all">All lines ({lines.length})</option>
+                {(Object.keys(SETTLEMENT_STATUS_LABELS) as SettlementLineStatus[]).map(status => (
+                  <option key={status} value={status}>
+                    {SETTLEMENT_STATUS_LABELS[status]} ({lines.filter(line => line.status === status).length})
+                  </option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPostIds(postIds.length === postable.length ? [] : postable.map(line => line.id))}
+                  disabled={postable.length === 0}
+                  className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 font-medium rounded-lg transition disabled:opacity-50"
+                >
+                  {postIds.length === postable.length && postable.length > 0 ? 'Clear Selection' : 'Select All Postable'}
+                </button>
+                <button
+                  onClick={handlePost}
+                  disabled={postIds.length === 0}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition flex items-center gap-2 disabled:opacity-50"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Post Net Receipts ({postIds.length})
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Order ID</th>
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Invoice</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-slate-600">Gross</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-slate-600">Commission + GST</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-slate-600">TCS + Other</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-slate-600">Net Payout</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-slate-600">Expected</th>
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredLines.map(line => (
+                    <tr key={line.id} className="border-b border-slate-100 hover:bg-slate-50">
+                      <td className="px-3 py-2">
+                        {postable.includes(line) && (
+                          <input
+                            type="checkbox"
+                            checked={postIds.includes(line.id)}
+                            onChange={() => togglePost(line.id)}
+                            className="w-4 h-4"
+                          />
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-sm font-mono text-slate-900">
+                        {line.delivery_order_id}
+                        {line.order_status && <div className="text-xs font-sans text-slate-500">{line.order_status}</div>}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-slate-600">
+                        {line.invoice ? `${line.invoice.invoice_number} (${formatINR(Number(line.invoice.total))})` : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right text-slate-600">{formatINR(Number(line.gross_amount))}</td>
+                      <td className="px-3 py-2 text-sm text-right text-slate-600">
+                        {formatINR(Number(line.commission) + Number(line.gst_on_commission))}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right text-slate-600">
+                        {formatINR(Number(line.tcs) + Number(line.other_deductions))}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right font-medium text-slate-900">
+                        {formatINR(Number(line.net_payout))}
+                        {line.utr && <div className="text-xs font-normal text-slate-500">UTR {line.utr}</div>}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right text-slate-600">
+                        {line.expected_net !== null ? formatINR(Number(line.expected_net)) : '-'}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[line.status]}`}>
+                          {line.status === 'short_paid' && <AlertTriangle className="w-3 h-3" />}
+                          {line.status === 'cancelled_charged' && <XCircle className="w-3 h-3" />}
+                          {line.status === 'unmatched' && <HelpCircle className="w-3 h-3" />}
+                          {SETTLEMENT_STATUS_LABELS[line.status]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                  {filteredLines.length === 0 && (
+                    <tr>
+                      <td colSpan={9} className="px-3 py-8 text-center text-sm text-slate-500">No settlement lines</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900 mb-2">Orders Without a Payout</h3>
+              <p className="text-sm text-slate-600 mb-3">
+                Billed {selected.delivery_platform} orders from {selected.period_start} to {selected.period_end} that no imported settlement has paid.
+              </p>
+              {missing.length === 0 ? (
+                <p className="text-sm text-slate-500">Every billed order in this period has a payout line.</p>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-slate-200">
+                      <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Ordered</th>
+                      <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">KOT #</th>
+                      <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Order ID</th>
+                      <th className="px-3 py-2 text-left text-sm font-semibold text-slate-600">Invoice</th>
+                      <th className="px-3 py-2 text-right text-sm font-semibold text-slate-600">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {missing.map(row => (
+                      <tr key={row.kot_id} className="border-b border-slate-100">
+                        <td className="px-3 py-2 text-sm text-slate-600">{new Date(row.ordered_at).toLocaleString('en-IN')}</td>
+                        <td className="px-3 py-2 text-sm text-slate-900">{row.kot_number}</td>
+                        <td className="px-3 py-2 text-sm font-mono text-slate-900">{row.delivery_order_id || '-'}</td>
+                        <td className="px-3 py-2 text-sm text-slate-600">{row.invoice_number}</td>
+                        <td className="px-3 py-2 text-sm text-right font-medium text-slate-900">{formatINR(Number(row.total))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {showImport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full">
+            <div className="p-6 border-b border-slate-200">
+              <h2 className="text-2xl font-bold text-slate-900">Import Settlement</h2>
+              <p className="text-sm text-slate-600 mt-1">
+                Upload the platform's payout CSV. It needs an Order ID and a Net Payout column; commission, GST, TCS and UTR columns are read when present.
+              </p>
+            </div>
+            <form onSubmit={handleImport} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Platform</label>
+                <input
+                  type="text"
+                  required
+                  list="settlement-platforms"
+                  value={importForm.delivery_platform}
+                  onChange={(e) => setImportForm({ ...importForm, delivery_platform: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                />
+                <datalist id="settlement-platforms">
+                  {settings.map(row => <option key={row.id} value={row.delivery_platform} />)}
+                </datalist>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Orders From</label>
+                  <input
+                    type="date"
+                    required
+                    value={importForm.period_start}
+                    onChange={(e) => setImportForm({ ...importForm, period_start: e.target.value })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Orders To</label>
+                  <input
+                    type="date"
+                    required
+                    value={importForm.period_end}
+                    onChange={(e) => setImportForm({ ...importForm, period_end: e.target.value })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Settlement CSV</label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => setImportForm({ ...importForm, file: e.target.files?.[0] || null })}
+                  className="w-full text-sm"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowImport(false)}
+                  className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={importing}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+                >
+                  {importing ? 'Importing...' : 'Import and Match'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Plus, Minus, ShoppingBag, X, CheckCircle, Leaf } from 'lucide-react';
+import { formatINR } from '../../lib/currency';
+import { PriceRule, getBestOffer } from '../../lib/menuSchedules';
+
+interface PublicModifierGroup {
+  id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  modifiers: { id: string; name: string; price_delta: number }[];
+}
+
+interface PublicMenuItem {
+  id: string;
+  category_id: string | null;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  is_vegetarian: boolean;
+  price: number;
+  variants: { id: string; name: string; price: number }[];
+  modifier_groups: PublicModifierGroup[];
+  offers: PriceRule[];
+}
+
+interface PublicMenu {
+  table_name: string;
+  company_name: string | null;
+  categories: { id: string; name: string }[];
+  items: PublicMenuItem[];
+}
+
+interface CartLine {
+  key: string;
+  menu_item_id: string;
+  name: string;
+  variant_id: string | null;
+  modifier_ids: string[];
+  details: string[];
+  offers: PriceRule[];
+  unit_price: number;
+  quantity: number;
+}
+
+export function TableOrder() {
+  const token = new URLSearchParams(window.location.search).get('table') || '';
+  const [menu, setMenu] = useState<PublicMenu | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeCategoryId, setActiveCategoryId] = useState('');
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [showCart, setShowCart] = useState(false);
+  const [optionsItem, setOptionsItem] = useState<PublicMenuItem | null>(null);
+  const [optionsVariantId, setOptionsVariantId] = useState('');
+  const [optionsModifierIds, setOptionsModifierIds] = useState<string[]>([]);
+  const [guest, setGuest] = useState({ name: '', notes: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [placedKOTNumber, setPlacedKOTNumber] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is missing its table code. Please scan the QR code on your table again.');
+      setLoading(false);
+      return;
+    }
+
+    loadMenu();
+  }, []);
+
+  const loadMenu = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_table_menu', { p_token: token });
+      if (error) throw error;
+
+      setMenu(data);
+      const firstCategory = (data as PublicMenu).categories.find(category =>
+        (data as PublicMenu).items.some(item => item.category_id === category.id)
+      );
+      setActiveCategoryId(firstCategory?.id || '');
+    } catch (error) {
+      console.error('Error loading menu:', error);
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openItem = (item: PublicMenuItem) => {
+    if (item.variants.length === 0 && item.modifier_groups.length === 0) {
+      addToCart(item, null, []);
+      return;
+    }
+
+    setOptionsItem(item);
+    setOptionsVariantId(item.variants[0]?.id || '');
+    setOptionsModifierIds([]);
+  };
+
+  const toggleModifier = (group: PublicModifierGroup, modifierId: string) => {
+    if (optionsModifierIds.includes(modifierId)) {
+      setOptionsModifierIds(optionsModifierIds.filter(id => id !== modifierId));
+      return;
+    }
+
+    const groupIds = group.modifiers.map(m => m.id);
+    if (group.max_select === 1) {
+      setOptionsModifierIds([...optionsModifierIds.filter(id => !groupIds.includes(id)), modifierId]);
+    } else if (optionsModifierIds.filter(id => groupIds.includes(id)).length < group.max_select) {
+      setOptionsModifierIds([...optionsModifierIds, modifierId]);
+    }
+  };
+
+  const handleConfirmOptions = () => {
+    if (!optionsItem) return;
+
+    for (const group of optionsItem.modifier_groups) {
+      const chosen = group.modifiers.filter(m => optionsModifierIds.includes(m.id)).length;
+      if (chosen < group.min_select) {
+        alert(`Please choose at least ${group.min_select} from ${group.name}`);
+        return;
+      }
+    }
+
+    addToCart(optionsItem, optionsItem.variants.find(v => v.id === optionsVariantId) || null, optionsModifierIds);
+    setOptionsItem(null);
+  };
+
+  const addToCart = (item: PublicMenuItem, variant: PublicMenuItem['variants'][number] | null, modifierIds: string[]) => {
+    const modifiers = item.modifier_groups.flatMap(group => group.modifiers).filter(m => modifierIds.includes(m.id));
+    const key = [item.id, variant?.id || '', [...modifierIds].sort().join(',')].join('|');
+    const existing = cart.find(line => line.key === key);
+
+    if (existing) {
+      setCart(cart.map(line => (line === existing ? { ...line, quantity: Math.min(20, line.quantity + 1) } : line)));
+      return;
+    }
+
+    setCart([...cart, {
+      key,
+      menu_item_id: item.id,
+      name: variant ? `${item.name} (${variant.name})` : item.name,
+      variant_id: variant?.id || null,
+      modifier_ids: modifierIds,
+      details: modifiers.map(m => m.name),
+      offers: item.offers || [],
+      unit_price: (variant ? variant.price : item.price) + modifiers.reduce((sum, m) => sum + Number(m.price_delta), 0),
+      quantity: 1,
+    }]);
+  };
+
+  const updateQuantity = (key: string, quantity: number) => {
+    if (quantity <= 0) {
+      setCart(cart.filter(line => line.key !== key));
+      return;
+    }
+    setCart(cart.map(line => (line.key === key ? { ...line, quantity: Math.min(20, quantity) } : line)));
+  };
+
+  const handleSubmit = async () => {
+    if (cart.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('submit_table_order', {
+        p_token: token,
+        p_customer_name: guest.name,
+        p_notes: guest.notes,
+        p_items: cart.map(line => ({
+          menu_item_id: line.menu_item_id,
+          variant_id: line.variant_id,
+          modifier_ids: line.modifier_ids,
+          quantity: line.quantity,
+        })),
+      });
+
+      if (error) throw error;
+
+      setPlacedKOTNumber(data.kot_number);
+      setCart([]);
+      setShowCart(false);
+    } catch (error) {
+      console.error('Error placing order:', error);
+      alert((error as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center bg-slate-50 text-slate-600">Loading menu...</div>;
+  }
+
+  if (error || !menu) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-6">
+        <div className="bg-white rounded-xl shadow p-6 max-w-sm text-center text-slate-700">{error || 'Menu not available'}</div>
+      </div>
+    );
+  }
+
+  if (placedKOTNumber) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-6">
+        <div className="bg-white rounded-xl shadow p-6 max-w-sm text-center space-y-3">
+          <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+          <h1 className="text-xl font-bold text-slate-900">Order sent</h1>
+          <p className="text-sm text-slate-600">
+            Our staff will confirm order {placedKOTNumber} for table {menu.table_name} and send it to the kitchen shortly.
+          </p>
+          <button
+            onClick={() => setPlacedKOTNumber(null)}
+            className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
+          >
+            Order More
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // An estimate only: the server prices the order again when it is placed
+  const getLineOffer = (line: CartLine) => getBestOffer(line.offers, line.unit_price, line.quantity);
+  const cartTotal = cart.reduce((sum, line) => sum + line.quantity * line.unit_price - (getLineOffer(line)?.discount || 0), 0);
+  const cartCount = cart.reduce((sum, line) => sum + line.quantity, 0);
+  const categories = menu.categories.filter(category => menu.items.some(item => item.category_id === category.id));
+  const visibleItems = activeCategoryId ? menu.items.filter(item => item.category_id === activeCategoryId) : menu.items;
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-24">
+      <header className="bg-white border-b border-slate-200 px-4 py-3 sticky top-0 z-10">
+        <div className="font-bold text-lg text-slate-900">{menu.company_name || 'Menu'}</div>
+        <div className="text-sm text-slate-600">Table {menu.table_name}</div>
+        {categories.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto mt-3 -mx-4 px-4">
+            {categories.map(category => (
+              <button
+                key={category.id}
+                onClick={() => setActiveCategoryId(category.id)}
+                className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap border transition ${
+                  activeCategoryId === category.id
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-slate-300 text-slate-700'
+                }`}
+              >
+                {category.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </header>
+
+      <main className="p-4 space-y-3 max-w-2xl mx-auto">
+        {visibleItems.map(item => (
+          <div key={item.id} className="bg-white rounded-xl border border-slate-200 p-4 flex gap-3">
+            {item.image_url && <img src={item.image_url} alt="" className="w-20 h-20 rounded-lg object-cover" />}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-1 font-semibold text-slate-900">
+                {item.is_vegetarian && <Leaf className="w-4 h-4 text-green-600 shrink-0" />}
+                {item.name}
+              </div>
+              {item.description && <p className="text-xs text-slate-500 mt-1">{item.description}</p>}
+              <div className="text-sm font-medium text-slate-700 mt-1">
+                {item.variants.length > 0
+                  ? `from ${formatINR(Math.min(...item.variants.map(v => Number(v.price))))}`
+                  : formatINR(Number(item.price))}
+              </div>
+              {(item.offers || []).map(offer => (
+                <div key={offer.id} className="text-xs font-semibold text-green-700 mt-1">{offer.name}</div>
+              ))}
+            </div>
+            <button
+              onClick={() => openItem(item)}
+              className="self-center px-4 py-2 border border-blue-600 text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition"
+            >
+              Add
+            </button>
+          </div>
+        ))}
+        {visibleItems.length === 0 && <p className="text-center text-sm text-slate-500 py-8">Nothing available right now.</p>}
+      </main>
+
+      {cart.length > 0 && !showCart && (
+        <div className="fixed bottom-0 inset-x-0 p-4">
+          <button
+            onClick={() => setShowCart(true)}
+            className="w-full max-w-2xl mx-auto flex items-center justify-between px-4 py-3 bg-blue-600 text-white font-semibold rounded-xl shadow-lg"
+          >
+            <span className="flex items-center gap-2">
+              <ShoppingBag className="w-5 h-5" />
+              {cartCount} item{cartCount === 1 ? '' : 's'}
+            </span>
+            <span>View Order · {formatINR(cartTotal)}</span>
+          </button>
+        </div>
+      )}
+
+      {optionsItem && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end sm:items-center justify-center z-50">
+          <div className="bg-white w-full max-w-lg rounded-t-2xl sm:rounded-2xl max-h-[85vh] overflow-y-auto p-5 space-y-4">
+            <div className="flex justify-between items-start">
+              <h2 className="text-lg font-bold text-slate-900">{optionsItem.name}</h2>
+              <button onClick={() => setOptionsItem(null)} className="text-slate-500">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {optionsItem.variants.length > 0 && (
+              <div>
+                <div className="text-sm font-medium text-slate-700 mb-2">Size</div>
+                <div className="grid grid-cols-2 gap-2">
+                  {optionsItem.variants.map(variant => (
+                    <button
+                      key={variant.id}
+                      onClick={() => setOptionsVariantId(variant.id)}
+                      className={`p-3 border rounded-lg text-left transition ${
+                        optionsVariantId === variant.id ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-200'
+                      }`}
+                    >
+                      <div className="font-medium text-sm">{variant.name}</div>
+                      <div className="text-xs opacity-80">{formatINR(Number(variant.price))}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {optionsItem.modifier_groups.map(group => (
+              <div key={group.id}>
+                <div className="text-sm font-medium text-slate-700 mb-2">
+                  {group.name}
+                  <span className="ml-2 text-xs text-slate-500">
+                    {group.min_select > 0
+                      ? `Choose ${group.min_select === group.max_select ? group.min_select : `${group.min_select}-${group.max_select}`}`
+                      : `Optional, up to ${group.max_select}`}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {group.modifiers.map(modifier => (
+                    <button
+                      key={modifier.id}
+                      onClick={() => toggleModifier(group, modifier.id)}
+                      className={`px-3 py-2 border rounded-lg text-sm transition ${
+                        optionsModifierIds.includes(modifier.id) ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-200'
+                      }`}
+                    >
+                      {modifier.name}
+                      {Number(modifier.price_delta) !== 0 && ` +${formatINR(Number(modifier.price_delta))}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <button
+              onClick={handleConfirmOptions}
+              className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
+            >
+              Add to Order
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showCart && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end sm:items-center justify-center z-50">
+          <div className="bg-white w-full max-w-lg rounded-t-2xl sm:rounded-2xl max-h-[90vh] overflow-y-auto p-5 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-bold text-slate-900">Your Order · Table {menu.table_name}</h2>
+              <button onClick={() => setShowCart(false)} className="text-slate-500">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="divide-y divide-slate-100">
+              {cart.map(line => {
+                const offer = getLineOffer(line);
+                return (
+                  <div key={line.key} className="py-3 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-sm text-slate-900">{line.name}</div>
+                      {line.details.length > 0 && <div className="text-xs text-slate-500">{line.details.join(', ')}</div>}
+                      <div className="text-xs text-slate-600">{formatINR(line.unit_price)}</div>
+                      {offer && (
+                        <div className="text-xs font-medium text-green-700">
+                          {offer.name} (-{formatINR(offer.discount)})
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => updateQuantity(line.key, line.quantity - 1)} className="p-1 border rounded-lg">
+                        <Minus className="w-4 h-4" />
+                      </button>
+                      <span className="w-6 text-center text-sm font-semibold">{line.quantity}</span>
+                      <button onClick={() => updateQuantity(line.key, line.quantity + 1)} className="p-1 border rounded-lg">
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <input
+              type="text"
+              placeholder="Your name (optional)"
+              value={guest.name}
+              onChange={(e) => setGuest({ ...guest, name: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+            />
+            <textarea
+              placeholder="Anything the kitchen should know? (optional)"
+              value={guest.notes}
+              onChange={(e) => setGuest({ ...guest, notes: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+            />
+
+            <div className="flex justify-between font-semibold text-slate-900">
+              <span>Total (before taxes)</span>
+              <span>{formatINR(cartTotal)}</span>
+            </div>
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || cart.length === 0}
+              className="w-full px-4 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+            >
+              {submitting ? 'Sending...' : 'Place Order'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
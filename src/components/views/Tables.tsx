@@ -0,0 +1,969 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatINR } from '../../lib/currency';
+import {
+  DiningSection,
+  DiningTable,
+  TableStatus,
+  TABLE_STATUS_LABELS,
+  getOpenTableKOTs,
+  getTableOrderUrl,
+  getTableStatus,
+} from '../../lib/tables';
+import {
+  TableSession,
+  billTableSession,
+  confirmGuestKOT,
+  refreshSessionInvoices,
+  rejectGuestKOT,
+  settleTableSession,
+} from '../../lib/tableSessions';
+import { fireCourse, getCourseLabel, getHeldCourses } from '../../lib/courses';
+import { PrintableKOTItem, printKOT } from '../../lib/kotPrint';
+import {
+  Plus,
+  Edit2,
+  Trash2,
+  Save,
+  X,
+  Users,
+  LayoutGrid,
+  Sparkles,
+  ClipboardList,
+  Receipt,
+  ArrowRightLeft,
+  ListChecks,
+  Merge,
+  QrCode,
+  Printer,
+  RefreshCw,
+  Check,
+  Flame,
+} from 'lucide-react';
+
+interface TableKOT {
+  id: string;
+  kot_number: string;
+  table_id: string | null;
+  status: string;
+  bill_printed_at: string | null;
+  settled_at: string | null;
+  created_at: string;
+  source: 'staff' | 'qr';
+  awaiting_confirmation: boolean;
+  items: { id: string; menu_item_name: string; quantity: number; unit_price: number; course: number; status: string }[];
+}
+
+type TransferMode = 'move_kot' | 'move_items' | 'merge_tables';
+
+interface TablesProps {
+  onOpenTable: (tableId: string, kotId?: string) => void;
+}
+
+const GRID_COLUMNS = 8;
+const MIN_GRID_ROWS = 6;
+
+const statusStyles: Record<TableStatus, string> = {
+  available: 'bg-green-50 border-green-400 text-green-800',
+  occupied: 'bg-red-50 border-red-400 text-red-800',
+  bill_printed: 'bg-yellow-50 border-yellow-400 text-yellow-800',
+  cleaning: 'bg-slate-100 border-slate-400 text-slate-700',
+};
+
+const emptyTableForm = {
+  name: '',
+  seats: 4,
+  shape: 'square' as DiningTable['shape'],
+  section_id: '',
+  is_active: true,
+};
+
+export function Tables({ onOpenTable }: TablesProps) {
+  const { user, profile } = useAuth();
+  const [sections, setSections] = useState<DiningSection[]>([]);
+  const [tables, setTables] = useState<DiningTable[]>([]);
+  const [kots, setKots] = useState<TableKOT[]>([]);
+  const [sessions, setSessions] = useState<TableSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeSectionId, setActiveSectionId] = useState<string>('');
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [editLayout, setEditLayout] = useState(false);
+  const [tableForm, setTableForm] = useState(emptyTableForm);
+  const [newTablePosition, setNewTablePosition] = useState<{ x: number; y: number } | null>(null);
+  const [sectionName, setSectionName] = useState('');
+  const [transfer, setTransfer] = useState<{ mode: TransferMode; kotId?: string } | null>(null);
+  const [transferItemIds, setTransferItemIds] = useState<string[]>([]);
+  const [transferTableId, setTransferTableId] = useState('');
+  const [transferReason, setTransferReason] = useState('');
+  const [qrTable, setQrTable] = useState<{ table: DiningTable; url: string; image: string } | null>(null);
+
+  const isAdmin = profile?.role === 'admin';
+
+  useEffect(() => {
+    loadData();
+
+    const channel = supabase
+      .channel('floor-plan')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'kots' }, () => loadData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'dining_tables' }, () => loadData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'table_sessions' }, () => loadData())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [sectionsRes, tablesRes, kotsRes, sessionsRes] = await Promise.all([
+        supabase.from('dining_sections').select('*').order('display_order'),
+        supabase.from('dining_tables').select('*').order('name'),
+        supabase
+          .from('kots')
+          .select('id, kot_number, table_id, status, bill_printed_at, settled_at, created_at, source, awaiting_confirmation, items:kot_items(id, menu_item_name, quantity, unit_price, course, status)')
+          .not('table_id', 'is', null)
+          .is('settled_at', null)
+          .neq('status', 'cancelled')
+          .order('created_at'),
+        supabase.from('table_sessions').select('*').neq('status', 'settled'),
+      ]);
+
+      if (tablesRes.error) throw tablesRes.error;
+      setSections(sectionsRes.data || []);
+      setTables(tablesRes.data || []);
+      setKots(kotsRes.data || []);
+      setSessions(sessionsRes.data || []);
+      setActiveSectionId(current => current || sectionsRes.data?.[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading tables:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getKOTTotal = (kot: TableKOT) => {
+    return kot.items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+  };
+
+  // Guest orders only count towards the bill once staff confirm them.
+  const getRunningTotal = (tableKOTs: TableKOT[]) => {
+    return tableKOTs
+      .filter(kot => !kot.awaiting_confirmation)
+      .reduce((sum, kot) => sum + getKOTTotal(kot), 0);
+  };
+
+  const sectionTables = tables.filter(table =>
+    (table.section_id || '') === activeSectionId && (editLayout || table.is_active)
+  );
+  const gridRows = Math.max(
+    MIN_GRID_ROWS,
+    ...sectionTables.map(table => table.pos_y + (editLayout ? 2 : 1))
+  );
+  const selectedTable = tables.find(table => table.id === selectedTableId) || null;
+  const selectedKOTs = selectedTable ? getOpenTableKOTs(selectedTable.id, kots) : [];
+  const selectedSession = selectedTable ? sessions.find(session => session.table_id === selectedTable.id) || null : null;
+
+  const statusCounts = tables
+    .filter(table => table.is_active)
+    .reduce((counts, table) => {
+      const status = getTableStatus(table, kots);
+      counts[status] = (counts[status] || 0) + 1;
+      return counts;
+    }, {} as Partial<Record<TableStatus, number>>);
+
+  const handleSelectTable = (table: DiningTable) => {
+    setSelectedTableId(table.id);
+    closeTransfer();
+    setNewTablePosition(null);
+    if (editLayout) {
+      setTableForm({
+        name: table.name,
+        seats: table.seats,
+        shape: table.shape,
+        section_id: table.section_id || '',
+        is_active: table.is_active,
+      });
+    }
+  };
+
+  const handleCellClick = async (x: number, y: number) => {
+    if (!editLayout) return;
+
+    if (selectedTable) {
+      try {
+        const { error } = await supabase
+          .from('dining_tables')
+          .update({ pos_x: x, pos_y: y, section_id: activeSectionId || null })
+          .eq('id', selectedTable.id);
+
+        if (error) throw error;
+        loadData();
+      } catch (error) {
+        console.error('Error moving table:', error);
+        alert('Failed to move table');
+      }
+      return;
+    }
+
+    setNewTablePosition({ x, y });
+    setTableForm({ ...emptyTableForm, name: `T${tables.length + 1}`, section_id: activeSectionId });
+  };
+
+  const closeTableForm = () => {
+    setSelectedTableId(null);
+    setNewTablePosition(null);
+    setTableForm(emptyTableForm);
+  };
+
+  const handleSaveTable = async () => {
+    if (!tableForm.name.trim()) {
+      alert('Please enter a table name');
+      return;
+    }
+
+    const tableData = {
+      name: tableForm.name.trim(),
+      seats: tableForm.seats,
+      shape: tableForm.shape,
+      section_id: tableForm.section_id || null,
+      is_active: tableForm.is_active,
+    };
+
+    try {
+      if (selectedTable) {
+        const { error } = await supabase.from('dining_tables').update(tableData).eq('id', selectedTable.id);
+        if (error) throw error;
+      } else if (newTablePosition) {
+        const { error } = await supabase
+          .from('dining_tables')
+          .insert([{ ...tableData, pos_x: newTablePosition.x, pos_y: newTablePosition.y }]);
+        if (error) throw error;
+      }
+
+      closeTableForm();
+      loadData();
+    } catch (error) {
+      console.error('Error saving table:', error);
+      alert('Failed to save table: ' + (error as Error).message);
+    }
+  };
+
+  const handleDeleteTable = async (table: DiningTable) => {
+    if (!confirm(`Delete table ${table.name}?`)) return;
+
+    try {
+      const { error } = await supabase.from('dining_tables').delete().eq('id', table.id);
+      if (error) throw error;
+      closeTableForm();
+      loadData();
+    } catch (error) {
+      console.error('Error deleting table:', error);
+      alert('This table has KOT history. Mark it inactive instead.');
+    }
+  };
+
+  const handleAddSection = async () => {
+    if (!sectionName.trim()) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('dining_sections')
+        .insert([{ name: sectionName.trim(), display_order: sections.length }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      setSectionName('');
+      setActiveSectionId(data.id);
+      loadData();
+    } catch (error) {
+      console.error('Error adding section:', error);
+      alert('Failed to add section');
+    }
+  };
+
+  const handleDeleteSection = async (section: DiningSection) => {
+    if (!confirm(`Delete section ${section.name}? Its tables will be kept without a section.`)) return;
+
+    try {
+      const { error } = await supabase.from('dining_sections').delete().eq('id', section.id);
+      if (error) throw error;
+      setActiveSectionId('');
+      loadData();
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      alert('Failed to delete section');
+    }
+  };
+
+  const handlePrintBill = async (session: TableSession) => {
+    try {
+      const invoiceId = await billTableSession(session.id);
+      loadData();
+      if (invoiceId) window.open(`/invoice?id=${invoiceId}`, '_blank');
+    } catch (error) {
+      console.error('Error printing bill:', error);
+      alert('Failed to generate bill');
+    }
+  };
+
+  const handleSettleTable = async (table: DiningTable, session: TableSession) => {
+    if (!confirm(`Settle and release table ${table.name}? No more KOTs can be added to this bill.`)) return;
+
+    try {
+      await settleTableSession(session);
+      setSelectedTableId(null);
+      loadData();
+    } catch (error) {
+      console.error('Error settling table:', error);
+      alert('Failed to settle table');
+    }
+  };
+
+  const openTransfer = (mode: TransferMode, kotId?: string) => {
+    setTransfer({ mode, kotId });
+    setTransferItemIds([]);
+    setTransferTableId('');
+    setTransferReason('');
+  };
+
+  const closeTransfer = () => {
+    setTransfer(null);
+    setTransferItemIds([]);
+  };
+
+  const handleTransfer = async () => {
+    if (!transfer || !selectedTable) return;
+    if (!transferTableId) {
+      alert('Please choose a table');
+      return;
+    }
+    if (transfer.mode === 'move_items' && transferItemIds.length === 0) {
+      alert('Please select the items to move');
+      return;
+    }
+
+    const reason = transferReason.trim() || null;
+
+    try {
+      const { data: sessionIds, error } = transfer.mode === 'move_kot'
+        ? await supabase.rpc('move_kot', { p_kot_id: transfer.kotId, p_to_table_id: transferTableId, p_reason: reason })
+        : transfer.mode === 'move_items'
+          ? await supabase.rpc('move_kot_items', { p_item_ids: transferItemIds, p_to_table_id: transferTableId, p_reason: reason })
+          : await supabase.rpc('merge_tables', { p_from_table_id: selectedTable.id, p_to_table_id: transferTableId, p_reason: reason });
+
+      if (error) throw error;
+
+      await refreshSessionInvoices(sessionIds || []);
+      if (transfer.mode === 'merge_tables') setSelectedTableId(transferTableId);
+      closeTransfer();
+      loadData();
+    } catch (error) {
+      console.error('Error transferring orders:', error);
+      alert('Failed to transfer: ' + (error as Error).message);
+    }
+  };
+
+  const handleConfirmGuestKOT = async (kot: TableKOT) => {
+    if (!kot.table_id) return;
+
+    try {
+      await confirmGuestKOT({ id: kot.id, table_id: kot.table_id }, user?.id);
+      loadData();
+    } catch (error) {
+      console.error('Error confirming guest order:', error);
+      alert('Failed to confirm order: ' + (error as Error).message);
+    }
+  };
+
+  // Firing prints an add-on KOT with only the lines of that course
+  const handleFireCourse = async (kot: TableKOT, course: number) => {
+    try {
+      const firedItems = await fireCourse<PrintableKOTItem>(kot.id, course);
+      const [kotRes, stationsRes] = await Promise.all([
+        supabase.from('kots').select('*').eq('id', kot.id).single(),
+        supabase.from('kitchen_stations').select('*').eq('is_active', true).order('display_order'),
+      ]);
+
+      if (kotRes.error) throw kotRes.error;
+      await printKOT(kotRes.data, firedItems, stationsRes.data || [], `Fire ${getCourseLabel(course)}`);
+      loadData();
+    } catch (error) {
+      console.error('Error firing course:', error);
+      alert('Failed to fire course: ' + (error as Error).message);
+    }
+  };
+
+  const handleRejectGuestKOT = async (kot: TableKOT) => {
+    if (!confirm(`Reject guest order ${kot.kot_number}?`)) return;
+
+    try {
+      await rejectGuestKOT(kot.id);
+      loadData();
+    } catch (error) {
+      console.error('Error rejecting guest order:', error);
+      alert('Failed to reject order');
+    }
+  };
+
+  const openTableQR = async (table: DiningTable) => {
+    if (!table.qr_token) return;
+
+    try {
+      const url = getTableOrderUrl(table.qr_token);
+      const image = await QRCode.toDataURL(url, { width: 320, margin: 2 });
+      setQrTable({ table, url, image });
+    } catch (error) {
+      console.error('Error generating QR code:', error);
+      alert('Failed to generate QR code');
+    }
+  };
+
+  const handleRegenerateQR = async (table: DiningTable) => {
+    if (!confirm(`Generate a new QR code for ${table.name}? The printed code on the table will stop working.`)) return;
+
+    try {
+      const qrToken = crypto.randomUUID().replace(/-/g, '');
+      const { error } = await supabase.from('dining_tables').update({ qr_token: qrToken }).eq('id', table.id);
+      if (error) throw error;
+
+      await openTableQR({ ...table, qr_token: qrToken });
+      loadData();
+    } catch (error) {
+      console.error('Error regenerating QR code:', error);
+      alert('Failed to regenerate QR code');
+    }
+  };
+
+  const handlePrintQR = () => {
+    if (!qrTable) return;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    printWindow.document.write(`
+      <html>
+        <head>
+          <title>Table ${qrTable.table.name} QR</title>
+          <style>
+            body { font-family: Arial, sans-serif; text-align: center; padding: 40px; }
+            h1 { font-size: 32px; margin-bottom: 8px; }
+            p { font-size: 16px; color: #475569; }
+            img { width: 280px; height: 280px; }
+          </style>
+        </head>
+        <body>
+          <h1>Table ${qrTable.table.name}</h1>
+          <p>Scan to view the menu and order</p>
+          <img src="${qrTable.image}" />
+          <script>window.onload = function() { window.print(); }</script>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+  };
+
+  const handleMarkClean = async (table: DiningTable) => {
+    try {
+      const { error } = await supabase.from('dining_tables').update({ needs_cleaning: false }).eq('id', table.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error updating table:', error);
+      alert('Failed to update table');
+    }
+  };
+
+  const renderCell = (x: number, y: number) => {
+    const table = sectionTables.find(t => t.pos_x === x && t.pos_y === y);
+
+    if (!table) {
+      return (
+        <div
+          key={`${x}-${y}`}
+          onClick={() => handleCellClick(x, y)}
+          className={`aspect-square rounded-lg ${editLayout ? 'border-2 border-dashed border-gray-200 hover:border-blue-400 cursor-pointer' : ''}`}
+        />
+      );
+    }
+
+    const status = getTableStatus(table, kots);
+    const openKOTs = getOpenTableKOTs(table.id, kots);
+    const total = getRunningTotal(openKOTs);
+    const awaitingCount = openKOTs.filter(kot => kot.awaiting_confirmation).length;
+
+    return (
+      <button
+        key={table.id}
+        onClick={() => handleSelectTable(table)}
+        className={`aspect-square border-2 flex flex-col items-center justify-center p-1 transition-shadow hover:shadow-md ${
+          table.shape === 'round' ? 'rounded-full' : 'rounded-lg'
+        } ${statusStyles[status]} ${selectedTableId === table.id ? 'ring-2 ring-blue-500' : ''} ${
+          table.is_active ? '' : 'opacity-50'
+        }`}
+      >
+        <span className="font-bold text-lg leading-tight">{table.name}</span>
+        <span className="text-xs flex items-center gap-1">
+          <Users className="h-3 w-3" />
+          {table.seats}
+        </span>
+        {openKOTs.length > 0 && <span className="text-xs font-medium">{formatINR(total)}</span>}
+        {awaitingCount > 0 && (
+          <span className="text-[10px] font-semibold px-1.5 rounded-full bg-amber-500 text-white">
+            {awaitingCount} guest order{awaitingCount === 1 ? '' : 's'}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  if (loading) {
+    return <div className="flex justify-center items-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Tables</h1>
+        {isAdmin && (
+          <button
+            onClick={() => {
+              setEditLayout(!editLayout);
+              closeTableForm();
+            }}
+            className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+              editLayout ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-600 text-white hover:bg-slate-700'
+            }`}
+          >
+            <LayoutGrid className="h-4 w-4" />
+            {editLayout ? 'Done Editing' : 'Edit Layout'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {(Object.keys(TABLE_STATUS_LABELS) as TableStatus[]).map(status => (
+          <div key={status} className={`px-3 py-1 rounded-full border text-sm ${statusStyles[status]}`}>
+            {TABLE_STATUS_LABELS[status]}: {statusCounts[status] || 0}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 border-b">
+        {sections.map(section => (
+          <div key={section.id} className="flex items-center">
+            <button
+              onClick={() => {
+                setActiveSectionId(section.id);
+                closeTableForm();
+              }}
+              className={`px-4 py-2 font-medium border-b-2 ${
+                activeSectionId === section.id
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {section.name}
+            </button>
+            {editLayout && (
+              <button
+                onClick={() => handleDeleteSection(section)}
+                className="text-red-600 hover:text-red-800 p-1"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        {tables.some(table => !table.section_id) && (
+          <button
+            onClick={() => {
+              setActiveSectionId('');
+              closeTableForm();
+            }}
+            className={`px-4 py-2 font-medium border-b-2 ${
+              activeSectionId === '' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            Unassigned
+          </button>
+        )}
+        {editLayout && (
+          <div className="flex items-center gap-2 ml-auto pb-2">
+            <input
+              type="text"
+              placeholder="New section"
+              value={sectionName}
+              onChange={(e) => setSectionName(e.target.value)}
+              className="border rounded px-3 py-1 text-sm"
+            />
+            <button
+              onClick={handleAddSection}
+              className="px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 flex items-center gap-1"
+            >
+              <Plus className="h-3 w-3" />
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <div className="flex-1 bg-white rounded-lg shadow p-4">
+          {editLayout && (
+            <p className="text-sm text-gray-500 mb-3">
+              Click an empty cell to add a table. Select a table, then click an empty cell to move it.
+            </p>
+          )}
+          <div
+            className="grid gap-3"
+            style={{ gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))` }}
+          >
+            {Array.from({ length: gridRows }).flatMap((_, y) =>
+              Array.from({ length: GRID_COLUMNS }).map((_, x) => renderCell(x, y))
+            )}
+          </div>
+        </div>
+
+        {editLayout && (selectedTable || newTablePosition) && (
+          <div className="lg:w-80 bg-white rounded-lg shadow p-4 space-y-3 self-start">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-semibold">{selectedTable ? 'Edit Table' : 'New Table'}</h2>
+              <button onClick={closeTableForm} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <input
+              type="text"
+              placeholder="Table name"
+              value={tableForm.name}
+              onChange={(e) => setTableForm({ ...tableForm, name: e.target.value })}
+              className="w-full border rounded px-3 py-2"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1">Seats</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={tableForm.seats}
+                  onChange={(e) => setTableForm({ ...tableForm, seats: Number(e.target.value) })}
+                  className="w-full border rounded px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Shape</label>
+                <select
+                  value={tableForm.shape}
+                  onChange={(e) => setTableForm({ ...tableForm, shape: e.target.value as DiningTable['shape'] })}
+                  className="w-full border rounded px-3 py-2"
+                >
+                  <option value="square">Square</option>
+                  <option value="round">Round</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Section</label>
+              <select
+                value={tableForm.section_id}
+                onChange={(e) => setTableForm({ ...tableForm, section_id: e.target.value })}
+                className="w-full border rounded px-3 py-2"
+              >
+                <option value="">No section</option>
+                {sections.map(section => (
+                  <option key={section.id} value={section.id}>{section.name}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={tableForm.is_active}
+                onChange={(e) => setTableForm({ ...tableForm, is_active: e.target.checked })}
+                className="rounded"
+              />
+              <span className="text-sm font-medium">Active</span>
+            </label>
+            <div className="flex justify-between">
+              {selectedTable ? (
+                <button
+                  onClick={() => handleDeleteTable(selectedTable)}
+                  className="text-red-600 hover:text-red-800 p-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              ) : <span />}
+              <button
+                onClick={handleSaveTable}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2"
+              >
+                <Save className="h-4 w-4" />
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!editLayout && selectedTable && (
+          <div className="lg:w-80 bg-white rounded-lg shadow p-4 space-y-4 self-start">
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-semibold">Table {selectedTable.name}</h2>
+                <div className="text-sm text-gray-500">
+                  {selectedTable.seats} seats · {TABLE_STATUS_LABELS[getTableStatus(selectedTable, kots)]}
+                </div>
+                {selectedSession && (
+                  <div className="text-xs text-gray-500">
+                    Seated since {new Date(selectedSession.opened_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                )}
+                {selectedSession?.customer_name && (
+                  <div className="text-xs text-gray-700">
+                    {selectedSession.customer_name}
+                    {selectedSession.party_size ? ` · party of ${selectedSession.party_size}` : ''}
+                  </div>
+                )}
+              </div>
+              <button onClick={() => setSelectedTableId(null)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {selectedKOTs.length > 0 ? (
+              <div className="space-y-2">
+                {selectedKOTs.map(kot => (
+                  <div
+                    key={kot.id}
+                    className={`flex items-center justify-between border rounded px-3 py-2 ${
+                      kot.awaiting_confirmation ? 'border-amber-400 bg-amber-50' : ''
+                    }`}
+                  >
+                    <div>
+                      <div className="font-medium text-sm">{kot.kot_number}</div>
+                      <div className="text-xs text-gray-500 capitalize">
+                        {kot.awaiting_confirmation ? 'Guest order · awaiting confirmation' : kot.status} · {formatINR(getKOTTotal(kot))}
+                        {kot.bill_printed_at && ' · Bill printed'}
+                      </div>
+                      {kot.awaiting_confirmation && (
+                        <div className="text-xs text-gray-600">
+                          {kot.items.map(item => `${item.quantity} x ${item.menu_item_name}`).join(', ')}
+                        </div>
+                      )}
+                      {!kot.awaiting_confirmation && getHeldCourses(kot.items).map(course => (
+                        <button
+                          key={course}
+                          onClick={() => handleFireCourse(kot, course)}
+                          className="mt-1 mr-1 inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-orange-100 text-orange-800 hover:bg-orange-200 rounded"
+                          title={kot.items.filter(item => item.status === 'held' && item.course === course).map(item => `${item.quantity} x ${item.menu_item_name}`).join(', ')}
+                        >
+                          <Flame className="h-3 w-3" />
+                          Fire {getCourseLabel(course)}
+                        </button>
+                      ))}
+                    </div>
+                    {kot.awaiting_confirmation ? (
+                      <div className="flex">
+                        <button
+                          onClick={() => handleConfirmGuestKOT(kot)}
+                          className="text-green-600 hover:text-green-800 p-1"
+                          title="Confirm and send to kitchen"
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRejectGuestKOT(kot)}
+                          className="text-red-600 hover:text-red-800 p-1"
+                          title="Reject guest order"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex">
+                        <button
+                          onClick={() => onOpenTable(selectedTable.id, kot.id)}
+                          className="text-blue-600 hover:text-blue-800 p-1"
+                          title="Edit KOT"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => openTransfer('move_kot', kot.id)}
+                          className="text-slate-600 hover:text-slate-800 p-1"
+                          title="Move KOT to another table"
+                        >
+                          <ArrowRightLeft className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => openTransfer('move_items', kot.id)}
+                          className="text-slate-600 hover:text-slate-800 p-1"
+                          title="Move items to another table"
+                        >
+                          <ListChecks className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <div className="flex justify-between font-semibold pt-2 border-t">
+                  <span>Running Total</span>
+                  <span>{formatINR(getRunningTotal(selectedKOTs))}</span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No running orders.</p>
+            )}
+
+            {transfer && (
+              <div className="border rounded-lg p-3 space-y-2 bg-slate-50">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-semibold text-sm">
+                    {transfer.mode === 'move_kot' && `Move ${selectedKOTs.find(k => k.id === transfer.kotId)?.kot_number}`}
+                    {transfer.mode === 'move_items' && 'Move Items'}
+                    {transfer.mode === 'merge_tables' && `Merge ${selectedTable.name} Into`}
+                  </h3>
+                  <button onClick={closeTransfer} className="text-gray-500 hover:text-gray-700">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                {transfer.mode === 'move_items' && (
+                  <div className="space-y-1">
+                    {selectedKOTs.find(k => k.id === transfer.kotId)?.items.map(item => (
+                      <label key={item.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={transferItemIds.includes(item.id)}
+                          onChange={() => setTransferItemIds(
+                            transferItemIds.includes(item.id)
+                              ? transferItemIds.filter(id => id !== item.id)
+                              : [...transferItemIds, item.id]
+                          )}
+                          className="rounded"
+                        />
+                        {item.quantity} x {item.menu_item_name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <select
+                  value={transferTableId}
+                  onChange={(e) => setTransferTableId(e.target.value)}
+                  className="w-full border rounded px-3 py-2 text-sm"
+                >
+                  <option value="">Select table</option>
+                  {tables
+                    .filter(table => table.is_active && table.id !== selectedTable.id)
+                    .map(table => (
+                      <option key={table.id} value={table.id}>
+                        {table.name} - {TABLE_STATUS_LABELS[getTableStatus(table, kots)]}
+                      </option>
+                    ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder="Reason (optional)"
+                  value={transferReason}
+                  onChange={(e) => setTransferReason(e.target.value)}
+                  className="w-full border rounded px-3 py-2 text-sm"
+                />
+                <button
+                  onClick={handleTransfer}
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                >
+                  {transfer.mode === 'merge_tables' ? 'Merge Tables' : 'Move'}
+                </button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <button
+                onClick={() => onOpenTable(selectedTable.id)}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center justify-center gap-2"
+              >
+                <ClipboardList className="h-4 w-4" />
+                {selectedKOTs.length > 0 ? 'Add Order' : 'New KOT'}
+              </button>
+              {selectedSession && selectedKOTs.length > 0 && (
+                <>
+                  <button
+                    onClick={() => handlePrintBill(selectedSession)}
+                    className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center justify-center gap-2"
+                  >
+                    <Receipt className="h-4 w-4" />
+                    {selectedSession.status === 'billed' ? 'Reprint Bill' : 'Print Bill'}
+                  </button>
+                  <button
+                    onClick={() => openTransfer('merge_tables')}
+                    className="w-full px-4 py-2 border rounded-lg hover:bg-gray-50 flex items-center justify-center gap-2"
+                  >
+                    <Merge className="h-4 w-4" />
+                    Merge Into Another Table
+                  </button>
+                  <button
+                    onClick={() => handleSettleTable(selectedTable, selectedSession)}
+                    className="w-full px-4 py-2 border rounded-lg hover:bg-gray-50"
+                  >
+                    Settle &amp; Release Table
+                  </button>
+                </>
+              )}
+              {selectedKOTs.length === 0 && selectedTable.needs_cleaning && (
+                <button
+                  onClick={() => handleMarkClean(selectedTable)}
+                  className="w-full px-4 py-2 border rounded-lg hover:bg-gray-50 flex items-center justify-center gap-2"
+                >
+                  <Sparkles className="h-4 w-4" />
+                  Mark Clean
+                </button>
+              )}
+              {isAdmin && selectedTable.qr_token && (
+                <button
+                  onClick={() => openTableQR(selectedTable)}
+                  className="w-full px-4 py-2 border rounded-lg hover:bg-gray-50 flex items-center justify-center gap-2"
+                >
+                  <QrCode className="h-4 w-4" />
+                  Table QR Code
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {qrTable && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-sm w-full p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-semibold">Table {qrTable.table.name} QR Code</h2>
+              <button onClick={() => setQrTable(null)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <img src={qrTable.image} alt={`QR code for table ${qrTable.table.name}`} className="w-64 h-64 mx-auto" />
+            <p className="text-xs text-gray-500 break-all text-center">{qrTable.url}</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleRegenerateQR(qrTable.table)}
+                className="flex-1 px-4 py-2 border rounded-lg hover:bg-gray-50 flex items-center justify-center gap-2"
+              >
+                <RefreshCw className="h-4 w-4" />
+                Regenerate
+              </button>
+              <button
+                onClick={handlePrintQR}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center justify-center gap-2"
+              >
+                <Printer className="h-4 w-4" />
+                Print
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Ban, User, Tag, KeyRound } from 'lucide-react';
+import { formatINR } from '../../lib/currency';
+import { KOTVoid, VOID_REASONS } from '../../lib/voids';
+
+interface VoidRow extends KOTVoid {
+  voided_by_profile?: { full_name: string } | null;
+  approved_by_profile?: { full_name: string } | null;
+}
+
+interface VoidSummary {
+  key: string;
+  label: string;
+  count: number;
+  amount: number;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+function summarize(voids: VoidRow[], getKey: (row: VoidRow) => string, getLabel: (row: VoidRow) => string): VoidSummary[] {
+  const summaries: VoidSummary[] = [];
+
+  for (const row of voids) {
+    const key = getKey(row);
+    let summary = summaries.find(s => s.key === key);
+    if (!summary) {
+      summary = { key, label: getLabel(row), count: 0, amount: 0 };
+      summaries.push(summary);
+    }
+    summary.count += 1;
+    summary.amount += Number(row.amount);
+  }
+
+  return summaries.sort((a, b) => b.amount - a.amount);
+}
+
+export function VoidReport() {
+  const [voids, setVoids] = useState<VoidRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState({ start: today(), end: today() });
+
+  useEffect(() => {
+    loadVoids();
+  }, [dateRange]);
+
+  const loadVoids = async () => {
+    try {
+      let query = supabase
+        .from('kot_voids')
+        .select(`
+          *,
+          voided_by_profile:profiles!kot_voids_voided_by_fkey(full_name),
+          approved_by_profile:profiles!kot_voids_approved_by_fkey(full_name)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (dateRange.start) query = query.gte('created_at', new Date(`${dateRange.start}T00:00:00`).toISOString());
+      if (dateRange.end) query = query.lte('created_at', new Date(`${dateRange.end}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setVoids(data || []);
+    } catch (error) {
+      console.error('Error loading voids:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalLost = voids.reduce((sum, row) => sum + Number(row.amount), 0);
+  const approvedCount = voids.filter(row => row.approved_by).length;
+  const byEmployee = summarize(
+    voids,
+    row => row.voided_by || 'unknown',
+    row => row.voided_by_profile?.full_name || 'Unknown'
+  );
+  const byReason = summarize(
+    voids,
+    row => row.reason_code,
+    row => VOID_REASONS[row.reason_code] || row.reason_code
+  );
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  const renderSummary = (title: string, Icon: typeof User, rows: VoidSummary[]) => (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Icon className="w-5 h-5 text-slate-600" />
+        <h2 className="text-lg font-semibold text-slate-900">{title}</h2>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">No voids in this period</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className="py-2 text-left text-sm font-semibold text-slate-600"></th>
+              <th className="py-2 text-right text-sm font-semibold text-slate-600">Items</th>
+              <th className="py-2 text-right text-sm font-semibold text-slate-600">Value Lost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-b border-slate-100">
+                <td className="py-2 text-sm text-slate-900">{row.label}</td>
+                <td className="py-2 text-sm text-right text-slate-600">{row.count}</td>
+                <td className="py-2 text-sm text-right font-medium text-red-600">{formatINR(row.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold text-slate-900">Void Report</h1>
+        <div className="flex gap-3">
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">From Date</label>
+            <input
+              type="date"
+              value={dateRange.start}
+              onChange={(e) => setDateRange({ ...dateRange, start: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-600 mb-1">To Date</label>
+            <input
+              type="date"
+              value={dateRange.end}
+              onChange={(e) => setDateRange({ ...dateRange, end: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Ban className="w-4 h-4" />
+            Value Lost
+          </div>
+          <div className="text-2xl font-bold text-red-600 mt-2">{formatINR(totalLost)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <Tag className="w-4 h-4" />
+            Items Voided
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{voids.length}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <KeyRound className="w-4 h-4" />
+            Manager Approved
+          </div>
+          <div className="text-2xl font-bold text-slate-900 mt-2">{approvedCount}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderSummary('By Employee', User, byEmployee)}
+        {renderSummary('By Reason', Tag, byReason)}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Voids</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Time</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">KOT #</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Item</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Reason</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Voided By</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-slate-600">Approved By</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Value</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-slate-600">Bill Adjusted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {voids.map(row => (
+                <tr key={row.id} className="border-b border-slate-100 hover:bg-slate-50">
+                  <td className="px-4 py-3 text-sm text-slate-600">
+                    {new Date(row.created_at).toLocaleString('en-IN', {
+                      day: '2-digit',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-medium text-slate-900">
+                    {row.kot_number}
+                    {row.scope === 'ticket' && <span className="ml-2 text-xs text-slate-500">(ticket)</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-900">
+                    {Number(row.quantity)} x {row.menu_item_name}{row.variant_name ? ` (${row.variant_name})` : ''}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-600">
+                    <div>{VOID_REASONS[row.reason_code] || row.reason_code}</div>
+                    {row.notes && <div className="text-xs text-slate-500">{row.notes}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-600">{row.voided_by_profile?.full_name || '-'}</td>
+                  <td className="px-4 py-3 text-sm text-slate-600">
+                    {row.approved_by_profile?.full_name || (row.prep_started ? 'Unknown' : '-')}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right font-medium text-red-600">{formatINR(Number(row.amount))}</td>
+                  <td className="px-4 py-3 text-sm text-right text-slate-600">
+                    {Number(row.invoice_adjustment) > 0 ? formatINR(Number(row.invoice_adjustment)) : '-'}
+                  </td>
+                </tr>
+              ))}
+              {voids.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-8 text-center text-sm text-slate-500">No voids in this period</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
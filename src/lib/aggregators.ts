@@ -0,0 +1,48 @@
+import { supabase } from './supabase';
+
+export type AggregatorPlatform = 'zomato' | 'swiggy';
+
+export interface AggregatorIntegration {
+  id: string;
+  platform: AggregatorPlatform;
+  display_name: string;
+  webhook_secret: string | null;
+  outbound_url: string | null;
+  outbound_api_key: string | null;
+  kot_user_id: string | null;
+  is_active: boolean;
+}
+
+export interface AggregatorItemMapping {
+  id: string;
+  platform: AggregatorPlatform;
+  external_item_id: string;
+  menu_item_id: string;
+  variant_id: string | null;
+}
+
+export interface AggregatorOrder {
+  id: string;
+  platform: AggregatorPlatform;
+  external_order_id: string;
+  status: 'created' | 'failed';
+  kot_id: string | null;
+  invoice_id: string | null;
+  error: string | null;
+  last_pushed_status: string | null;
+  last_pushed_at: string | null;
+  push_error: string | null;
+  created_at: string;
+}
+
+/**
+ * Sends a KOT's current status back to the delivery platform it came from.
+ * Only KOTs with a platform order ID are sent; failures are recorded on the
+ * aggregator order rather than interrupting the kitchen.
+ */
+export async function pushAggregatorStatus(kot: { id: string; delivery_order_id?: string | null }) {
+  if (!kot.delivery_order_id) return;
+
+  const { error } = await supabase.functions.invoke('aggregator-status', { body: { kotId: kot.id } });
+  if (error) console.error('Error pushing aggregator status:', error);
+}
@@ -0,0 +1,43 @@
+import { supabase } from './supabase';
+
+export const COURSE_LABELS: Record<number, string> = {
+  1: 'Starters',
+  2: 'Mains',
+  3: 'Desserts',
+};
+
+export const COURSES = Object.keys(COURSE_LABELS).map(Number);
+
+export function getCourseLabel(course: number | null | undefined): string {
+  const value = course || 1;
+  return COURSE_LABELS[value] || `Course ${value}`;
+}
+
+interface CourseLine {
+  course?: number | null;
+  status?: string;
+}
+
+/**
+ * The last course the kitchen has been sent. On a new ticket that is its
+ * first course; when editing, it is the highest course already fired.
+ */
+export function getFiredCourse(lines: CourseLine[]): number {
+  const fired = lines.filter(line => line.status && line.status !== 'held');
+  const courses = (fired.length > 0 ? fired : lines).map(line => line.course || 1);
+  if (courses.length === 0) return 1;
+  return fired.length > 0 ? Math.max(...courses) : Math.min(...courses);
+}
+
+/** Courses still held on a ticket, in the order they should be fired. */
+export function getHeldCourses(lines: CourseLine[]): number[] {
+  const courses = lines.filter(line => line.status === 'held').map(line => line.course || 1);
+  return [...new Set(courses)].sort((a, b) => a - b);
+}
+
+/** Sends a held course to the kitchen and returns the lines that were fired. */
+export async function fireCourse<T>(kotId: string, course: number): Promise<T[]> {
+  const { data, error } = await supabase.rpc('fire_kot_course', { p_kot_id: kotId, p_course: course });
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,296 @@
+import { OrderModifier, OrderPortion, formatPortions } from './orders';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type PaperWidth = 58 | 80;
+
+/** Characters per line in the printer's default font. */
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// Thermal printers only have single-byte code pages; swap the characters we
+// print most often for ASCII and replace anything else with '?'.
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '₹': 'Rs.',
+  '×': 'x',
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '·': '-',
+};
+
+function toAscii(value: string) {
+  return Array.from(value)
+    .map(char => ASCII_REPLACEMENTS[char] ?? (char.charCodeAt(0) < 128 ? char : '?'))
+    .join('');
+}
+
+// Measured on the printed text, since e.g. "₹" prints as "Rs."
+function wrap(value: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of toAscii(value).split(/\s+/).filter(Boolean)) {
+    if (!line) {
+      line = word;
+    } else if (line.length + 1 + word.length <= width) {
+      line += ` ${word}`;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+
+    while (line.length > width) {
+      lines.push(line.slice(0, width));
+      line = line.slice(width);
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+}
+
+/** Builds an ESC/POS byte stream for a receipt or kitchen ticket. */
+export class EscPosBuilder {
+  private bytes: number[] = [];
+  private widthScale = 1;
+
+  constructor(readonly columns = PAPER_COLUMNS[80]) {
+    this.raw(ESC, 0x40);
+  }
+
+  /** Characters that fit on a line at the current text size. */
+  get width() {
+    return Math.floor(this.columns / this.widthScale);
+  }
+
+  raw(...bytes: number[]) {
+    this.bytes.push(...bytes);
+    return this;
+  }
+
+  text(value: string) {
+    for (const char of toAscii(value)) this.bytes.push(char.charCodeAt(0));
+    return this;
+  }
+
+  line(value = '') {
+    for (const part of wrap(value, this.width)) this.text(part).raw(LF);
+    return this;
+  }
+
+  align(alignment: 'left' | 'center' | 'right') {
+    return this.raw(ESC, 0x61, { left: 0, center: 1, right: 2 }[alignment]);
+  }
+
+  bold(on = true) {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  size(width: 1 | 2 = 1, height: 1 | 2 = 1) {
+    this.widthScale = width;
+    return this.raw(GS, 0x21, ((width - 1) << 4) | (height - 1));
+  }
+
+  invert(on = true) {
+    return this.raw(GS, 0x42, on ? 1 : 0);
+  }
+
+  divider(char = '-') {
+    return this.text(char.repeat(this.width)).raw(LF);
+  }
+
+  /** Prints the left text wrapped and the right text flush right on its last line. */
+  pair(left: string, right: string) {
+    const rightText = toAscii(right);
+    const lines = wrap(left, this.width);
+    const last = lines.pop() || '';
+
+    for (const line of lines) this.text(line).raw(LF);
+
+    if (last.length + 1 + rightText.length > this.width) {
+      this.text(last).raw(LF);
+      return this.text(rightText.padStart(this.width)).raw(LF);
+    }
+    return this.text(last.padEnd(this.width - rightText.length) + rightText).raw(LF);
+  }
+
+  feed(lines = 1) {
+    return this.raw(ESC, 0x64, lines);
+  }
+
+  /** Feeds the paper past the cutter and makes a partial cut. */
+  cut() {
+    return this.raw(GS, 0x56, 0x42, 0x03);
+  }
+
+  /** Pulses the cash drawer connected to the printer's drawer port. */
+  openCashDrawer() {
+    return this.raw(ESC, 0x70, 0x00, 0x19, 0xfa);
+  }
+
+  build() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+  dine_in: 'DINE IN',
+  delivery: 'DELIVERY',
+  take_away: 'TAKE AWAY',
+};
+
+const money = (amount: number) => `${amount < 0 ? '-' : ''}Rs.${Math.abs(Number(amount)).toFixed(2)}`;
+
+const printedAt = (date: string | Date = new Date()) =>
+  new Date(date).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export interface TicketOrder {
+  kot_number: string;
+  order_type: string;
+  table_number?: string | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  delivery_platform?: string | null;
+  delivery_order_id?: string | null;
+  notes?: string | null;
+  created_at?: string;
+}
+
+export interface TicketItem {
+  menu_item_name?: string;
+  quantity: number;
+  notes?: string | null;
+  modifiers?: OrderModifier[] | null;
+  portions?: OrderPortion[] | null;
+  change?: 'added' | 'cancelled';
+}
+
+/** A revision ticket lists its added lines and its cancelled lines under separate headings. */
+export function getTicketSections<T extends TicketItem>(items: T[]): { label: string | null; items: T[] }[] {
+  if (!items.some(item => item.change)) return [{ label: null, items }];
+
+  return [
+    { label: 'ADDED', items: items.filter(item => item.change === 'added') },
+    { label: 'CANCELLED', items: items.filter(item => item.change === 'cancelled') },
+  ].filter(section => section.items.length > 0);
+}
+
+/**
+ * Renders one station's kitchen ticket. Kitchen tickets never show prices.
+ * A heading such as "FIRE MAINS" marks a ticket that adds to an earlier one.
+ */
+export function renderKOTTicket(
+  builder: EscPosBuilder,
+  order: TicketOrder,
+  items: TicketItem[],
+  station?: { name: string; index: number; count: number },
+  heading?: string
+) {
+  builder.align('center').bold().size(2, 2).line(order.kot_number).size();
+  if (heading) builder.size(2, 2).line(heading.toUpperCase()).size();
+  if (station) builder.invert().line(` ${station.name.toUpperCase()} (${station.index}/${station.count}) `).invert(false);
+  builder.size(1, 2).line(ORDER_TYPE_LABELS[order.order_type] || order.order_type.toUpperCase()).size().bold(false);
+
+  builder.align('left').divider();
+  if (order.order_type === 'dine_in' && order.table_number) builder.bold().size(2, 1).line(`Table ${order.table_number}`).size().bold(false);
+  if (order.customer_name) builder.line(`Customer: ${order.customer_name}`);
+  if (order.customer_phone) builder.line(`Phone: ${order.customer_phone}`);
+  if (order.delivery_platform) builder.line(`Platform: ${order.delivery_platform}`);
+  if (order.delivery_order_id) builder.line(`Order ID: ${order.delivery_order_id}`);
+  if (order.notes) builder.bold().line(`Notes: ${order.notes}`).bold(false);
+  builder.divider();
+
+  for (const section of getTicketSections(items)) {
+    if (section.label) builder.bold().invert().line(` ${section.label} `).invert(false).bold(false);
+    for (const item of section.items) {
+      builder.bold().size(1, 2).line(`${Number(item.quantity)} x ${item.menu_item_name || ''}`).size().bold(false);
+      for (const line of formatPortions(item.portions)) builder.line(`   ${line}`);
+      for (const modifier of item.modifiers || []) builder.line(`   + ${modifier.name}`);
+      if (item.notes) builder.line(`   Note: ${item.notes}`);
+    }
+  }
+
+  builder.divider();
+  if (!items.some(item => item.change)) {
+    builder.pair('Total Items', String(items.reduce((sum, item) => sum + Number(item.quantity), 0)));
+  }
+  builder.align('center').line(printedAt()).align('left');
+  return builder.feed(3).cut();
+}
+
+export interface ReceiptHeader {
+  company_name?: string | null;
+  address_line1?: string | null;
+  phone?: string | null;
+  gst_number?: string | null;
+}
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  total: number;
+  details?: string[];
+}
+
+export interface ReceiptData {
+  title: string;
+  number: string;
+  date: string;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  payment_method?: string | null;
+  lines: ReceiptLine[];
+  totals: { label: string; amount: number }[];
+  total: number;
+}
+
+/** Renders an invoice or bill receipt; optionally kicks the cash drawer first. */
+export function renderReceipt(
+  builder: EscPosBuilder,
+  header: ReceiptHeader | null,
+  receipt: ReceiptData,
+  options: { openCashDrawer?: boolean } = {}
+) {
+  if (options.openCashDrawer) builder.openCashDrawer();
+
+  builder.align('center');
+  if (header?.company_name) builder.bold().size(2, 2).line(header.company_name).size().bold(false);
+  if (header?.address_line1) builder.line(header.address_line1);
+  if (header?.phone) builder.line(`Tel: ${header.phone}`);
+  if (header?.gst_number) builder.line(`GSTIN: ${header.gst_number}`);
+
+  builder.divider().bold().line(receipt.title).bold(false);
+  builder.line(`No: ${receipt.number}`).line(`Date: ${printedAt(receipt.date)}`);
+  builder.align('left').divider();
+
+  if (receipt.customer_name) builder.line(`Customer: ${receipt.customer_name}`);
+  if (receipt.customer_phone) builder.line(`Phone: ${receipt.customer_phone}`);
+  if (receipt.payment_method) builder.line(`Payment: ${receipt.payment_method.toUpperCase()}`);
+  if (receipt.customer_name || receipt.customer_phone || receipt.payment_method) builder.divider();
+
+  for (const line of receipt.lines) {
+    builder.pair(`${Number(line.quantity)} x ${line.name}`, money(line.total));
+    for (const detail of line.details || []) builder.line(`   ${detail}`);
+  }
+
+  builder.divider();
+  for (const total of receipt.totals) builder.pair(total.label, money(total.amount));
+  builder.bold().size(1, 2).pair('TOTAL', money(receipt.total)).size().bold(false);
+  builder.divider().align('center').line('Thank you!').align('left');
+
+  return builder.feed(4).cut();
+}
@@ -0,0 +1,88 @@
+export type MenuClass = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export const MENU_CLASSES: Record<MenuClass, { label: string; action: string }> = {
+  star: { label: 'Star', action: 'Keep visible and protect the recipe' },
+  plowhorse: { label: 'Plowhorse', action: 'Popular but thin margin: trim the plate cost or raise the price' },
+  puzzle: { label: 'Puzzle', action: 'Good margin but slow: feature it or rename it' },
+  dog: { label: 'Dog', action: 'Consider replacing or removing it' },
+};
+
+export const DEFAULT_TARGET_FOOD_COST_PERCENT = 30;
+
+export interface RecipeCostLine {
+  quantity: number;
+  variant_id?: string | null;
+  product?: { cost_price: number | null } | null;
+}
+
+export interface CostedMenuItem {
+  id: string;
+  name: string;
+  category: string;
+  price: number;
+  plateCost: number;
+  hasRecipe: boolean;
+  sold: number;
+  revenue: number;
+}
+
+export interface EngineeredMenuItem extends CostedMenuItem {
+  foodCostPercent: number | null;
+  unitMargin: number;
+  totalMargin: number;
+  menuMix: number;
+  menuClass: MenuClass;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Theoretical cost of one plate from the recipe at current ingredient costs. */
+export function getPlateCost(lines: RecipeCostLine[]): number {
+  return round2(lines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.product?.cost_price || 0), 0));
+}
+
+/** A variant's own recipe lines, or the base recipe when it has none. */
+export function getVariantRecipe<T extends RecipeCostLine>(recipe: T[], variantId: string | null | undefined): T[] {
+  const own = variantId ? recipe.filter(line => line.variant_id === variantId) : [];
+  return own.length > 0 ? own : recipe.filter(line => !line.variant_id);
+}
+
+export function getFoodCostPercent(plateCost: number, price: number): number | null {
+  return price > 0 ? (plateCost / price) * 100 : null;
+}
+
+/**
+ * Sorts items into the menu engineering matrix. An item is popular when its
+ * share of plates sold is at least 70% of an even share, and profitable when
+ * its margin per plate is at least the average margin across all plates sold.
+ * Margin uses the average price actually charged, or the menu price for items
+ * that did not sell.
+ */
+export function engineerMenu(items: CostedMenuItem[]): EngineeredMenuItem[] {
+  const totalSold = items.reduce((sum, item) => sum + item.sold, 0);
+  const withMargins = items.map(item => {
+    const sellingPrice = item.sold > 0 ? item.revenue / item.sold : item.price;
+    const unitMargin = sellingPrice - item.plateCost;
+    return {
+      ...item,
+      foodCostPercent: getFoodCostPercent(item.plateCost, sellingPrice),
+      unitMargin,
+      totalMargin: unitMargin * item.sold,
+      menuMix: totalSold > 0 ? item.sold / totalSold : 0,
+    };
+  });
+
+  const averageMargin = totalSold > 0
+    ? withMargins.reduce((sum, item) => sum + item.totalMargin, 0) / totalSold
+    : 0;
+  const popularityThreshold = items.length > 0 ? 0.7 / items.length : 0;
+
+  return withMargins.map(item => {
+    const popular = totalSold > 0 && item.menuMix >= popularityThreshold;
+    const profitable = item.unitMargin >= averageMargin;
+    const menuClass: MenuClass = popular
+      ? (profitable ? 'star' : 'plowhorse')
+      : (profitable ? 'puzzle' : 'dog');
+    return { ...item, menuClass };
+  });
+}
@@ -0,0 +1,50 @@
+// Minutes a ticket is expected to take when its items have no preparation time.
+export const DEFAULT_PREPARATION_TIME = 15;
+
+export interface KitchenStation {
+  id: string;
+  name: string;
+  description: string | null;
+  display_order: number;
+  is_active: boolean;
+  printer_id?: string | null;
+}
+
+export interface StationGroup<T> {
+  station: KitchenStation | null;
+  items: T[];
+}
+
+export function resolveStationId(
+  menuItem: { station_id?: string | null; category_id?: string | null } | undefined,
+  categories: { id: string; station_id?: string | null }[]
+): string | null {
+  if (!menuItem) return null;
+  if (menuItem.station_id) return menuItem.station_id;
+  const category = categories.find(c => c.id === menuItem.category_id);
+  return category?.station_id || null;
+}
+
+export function groupItemsByStation<T extends { station_id?: string | null }>(
+  items: T[],
+  stations: KitchenStation[]
+): StationGroup<T>[] {
+  const groups: StationGroup<T>[] = [];
+
+  for (const item of items) {
+    const station = stations.find(s => s.id === item.station_id) || null;
+    const group = groups.find(g => (g.station?.id || null) === (station?.id || null));
+
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.push({ station, items: [item] });
+    }
+  }
+
+  return groups.sort((a, b) => {
+    if (!a.station) return 1;
+    if (!b.station) return -1;
+    return a.station.display_order - b.station.display_order;
+  });
+}
@@ -0,0 +1,267 @@
+import { KitchenStation, groupItemsByStation } from './kitchen';
+import { OrderComponent, OrderModifier, formatPortions } from './orders';
+import { TicketItem, TicketOrder, getTicketSections, renderKOTTicket } from './escpos';
+import { escapeHtml, printStationTickets } from './printers';
+
+export interface PrintableKOTItem extends TicketItem {
+  station_id?: string | null;
+  components?: OrderComponent[] | null;
+}
+
+/**
+ * Prints a KOT with one ticket per kitchen station, on each station's
+ * thermal printer where one is set up and in the browser otherwise. Pass a
+ * heading and only the new lines to print an add-on ticket, e.g. when a held
+ * course is fired. Lines marked as added or cancelled print under those
+ * headings for a revision ticket.
+ */
+export async function printKOT(
+  kot: TicketOrder,
+  items: PrintableKOTItem[],
+  stations: KitchenStation[],
+  heading?: string
+) {
+  // Combo components can belong to different stations, so route them individually
+  const ticketItems = items.flatMap((item): PrintableKOTItem[] => (item.components || []).length > 0
+    ? item.components!.map(component => ({
+      menu_item_name: component.menu_item_name,
+      quantity: component.quantity * item.quantity,
+      notes: [item.menu_item_name, item.notes].filter(Boolean).join(' - '),
+      station_id: component.station_id || null,
+      modifiers: [],
+      portions: [],
+      change: item.change,
+    }))
+    : [item]
+  );
+
+  const allGroups = groupItemsByStation(ticketItems, stations);
+  const getStationLabel = (group: typeof allGroups[number]) => allGroups.length > 1 || group.station
+    ? { name: group.station?.name || 'Kitchen', index: allGroups.indexOf(group) + 1, count: allGroups.length }
+    : undefined;
+
+  // Stations without a thermal printer fall back to the browser print dialog
+  const stationGroups = await printStationTickets(allGroups, (builder, group) =>
+    renderKOTTicket(builder, kot, group.items, getStationLabel(group), heading)
+  );
+  if (stationGroups.length === 0) return;
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+
+  const orderTypeIcons: Record<string, string> = {
+    dine_in: '🍽️',
+    delivery: '🚚',
+    take_away: '🛍️'
+  };
+
+  const orderTypeLabels: Record<string, string> = {
+    dine_in: 'DINE IN',
+    delivery: 'DELIVERY',
+    take_away: 'TAKE AWAY'
+  };
+
+  const orderTypeColors: Record<string, string> = {
+    dine_in: '#10b981',
+    delivery: '#f59e0b',
+    take_away: '#3b82f6'
+  };
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>KOT - ${escapeHtml(kot.kot_number)}</title>
+      <style>
+        * {
+          margin: 0;
+          padding: 0;
+          box-sizing: border-box;
+        }
+        body {
+          font-family: 'Courier New', monospace;
+          width: 80mm;
+          padding: 5mm;
+          font-size: 12px;
+          line-height: 1.4;
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 10px;
+          padding-bottom: 10px;
+          border-bottom: 2px solid #000;
+        }
+        .header h1 {
+          font-size: 20px;
+          margin-bottom: 5px;
+        }
+        .order-type-badge {
+          display: inline-block;
+          padding: 8px 16px;
+          margin: 10px 0;
+          border-radius: 4px;
+          font-weight: bold;
+          font-size: 16px;
+          color: white;
+          background-color: ${orderTypeColors[kot.order_type]};
+        }
+        .info {
+          margin-bottom: 10px;
+          padding-bottom: 10px;
+          border-bottom: 1px dashed #000;
+          font-size: 11px;
+        }
+        .info div {
+          margin-bottom: 3px;
+        }
+        .info-label {
+          font-weight: bold;
+          display: inline-block;
+          width: 80px;
+        }
+        .items {
+          margin-bottom: 10px;
+          padding-bottom: 10px;
+          border-bottom: 1px dashed #000;
+        }
+        .item {
+          margin-bottom: 10px;
+          padding: 8px;
+          background: #f9f9f9;
+          border-left: 3px solid #000;
+        }
+        .item-name {
+          font-weight: bold;
+          font-size: 13px;
+          margin-bottom: 3px;
+        }
+        .item-qty {
+          font-size: 14px;
+          font-weight: bold;
+        }
+        .item-modifier {
+          font-size: 12px;
+          font-weight: bold;
+          padding-left: 10px;
+        }
+        .item-notes {
+          font-style: italic;
+          font-size: 11px;
+          margin-top: 3px;
+          color: #666;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 15px;
+          padding-top: 10px;
+          border-top: 1px dashed #000;
+          font-size: 11px;
+        }
+        .timestamp {
+          text-align: center;
+          font-size: 10px;
+          margin-top: 10px;
+        }
+        .ticket {
+          page-break-after: always;
+        }
+        .ticket:last-of-type {
+          page-break-after: auto;
+        }
+        .heading {
+          font-size: 18px;
+          font-weight: bold;
+          text-transform: uppercase;
+          margin-top: 5px;
+        }
+        .section {
+          font-size: 14px;
+          font-weight: bold;
+          background: #000;
+          color: #fff;
+          padding: 2px 6px;
+          margin-bottom: 8px;
+        }
+        .station {
+          font-size: 16px;
+          font-weight: bold;
+          text-transform: uppercase;
+          border: 2px solid #000;
+          padding: 4px;
+          margin-top: 5px;
+        }
+        @media print {
+          body {
+            width: 80mm;
+            margin: 0;
+            padding: 5mm;
+          }
+          @page {
+            size: 80mm auto;
+            margin: 0;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      ${stationGroups.map(group => `
+        <div class="ticket">
+          <div class="header">
+            <h1>KITCHEN ORDER TICKET</h1>
+            <div>${escapeHtml(kot.kot_number)}</div>
+            ${heading ? `<div class="heading">${escapeHtml(heading)}</div>` : ''}
+            ${getStationLabel(group) ? `
+              <div class="station">${escapeHtml(getStationLabel(group)!.name)} (${getStationLabel(group)!.index}/${getStationLabel(group)!.count})</div>
+            ` : ''}
+            <div class="order-type-badge">
+              ${orderTypeIcons[kot.order_type]} ${orderTypeLabels[kot.order_type]}
+            </div>
+          </div>
+
+          <div class="info">
+            ${kot.order_type === 'dine_in' ? `<div><span class="info-label">Table:</span> ${escapeHtml(kot.table_number)}</div>` : ''}
+            ${kot.customer_name ? `<div><span class="info-label">Customer:</span> ${escapeHtml(kot.customer_name)}</div>` : ''}
+            ${kot.customer_phone ? `<div><span class="info-label">Phone:</span> ${escapeHtml(kot.customer_phone)}</div>` : ''}
+            ${kot.delivery_platform ? `<div><span class="info-label">Platform:</span> ${escapeHtml(kot.delivery_platform)}</div>` : ''}
+            ${kot.delivery_order_id ? `<div><span class="info-label">Order ID:</span> ${escapeHtml(kot.delivery_order_id)}</div>` : ''}
+            ${kot.notes ? `<div><span class="info-label">Notes:</span> ${escapeHtml(kot.notes)}</div>` : ''}
+          </div>
+
+          <div class="items">
+            ${getTicketSections(group.items).map(section => `
+              ${section.label ? `<div class="section">${escapeHtml(section.label)}</div>` : ''}
+              ${section.items.map(item => `
+                <div class="item">
+                  <div class="item-name">${escapeHtml(item.menu_item_name)}</div>
+                  ${formatPortions(item.portions).map(line => `<div class="item-modifier">${escapeHtml(line)}</div>`).join('')}
+                  ${(item.modifiers || []).map((modifier: OrderModifier) => `<div class="item-modifier">+ ${escapeHtml(modifier.name)}</div>`).join('')}
+                  <div class="item-qty">Quantity: ${escapeHtml(item.quantity)}</div>
+                  ${item.notes ? `<div class="item-notes">Note: ${escapeHtml(item.notes)}</div>` : ''}
+                </div>
+              `).join('')}
+            `).join('')}
+          </div>
+
+          ${group.items.some(item => item.change) ? '' : `
+            <div class="footer">
+              <div style="font-weight: bold;">Total Items: ${group.items.reduce((sum, item) => sum + Number(item.quantity), 0)}</div>
+            </div>
+          `}
+
+          <div class="timestamp">
+            Printed: ${new Date().toLocaleString('en-IN')}
+          </div>
+        </div>
+      `).join('')}
+
+      <script>
+        window.onload = function() {
+          window.print();
+        }
+      </script>
+    </body>
+    </html>
+  `);
+
+  printWindow.document.close();
+}
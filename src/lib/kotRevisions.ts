@@ -0,0 +1,106 @@
+import { supabase } from './supabase';
+import { OrderComponent, OrderModifier, OrderPortion } from './orders';
+
+export interface RevisionLine {
+  menu_item_id: string | null;
+  menu_item_name?: string;
+  variant_id?: string | null;
+  variant_name?: string | null;
+  modifiers?: OrderModifier[] | null;
+  portions?: OrderPortion[] | null;
+  combo_id?: string | null;
+  components?: OrderComponent[] | null;
+  quantity: number;
+  notes?: string | null;
+  station_id?: string | null;
+  seat?: number | null;
+  course?: number | null;
+  status?: string;
+}
+
+export interface KOTRevisionDelta<T extends RevisionLine> {
+  added: T[];
+  cancelled: T[];
+}
+
+export interface KOTRevision {
+  id: string;
+  kot_id: string;
+  revision: number;
+  added: RevisionLine[];
+  cancelled: RevisionLine[];
+  created_at: string;
+  created_by_profile?: { full_name: string | null } | null;
+}
+
+export function formatRevisionNumber(kotNumber: string, revision: number): string {
+  return revision > 0 ? `${kotNumber}-R${revision}` : kotNumber;
+}
+
+// Two lines are the same dish when everything the kitchen reads matches.
+// Holding is part of the key so that firing a line shows up as an addition.
+const getLineKey = (line: RevisionLine) => JSON.stringify([
+  line.menu_item_id,
+  line.variant_id || null,
+  (line.modifiers || []).map(modifier => modifier.id).sort(),
+  (line.portions || []).map(portion => [portion.menu_item_id, portion.variant_id || null, portion.fraction]),
+  line.combo_id || null,
+  (line.components || []).map(component => [component.slot_id, component.menu_item_id, component.quantity]),
+  line.notes || null,
+  line.seat || null,
+  line.course || 1,
+  line.status === 'held',
+]);
+
+/**
+ * Compares a KOT's items before and after an edit. A line whose quantity
+ * went up is added by the difference; one that went down or disappeared is
+ * cancelled by the difference.
+ */
+export function diffKOTItems<T extends RevisionLine>(previous: T[], next: T[]): KOTRevisionDelta<T> {
+  const totals = new Map<string, { line: T; previous: number; next: number }>();
+
+  for (const [lines, side] of [[previous, 'previous'], [next, 'next']] as const) {
+    for (const line of lines) {
+      const key = getLineKey(line);
+      const total = totals.get(key) || { line, previous: 0, next: 0 };
+      total[side] += Number(line.quantity);
+      totals.set(key, total);
+    }
+  }
+
+  const delta: KOTRevisionDelta<T> = { added: [], cancelled: [] };
+  for (const { line, previous: before, next: after } of totals.values()) {
+    if (after > before) delta.added.push({ ...line, quantity: after - before });
+    if (before > after) delta.cancelled.push({ ...line, quantity: before - after });
+  }
+  return delta;
+}
+
+/** Held lines have not reached the kitchen, so changes to them are not printed. */
+export function getKitchenDelta<T extends RevisionLine>(delta: KOTRevisionDelta<T>): KOTRevisionDelta<T> {
+  return {
+    added: delta.added.filter(line => line.status !== 'held'),
+    cancelled: delta.cancelled.filter(line => line.status !== 'held'),
+  };
+}
+
+/**
+ * Saves an edited KOT's items by row id and stores the edit as its next
+ * revision, in one transaction. Returns the revision number, or null when
+ * nothing was added or cancelled.
+ */
+export async function saveKOTEdit(
+  kotId: string,
+  items: (RevisionLine & { id?: string })[],
+  delta: KOTRevisionDelta<RevisionLine>
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('edit_kot_items', {
+    p_kot_id: kotId,
+    p_items: items,
+    p_added: delta.added,
+    p_cancelled: delta.cancelled,
+  });
+  if (error) throw error;
+  return data;
+}
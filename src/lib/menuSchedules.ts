@@ -0,0 +1,156 @@
+import { OrderLine } from './orders';
+
+export type ScheduleType = 'availability' | 'percent_off' | 'buy_get';
+
+export const SCHEDULE_TYPE_LABELS: Record<ScheduleType, string> = {
+  availability: 'Only available during these hours',
+  percent_off: 'Percentage off',
+  buy_get: 'Buy X get Y free',
+};
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface MenuScheduleItem {
+  menu_item_id: string | null;
+  category_id: string | null;
+}
+
+export interface MenuSchedule {
+  id: string;
+  name: string;
+  schedule_type: ScheduleType;
+  days_of_week: number[];
+  start_time: string | null;
+  end_time: string | null;
+  discount_percent: number | null;
+  buy_quantity: number | null;
+  free_quantity: number | null;
+  is_active: boolean;
+  items?: MenuScheduleItem[];
+}
+
+/** The parts of a schedule needed to price a line, as sent to the guest menu. */
+export type PriceRule = Pick<MenuSchedule, 'id' | 'name' | 'schedule_type' | 'discount_percent' | 'buy_quantity' | 'free_quantity'>;
+
+interface ScheduledMenuItem {
+  id: string;
+  category_id?: string | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Whether a schedule's window is open at a moment. A window that ends before
+ * it starts runs past midnight, so its early hours belong to the previous day.
+ */
+export function isScheduleOpen(schedule: MenuSchedule, at: Date = new Date()): boolean {
+  if (!schedule.is_active) return false;
+
+  const day = at.getDay();
+  const days = schedule.days_of_week || [];
+  if (!schedule.start_time || !schedule.end_time) return days.includes(day);
+
+  const now = at.getHours() * 60 + at.getMinutes();
+  const start = toMinutes(schedule.start_time);
+  const end = toMinutes(schedule.end_time);
+
+  if (start < end) return days.includes(day) && now >= start && now < end;
+  if (now >= start) return days.includes(day);
+  return now < end && days.includes((day + 6) % 7);
+}
+
+export function formatScheduleWindow(schedule: MenuSchedule): string {
+  const days = [...(schedule.days_of_week || [])].sort((a, b) => a - b);
+  const dayLabel = days.length === 7 ? 'Every day' : days.map(day => WEEKDAYS[day]).join(', ');
+  if (!schedule.start_time || !schedule.end_time) return `${dayLabel}, all day`;
+  return `${dayLabel}, ${schedule.start_time.slice(0, 5)}–${schedule.end_time.slice(0, 5)}`;
+}
+
+export function formatScheduleOffer(schedule: MenuSchedule): string {
+  if (schedule.schedule_type === 'percent_off') return `${Number(schedule.discount_percent)}% off`;
+  if (schedule.schedule_type === 'buy_get') return `Buy ${schedule.buy_quantity} get ${schedule.free_quantity} free`;
+  return '';
+}
+
+const appliesTo = (schedule: MenuSchedule, menuItem: ScheduledMenuItem) =>
+  (schedule.items || []).some(target =>
+    target.menu_item_id === menuItem.id || (!!target.category_id && target.category_id === menuItem.category_id)
+  );
+
+/**
+ * Items without an availability schedule follow their manual toggle alone.
+ * Items with one can only be ordered while at least one of them is open.
+ */
+export function isScheduledAvailable(menuItem: ScheduledMenuItem, schedules: MenuSchedule[], at: Date = new Date()): boolean {
+  const windows = schedules.filter(s => s.schedule_type === 'availability' && s.is_active && appliesTo(s, menuItem));
+  return windows.length === 0 || windows.some(s => isScheduleOpen(s, at));
+}
+
+/** Price rules running for an item right now, e.g. to badge it in a picker. */
+export function getActiveOffers(menuItem: ScheduledMenuItem, schedules: MenuSchedule[], at: Date = new Date()): MenuSchedule[] {
+  return schedules.filter(s => s.schedule_type !== 'availability' && appliesTo(s, menuItem) && isScheduleOpen(s, at));
+}
+
+export function getOfferDiscount(rule: PriceRule, unitPrice: number, quantity: number): number {
+  if (rule.schedule_type === 'percent_off') {
+    return round2((unitPrice * quantity * Math.min(Number(rule.discount_percent || 0), 100)) / 100);
+  }
+  if (rule.schedule_type === 'buy_get') {
+    const buy = Number(rule.buy_quantity || 0);
+    const free = Number(rule.free_quantity || 0);
+    if (buy <= 0 || free <= 0) return 0;
+    return round2(Math.floor(quantity / (buy + free)) * free * unitPrice);
+  }
+  return 0;
+}
+
+/** The rule that takes the most off a line; ties go to the first rule. */
+export function getBestOffer(rules: PriceRule[], unitPrice: number, quantity: number): { name: string; discount: number } | null {
+  let best: { name: string; discount: number } | null = null;
+  for (const rule of rules) {
+    const discount = getOfferDiscount(rule, unitPrice, quantity);
+    if (discount > 0 && (!best || discount > best.discount)) best = { name: rule.name, discount };
+  }
+  return best;
+}
+
+/**
+ * Applies the best running price rule to each line. The discount is folded
+ * into `unit_price` so totals and GST follow it everywhere; the rule name and
+ * amount travel with the line so bills can show them. Combos and split
+ * portions are priced from several items and are left alone.
+ */
+export function applyPriceRules<T extends OrderLine>(
+  lines: T[],
+  schedules: MenuSchedule[],
+  categoryOf: (menuItemId: string) => string | null | undefined,
+  at: Date = new Date()
+): T[] {
+  return lines.map(line => {
+    if (!line.menu_item_id || (line.components || []).length > 0 || (line.portions || []).length > 0) {
+      return { ...line, offer_name: null, offer_discount: 0 };
+    }
+
+    const menuItem = { id: line.menu_item_id, category_id: categoryOf(line.menu_item_id) };
+    const best = getBestOffer(getActiveOffers(menuItem, schedules, at), line.unit_price, line.quantity);
+
+    if (!best) return { ...line, offer_name: null, offer_discount: 0 };
+    return {
+      ...line,
+      unit_price: (line.unit_price * line.quantity - best.discount) / line.quantity,
+      offer_name: best.name,
+      offer_discount: best.discount,
+    };
+  });
+}
+
+/** The price a saved line had before its offer, so it can be priced again after an edit. */
+export function getListUnitPrice(line: Pick<OrderLine, 'quantity' | 'unit_price' | 'offer_discount'>): number {
+  const quantity = Number(line.quantity);
+  return round2(Number(line.unit_price) + Number(line.offer_discount || 0) / quantity);
+}
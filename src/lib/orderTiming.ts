@@ -0,0 +1,169 @@
+import { DEFAULT_PREPARATION_TIME } from './kitchen';
+
+export interface KOTStatusEvent {
+  kot_id: string;
+  kot_item_id: string | null;
+  from_status: string | null;
+  to_status: string;
+  changed_at: string;
+}
+
+export interface TimedItem {
+  id: string;
+  menu_item_id: string | null;
+  menu_item_name: string;
+  station_id: string | null;
+  menu_item?: { preparation_time: number | null } | null;
+}
+
+export interface TimedKOT {
+  id: string;
+  kot_number: string;
+  order_type: string;
+  items: TimedItem[];
+}
+
+export interface TicketTiming {
+  kot: TimedKOT;
+  firedAt: Date;
+  readyAt: Date | null;
+  servedAt: Date | null;
+  prepMinutes: number | null;
+  serveMinutes: number | null;
+  targetMinutes: number;
+  breached: boolean;
+}
+
+export interface ItemTiming {
+  ticket: TicketTiming;
+  item: TimedItem;
+  prepMinutes: number | null;
+  targetMinutes: number;
+  breached: boolean;
+}
+
+export interface TimingSummary {
+  key: string;
+  label: string;
+  count: number;
+  measured: number;
+  avgPrepMinutes: number | null;
+  avgServeMinutes: number | null;
+  breaches: number;
+}
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+const getTargetMinutes = (item: TimedItem) => item.menu_item?.preparation_time || DEFAULT_PREPARATION_TIME;
+
+const firstEvent = (events: KOTStatusEvent[], matches: (event: KOTStatusEvent) => boolean) => {
+  const event = events.find(matches);
+  return event ? new Date(event.changed_at) : null;
+};
+
+/**
+ * Works out when each ticket reached the kitchen, was ready and was served
+ * from its status events. A ticket served without being marked ready counts
+ * as ready when served. Tickets with no events (placed before logging began,
+ * or still awaiting confirmation) are left out.
+ */
+export function getTicketTimings(kots: TimedKOT[], events: KOTStatusEvent[]): TicketTiming[] {
+  const sorted = [...events].sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+
+  return kots.flatMap(kot => {
+    const ticketEvents = sorted.filter(event => event.kot_id === kot.id && !event.kot_item_id);
+    const firedAt = firstEvent(ticketEvents, event => event.from_status === null);
+    if (!firedAt) return [];
+
+    const markedReadyAt = firstEvent(ticketEvents, event => event.to_status === 'ready');
+    const servedAt = firstEvent(ticketEvents, event => event.to_status === 'served');
+    const readyAt = markedReadyAt || servedAt;
+    const targetMinutes = kot.items.reduce((max, item) => Math.max(max, getTargetMinutes(item)), 0) || DEFAULT_PREPARATION_TIME;
+    const prepMinutes = readyAt ? minutesBetween(firedAt, readyAt) : null;
+
+    return [{
+      kot,
+      firedAt,
+      readyAt,
+      servedAt,
+      prepMinutes,
+      serveMinutes: markedReadyAt && servedAt ? minutesBetween(markedReadyAt, servedAt) : null,
+      targetMinutes,
+      breached: prepMinutes !== null && prepMinutes > targetMinutes,
+    }];
+  });
+}
+
+/**
+ * Per-item prep times for station and menu item breakdowns. An item the
+ * kitchen never bumped on its own is ready when its ticket is, and a held
+ * course is timed from when it was fired.
+ */
+export function getItemTimings(tickets: TicketTiming[], events: KOTStatusEvent[]): ItemTiming[] {
+  const sorted = [...events].sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+
+  return tickets.flatMap(ticket => ticket.kot.items.map(item => {
+    const courseFiredAt = firstEvent(sorted, event => event.kot_item_id === item.id && event.from_status === 'held');
+    const firedAt = courseFiredAt || ticket.firedAt;
+    const itemReadyAt = firstEvent(sorted, event => event.kot_item_id === item.id && event.to_status === 'ready');
+    const readyAt = itemReadyAt || (courseFiredAt
+      ? firstEvent(sorted, event =>
+        event.kot_id === ticket.kot.id &&
+        !event.kot_item_id &&
+        ['ready', 'served'].includes(event.to_status) &&
+        new Date(event.changed_at) >= courseFiredAt
+      )
+      : ticket.readyAt);
+    const prepMinutes = readyAt ? Math.max(0, minutesBetween(firedAt, readyAt)) : null;
+    const targetMinutes = getTargetMinutes(item);
+
+    return {
+      ticket,
+      item,
+      prepMinutes,
+      targetMinutes,
+      breached: prepMinutes !== null && prepMinutes > targetMinutes,
+    };
+  }));
+}
+
+export function summarizeTimings<T extends { prepMinutes: number | null; breached: boolean }>(
+  rows: T[],
+  getGroup: (row: T) => { key: string; label: string },
+  getServeMinutes: (row: T) => number | null = () => null
+): TimingSummary[] {
+  const groups = new Map<string, { label: string; rows: T[] }>();
+
+  for (const row of rows) {
+    const { key, label } = getGroup(row);
+    const group = groups.get(key) || { label, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+  return [...groups.entries()].map(([key, group]) => {
+    const prepTimes = group.rows.flatMap(row => (row.prepMinutes === null ? [] : [row.prepMinutes]));
+    const serveTimes = group.rows.flatMap(row => {
+      const minutes = getServeMinutes(row);
+      return minutes === null ? [] : [minutes];
+    });
+
+    return {
+      key,
+      label: group.label,
+      count: group.rows.length,
+      measured: prepTimes.length,
+      avgPrepMinutes: average(prepTimes),
+      avgServeMinutes: average(serveTimes),
+      breaches: group.rows.filter(row => row.breached).length,
+    };
+  });
+}
+
+export function formatMinutes(minutes: number | null) {
+  if (minutes === null) return '-';
+  if (minutes < 1) return `${Math.round(minutes * 60)}s`;
+  return `${Math.floor(minutes)}m ${String(Math.round((minutes % 1) * 60)).padStart(2, '0')}s`;
+}
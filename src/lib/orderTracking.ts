@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+
+export type TrackingStatus = 'pending' | 'preparing' | 'ready' | 'served' | 'cancelled';
+
+export interface OrderTracking {
+  kot_number: string;
+  order_type: 'dine_in' | 'delivery' | 'take_away';
+  status: TrackingStatus;
+  customer_name: string | null;
+  created_at: string;
+  estimated_ready_at: string | null;
+  orders_ahead: number | null;
+  company_name: string | null;
+  items: { name: string; quantity: number; status: string }[];
+}
+
+export const TRACKING_STEPS: { status: TrackingStatus; label: string; description: string }[] = [
+  { status: 'pending', label: 'Order Received', description: 'Your order is in the kitchen queue' },
+  { status: 'preparing', label: 'Preparing', description: 'Our kitchen is cooking your order' },
+  { status: 'ready', label: 'Ready', description: 'Your order is packed and ready' },
+  { status: 'served', label: 'Handed Over', description: 'Your order has been collected' },
+];
+
+/**
+ * Sends the customer a signed tracking link for a KOT through the WhatsApp
+ * function. Returns a wa.me link to open when the WhatsApp Business API is
+ * not configured, or null when the message was sent directly.
+ */
+export async function sendOrderTrackingLink(kotId: string): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke('send-invoice-whatsapp', { body: { kotId } });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to send tracking link');
+
+  return data.fallback ? data.whatsappUrl : null;
+}
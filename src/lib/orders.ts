@@ -0,0 +1,338 @@
+import { calculateItemGST } from './gst';
+
+export interface OrderModifier {
+  id: string;
+  group_id: string;
+  group_name: string;
+  name: string;
+  price_delta: number;
+}
+
+export interface OrderPortion {
+  menu_item_id: string;
+  menu_item_name: string;
+  variant_id?: string | null;
+  variant_name?: string | null;
+  fraction: number;
+  price: number;
+}
+
+export type PortionPricingRule = 'highest' | 'average';
+
+export interface OrderComponent {
+  slot_id: string;
+  slot_name: string;
+  menu_item_id: string;
+  menu_item_name: string;
+  quantity: number;
+  allocated_price: number;
+  station_id?: string | null;
+}
+
+export interface ComboSlot {
+  id: string;
+  name: string;
+  quantity: number;
+  category_id: string | null;
+  display_order: number;
+  items?: { menu_item_id: string }[];
+}
+
+export interface Combo {
+  id: string;
+  name: string;
+  price: number;
+  is_active: boolean;
+  slots: ComboSlot[];
+}
+
+export interface OrderLine {
+  menu_item_id: string | null;
+  menu_item_name?: string;
+  variant_id?: string | null;
+  variant_name?: string | null;
+  quantity: number;
+  unit_price: number;
+  modifiers?: OrderModifier[] | null;
+  portions?: OrderPortion[] | null;
+  combo_id?: string | null;
+  components?: OrderComponent[] | null;
+  seat?: number | null;
+  offer_name?: string | null;
+  offer_discount?: number | null;
+}
+
+export interface TaxableMenuItem {
+  id: string;
+  name?: string;
+  price?: number;
+  category_id?: string | null;
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+}
+
+const DEFAULT_GST_RATE = 5;
+
+export function getModifierTotal(modifiers?: OrderModifier[] | null): number {
+  return (modifiers || []).reduce((sum, modifier) => sum + Number(modifier.price_delta || 0), 0);
+}
+
+export function formatModifiers(modifiers?: OrderModifier[] | null): string[] {
+  return (modifiers || []).map(modifier => {
+    const delta = Number(modifier.price_delta || 0);
+    return delta > 0 ? `+ ${modifier.name} (₹${delta.toFixed(2)})` : `+ ${modifier.name}`;
+  });
+}
+
+export function formatOffer(line: { offer_name?: string | null; offer_discount?: number | null }): string[] {
+  const discount = Number(line.offer_discount || 0);
+  return line.offer_name && discount > 0 ? [`${line.offer_name} (-₹${discount.toFixed(2)})`] : [];
+}
+
+export function priceComposite(portions: OrderPortion[], rule: PortionPricingRule): number {
+  if (portions.length === 0) return 0;
+  const prices = portions.map(portion => Number(portion.price || 0));
+
+  if (rule === 'average') {
+    return Math.round((prices.reduce((sum, price) => sum + price, 0) / prices.length) * 100) / 100;
+  }
+  return Math.max(...prices);
+}
+
+export function formatPortions(portions?: OrderPortion[] | null): string[] {
+  return (portions || []).map(portion => {
+    const share = Math.round(1 / portion.fraction);
+    return `1/${share} ${portion.menu_item_name}`;
+  });
+}
+
+export function formatComponents(components?: OrderComponent[] | null): string[] {
+  return (components || []).map(component => `${component.quantity} x ${component.menu_item_name}`);
+}
+
+/** Combo components, portions, modifiers and any offer printed under an order line, in that order. */
+export function getLineDetails(line: {
+  components?: OrderComponent[] | null;
+  portions?: OrderPortion[] | null;
+  modifiers?: OrderModifier[] | null;
+  offer_name?: string | null;
+  offer_discount?: number | null;
+}): string[] {
+  return [
+    ...formatComponents(line.components),
+    ...formatPortions(line.portions),
+    ...formatModifiers(line.modifiers),
+    ...formatOffer(line),
+  ];
+}
+
+/**
+ * Splits a bundle price across components in proportion to their weights
+ * (usually standalone prices). Rounding is settled on the last component so the
+ * parts always add back up to the bundle price.
+ */
+export function allocateBundlePrice(bundlePrice: number, weights: number[]): number[] {
+  if (weights.length === 0) return [];
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map(weight => (totalWeight > 0 ? weight / totalWeight : 1 / weights.length));
+  const allocated = shares.map(share => Math.round(bundlePrice * share * 100) / 100);
+  const remainder = Math.round((bundlePrice - allocated.reduce((sum, amount) => sum + amount, 0)) * 100) / 100;
+  allocated[allocated.length - 1] = Math.round((allocated[allocated.length - 1] + remainder) * 100) / 100;
+
+  return allocated;
+}
+
+export function getSlotOptions<T extends TaxableMenuItem>(slot: ComboSlot, menuItems: T[]): T[] {
+  if (slot.category_id) {
+    return menuItems.filter(item => item.category_id === slot.category_id);
+  }
+  const ids = (slot.items || []).map(item => item.menu_item_id);
+  return menuItems.filter(item => ids.includes(item.id));
+}
+
+/** Builds combo components from one chosen menu item per slot, with the bundle price allocated. */
+export function buildComboComponents(
+  combo: Combo,
+  choices: string[],
+  menuItems: TaxableMenuItem[]
+): OrderComponent[] {
+  const slots = [...combo.slots].sort((a, b) => a.display_order - b.display_order);
+  const chosen = slots.map((slot, index) => ({
+    slot,
+    menuItem: menuItems.find(item => item.id === choices[index]),
+  }));
+
+  const allocated = allocateBundlePrice(
+    combo.price,
+    chosen.map(({ slot, menuItem }) => Number(menuItem?.price || 0) * slot.quantity)
+  );
+
+  return chosen.map(({ slot, menuItem }, index) => ({
+    slot_id: slot.id,
+    slot_name: slot.name,
+    menu_item_id: menuItem?.id || '',
+    menu_item_name: menuItem?.name || '',
+    quantity: slot.quantity,
+    allocated_price: allocated[index],
+  }));
+}
+
+interface InvoiceItemLike {
+  id?: string;
+  menu_item_name?: string | null;
+  product_name?: string | null;
+  product?: { name?: string | null; description?: string | null } | null;
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  combo_group?: string | null;
+  combo_name?: string | null;
+  combo_quantity?: number | null;
+  components?: OrderComponent[] | null;
+  portions?: OrderPortion[] | null;
+  modifiers?: OrderModifier[] | null;
+  offer_name?: string | null;
+  offer_discount?: number | null;
+}
+
+/**
+ * Folds the component rows of each combo back into one display line. Component
+ * rows stay separate in invoice_items so GST and item-wise reports stay per HSN.
+ */
+export function groupInvoiceItems<T extends InvoiceItemLike>(items: T[]) {
+  const lines: { item: T; name: string; quantity: number; unit_price: number; total: number; details: string[]; components: T[] }[] = [];
+
+  for (const item of items) {
+    if (!item.combo_group) {
+      lines.push({
+        item,
+        name: item.menu_item_name || item.product_name || '',
+        quantity: Number(item.quantity),
+        unit_price: Number(item.unit_price),
+        total: Number(item.total),
+        details: getLineDetails(item),
+        components: [],
+      });
+      continue;
+    }
+
+    const line = lines.find(l => l.item.combo_group === item.combo_group);
+    const comboQuantity = Number(item.combo_quantity || 1);
+
+    if (line) {
+      line.total += Number(item.total);
+      line.unit_price = line.total / line.quantity;
+      line.details.push(`${Number(item.quantity) / comboQuantity} x ${item.menu_item_name}`);
+      line.components.push(item);
+    } else {
+      lines.push({
+        item,
+        name: item.combo_name || 'Combo',
+        quantity: comboQuantity,
+        unit_price: Number(item.total) / comboQuantity,
+        total: Number(item.total),
+        details: [`${Number(item.quantity) / comboQuantity} x ${item.menu_item_name}`],
+        components: [item],
+      });
+    }
+  }
+
+  return lines;
+}
+
+export function generateInvoiceNumber(): string {
+  const date = new Date();
+  const timestamp = date.getTime().toString().slice(-6);
+  return `INV-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}-${timestamp}`;
+}
+
+/**
+ * Builds invoice_items rows and invoice totals for order lines.
+ * Modifier price deltas are already part of `unit_price` and are taxed at the
+ * parent item's GST rate. Combo lines expand into one row per component at its
+ * allocated share of the bundle price, taxed at the component's own rate.
+ */
+export function buildInvoiceLines(
+  lines: OrderLine[],
+  menuItems: TaxableMenuItem[],
+  isInterstate: boolean
+) {
+  let subtotal = 0;
+  let cgst = 0;
+  let sgst = 0;
+  let igst = 0;
+
+  const buildRow = (line: OrderLine) => {
+    const menuItem = menuItems.find(m => m.id === line.menu_item_id);
+    const gstRate = menuItem?.gst_rate ?? DEFAULT_GST_RATE;
+    const itemTotal = Math.round(line.quantity * line.unit_price * 100) / 100;
+    const gstCalc = calculateItemGST(itemTotal, gstRate, isInterstate);
+
+    subtotal += itemTotal;
+    cgst += gstCalc.cgst_amount;
+    sgst += gstCalc.sgst_amount;
+    igst += gstCalc.igst_amount;
+
+    return {
+      product_id: null,
+      menu_item_id: line.menu_item_id,
+      product_name: null,
+      menu_item_name: line.menu_item_name,
+      variant_id: line.variant_id || null,
+      variant_name: line.variant_name || null,
+      modifiers: line.modifiers || [],
+      portions: line.portions || [],
+      combo_id: null as string | null,
+      combo_name: null as string | null,
+      combo_group: null as string | null,
+      combo_quantity: null as number | null,
+      seat: line.seat || null,
+      offer_name: line.offer_name || null,
+      offer_discount: Number(line.offer_discount || 0),
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      total: itemTotal,
+      hsn_code: menuItem?.hsn_code || '',
+      gst_rate: gstRate,
+      cgst_amount: gstCalc.cgst_amount,
+      sgst_amount: gstCalc.sgst_amount,
+      igst_amount: gstCalc.igst_amount,
+    };
+  };
+
+  const items = lines.flatMap(line => {
+    if (!line.components || line.components.length === 0) {
+      return [buildRow(line)];
+    }
+
+    const comboGroup = crypto.randomUUID();
+    return line.components.map(component => ({
+      ...buildRow({
+        menu_item_id: component.menu_item_id,
+        menu_item_name: component.menu_item_name,
+        quantity: component.quantity * line.quantity,
+        unit_price: component.allocated_price / component.quantity,
+        seat: line.seat,
+      }),
+      combo_id: line.combo_id || null,
+      combo_name: line.menu_item_name || null,
+      combo_group: comboGroup,
+      combo_quantity: line.quantity,
+    }));
+  });
+
+  const tax = cgst + sgst + igst;
+
+  return {
+    items,
+    subtotal,
+    cgst,
+    sgst,
+    igst,
+    tax,
+    total: subtotal + tax,
+  };
+}
@@ -0,0 +1,40 @@
+import { OrderLine, allocateBundlePrice } from './orders';
+
+export type DiscountMode = 'percent' | 'amount';
+
+export interface CartLine extends OrderLine {
+  menu_item_id: string;
+  menu_item_name: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function getCartTotal(lines: OrderLine[]): number {
+  return round2(lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0));
+}
+
+/** The discount in rupees, never more than the cart total. */
+export function getDiscountAmount(cartTotal: number, mode: DiscountMode, value: number): number {
+  if (!value || value <= 0) return 0;
+  const amount = mode === 'percent' ? (cartTotal * Math.min(value, 100)) / 100 : value;
+  return round2(Math.min(amount, cartTotal));
+}
+
+/**
+ * Spreads a bill discount over the lines in proportion to their value, so GST
+ * is charged on the discounted price of each item at its own rate.
+ */
+export function applyCartDiscount<T extends OrderLine>(lines: T[], discount: number): T[] {
+  if (discount <= 0) return lines;
+
+  const lineTotals = lines.map(line => line.quantity * line.unit_price);
+  const discounted = allocateBundlePrice(getCartTotal(lines) - discount, lineTotals);
+
+  return lines.map((line, index) => ({ ...line, unit_price: discounted[index] / line.quantity }));
+}
+
+/** The exact amount followed by the next round notes a customer is likely to hand over. */
+export function getQuickTenders(total: number): number[] {
+  const amounts = [Math.ceil(total), ...[50, 100, 500, 2000].map(note => Math.ceil(total / note) * note)];
+  return [...new Set(amounts)].filter(amount => amount >= total).sort((a, b) => a - b).slice(0, 4);
+}
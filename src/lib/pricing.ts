@@ -0,0 +1,73 @@
+export type OrderChannel = 'dine_in' | 'delivery' | 'take_away';
+
+export interface PriceListItem {
+  id?: string;
+  price_list_id?: string;
+  menu_item_id: string;
+  variant_id: string | null;
+  price: number;
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  order_type: OrderChannel;
+  delivery_platform: string | null;
+  markup_percent: number;
+  is_active: boolean;
+  items?: PriceListItem[];
+}
+
+export const CHANNEL_LABELS: Record<OrderChannel, string> = {
+  dine_in: 'Dine In',
+  take_away: 'Take Away',
+  delivery: 'Delivery',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalizePlatform = (platform?: string | null) => (platform || '').trim().toLowerCase();
+
+/**
+ * The active price list for a channel. A delivery list for the order's
+ * platform wins over the general list for the order type.
+ */
+export function findPriceList(
+  lists: PriceList[],
+  orderType: OrderChannel,
+  deliveryPlatform?: string | null
+): PriceList | null {
+  const candidates = lists.filter(list => list.is_active && list.order_type === orderType);
+  const platform = normalizePlatform(deliveryPlatform);
+
+  if (orderType === 'delivery' && platform) {
+    const platformList = candidates.find(list => normalizePlatform(list.delivery_platform) === platform);
+    if (platformList) return platformList;
+  }
+
+  return candidates.find(list => !list.delivery_platform) || null;
+}
+
+/** Adds the list's markup to an amount such as a modifier or combo price. */
+export function applyMarkup(list: PriceList | null | undefined, amount: number): number {
+  if (!list || !Number(list.markup_percent)) return amount;
+  return round2(amount * (1 + Number(list.markup_percent) / 100));
+}
+
+/**
+ * Channel price of a menu item or variant: the list's explicit price when it
+ * has one, otherwise the base price with the list's markup.
+ */
+export function getChannelPrice(
+  list: PriceList | null | undefined,
+  menuItemId: string,
+  variantId: string | null | undefined,
+  basePrice: number
+): number {
+  const explicit = (list?.items || []).find(item =>
+    item.menu_item_id === menuItemId && (item.variant_id || null) === (variantId || null)
+  );
+  if (explicit) return Number(explicit.price);
+
+  return applyMarkup(list, Number(basePrice));
+}
@@ -0,0 +1,246 @@
+import { supabase } from './supabase';
+import { EscPosBuilder, PAPER_COLUMNS, PaperWidth } from './escpos';
+
+export type PrinterConnection = 'webusb' | 'bridge' | 'network';
+
+export interface Printer {
+  id: string;
+  name: string;
+  connection: PrinterConnection;
+  bridge_url: string | null;
+  host: string | null;
+  port: number;
+  usb_vendor_id: number | null;
+  usb_product_id: number | null;
+  paper_width: PaperWidth;
+  is_receipt_printer: boolean;
+  open_cash_drawer: boolean;
+  is_active: boolean;
+}
+
+export const PRINTER_CONNECTION_LABELS: Record<PrinterConnection, string> = {
+  webusb: 'USB (this browser)',
+  bridge: 'Local print bridge',
+  network: 'Network (port 9100)',
+};
+
+export interface PrintTransport {
+  send(printer: Printer, data: Uint8Array): Promise<void>;
+}
+
+// The subset of WebUSB used here; TypeScript's DOM types do not include it.
+interface UsbEndpoint {
+  direction: 'in' | 'out';
+  endpointNumber: number;
+}
+
+interface UsbDevice {
+  vendorId: number;
+  productId: number;
+  configuration: { interfaces: { interfaceNumber: number; alternate: { endpoints: UsbEndpoint[] } }[] } | null;
+  opened: boolean;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface Usb {
+  getDevices(): Promise<UsbDevice[]>;
+  requestDevice(options: { filters: { classCode?: number; vendorId?: number }[] }): Promise<UsbDevice>;
+}
+
+const getUsb = () => (navigator as Navigator & { usb?: Usb }).usb;
+
+const USB_PRINTER_CLASS = 0x07;
+
+const usbTransport: PrintTransport = {
+  async send(printer, data) {
+    const usb = getUsb();
+    if (!usb) throw new Error('This browser does not support USB printers');
+
+    const device = (await usb.getDevices()).find(d =>
+      d.vendorId === printer.usb_vendor_id && d.productId === printer.usb_product_id
+    );
+    if (!device) throw new Error(`${printer.name} is not paired with this browser`);
+
+    if (!device.opened) await device.open();
+    if (!device.configuration) await device.selectConfiguration(1);
+
+    const usbInterface = device.configuration?.interfaces.find(i =>
+      i.alternate.endpoints.some(endpoint => endpoint.direction === 'out')
+    );
+    if (!usbInterface) throw new Error(`${printer.name} has no output endpoint`);
+
+    const endpoint = usbInterface.alternate.endpoints.find(e => e.direction === 'out')!;
+    await device.claimInterface(usbInterface.interfaceNumber);
+    try {
+      await device.transferOut(endpoint.endpointNumber, data);
+    } finally {
+      await device.releaseInterface(usbInterface.interfaceNumber);
+    }
+  },
+};
+
+/**
+ * The print bridge is a small service on the counter PC that accepts raw
+ * ESC/POS bytes over HTTP. Without printer headers it prints to its own
+ * printer; with `X-Printer-Host`/`X-Printer-Port` it relays the bytes to a
+ * network printer, because browsers cannot open raw TCP sockets.
+ */
+async function postToBridge(printer: Printer, data: Uint8Array, headers: Record<string, string> = {}) {
+  if (!printer.bridge_url) throw new Error(`${printer.name} has no print bridge URL`);
+
+  const response = await fetch(printer.bridge_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream', ...headers },
+    body: new Blob([data.slice()]),
+  });
+
+  if (!response.ok) throw new Error(`${printer.name}: print bridge returned ${response.status}`);
+}
+
+const bridgeTransport: PrintTransport = {
+  send: (printer, data) => postToBridge(printer, data),
+};
+
+const networkTransport: PrintTransport = {
+  send(printer, data) {
+    if (!printer.host) throw new Error(`${printer.name} has no IP address`);
+    return postToBridge(printer, data, {
+      'X-Printer-Host': printer.host,
+      'X-Printer-Port': String(printer.port || 9100),
+    });
+  },
+};
+
+const transports: Record<PrinterConnection, PrintTransport> = {
+  webusb: usbTransport,
+  bridge: bridgeTransport,
+  network: networkTransport,
+};
+
+/** Replaces how a connection type is sent, e.g. for a native wrapper app. */
+export function registerPrintTransport(connection: PrinterConnection, transport: PrintTransport) {
+  transports[connection] = transport;
+}
+
+export function sendToPrinter(printer: Printer, data: Uint8Array) {
+  return transports[printer.connection].send(printer, data);
+}
+
+export function createBuilder(printer: Printer) {
+  return new EscPosBuilder(PAPER_COLUMNS[printer.paper_width] || PAPER_COLUMNS[80]);
+}
+
+/** Asks the user to pick a USB printer and returns its IDs for the printer record. */
+export async function pairUsbPrinter() {
+  const usb = getUsb();
+  if (!usb) throw new Error('This browser does not support USB printers. Use Chrome or Edge.');
+
+  const device = await usb.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] });
+  return { usb_vendor_id: device.vendorId, usb_product_id: device.productId };
+}
+
+let printersCache: Promise<{ printers: Printer[]; stationPrinters: Record<string, string | null> }> | null = null;
+
+/** Active printers and the station-to-printer mapping, cached until invalidated. */
+export function loadPrinterSetup() {
+  if (!printersCache) {
+    printersCache = Promise.all([
+      supabase.from('printers').select('*').eq('is_active', true),
+      supabase.from('kitchen_stations').select('id, printer_id'),
+    ]).then(([printersRes, stationsRes]) => {
+      if (printersRes.error) throw printersRes.error;
+      return {
+        printers: printersRes.data || [],
+        stationPrinters: Object.fromEntries((stationsRes.data || []).map(s => [s.id, s.printer_id])),
+      };
+    });
+    printersCache.catch(() => {
+      printersCache = null;
+    });
+  }
+  return printersCache;
+}
+
+export function invalidatePrinterSetup() {
+  printersCache = null;
+}
+
+/**
+ * Prints each station's ticket on the printer mapped to the station (items
+ * without a station go to the first kitchen-mapped printer). Returns the
+ * groups that could not be printed so the caller can fall back to the
+ * browser print dialog.
+ */
+export async function printStationTickets<T extends { station: { id: string } | null }>(
+  groups: T[],
+  render: (builder: EscPosBuilder, group: T, index: number) => void
+): Promise<T[]> {
+  try {
+    const { printers, stationPrinters } = await loadPrinterSetup();
+    const fallbackPrinterId = Object.values(stationPrinters).find(Boolean) || null;
+    const unprinted: T[] = [];
+
+    for (const [index, group] of groups.entries()) {
+      const printerId = group.station ? stationPrinters[group.station.id] : fallbackPrinterId;
+      const printer = printers.find(p => p.id === printerId);
+
+      if (!printer) {
+        unprinted.push(group);
+        continue;
+      }
+
+      try {
+        const builder = createBuilder(printer);
+        render(builder, group, index);
+        await sendToPrinter(printer, builder.build());
+      } catch (error) {
+        console.error(`Error printing to ${printer.name}:`, error);
+        unprinted.push(group);
+      }
+    }
+
+    return unprinted;
+  } catch (error) {
+    console.error('Error loading printers:', error);
+    return groups;
+  }
+}
+
+/**
+ * Prints a receipt on the receipt printer. Returns false when there is no
+ * receipt printer or printing failed, so the caller can fall back to the
+ * browser print dialog.
+ */
+export async function printReceipt(render: (builder: EscPosBuilder, printer: Printer) => void): Promise<boolean> {
+  try {
+    const { printers } = await loadPrinterSetup();
+    const printer = printers.find(p => p.is_receipt_printer);
+    if (!printer) return false;
+
+    const builder = createBuilder(printer);
+    render(builder, printer);
+    await sendToPrinter(printer, builder.build());
+    return true;
+  } catch (error) {
+    console.error('Error printing receipt:', error);
+    return false;
+  }
+}
+
+/**
+ * Escapes text for the browser print dialog's HTML. The print window shares
+ * the app's origin, and names and notes can come from guests.
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+import { TableSession, getOrOpenSession } from './tableSessions';
+
+export type ReservationStatus = 'booked' | 'seated' | 'cancelled' | 'no_show';
+export type WaitlistStatus = 'waiting' | 'notified' | 'seated' | 'left';
+
+export interface Reservation {
+  id: string;
+  customer_name: string;
+  customer_phone: string;
+  party_size: number;
+  reserved_at: string;
+  duration_minutes: number;
+  table_id: string | null;
+  status: ReservationStatus;
+  notes: string | null;
+  session_id: string | null;
+  confirmation_sent_at: string | null;
+  reminder_sent_at: string | null;
+  created_at: string;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  customer_name: string;
+  customer_phone: string | null;
+  party_size: number;
+  quoted_wait_minutes: number;
+  status: WaitlistStatus;
+  notes: string | null;
+  table_id: string | null;
+  session_id: string | null;
+  notified_at: string | null;
+  seated_at: string | null;
+  created_at: string;
+}
+
+export interface GuestDetails {
+  customer_name: string;
+  customer_phone: string | null;
+  party_size: number;
+}
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  booked: 'Booked',
+  seated: 'Seated',
+  cancelled: 'Cancelled',
+  no_show: 'No Show',
+};
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: 'Waiting',
+  notified: 'Table Ready',
+  seated: 'Seated',
+  left: 'Left',
+};
+
+// Reminders are offered for bookings starting within this many hours.
+export const REMINDER_WINDOW_HOURS = 3;
+
+/** True when the booking is due a reminder and has not had one yet. */
+export function isReminderDue(reservation: Reservation, now = Date.now()) {
+  const startsIn = new Date(reservation.reserved_at).getTime() - now;
+  return reservation.status === 'booked'
+    && !reservation.reminder_sent_at
+    && startsIn > 0
+    && startsIn <= REMINDER_WINDOW_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Opens (or joins) the table's session and records the guest on it, so KOTs
+ * raised for the table start with the guest's name and phone. A session that
+ * already has a guest keeps it.
+ */
+export async function seatGuests(tableId: string, guest: GuestDetails, userId?: string): Promise<TableSession> {
+  const session = await getOrOpenSession(tableId, userId);
+  if (session.customer_name) return session;
+
+  const { data, error } = await supabase
+    .from('table_sessions')
+    .update({
+      customer_name: guest.customer_name,
+      customer_phone: guest.customer_phone,
+      party_size: guest.party_size,
+    })
+    .eq('id', session.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Sends a booking confirmation or reminder, or a "table ready" message to a
+ * waiting party, through the WhatsApp function and records when it was sent.
+ * Returns a wa.me link to open when the WhatsApp Business API is not
+ * configured.
+ */
+export async function sendGuestMessage(
+  target: { reservationId: string; messageType: 'confirmation' | 'reminder' } | { waitlistId: string }
+): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke('send-invoice-whatsapp', { body: target });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to send WhatsApp message');
+
+  const sentAt = new Date().toISOString();
+  const { error: updateError } = 'waitlistId' in target
+    ? await supabase
+      .from('waitlist_entries')
+      .update({ status: 'notified', notified_at: sentAt })
+      .eq('id', target.waitlistId)
+    : await supabase
+      .from('reservations')
+      .update(target.messageType === 'reminder' ? { reminder_sent_at: sentAt } : { confirmation_sent_at: sentAt })
+      .eq('id', target.reservationId);
+
+  if (updateError) throw updateError;
+  return data.fallback ? data.whatsappUrl : null;
+}
@@ -0,0 +1,170 @@
+export type SettlementLineStatus = 'matched' | 'short_paid' | 'cancelled_charged' | 'unmatched' | 'posted';
+
+export interface DeliveryPlatformSettings {
+  id: string;
+  delivery_platform: string;
+  commission_percent: number;
+  gst_on_commission_percent: number;
+  tcs_percent: number;
+  tolerance: number;
+}
+
+export interface PlatformSettlement {
+  id: string;
+  delivery_platform: string;
+  file_name: string | null;
+  period_start: string;
+  period_end: string;
+  created_at: string;
+}
+
+export interface SettlementLineInput {
+  delivery_order_id: string;
+  order_status: string | null;
+  gross_amount: number;
+  commission: number;
+  gst_on_commission: number;
+  tcs: number;
+  other_deductions: number;
+  net_payout: number;
+  utr: string | null;
+  settlement_date: string | null;
+}
+
+export interface PlatformSettlementLine extends SettlementLineInput {
+  id: string;
+  settlement_id: string;
+  kot_id: string | null;
+  invoice_id: string | null;
+  expected_net: number | null;
+  status: SettlementLineStatus;
+  payment_id: string | null;
+  posted_at: string | null;
+}
+
+export interface MissingPayout {
+  kot_id: string;
+  kot_number: string;
+  delivery_order_id: string;
+  invoice_id: string;
+  invoice_number: string;
+  total: number;
+  ordered_at: string;
+}
+
+export const SETTLEMENT_STATUS_LABELS: Record<SettlementLineStatus, string> = {
+  matched: 'Matched',
+  short_paid: 'Short Paid',
+  cancelled_charged: 'Cancelled but Charged',
+  unmatched: 'No Matching Order',
+  posted: 'Posted',
+};
+
+// Header names used by the Zomato and Swiggy payout reports, lower-cased.
+const COLUMN_ALIASES: Record<keyof SettlementLineInput, string[]> = {
+  delivery_order_id: ['order id', 'order_id', 'order no', 'order number'],
+  order_status: ['order status', 'status'],
+  gross_amount: ['order value', 'gross amount', 'total customer payable', 'bill amount', 'order total'],
+  commission: ['commission', 'platform commission', 'service fee', 'platform fee'],
+  gst_on_commission: ['gst on commission', 'gst on service fee', 'gst on platform fee', 'taxes on service fee'],
+  tcs: ['tcs', 'tcs deducted', 'tcs amount'],
+  other_deductions: ['other deductions', 'adjustments', 'penalty', 'other charges'],
+  net_payout: ['net payout', 'net payable', 'payout amount', 'amount credited', 'net settlement amount', 'settlement amount'],
+  utr: ['utr', 'utr number', 'utr no', 'bank reference'],
+  settlement_date: ['settlement date', 'payout date', 'credited on'],
+};
+
+/** Splits CSV text into rows, honouring quoted fields with commas and quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+const toAmount = (value?: string) => {
+  const amount = parseFloat((value || '').replace(/[₹,\s]/g, ''));
+  return Number.isFinite(amount) ? Math.abs(amount) : 0;
+};
+
+const toDate = (value?: string) => {
+  const text = (value || '').trim();
+  if (!text) return null;
+
+  const dayFirst = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+  if (dayFirst) return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().split('T')[0];
+};
+
+/**
+ * Reads a platform settlement CSV into settlement lines. Columns are found by
+ * header name; deductions are stored as positive amounts whichever sign the
+ * platform uses. Throws when the order ID or net payout column is missing.
+ */
+export function parseSettlementCsv(text: string): SettlementLineInput[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('The settlement file is empty');
+
+  const headers = header.map(cell => cell.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([field, aliases]) => [field, headers.findIndex(h => aliases.includes(h))])
+  ) as Record<keyof SettlementLineInput, number>;
+
+  if (columns.delivery_order_id < 0) throw new Error('Could not find an "Order ID" column');
+  if (columns.net_payout < 0) throw new Error('Could not find a "Net Payout" column');
+
+  const cell = (cells: string[], field: keyof SettlementLineInput) =>
+    columns[field] >= 0 ? (cells[columns[field]] || '').trim() : '';
+
+  return rows
+    .filter(cells => cell(cells, 'delivery_order_id'))
+    .map(cells => ({
+      delivery_order_id: cell(cells, 'delivery_order_id'),
+      order_status: cell(cells, 'order_status') || null,
+      gross_amount: toAmount(cell(cells, 'gross_amount')),
+      commission: toAmount(cell(cells, 'commission')),
+      gst_on_commission: toAmount(cell(cells, 'gst_on_commission')),
+      tcs: toAmount(cell(cells, 'tcs')),
+      other_deductions: toAmount(cell(cells, 'other_deductions')),
+      net_payout: parseFloat(cell(cells, 'net_payout').replace(/[₹,\s]/g, '')) || 0,
+      utr: cell(cells, 'utr') || null,
+      settlement_date: toDate(cell(cells, 'settlement_date')),
+    }));
+}
@@ -0,0 +1,113 @@
+import { calculateItemGST } from './gst';
+
+export type SplitMode = 'items' | 'seats' | 'equal';
+
+export interface SplittableItem {
+  id?: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  gst_rate?: number | null;
+  seat?: number | null;
+  offer_discount?: number | null;
+}
+
+export interface SplitPart<T> {
+  label: string;
+  items: (Omit<T, 'id'> & { cgst_amount: number; sgst_amount: number; igst_amount: number })[];
+  subtotal: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  tax: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Builds invoice parts from per-item shares. `shares[i][p]` is the fraction of
+ * item i that goes to part p. Each item's rounding difference is settled on the
+ * last part that receives it, so the parts always add back up to the original
+ * line totals; GST is recalculated on every part's share.
+ */
+export function buildSplitParts<T extends SplittableItem>(
+  items: T[],
+  shares: number[][],
+  labels: string[],
+  isInterstate: boolean
+): SplitPart<T>[] {
+  const parts: SplitPart<T>[] = labels.map(label => ({
+    label,
+    items: [],
+    subtotal: 0,
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+    tax: 0,
+    total: 0,
+  }));
+
+  items.forEach((item, itemIndex) => {
+    const itemShares = shares[itemIndex] || [];
+    const lastPart = itemShares.map((share, index) => (share > 0 ? index : -1)).reduce((a, b) => Math.max(a, b), -1);
+    let allocated = 0;
+
+    itemShares.forEach((share, partIndex) => {
+      if (share <= 0) return;
+
+      const total = partIndex === lastPart
+        ? round2(Number(item.total) - allocated)
+        : round2(Number(item.total) * share);
+      allocated += total;
+
+      const gstCalc = calculateItemGST(total, Number(item.gst_rate || 0), isInterstate);
+      const row: Omit<T, 'id'> & { id?: string } = { ...item };
+      delete row.id;
+      const part = parts[partIndex];
+
+      part.items.push({
+        ...row,
+        quantity: Number(item.quantity) * share,
+        offer_discount: round2(Number(item.offer_discount || 0) * share),
+        total,
+        cgst_amount: gstCalc.cgst_amount,
+        sgst_amount: gstCalc.sgst_amount,
+        igst_amount: gstCalc.igst_amount,
+      });
+      part.subtotal += total;
+      part.cgst += gstCalc.cgst_amount;
+      part.sgst += gstCalc.sgst_amount;
+      part.igst += gstCalc.igst_amount;
+    });
+  });
+
+  for (const part of parts) {
+    part.tax = part.cgst + part.sgst + part.igst;
+    part.total = part.subtotal + part.tax;
+  }
+
+  return parts.filter(part => part.items.length > 0);
+}
+
+/** Every item divided into `count` equal parts. */
+export function getEqualShares(itemCount: number, count: number): number[][] {
+  return Array.from({ length: itemCount }, () => Array(count).fill(1 / count));
+}
+
+/** Each item goes wholly to the part it is assigned to. */
+export function getItemShares(assignments: number[], count: number): number[][] {
+  return assignments.map(partIndex => Array.from({ length: count }, (_, index) => (index === partIndex ? 1 : 0)));
+}
+
+/** One part per seat; items without a seat tag are shared equally across seats. */
+export function getSeatShares(items: SplittableItem[]): { seats: number[]; shares: number[][] } {
+  const seats = [...new Set(items.map(item => item.seat).filter((seat): seat is number => !!seat))].sort((a, b) => a - b);
+
+  const shares = items.map(item => {
+    if (item.seat) return seats.map(seat => (seat === item.seat ? 1 : 0));
+    return seats.map(() => 1 / seats.length);
+  });
+
+  return { seats, shares };
+}
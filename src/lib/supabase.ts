@@ -55,14 +55,17 @@ export interface Invoice {
   id: string;
   invoice_number: string;
   customer_id: string;
-  status: 'draft' | 'sent' | 'paid' | 'cancelled';
+  status: 'draft' | 'sent' | 'paid' | 'cancelled' | 'split';
   payment_status: 'unpaid' | 'partial' | 'paid' | 'overdue';
   amount_paid: number;
   subtotal: number;
+  discount?: number;
   tax: number;
   total: number;
   due_date: string;
   paid_date: string | null;
+  split_from_invoice_id?: string | null;
+  split_label?: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
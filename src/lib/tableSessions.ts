@@ -0,0 +1,160 @@
+import { supabase } from './supabase';
+
+export interface TableSession {
+  id: string;
+  table_id: string;
+  status: 'open' | 'billed' | 'settled';
+  invoice_id: string | null;
+  opened_at: string;
+  billed_at: string | null;
+  settled_at: string | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  party_size?: number | null;
+}
+
+/** Returns the table's running session, opening a new one when the table is free. */
+export async function getOrOpenSession(tableId: string, userId?: string): Promise<TableSession> {
+  const { data: existing, error } = await supabase
+    .from('table_sessions')
+    .select('*')
+    .eq('table_id', tableId)
+    .neq('status', 'settled')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing) return existing;
+
+  const { data: session, error: insertError } = await supabase
+    .from('table_sessions')
+    .insert({ table_id: tableId, opened_by: userId || null })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+  return session;
+}
+
+/**
+ * Creates or refreshes the session's consolidated invoice from every
+ * non-cancelled KOT in the session and links those KOTs to it. The rebuild
+ * runs in one transaction on the server.
+ */
+export async function syncSessionInvoice(sessionId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('sync_session_invoice', { p_session_id: sessionId });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Regenerates the draft invoice of sessions whose orders changed after a bill
+ * was generated. A changed billed session is reopened so the bill is printed again.
+ */
+export async function refreshSessionInvoices(sessionIds: (string | null | undefined)[]) {
+  for (const sessionId of new Set(sessionIds)) {
+    if (!sessionId) continue;
+
+    const { data: session } = await supabase
+      .from('table_sessions')
+      .select('status, invoice_id')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (!session?.invoice_id || session.status === 'settled') continue;
+
+    await syncSessionInvoice(sessionId);
+    if (session.status === 'billed') {
+      await supabase.from('table_sessions').update({ status: 'open' }).eq('id', sessionId);
+    }
+  }
+}
+
+/** Generates the consolidated bill and marks the session's KOTs as bill printed. */
+export async function billTableSession(sessionId: string): Promise<string | null> {
+  const invoiceId = await syncSessionInvoice(sessionId);
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('table_sessions')
+    .update({ status: 'billed', billed_at: now })
+    .eq('id', sessionId);
+
+  if (error) throw error;
+
+  const { error: kotsError } = await supabase
+    .from('kots')
+    .update({ bill_printed_at: now })
+    .eq('session_id', sessionId)
+    .is('bill_printed_at', null);
+
+  if (kotsError) throw kotsError;
+
+  return invoiceId;
+}
+
+/** Closes the sitting: no more KOTs can be added and the table goes to cleaning. */
+export async function settleTableSession(session: TableSession): Promise<void> {
+  if (session.status === 'open') {
+    await billTableSession(session.id);
+  }
+
+  const now = new Date().toISOString();
+
+  const { error: kotError } = await supabase
+    .from('kots')
+    .update({ settled_at: now })
+    .eq('session_id', session.id)
+    .is('settled_at', null);
+
+  if (kotError) throw kotError;
+
+  const { error } = await supabase
+    .from('table_sessions')
+    .update({ status: 'settled', settled_at: now })
+    .eq('id', session.id);
+
+  if (error) throw error;
+
+  const { error: tableError } = await supabase
+    .from('dining_tables')
+    .update({ needs_cleaning: true })
+    .eq('id', session.table_id);
+
+  if (tableError) throw tableError;
+}
+
+/**
+ * Sends a guest's QR order to the kitchen: the KOT joins the table's running
+ * session and the confirming staff member becomes its owner.
+ */
+export async function confirmGuestKOT(kot: { id: string; table_id: string | null }, userId?: string): Promise<void> {
+  if (!kot.table_id) throw new Error('Guest order has no table');
+
+  const session = await getOrOpenSession(kot.table_id, userId);
+
+  const { error } = await supabase
+    .from('kots')
+    .update({
+      awaiting_confirmation: false,
+      confirmed_by: userId || null,
+      confirmed_at: new Date().toISOString(),
+      session_id: session.id,
+      ...(userId ? { user_id: userId } : {}),
+    })
+    .eq('id', kot.id)
+    .eq('awaiting_confirmation', true);
+
+  if (error) throw error;
+  await refreshSessionInvoices([session.id]);
+}
+
+/** Turns down a guest's QR order before it reaches the kitchen. */
+export async function rejectGuestKOT(kotId: string): Promise<void> {
+  const { error } = await supabase
+    .from('kots')
+    .update({ status: 'cancelled', awaiting_confirmation: false })
+    .eq('id', kotId)
+    .eq('awaiting_confirmation', true);
+
+  if (error) throw error;
+}
@@ -0,0 +1,58 @@
+export interface DiningSection {
+  id: string;
+  name: string;
+  display_order: number;
+  is_active: boolean;
+}
+
+export interface DiningTable {
+  id: string;
+  section_id: string | null;
+  name: string;
+  seats: number;
+  pos_x: number;
+  pos_y: number;
+  shape: 'square' | 'round';
+  needs_cleaning: boolean;
+  is_active: boolean;
+  qr_token?: string;
+}
+
+/** Public self-ordering page opened by the table's QR code. */
+export function getTableOrderUrl(token: string): string {
+  return `${window.location.origin}/order?table=${encodeURIComponent(token)}`;
+}
+
+export type TableStatus = 'available' | 'occupied' | 'bill_printed' | 'cleaning';
+
+interface TableKOTLike {
+  table_id?: string | null;
+  status: string;
+  bill_printed_at?: string | null;
+  settled_at?: string | null;
+}
+
+export const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+  available: 'Available',
+  occupied: 'Occupied',
+  bill_printed: 'Bill Printed',
+  cleaning: 'Cleaning',
+};
+
+/** A KOT keeps its table occupied until it is settled or cancelled. */
+export function isOpenTableKOT(kot: TableKOTLike): boolean {
+  return !!kot.table_id && kot.status !== 'cancelled' && !kot.settled_at;
+}
+
+export function getOpenTableKOTs<T extends TableKOTLike>(tableId: string, kots: T[]): T[] {
+  return kots.filter(kot => kot.table_id === tableId && isOpenTableKOT(kot));
+}
+
+export function getTableStatus(table: DiningTable, kots: TableKOTLike[]): TableStatus {
+  const open = getOpenTableKOTs(table.id, kots);
+
+  if (open.length > 0) {
+    return open.every(kot => kot.bill_printed_at) ? 'bill_printed' : 'occupied';
+  }
+  return table.needs_cleaning ? 'cleaning' : 'available';
+}
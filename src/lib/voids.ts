@@ -0,0 +1,54 @@
+export type VoidReasonCode =
+  | 'customer_changed_mind'
+  | 'kitchen_error'
+  | 'wastage'
+  | 'wrong_order'
+  | 'duplicate'
+  | 'other';
+
+export interface KOTVoid {
+  id: string;
+  scope: 'item' | 'ticket';
+  kot_id: string | null;
+  kot_number: string | null;
+  menu_item_name: string;
+  variant_name: string | null;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  reason_code: VoidReasonCode;
+  notes: string | null;
+  prep_started: boolean;
+  voided_by: string | null;
+  approved_by: string | null;
+  invoice_id: string | null;
+  invoice_adjustment: number;
+  created_at: string;
+}
+
+export const VOID_REASONS: Record<VoidReasonCode, string> = {
+  customer_changed_mind: 'Customer changed mind',
+  kitchen_error: 'Kitchen error',
+  wastage: 'Wastage',
+  wrong_order: 'Wrong order entered',
+  duplicate: 'Duplicate order',
+  other: 'Other',
+};
+
+/**
+ * Once the kitchen has started on an order, a void needs an admin PIN. Held
+ * courses have not reached the kitchen yet.
+ */
+export function isPrepStarted(kotStatus: string, itemStatuses: string[]): boolean {
+  if (itemStatuses.length > 0 && itemStatuses.every(status => status === 'held')) return false;
+  return kotStatus !== 'pending' || itemStatuses.some(status => status !== 'pending' && status !== 'held');
+}
+
+/**
+ * Lines the kitchen has started can only be reduced or taken off a KOT by
+ * voiding them. A pending line counts as started once its KOT is.
+ */
+export function isFiredLine(status?: string | null, kotStatus?: string | null): boolean {
+  if (!status || status === 'held') return false;
+  return status !== 'pending' || (!!kotStatus && kotStatus !== 'pending');
+}
@@ -0,0 +1,16 @@
+import { AggregatorAdapter } from './types.ts';
+import { swiggyAdapter } from './swiggy.ts';
+import { zomatoAdapter } from './zomato.ts';
+
+export * from './types.ts';
+
+const adapters: Record<string, AggregatorAdapter> = {
+  [zomatoAdapter.platform]: zomatoAdapter,
+  [swiggyAdapter.platform]: swiggyAdapter,
+};
+
+export function getAdapter(platform: string): AggregatorAdapter {
+  const adapter = adapters[platform];
+  if (!adapter) throw new Error(`Unsupported aggregator: ${platform}`);
+  return adapter;
+}
@@ -0,0 +1,75 @@
+import { AggregatorAdapter, KOTStatus, NormalizedOrder, postStatus } from './types.ts';
+
+interface SwiggyAddon {
+  id: string | number;
+  name: string;
+  price: number;
+  group_name?: string;
+}
+
+interface SwiggyItem {
+  id: string | number;
+  name: string;
+  quantity: number;
+  price: number;
+  addons?: SwiggyAddon[];
+  variants?: SwiggyAddon[];
+}
+
+interface SwiggyWebhook {
+  order_id?: string | number;
+  instructions?: string;
+  customer?: { name?: string; mobile?: string };
+  cart?: { items?: SwiggyItem[] };
+}
+
+const STATUS_MAP: Record<KOTStatus, string> = {
+  pending: 'CONFIRMED',
+  preparing: 'FOOD_PREPARING',
+  ready: 'READY',
+  served: 'DISPATCHED',
+  cancelled: 'CANCELLED',
+};
+
+export const swiggyAdapter: AggregatorAdapter = {
+  platform: 'swiggy',
+  signatureHeader: 'x-swiggy-signature',
+
+  parseOrder(payload: unknown): NormalizedOrder {
+    const order = payload as SwiggyWebhook;
+    if (!order.order_id) throw new Error('Missing order_id');
+
+    return {
+      external_order_id: String(order.order_id),
+      customer_name: order.customer?.name || null,
+      customer_phone: order.customer?.mobile || null,
+      notes: order.instructions || null,
+      items: (order.cart?.items || []).map(item => {
+        // Swiggy sends the variant choice as an extra line priced on top of the base item
+        const modifiers = [...(item.variants || []), ...(item.addons || [])].map(addon => ({
+          id: String(addon.id),
+          group_id: addon.group_name || 'addons',
+          group_name: addon.group_name || 'Add-ons',
+          name: addon.name,
+          price_delta: Number(addon.price) || 0,
+        }));
+
+        return {
+          external_item_id: String(item.id),
+          name: item.name,
+          quantity: Number(item.quantity),
+          unit_price: Number(item.price) + modifiers.reduce((sum, modifier) => sum + modifier.price_delta, 0),
+          modifiers,
+          notes: null,
+        };
+      }),
+    };
+  },
+
+  async pushStatus(integration, externalOrderId, status) {
+    await postStatus(integration, '/order/status', {
+      order_id: externalOrderId,
+      status: STATUS_MAP[status],
+    });
+  },
+};
@@ -0,0 +1,99 @@
+export type KOTStatus = 'pending' | 'preparing' | 'ready' | 'served' | 'cancelled';
+
+export interface NormalizedModifier {
+  id: string;
+  group_id: string;
+  group_name: string;
+  name: string;
+  price_delta: number;
+}
+
+export interface NormalizedItem {
+  external_item_id: string;
+  name: string;
+  quantity: number;
+  /** Price of one unit including add-ons, as charged by the platform */
+  unit_price: number;
+  modifiers: NormalizedModifier[];
+  notes: string | null;
+}
+
+export interface NormalizedOrder {
+  external_order_id: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  notes: string | null;
+  items: NormalizedItem[];
+}
+
+export interface AggregatorIntegration {
+  platform: string;
+  display_name: string;
+  webhook_secret: string | null;
+  outbound_url: string | null;
+  outbound_api_key: string | null;
+}
+
+/**
+ * Adapter for one delivery platform. Inbound webhooks are verified and parsed
+ * into a NormalizedOrder; outbound status updates are sent in the platform's
+ * own format. Add a platform by implementing this and registering it in index.ts.
+ */
+export interface AggregatorAdapter {
+  platform: string;
+  /** Header carrying the hex HMAC-SHA256 of the raw request body */
+  signatureHeader: string;
+  parseOrder(payload: unknown): NormalizedOrder;
+  pushStatus(integration: AggregatorIntegration, externalOrderId: string, status: KOTStatus): Promise<void>;
+}
+
+const importHmacKey = (secret: string, usage: 'sign' | 'verify') =>
+  crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+
+export async function hmacHex(secret: string, body: string): Promise<string> {
+  const key = await importHmacKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks a hex HMAC-SHA256 signature of the body. WebCrypto compares in
+ * constant time, so the check does not leak how much of a forged signature
+ * was right.
+ */
+export async function verifyHmacHex(secret: string, body: string, signatureHex: string): Promise<boolean> {
+  if (!/^[0-9a-f]{64}$/i.test(signatureHex)) return false;
+
+  const signature = new Uint8Array(signatureHex.match(/../g)!.map(byte => parseInt(byte, 16)));
+  const key = await importHmacKey(secret, 'verify');
+  return crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(body));
+}
+
+export async function postStatus(
+  integration: AggregatorIntegration,
+  path: string,
+  body: Record<string, unknown>
+): Promise<void> {
+  if (!integration.outbound_url) {
+    throw new Error(`${integration.display_name} status URL is not configured`);
+  }
+
+  const response = await fetch(`${integration.outbound_url.replace(/\/$/, '')}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(integration.outbound_api_key ? { 'X-Api-Key': integration.outbound_api_key } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${integration.display_name} rejected status update: ${response.status} ${await response.text()}`);
+  }
+}
@@ -0,0 +1,77 @@
+import { AggregatorAdapter, KOTStatus, NormalizedOrder, postStatus } from './types.ts';
+
+interface ZomatoAddon {
+  item_id: string | number;
+  item_name: string;
+  unit_cost: number;
+}
+
+interface ZomatoItem {
+  item_id: string | number;
+  item_name: string;
+  quantity: number;
+  unit_cost: number;
+  instructions?: string;
+  groups?: { group_id?: string | number; group_name: string; items: ZomatoAddon[] }[];
+}
+
+interface ZomatoWebhook {
+  order?: {
+    order_id: string | number;
+    order_instructions?: string;
+    customer_details?: { name?: string; phone_number?: string };
+    items?: ZomatoItem[];
+  };
+}
+
+const STATUS_MAP: Record<KOTStatus, string> = {
+  pending: 'accepted',
+  preparing: 'food_preparing',
+  ready: 'food_ready',
+  served: 'picked_up',
+  cancelled: 'rejected',
+};
+
+export const zomatoAdapter: AggregatorAdapter = {
+  platform: 'zomato',
+  signatureHeader: 'x-zomato-signature',
+
+  parseOrder(payload: unknown): NormalizedOrder {
+    const order = (payload as ZomatoWebhook).order;
+    if (!order?.order_id) throw new Error('Missing order.order_id');
+
+    return {
+      external_order_id: String(order.order_id),
+      customer_name: order.customer_details?.name || null,
+      customer_phone: order.customer_details?.phone_number || null,
+      notes: order.order_instructions || null,
+      items: (order.items || []).map(item => {
+        const modifiers = (item.groups || []).flatMap(group =>
+          group.items.map(addon => ({
+            id: String(addon.item_id),
+            group_id: String(group.group_id ?? group.group_name),
+            group_name: group.group_name,
+            name: addon.item_name,
+            price_delta: Number(addon.unit_cost) || 0,
+          }))
+        );
+
+        return {
+          external_item_id: String(item.item_id),
+          name: item.item_name,
+          quantity: Number(item.quantity),
+          unit_price: Number(item.unit_cost) + modifiers.reduce((sum, modifier) => sum + modifier.price_delta, 0),
+          modifiers,
+          notes: item.instructions || null,
+        };
+      }),
+    };
+  },
+
+  async pushStatus(integration, externalOrderId, status) {
+    await postStatus(integration, `/orders/${encodeURIComponent(externalOrderId)}/status`, {
+      order_id: externalOrderId,
+      status: STATUS_MAP[status],
+    });
+  },
+};
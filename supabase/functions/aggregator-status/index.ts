@@ -0,0 +1,112 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { KOTStatus, getAdapter } from '../_shared/aggregators/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+
+// Sends a KOT's current status to the aggregator the order came from
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!['admin', 'sales', 'sales_person'].includes(profile?.role)) {
+      throw new Error('Only sales staff can update order status');
+    }
+
+    const { kotId } = await req.json();
+
+    if (!kotId) {
+      throw new Error('KOT ID is required');
+    }
+
+    const { data: order } = await supabase
+      .from('aggregator_orders')
+      .select('id, platform, external_order_id, kot:kots(status)')
+      .eq('kot_id', kotId)
+      .eq('status', 'created')
+      .maybeSingle();
+
+    // Not an aggregator order: nothing to push
+    if (!order) {
+      return jsonResponse({ success: true, skipped: true });
+    }
+
+    const { data: integration, error: integrationError } = await supabase
+      .from('aggregator_integrations')
+      .select('*')
+      .eq('platform', order.platform)
+      .single();
+
+    if (integrationError) throw integrationError;
+
+    const status = (order.kot as unknown as { status: KOTStatus }).status;
+    let pushError: string | null = null;
+
+    try {
+      await getAdapter(order.platform).pushStatus(integration, order.external_order_id, status);
+    } catch (error) {
+      pushError = (error as Error).message;
+    }
+
+    await supabase
+      .from('aggregator_orders')
+      .update({
+        last_pushed_status: pushError ? undefined : status,
+        last_pushed_at: new Date().toISOString(),
+        push_error: pushError,
+      })
+      .eq('id', order.id);
+
+    if (pushError) throw new Error(pushError);
+
+    return jsonResponse({ success: true, status });
+  } catch (error) {
+    console.error('Error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message }, 400);
+  }
+});
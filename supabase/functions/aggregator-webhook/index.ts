@@ -0,0 +1,146 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getAdapter, verifyHmacHex } from '../_shared/aggregators/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+
+// Aggregators call POST /aggregator-webhook/<platform> with the order payload
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  const platform = new URL(req.url).pathname.split('/').filter(Boolean).pop() || '';
+  const rawBody = await req.text();
+
+  let payload: unknown = null;
+  let externalOrderId: string | null = null;
+
+  try {
+    const adapter = getAdapter(platform);
+
+    const { data: integration, error: integrationError } = await supabase
+      .from('aggregator_integrations')
+      .select('*')
+      .eq('platform', platform)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (integrationError) throw integrationError;
+    if (!integration) {
+      return jsonResponse({ success: false, error: `${platform} integration is not enabled` }, 404);
+    }
+
+    if (!integration.webhook_secret) {
+      throw new Error('Webhook secret is not configured');
+    }
+
+    const signature = req.headers.get(adapter.signatureHeader) || '';
+    if (!await verifyHmacHex(integration.webhook_secret, rawBody, signature)) {
+      return jsonResponse({ success: false, error: 'Invalid signature' }, 401);
+    }
+
+    payload = JSON.parse(rawBody);
+    const order = adapter.parseOrder(payload);
+    externalOrderId = order.external_order_id;
+
+    const { data: existing } = await supabase
+      .from('aggregator_orders')
+      .select('status, kot_id')
+      .eq('platform', platform)
+      .eq('external_order_id', order.external_order_id)
+      .maybeSingle();
+
+    if (existing?.status === 'created') {
+      return jsonResponse({ success: true, duplicate: true, kot_id: existing.kot_id });
+    }
+
+    const { data: created, error: ingestError } = await supabase.rpc('ingest_aggregator_order', {
+      p_platform: platform,
+      p_external_order_id: order.external_order_id,
+      p_customer_name: order.customer_name,
+      p_customer_phone: order.customer_phone,
+      p_notes: order.notes,
+      p_items: order.items,
+      p_payload: payload,
+    });
+
+    if (ingestError) throw new Error(ingestError.message);
+
+    // A concurrent delivery of the same order got there first
+    if (created?.duplicate) {
+      return jsonResponse({ success: true, ...created });
+    }
+
+    // Acknowledge the order; a failed acknowledgement does not undo the KOT
+    let pushError: string | null = null;
+    try {
+      await adapter.pushStatus(integration, order.external_order_id, 'pending');
+    } catch (error) {
+      pushError = (error as Error).message;
+    }
+
+    await supabase
+      .from('aggregator_orders')
+      .update({
+        last_pushed_status: pushError ? null : 'pending',
+        last_pushed_at: new Date().toISOString(),
+        push_error: pushError,
+      })
+      .eq('platform', platform)
+      .eq('external_order_id', order.external_order_id);
+
+    return jsonResponse({ success: true, ...created });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error('Aggregator webhook error:', error);
+
+    // Record the failure for retry, without touching an order that was created
+    if (externalOrderId) {
+      await supabase.from('aggregator_orders').upsert(
+        {
+          platform,
+          external_order_id: externalOrderId,
+          status: 'failed',
+          payload,
+          error: message,
+        },
+        { onConflict: 'platform,external_order_id', ignoreDuplicates: true }
+      );
+
+      await supabase
+        .from('aggregator_orders')
+        .update({ payload, error: message })
+        .eq('platform', platform)
+        .eq('external_order_id', externalOrderId)
+        .eq('status', 'failed');
+    }
+
+    return jsonResponse({ success: false, error: message }, externalOrderId ? 422 : 400);
+  }
+});
@@ -25,51 +25,175 @@ Deno.serve(async (req: Request) => {
       },
     });
 
-    const { invoiceId } = await req.json();
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { invoiceId, kotId, reservationId, waitlistId, messageType } = await req.json();
 
-    if (!invoiceId) {
-      throw new Error('Invoice ID is required');
+    if (!invoiceId && !kotId && !reservationId && !waitlistId) {
+      throw new Error('Invoice, KOT, reservation or waitlist ID is required');
     }
 
-    const { data: invoice, error: invoiceError } = await supabase
-      .from('invoices')
-      .select(`
-        *,
-        customer:customers(*)
-      `)
-      .eq('id', invoiceId)
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
       .single();
 
-    if (invoiceError || !invoice) {
-      throw new Error(`Invoice not found: ${invoiceError?.message}`);
+    const isInvoice = !reservationId && !waitlistId && !kotId;
+    const allowedRoles = isInvoice
+      ? ['admin', 'accountant', 'sales', 'sales_person']
+      : ['admin', 'sales', 'sales_person'];
+
+    if (!allowedRoles.includes(profile?.role)) {
+      throw new Error('You are not allowed to send WhatsApp messages');
+    }
+
+    // Links point at the deployed app (the SITE_URL secret), never at
+    // whatever origin made the request
+    const siteUrl = Deno.env.get('SITE_URL')?.replace(/\/+$/, '') || null;
+
+    let ownerId: string | null;
+    let phone: string | null;
+    let buildMessage: (companyName: string) => string;
+
+    if (reservationId) {
+      const { data: reservation, error: reservationError } = await supabase
+        .from('reservations')
+        .select('*, table:dining_tables(name)')
+        .eq('id', reservationId)
+        .single();
+
+      if (reservationError || !reservation) {
+        throw new Error(`Reservation not found: ${reservationError?.message}`);
+      }
+
+      const slot = new Date(reservation.reserved_at).toLocaleString('en-IN', {
+        timeZone: 'Asia/Kolkata',
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+      const details = `${slot} for ${reservation.party_size} ${reservation.party_size === 1 ? 'guest' : 'guests'}${reservation.table ? ` (table ${reservation.table.name})` : ''}`;
+
+      ownerId = reservation.created_by;
+      phone = reservation.customer_phone;
+      buildMessage = (companyName) => messageType === 'reminder'
+        ? `Hello ${reservation.customer_name},\n\nThis is a reminder of your table booking at ${companyName} on ${details}.\n\nIf your plans have changed, please let us know.\n\n- ${companyName}`
+        : `Hello ${reservation.customer_name},\n\nYour table booking at ${companyName} is confirmed for ${details}.\n\nWe look forward to seeing you!\n\n- ${companyName}`;
+    } else if (waitlistId) {
+      const { data: entry, error: entryError } = await supabase
+        .from('waitlist_entries')
+        .select('*')
+        .eq('id', waitlistId)
+        .single();
+
+      if (entryError || !entry) {
+        throw new Error(`Waitlist entry not found: ${entryError?.message}`);
+      }
+
+      ownerId = entry.created_by;
+      phone = entry.customer_phone;
+      buildMessage = (companyName) =>
+        `Hello ${entry.customer_name},\n\nYour table for ${entry.party_size} is ready! Please come to the host stand within the next 10 minutes.\n\n- ${companyName}`;
+    } else if (kotId) {
+      const { data: kot, error: kotError } = await supabase
+        .from('kots')
+        .select('id, kot_number, order_type, customer_name, customer_phone, user_id')
+        .eq('id', kotId)
+        .single();
+
+      if (kotError || !kot) {
+        throw new Error(`KOT not found: ${kotError?.message}`);
+      }
+
+      const { data: signature, error: signatureError } = await supabase.rpc('sign_order_tracking', { p_kot_id: kot.id });
+
+      if (signatureError || !signature) {
+        throw new Error(`Could not sign tracking link: ${signatureError?.message}`);
+      }
+
+      if (!siteUrl) {
+        throw new Error('Set the SITE_URL secret on this function to send tracking links');
+      }
+
+      const trackingUrl = `${siteUrl}/track?kot=${kot.id}&sig=${signature}`;
+      const orderLabel = kot.order_type === 'delivery' ? 'delivery' : 'takeaway';
+
+      ownerId = kot.user_id;
+      phone = kot.customer_phone;
+      buildMessage = (companyName) =>
+        `Hello${kot.customer_name ? ` ${kot.customer_name}` : ''},\n\nThank you for your ${orderLabel} order ${kot.kot_number}!\n\nYou can follow it live and see when it will be ready here:\n${trackingUrl}\n\n- ${companyName}`;
+    } else {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select(`
+          *,
+          customer:customers(*)
+        `)
+        .eq('id', invoiceId)
+        .single();
+
+      if (invoiceError || !invoice) {
+        throw new Error(`Invoice not found: ${invoiceError?.message}`);
+      }
+
+      // Without SITE_URL the message goes out without the invoice link
+      const invoiceLink = siteUrl
+        ? `\n\nYou can view and download your invoice here:\n${siteUrl}/?id=${invoiceId}`
+        : '';
+
+      const amount = new Intl.NumberFormat('en-IN', {
+        style: 'currency',
+        currency: 'INR',
+        maximumFractionDigits: 2,
+      }).format(invoice.total);
+
+      ownerId = invoice.created_by;
+      phone = invoice.customer?.phone;
+      buildMessage = (companyName) =>
+        `Hello ${invoice.customer.name},\n\nThank you for your payment!\n\nYour invoice ${invoice.invoice_number} for ${amount} has been marked as paid.${invoiceLink}\n\nThank you for your business!\n\n- ${companyName}`;
     }
 
-    const { data: companyProfile, error: profileError } = await supabase
+    // KOTs are usually created by staff without a profile of their own, so
+    // fall back to the business's profile.
+    let { data: companyProfile, error: profileError } = await supabase
       .from('company_profile')
       .select('*')
-      .eq('user_id', invoice.created_by)
-      .single();
+      .eq('user_id', ownerId)
+      .maybeSingle();
+
+    if (!companyProfile && !profileError) {
+      ({ data: companyProfile, error: profileError } = await supabase
+        .from('company_profile')
+        .select('*')
+        .limit(1)
+        .maybeSingle());
+    }
 
     if (profileError || !companyProfile) {
       throw new Error(`Company profile not found: ${profileError?.message}`);
     }
 
-    if (!invoice.customer.phone) {
+    if (!phone) {
       throw new Error('Customer phone number not available');
     }
 
-    const invoiceUrl = `${req.headers.get('origin') || supabaseUrl.replace('/rest/v1', '')}/?id=${invoiceId}`;
-
-    const amount = new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 2,
-    }).format(invoice.total);
-
-    const message = `Hello ${invoice.customer.name},\n\nThank you for your payment!\n\nYour invoice ${invoice.invoice_number} for ${amount} has been marked as paid.\n\nYou can view and download your invoice here:\n${invoiceUrl}\n\nThank you for your business!\n\n- ${companyProfile.company_name}`;
+    const message = buildMessage(companyProfile.company_name);
 
     if (companyProfile.whatsapp_api_token && companyProfile.whatsapp_phone_number_id) {
-      const customerPhone = invoice.customer.phone.replace(/[^0-9]/g, '');
+      const customerPhone = phone.replace(/[^0-9]/g, '');
       
       const whatsappApiUrl = `https://graph.facebook.com/v21.0/${companyProfile.whatsapp_phone_number_id}/messages`;
       
@@ -110,7 +234,7 @@ Deno.serve(async (req: Request) => {
       );
     } else {
       const encodedMessage = encodeURIComponent(message);
-      const customerPhone = invoice.customer.phone.replace(/[^0-9]/g, '');
+      const customerPhone = phone.replace(/[^0-9]/g, '');
       const whatsappUrl = `https://wa.me/${customerPhone}?text=${encodedMessage}`;
 
       return new Response(
@@ -0,0 +1,241 @@
+/*
+  # Add Recipes (Bill of Materials) for Menu Items
+
+  ## Overview
+  Links restaurant menu items to the inventory products they consume, so that
+  selling a dish deducts raw materials (flour, cheese, boxes, etc.) from stock.
+
+  ## New Tables
+  1. `menu_item_recipes` - Ingredient lines for each menu item
+     - `id` (uuid, primary key)
+     - `menu_item_id` (uuid) - Foreign key to menu_items
+     - `product_id` (uuid) - Foreign key to products (inventory)
+     - `quantity` (numeric) - Quantity of the product used per one unit sold
+     - `created_at` (timestamptz)
+
+  ## New Functions
+  1. `sync_invoice_recipe_consumption(p_invoice_id)`
+     - Computes the stock an invoice should have consumed from its menu item lines
+     - Compares it with what has already been deducted for that invoice
+     - Applies only the difference, so it is safe to call after every create/edit
+     - Cancelled invoices consume nothing, which returns their stock
+     - Writes `inventory_history` rows with activity_type 'sale' and reference_type 'invoice'
+
+  ## Changes
+  - `log_inventory_change` skips its generic 'consumption' row while a recipe
+    sync is running, so sales are not logged twice
+
+  ## Security
+  - RLS enabled on menu_item_recipes
+  - Authenticated users can view recipes
+  - Admins and inventory staff can manage recipes
+*/
+
+-- ============================================================================
+-- MENU ITEM RECIPES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS menu_item_recipes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_recipes_menu_item ON menu_item_recipes(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_menu_item_recipes_product ON menu_item_recipes(product_id);
+
+ALTER TABLE menu_item_recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view menu item recipes"
+  ON menu_item_recipes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and inventory staff can create menu item recipes"
+  ON menu_item_recipes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and inventory staff can update menu item recipes"
+  ON menu_item_recipes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and inventory staff can delete menu item recipes"
+  ON menu_item_recipes FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+-- ============================================================================
+-- SKIP GENERIC LOGGING DURING RECIPE SYNC
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION log_inventory_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_activity_type text;
+  v_notes text;
+BEGIN
+  -- Recipe consumption writes its own 'sale' history rows
+  IF current_setting('app.recipe_sync', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Log when quantity changes
+  IF (TG_OP = 'UPDATE' AND OLD.quantity != NEW.quantity) THEN
+    -- Determine if it's consumption or adjustment
+    IF NEW.quantity < OLD.quantity THEN
+      -- Quantity decreased - this is consumption
+      v_activity_type := 'consumption';
+      v_notes := 'Manual stock consumption/usage';
+    ELSE
+      -- Quantity increased - this is adjustment
+      v_activity_type := 'adjustment';
+      v_notes := 'Manual stock adjustment';
+    END IF;
+
+    INSERT INTO inventory_history (
+      product_id,
+      activity_type,
+      quantity_before,
+      quantity_change,
+      quantity_after,
+      reference_type,
+      notes,
+      created_by
+    ) VALUES (
+      NEW.id,
+      v_activity_type,
+      OLD.quantity,
+      NEW.quantity - OLD.quantity,
+      NEW.quantity,
+      'manual',
+      v_notes,
+      auth.uid()
+    );
+
+    -- Update daily snapshot
+    PERFORM update_daily_snapshot(NEW.id, v_activity_type, ABS(NEW.quantity - OLD.quantity));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- RECIPE CONSUMPTION FOR INVOICES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_invoice_recipe_consumption(p_invoice_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_invoice_number text;
+  v_invoice_status text;
+  v_line record;
+  v_before numeric;
+  v_after numeric;
+BEGIN
+  SELECT invoice_number, status INTO v_invoice_number, v_invoice_status
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.recipe_sync', 'on', true);
+
+  FOR v_line IN
+    WITH required AS (
+      SELECT r.product_id, SUM(r.quantity * ii.quantity) AS quantity
+      FROM invoice_items ii
+      JOIN menu_item_recipes r ON r.menu_item_id = ii.menu_item_id
+      WHERE ii.invoice_id = p_invoice_id
+      AND v_invoice_status != 'cancelled'
+      GROUP BY r.product_id
+    ),
+    consumed AS (
+      SELECT product_id, -SUM(quantity_change) AS quantity
+      FROM inventory_history
+      WHERE reference_type = 'invoice'
+      AND reference_id = p_invoice_id
+      AND activity_type = 'sale'
+      GROUP BY product_id
+    )
+    SELECT
+      COALESCE(required.product_id, consumed.product_id) AS product_id,
+      COALESCE(required.quantity, 0) - COALESCE(consumed.quantity, 0) AS delta
+    FROM required
+    FULL OUTER JOIN consumed ON consumed.product_id = required.product_id
+  LOOP
+    IF v_line.delta = 0 THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE products
+    SET quantity = quantity - v_line.delta
+    WHERE id = v_line.product_id
+    RETURNING quantity + v_line.delta, quantity INTO v_before, v_after;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO inventory_history (
+      product_id,
+      activity_type,
+      quantity_before,
+      quantity_change,
+      quantity_after,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) VALUES (
+      v_line.product_id,
+      'sale',
+      v_before,
+      -v_line.delta,
+      v_after,
+      'invoice',
+      p_invoice_id,
+      CASE
+        WHEN v_line.delta > 0 THEN 'Recipe consumption for invoice ' || v_invoice_number
+        ELSE 'Recipe consumption reversed for invoice ' || v_invoice_number
+      END,
+      auth.uid()
+    );
+
+    PERFORM update_daily_snapshot(v_line.product_id, 'sale', v_line.delta);
+  END LOOP;
+
+  PERFORM set_config('app.recipe_sync', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
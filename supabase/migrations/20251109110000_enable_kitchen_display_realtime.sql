@@ -0,0 +1,91 @@
+/*
+  # Enable Kitchen Display System (KDS)
+
+  ## Overview
+  The kitchen display shows live tickets from every counter user, so kitchen
+  staff need to read all KOTs (not only their own) and bump item statuses.
+  Changes to `kots` and `kot_items` are streamed through Supabase Realtime.
+
+  ## Changes
+  1. Add `kots` and `kot_items` to the `supabase_realtime` publication
+  2. Admins and sales staff can view all KOTs and KOT items
+  3. Admins and sales staff can update KOT and KOT item status
+
+  ## Notes
+  - Realtime respects RLS, so these policies also control what the display receives
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'kots'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE kots;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'kot_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE kot_items;
+  END IF;
+END $$;
+
+CREATE POLICY "Kitchen staff can view all kots"
+  ON kots FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Kitchen staff can update all kots"
+  ON kots FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Kitchen staff can view all kot items"
+  ON kot_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Kitchen staff can update all kot items"
+  ON kot_items FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
@@ -0,0 +1,136 @@
+/*
+  # Add Kitchen Stations for KOT Routing
+
+  ## Overview
+  Lets each KOT be split into per-station tickets (pizza oven, fryer, beverages, etc.).
+  A menu item is routed to its own station, or to its category's station when unset.
+
+  ## New Tables
+  1. `kitchen_stations` - Configurable kitchen counters
+     - `id` (uuid, primary key)
+     - `name` (text) - Station name shown on tickets
+     - `description` (text)
+     - `display_order` (integer)
+     - `is_active` (boolean)
+
+  ## Changes
+  1. `menu_categories.station_id` - Default station for items in the category
+  2. `menu_items.station_id` - Overrides the category station
+  3. `kot_items.station_id` - Station resolved when the KOT item is created
+
+  ## Security
+  - RLS enabled on kitchen_stations
+  - Authenticated users can view stations
+  - Only admins and inventory managers can manage stations
+*/
+
+-- ============================================================================
+-- KITCHEN STATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS kitchen_stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  display_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE kitchen_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view kitchen stations"
+  ON kitchen_stations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create kitchen stations"
+  ON kitchen_stations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can update kitchen stations"
+  ON kitchen_stations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins can delete kitchen stations"
+  ON kitchen_stations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_kitchen_stations') THEN
+    CREATE TRIGGER set_updated_at_kitchen_stations BEFORE UPDATE ON kitchen_stations
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- STATION ROUTING COLUMNS
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_categories' AND column_name = 'station_id'
+  ) THEN
+    ALTER TABLE menu_categories ADD COLUMN station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'station_id'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'station_id'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_kitchen_stations_display_order ON kitchen_stations(display_order);
+CREATE INDEX IF NOT EXISTS idx_menu_categories_station ON menu_categories(station_id);
+CREATE INDEX IF NOT EXISTS idx_menu_items_station ON menu_items(station_id);
+CREATE INDEX IF NOT EXISTS idx_kot_items_station ON kot_items(station_id);
+
+-- Backfill existing KOT items from their menu item or category
+UPDATE kot_items ki
+SET station_id = COALESCE(mi.station_id, mc.station_id)
+FROM menu_items mi
+LEFT JOIN menu_categories mc ON mc.id = mi.category_id
+WHERE ki.menu_item_id = mi.id
+AND ki.station_id IS NULL;
@@ -0,0 +1,144 @@
+/*
+  # Add Menu Item Variants
+
+  ## Overview
+  Sizes and crusts ("Small", "Medium", "Large") become variants of a single menu
+  item instead of separate items, each with its own price, cost price and SKU.
+
+  ## New Tables
+  1. `menu_item_variants` - Priced variants of a menu item
+     - `id` (uuid, primary key)
+     - `menu_item_id` (uuid) - Foreign key to menu_items
+     - `name` (text) - Variant label, e.g. "Large"
+     - `price` (numeric) - Selling price of the variant
+     - `cost_price` (numeric)
+     - `sku` (text)
+     - `display_order` (integer)
+     - `is_active` (boolean)
+
+  ## Changes
+  1. `kot_items.variant_id` / `kot_items.variant_name` - Variant chosen on the KOT
+  2. `invoice_items.variant_id` / `invoice_items.variant_name` - Variant sold, for size-wise reporting
+
+  ## Notes
+  - `variant_name` is copied onto order lines so history survives variant edits or deletion
+  - Items without variants keep using `menu_items.price`
+
+  ## Security
+  - RLS enabled on menu_item_variants
+  - Authenticated users can view variants
+  - Only admins and inventory managers can manage variants
+*/
+
+-- ============================================================================
+-- MENU ITEM VARIANTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS menu_item_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  price numeric NOT NULL DEFAULT 0 CHECK (price >= 0),
+  cost_price numeric DEFAULT 0,
+  sku text,
+  display_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_variants_menu_item ON menu_item_variants(menu_item_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_item_variants_sku ON menu_item_variants(sku) WHERE sku IS NOT NULL AND sku != '';
+
+ALTER TABLE menu_item_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view menu item variants"
+  ON menu_item_variants FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create menu item variants"
+  ON menu_item_variants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can update menu item variants"
+  ON menu_item_variants FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can delete menu item variants"
+  ON menu_item_variants FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_menu_item_variants') THEN
+    CREATE TRIGGER set_updated_at_menu_item_variants BEFORE UPDATE ON menu_item_variants
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- VARIANT COLUMNS ON ORDER LINES
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN variant_id uuid REFERENCES menu_item_variants(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'variant_name'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN variant_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN variant_id uuid REFERENCES menu_item_variants(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'variant_name'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN variant_name text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_kot_items_variant ON kot_items(variant_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_variant ON invoice_items(variant_id);
@@ -0,0 +1,246 @@
+/*
+  # Add Modifiers and Add-ons for Menu Items
+
+  ## Overview
+  Replaces free-text "extra cheese" notes with priced modifiers. Modifier groups
+  (toppings, dips, crust) are attached to menu items and enforce how many options
+  may be picked.
+
+  ## New Tables
+  1. `modifier_groups` - A set of options, e.g. "Extra Toppings"
+     - `id` (uuid, primary key)
+     - `name` (text)
+     - `min_select` (integer) - Minimum options required (0 = optional)
+     - `max_select` (integer) - Maximum options allowed
+     - `display_order` (integer)
+     - `is_active` (boolean)
+  2. `modifiers` - Options inside a group
+     - `id` (uuid, primary key)
+     - `group_id` (uuid) - Foreign key to modifier_groups
+     - `name` (text)
+     - `price_delta` (numeric) - Added to the parent item's unit price
+     - `display_order` (integer)
+     - `is_active` (boolean)
+  3. `menu_item_modifier_groups` - Which groups apply to which menu items
+
+  ## Changes
+  1. `kot_items.modifiers` (jsonb) - Chosen modifiers with their group and price delta
+  2. `invoice_items.modifiers` (jsonb) - Copied from the KOT line onto the invoice
+
+  ## Notes
+  - Line `unit_price` already includes modifier price deltas, so GST is
+    calculated on the full line at the parent item's GST rate
+
+  ## Security
+  - RLS enabled on all new tables
+  - Authenticated users can view modifiers
+  - Only admins and inventory managers can manage modifiers
+*/
+
+-- ============================================================================
+-- MODIFIER GROUPS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  min_select integer NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select integer NOT NULL DEFAULT 1 CHECK (max_select >= 1),
+  display_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT modifier_groups_min_lte_max CHECK (min_select <= max_select)
+);
+
+CREATE TABLE IF NOT EXISTS modifiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid REFERENCES modifier_groups(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  price_delta numeric NOT NULL DEFAULT 0,
+  display_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS menu_item_modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  group_id uuid REFERENCES modifier_groups(id) ON DELETE CASCADE NOT NULL,
+  display_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_item_id, group_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_modifiers_group ON modifiers(group_id);
+CREATE INDEX IF NOT EXISTS idx_menu_item_modifier_groups_item ON menu_item_modifier_groups(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_menu_item_modifier_groups_group ON menu_item_modifier_groups(group_id);
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_item_modifier_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view modifier groups"
+  ON modifier_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create modifier groups"
+  ON modifier_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can update modifier groups"
+  ON modifier_groups FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can delete modifier groups"
+  ON modifier_groups FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view modifiers"
+  ON modifiers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create modifiers"
+  ON modifiers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can update modifiers"
+  ON modifiers FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can delete modifiers"
+  ON modifiers FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view menu item modifier groups"
+  ON menu_item_modifier_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create menu item modifier groups"
+  ON menu_item_modifier_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can update menu item modifier groups"
+  ON menu_item_modifier_groups FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can delete menu item modifier groups"
+  ON menu_item_modifier_groups FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_modifier_groups') THEN
+    CREATE TRIGGER set_updated_at_modifier_groups BEFORE UPDATE ON modifier_groups
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- MODIFIERS ON ORDER LINES
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'modifiers'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'modifiers'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
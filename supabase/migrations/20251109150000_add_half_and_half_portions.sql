@@ -0,0 +1,159 @@
+/*
+  # Add Half-and-Half (Composite) Items
+
+  ## Overview
+  Lets one pizza base be split into two or four portions, each taken from a
+  different menu item. The order line stores its portions, is priced by a
+  configurable rule, and consumes each portion's recipe in proportion.
+
+  ## Changes
+  1. `menu_items.allow_portions` (boolean) - Item can be picked as a portion
+  2. `company_profile.portion_pricing_rule` (text) - 'highest' or 'average'
+     portion price
+  3. `kot_items.portions` (jsonb) - Portions of a composite line:
+     `[{ menu_item_id, menu_item_name, variant_id, variant_name, fraction, price }]`
+  4. `invoice_items.portions` (jsonb) - Copied from the KOT line
+
+  ## Updated Functions
+  1. `sync_invoice_recipe_consumption(p_invoice_id)`
+     - Lines with portions consume each portion's recipe multiplied by its fraction
+     - Lines without portions behave as before
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'allow_portions'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN allow_portions boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'company_profile' AND column_name = 'portion_pricing_rule'
+  ) THEN
+    ALTER TABLE company_profile ADD COLUMN portion_pricing_rule text DEFAULT 'highest'
+      CHECK (portion_pricing_rule IN ('highest', 'average'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'portions'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN portions jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'portions'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN portions jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- RECIPE CONSUMPTION FOR PORTIONED LINES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_invoice_recipe_consumption(p_invoice_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_invoice_number text;
+  v_invoice_status text;
+  v_line record;
+  v_before numeric;
+  v_after numeric;
+BEGIN
+  SELECT invoice_number, status INTO v_invoice_number, v_invoice_status
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.recipe_sync', 'on', true);
+
+  FOR v_line IN
+    WITH line_items AS (
+      -- Whole items
+      SELECT ii.menu_item_id, ii.quantity
+      FROM invoice_items ii
+      WHERE ii.invoice_id = p_invoice_id
+      AND jsonb_array_length(COALESCE(ii.portions, '[]'::jsonb)) = 0
+
+      UNION ALL
+
+      -- Portions of composite items, scaled by their fraction
+      SELECT p.menu_item_id, ii.quantity * p.fraction
+      FROM invoice_items ii
+      CROSS JOIN LATERAL jsonb_to_recordset(ii.portions) AS p(menu_item_id uuid, fraction numeric)
+      WHERE ii.invoice_id = p_invoice_id
+      AND jsonb_array_length(COALESCE(ii.portions, '[]'::jsonb)) > 0
+    ),
+    required AS (
+      SELECT r.product_id, SUM(r.quantity * li.quantity) AS quantity
+      FROM line_items li
+      JOIN menu_item_recipes r ON r.menu_item_id = li.menu_item_id
+      WHERE v_invoice_status != 'cancelled'
+      GROUP BY r.product_id
+    ),
+    consumed AS (
+      SELECT product_id, -SUM(quantity_change) AS quantity
+      FROM inventory_history
+      WHERE reference_type = 'invoice'
+      AND reference_id = p_invoice_id
+      AND activity_type = 'sale'
+      GROUP BY product_id
+    )
+    SELECT
+      COALESCE(required.product_id, consumed.product_id) AS product_id,
+      COALESCE(required.quantity, 0) - COALESCE(consumed.quantity, 0) AS delta
+    FROM required
+    FULL OUTER JOIN consumed ON consumed.product_id = required.product_id
+  LOOP
+    IF v_line.delta = 0 THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE products
+    SET quantity = quantity - v_line.delta
+    WHERE id = v_line.product_id
+    RETURNING quantity + v_line.delta, quantity INTO v_before, v_after;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO inventory_history (
+      product_id,
+      activity_type,
+      quantity_before,
+      quantity_change,
+      quantity_after,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) VALUES (
+      v_line.product_id,
+      'sale',
+      v_before,
+      -v_line.delta,
+      v_after,
+      'invoice',
+      p_invoice_id,
+      CASE
+        WHEN v_line.delta > 0 THEN 'Recipe consumption for invoice ' || v_invoice_number
+        ELSE 'Recipe consumption reversed for invoice ' || v_invoice_number
+      END,
+      auth.uid()
+    );
+
+    PERFORM update_daily_snapshot(v_line.product_id, 'sale', v_line.delta);
+  END LOOP;
+
+  PERFORM set_config('app.recipe_sync', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,253 @@
+/*
+  # Add Combo / Meal Deal Bundles
+
+  ## Overview
+  A combo ("1 medium pizza + garlic bread + drink for ₹499") has a fixed bundle
+  price and a set of slots. Each slot offers a choice from a menu category or
+  from a hand-picked list of items.
+
+  ## New Tables
+  1. `combos` - Bundle definitions
+     - `id` (uuid, primary key)
+     - `name` (text)
+     - `description` (text)
+     - `price` (numeric) - Fixed bundle price
+     - `display_order` (integer)
+     - `is_active` (boolean)
+  2. `combo_slots` - Choices inside a combo
+     - `id` (uuid, primary key)
+     - `combo_id` (uuid) - Foreign key to combos
+     - `name` (text) - e.g. "Pizza", "Side", "Drink"
+     - `quantity` (numeric) - Units of the chosen item per combo
+     - `category_id` (uuid) - Offer every item in this category, or
+     - items listed in `combo_slot_items` when no category is set
+  3. `combo_slot_items` - Hand-picked items for a slot
+
+  ## Changes
+  1. `kot_items.combo_id` / `kot_items.components` (jsonb) - One KOT line per
+     combo with its chosen components and their allocated share of the price
+  2. `invoice_items.combo_id`, `combo_name`, `combo_group`, `combo_quantity` -
+     Combos are invoiced as one row per component (so GST per HSN and item-wise
+     sales stay correct); rows of the same combo share a `combo_group`
+
+  ## Security
+  - RLS enabled on all new tables
+  - Authenticated users can view combos
+  - Only admins and inventory managers can manage combos
+*/
+
+-- ============================================================================
+-- COMBO TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS combos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  price numeric NOT NULL DEFAULT 0 CHECK (price >= 0),
+  display_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS combo_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  combo_id uuid REFERENCES combos(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  category_id uuid REFERENCES menu_categories(id) ON DELETE SET NULL,
+  display_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS combo_slot_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id uuid REFERENCES combo_slots(id) ON DELETE CASCADE NOT NULL,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  UNIQUE (slot_id, menu_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_combo_slots_combo ON combo_slots(combo_id);
+CREATE INDEX IF NOT EXISTS idx_combo_slot_items_slot ON combo_slot_items(slot_id);
+
+ALTER TABLE combos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE combo_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE combo_slot_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view combos"
+  ON combos FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create combos"
+  ON combos FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can update combos"
+  ON combos FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can delete combos"
+  ON combos FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view combo slots"
+  ON combo_slots FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create combo slots"
+  ON combo_slots FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can update combo slots"
+  ON combo_slots FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can delete combo slots"
+  ON combo_slots FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Authenticated users can view combo slot items"
+  ON combo_slot_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and managers can create combo slot items"
+  ON combo_slot_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Admins and managers can delete combo slot items"
+  ON combo_slot_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_combos') THEN
+    CREATE TRIGGER set_updated_at_combos BEFORE UPDATE ON combos
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMBO COLUMNS ON ORDER LINES
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'combo_id'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN combo_id uuid REFERENCES combos(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'components'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN components jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'combo_id'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN combo_id uuid REFERENCES combos(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'combo_name'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN combo_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'combo_group'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN combo_group uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'combo_quantity'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN combo_quantity numeric;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_items_combo ON invoice_items(combo_id);
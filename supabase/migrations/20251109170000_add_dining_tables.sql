@@ -0,0 +1,283 @@
+/*
+  # Add Dining Tables and Floor Plan
+
+  ## Overview
+  Replaces the free-text `kots.table_number` with real tables grouped into
+  sections and laid out on a floor-plan grid. A table's live status is derived
+  from its open KOTs:
+  - available    - no open KOTs
+  - occupied     - open KOTs, bill not printed yet
+  - bill_printed - every open KOT has had its bill printed
+  - cleaning     - KOTs settled, table waiting to be cleared
+
+  ## New Tables
+  1. `dining_sections` - Areas of the restaurant ("Indoor", "Terrace")
+     - `id` (uuid, primary key)
+     - `name` (text)
+     - `display_order` (integer)
+     - `is_active` (boolean)
+  2. `dining_tables` - Tables on the floor plan
+     - `id` (uuid, primary key)
+     - `section_id` (uuid) - Foreign key to dining_sections
+     - `name` (text) - Table label printed on KOTs, e.g. "T4"
+     - `seats` (integer)
+     - `pos_x` / `pos_y` (integer) - Cell on the section's floor-plan grid
+     - `shape` (text) - 'square' or 'round'
+     - `needs_cleaning` (boolean) - Set when the table is settled, cleared by staff
+     - `is_active` (boolean)
+
+  ## Changes
+  1. `kots.table_id` - Foreign key to dining_tables
+  2. `kots.bill_printed_at` (timestamptz) - When the bill was printed for the KOT
+  3. `kots.settled_at` (timestamptz) - When the KOT was settled and the table released
+  4. Existing dine-in `table_number` values are backfilled as tables in a
+     "Main" section and linked through `table_id`; dine-in KOTs with a blank
+     table number are reclassified as take away
+  5. `table_number_required_for_dine_in` now requires a `table_id`;
+     `table_number` is kept in sync with the table name for prints and search
+
+  ## Security
+  - RLS enabled on all new tables
+  - Authenticated users can view sections and tables
+  - Admins manage the floor plan; sales staff can update tables (cleaning status)
+*/
+
+-- ============================================================================
+-- SECTIONS AND TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dining_sections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  display_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS dining_tables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id uuid REFERENCES dining_sections(id) ON DELETE SET NULL,
+  name text NOT NULL UNIQUE,
+  seats integer NOT NULL DEFAULT 4 CHECK (seats > 0),
+  pos_x integer NOT NULL DEFAULT 0 CHECK (pos_x >= 0),
+  pos_y integer NOT NULL DEFAULT 0 CHECK (pos_y >= 0),
+  shape text NOT NULL DEFAULT 'square' CHECK (shape IN ('square', 'round')),
+  needs_cleaning boolean DEFAULT false,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dining_tables_section ON dining_tables(section_id);
+
+ALTER TABLE dining_sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dining_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view dining sections"
+  ON dining_sections FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create dining sections"
+  ON dining_sections FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update dining sections"
+  ON dining_sections FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete dining sections"
+  ON dining_sections FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view dining tables"
+  ON dining_tables FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create dining tables"
+  ON dining_tables FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins and sales staff can update dining tables"
+  ON dining_tables FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Admins can delete dining tables"
+  ON dining_tables FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_dining_sections') THEN
+    CREATE TRIGGER set_updated_at_dining_sections BEFORE UPDATE ON dining_sections
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_dining_tables') THEN
+    CREATE TRIGGER set_updated_at_dining_tables BEFORE UPDATE ON dining_tables
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'dining_tables'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE dining_tables;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TABLE COLUMNS ON KOTS
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'table_id'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN table_id uuid REFERENCES dining_tables(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'bill_printed_at'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN bill_printed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'settled_at'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN settled_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_kots_table_id ON kots(table_id);
+
+-- Backfill tables for existing dine-in KOTs. Old KOTs are treated as settled so
+-- the floor plan starts with every table available.
+DO $$
+DECLARE
+  v_section_id uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM kots WHERE order_type = 'dine_in' AND table_id IS NULL) THEN
+    SELECT id INTO v_section_id FROM dining_sections WHERE name = 'Main' LIMIT 1;
+
+    IF v_section_id IS NULL THEN
+      INSERT INTO dining_sections (name) VALUES ('Main') RETURNING id INTO v_section_id;
+    END IF;
+
+    INSERT INTO dining_tables (section_id, name, pos_x, pos_y)
+    SELECT
+      v_section_id,
+      t.table_number,
+      ((row_number() OVER (ORDER BY t.table_number)) - 1) % 8,
+      ((row_number() OVER (ORDER BY t.table_number)) - 1) / 8
+    FROM (
+      SELECT DISTINCT trim(table_number) AS table_number
+      FROM kots
+      WHERE order_type = 'dine_in' AND table_number IS NOT NULL AND trim(table_number) != ''
+    ) t
+    ON CONFLICT (name) DO NOTHING;
+
+    UPDATE kots
+    SET table_id = dining_tables.id
+    FROM dining_tables
+    WHERE kots.order_type = 'dine_in'
+    AND kots.table_id IS NULL
+    AND dining_tables.name = trim(kots.table_number);
+
+    UPDATE kots
+    SET settled_at = COALESCE(updated_at, now())
+    WHERE table_id IS NOT NULL AND settled_at IS NULL;
+  END IF;
+END $$;
+
+-- Dine-in KOTs that had a blank table number have nothing to link to
+UPDATE kots SET order_type = 'take_away'
+WHERE order_type = 'dine_in' AND table_id IS NULL;
+
+ALTER TABLE kots DROP CONSTRAINT IF EXISTS table_number_required_for_dine_in;
+ALTER TABLE kots ADD CONSTRAINT table_number_required_for_dine_in CHECK (
+  (order_type != 'dine_in') OR (order_type = 'dine_in' AND table_id IS NOT NULL)
+);
+
+-- Keep the printed table label in sync with the linked table
+CREATE OR REPLACE FUNCTION sync_kot_table_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.table_id IS NOT NULL THEN
+    SELECT name INTO NEW.table_number FROM dining_tables WHERE id = NEW.table_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_kot_table_number ON kots;
+CREATE TRIGGER sync_kot_table_number
+  BEFORE INSERT OR UPDATE OF table_id ON kots
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_kot_table_number();
@@ -0,0 +1,218 @@
+/*
+  # Add Table Sessions (Running Tabs)
+
+  ## Overview
+  A table session groups every KOT raised for one sitting at a dine-in table.
+  Instead of one invoice per KOT, the session produces a single consolidated
+  invoice when the guest asks for the bill. Once the session is settled no
+  further KOTs can be added to it.
+
+  ## New Tables
+  1. `table_sessions` - One sitting at a table
+     - `id` (uuid, primary key)
+     - `table_id` (uuid) - Foreign key to dining_tables
+     - `status` (text) - 'open', 'billed' or 'settled'
+     - `invoice_id` (uuid) - Consolidated invoice, created on the first bill
+     - `opened_by` (uuid) - Staff member who opened the session
+     - `opened_at` / `billed_at` / `settled_at` (timestamptz)
+
+  ## Changes
+  1. `kots.session_id` - Foreign key to table_sessions
+  2. Open dine-in KOTs without a session are grouped into one session per table
+
+  ## Rules
+  - A table has at most one unsettled session (partial unique index)
+  - KOTs cannot be added to, or their items changed in, a settled session
+  - Recipe stock for session KOTs is consumed when the bill is generated
+
+  ## Security
+  - RLS enabled on table_sessions
+  - Admins and sales staff can view, open, bill and settle sessions
+*/
+
+-- ============================================================================
+-- TABLE SESSIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS table_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_id uuid REFERENCES dining_tables(id) NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'billed', 'settled')),
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  opened_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  opened_at timestamptz DEFAULT now(),
+  billed_at timestamptz,
+  settled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_sessions_table ON table_sessions(table_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_table_sessions_one_unsettled
+  ON table_sessions(table_id) WHERE status != 'settled';
+
+ALTER TABLE table_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view table sessions"
+  ON table_sessions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Staff can open table sessions"
+  ON table_sessions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Staff can update table sessions"
+  ON table_sessions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Admins can delete table sessions"
+  ON table_sessions FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_table_sessions') THEN
+    CREATE TRIGGER set_updated_at_table_sessions BEFORE UPDATE ON table_sessions
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'table_sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE table_sessions;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- SESSION ON KOTS
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'session_id'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN session_id uuid REFERENCES table_sessions(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_kots_session_id ON kots(session_id);
+
+-- Group KOTs that are still running on a table into one session per table
+DO $$
+DECLARE
+  v_table record;
+  v_session_id uuid;
+BEGIN
+  FOR v_table IN
+    SELECT table_id, MIN(created_at) AS opened_at
+    FROM kots
+    WHERE table_id IS NOT NULL
+    AND session_id IS NULL
+    AND settled_at IS NULL
+    AND status != 'cancelled'
+    GROUP BY table_id
+  LOOP
+    INSERT INTO table_sessions (table_id, opened_at)
+    VALUES (v_table.table_id, v_table.opened_at)
+    RETURNING id INTO v_session_id;
+
+    UPDATE kots
+    SET session_id = v_session_id
+    WHERE table_id = v_table.table_id
+    AND session_id IS NULL
+    AND settled_at IS NULL
+    AND status != 'cancelled';
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- LOCK SETTLED SESSIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prevent_kot_on_settled_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.session_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM table_sessions
+    WHERE id = NEW.session_id AND status = 'settled'
+  ) THEN
+    RAISE EXCEPTION 'Table session is already settled';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_kot_on_settled_session ON kots;
+CREATE TRIGGER prevent_kot_on_settled_session
+  BEFORE INSERT OR UPDATE OF session_id ON kots
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_kot_on_settled_session();
+
+CREATE OR REPLACE FUNCTION prevent_kot_item_change_on_settled_session()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_kot_id uuid;
+BEGIN
+  v_kot_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.kot_id ELSE NEW.kot_id END;
+
+  IF EXISTS (
+    SELECT 1 FROM kots
+    JOIN table_sessions ON table_sessions.id = kots.session_id
+    WHERE kots.id = v_kot_id AND table_sessions.status = 'settled'
+  ) THEN
+    RAISE EXCEPTION 'Table session is already settled';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_kot_item_change_on_settled_session ON kot_items;
+CREATE TRIGGER prevent_kot_item_change_on_settled_session
+  BEFORE INSERT OR DELETE ON kot_items
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_kot_item_change_on_settled_session();
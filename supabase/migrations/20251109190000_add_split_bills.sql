@@ -0,0 +1,165 @@
+/*
+  # Add Split Bills
+
+  ## Overview
+  A bill generated from KOTs can be split by selected items, by seat or into N
+  equal parts. Each part becomes its own invoice with GST recalculated on its
+  share, and is paid through `invoice_payments` like any other invoice. The
+  original invoice is kept for the audit trail with status 'split'.
+
+  ## Changes
+  1. `invoices.status` - Adds 'split'
+  2. `invoices.split_from_invoice_id` - Part of a split, links back to the
+     original invoice (and through it to the KOTs / table session)
+  3. `invoices.split_label` (text) - e.g. "Seat 2" or "Part 1 of 3"
+  4. `kot_items.seat` / `invoice_items.seat` (integer) - Seat tag used to split
+     by seat; untagged items are shared across seats
+
+  ## Updated Functions
+  1. `sync_invoice_recipe_consumption(p_invoice_id)` - Split invoices release
+     their recipe stock; each part consumes its own share
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'split_from_invoice_id'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN split_from_invoice_id uuid REFERENCES invoices(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'split_label'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN split_label text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'seat'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN seat integer CHECK (seat > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'seat'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN seat integer CHECK (seat > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_split_from ON invoices(split_from_invoice_id);
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+  CHECK (status IN ('draft', 'sent', 'paid', 'cancelled', 'split'));
+
+-- ============================================================================
+-- RECIPE CONSUMPTION FOR SPLIT INVOICES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_invoice_recipe_consumption(p_invoice_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_invoice_number text;
+  v_invoice_status text;
+  v_line record;
+  v_before numeric;
+  v_after numeric;
+BEGIN
+  SELECT invoice_number, status INTO v_invoice_number, v_invoice_status
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.recipe_sync', 'on', true);
+
+  FOR v_line IN
+    WITH line_items AS (
+      -- Whole items
+      SELECT ii.menu_item_id, ii.quantity
+      FROM invoice_items ii
+      WHERE ii.invoice_id = p_invoice_id
+      AND jsonb_array_length(COALESCE(ii.portions, '[]'::jsonb)) = 0
+
+      UNION ALL
+
+      -- Portions of composite items, scaled by their fraction
+      SELECT p.menu_item_id, ii.quantity * p.fraction
+      FROM invoice_items ii
+      CROSS JOIN LATERAL jsonb_to_recordset(ii.portions) AS p(menu_item_id uuid, fraction numeric)
+      WHERE ii.invoice_id = p_invoice_id
+      AND jsonb_array_length(COALESCE(ii.portions, '[]'::jsonb)) > 0
+    ),
+    required AS (
+      SELECT r.product_id, SUM(r.quantity * li.quantity) AS quantity
+      FROM line_items li
+      JOIN menu_item_recipes r ON r.menu_item_id = li.menu_item_id
+      -- Split invoices hand their consumption over to their parts
+      WHERE v_invoice_status NOT IN ('cancelled', 'split')
+      GROUP BY r.product_id
+    ),
+    consumed AS (
+      SELECT product_id, -SUM(quantity_change) AS quantity
+      FROM inventory_history
+      WHERE reference_type = 'invoice'
+      AND reference_id = p_invoice_id
+      AND activity_type = 'sale'
+      GROUP BY product_id
+    )
+    SELECT
+      COALESCE(required.product_id, consumed.product_id) AS product_id,
+      COALESCE(required.quantity, 0) - COALESCE(consumed.quantity, 0) AS delta
+    FROM required
+    FULL OUTER JOIN consumed ON consumed.product_id = required.product_id
+  LOOP
+    IF v_line.delta = 0 THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE products
+    SET quantity = quantity - v_line.delta
+    WHERE id = v_line.product_id
+    RETURNING quantity + v_line.delta, quantity INTO v_before, v_after;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO inventory_history (
+      product_id,
+      activity_type,
+      quantity_before,
+      quantity_change,
+      quantity_after,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) VALUES (
+      v_line.product_id,
+      'sale',
+      v_before,
+      -v_line.delta,
+      v_after,
+      'invoice',
+      p_invoice_id,
+      CASE
+        WHEN v_line.delta > 0 THEN 'Recipe consumption for invoice ' || v_invoice_number
+        ELSE 'Recipe consumption reversed for invoice ' || v_invoice_number
+      END,
+      auth.uid()
+    );
+
+    PERFORM update_daily_snapshot(v_line.product_id, 'sale', v_line.delta);
+  END LOOP;
+
+  PERFORM set_config('app.recipe_sync', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,337 @@
+/*
+  # Add Table Transfers and Merges
+
+  ## Overview
+  Guests changing tables, or two tables joining, used to mean deleting and
+  re-entering KOTs. These functions move a whole KOT, or selected KOT items, to
+  another table, and merge one table's running orders into another's bill.
+  Every operation is recorded in `kot_transfers`.
+
+  ## New Tables
+  1. `kot_transfers` - Audit trail of moves and merges
+     - `id` (uuid, primary key)
+     - `action` (text) - 'move_kot', 'move_items' or 'merge_tables'
+     - `kot_id` (uuid) - KOT that was moved (or created for moved items)
+     - `source_kot_id` (uuid) - KOT the items were taken from
+     - `kot_item_ids` (uuid[]) - Items moved by 'move_items'
+     - `from_table_id` / `to_table_id` (uuid)
+     - `from_session_id` / `to_session_id` (uuid)
+     - `reason` (text)
+     - `created_by` (uuid)
+     - `created_at` (timestamptz)
+
+  ## New Functions
+  1. `move_kot(p_kot_id, p_to_table_id, p_reason)`
+  2. `move_kot_items(p_item_ids, p_to_table_id, p_reason)` - Items are moved onto
+     a new KOT at the target table
+  3. `merge_tables(p_from_table_id, p_to_table_id, p_reason)` - All running KOTs
+     of the source table join the target table's session
+  Each returns the affected session ids so the client can regenerate their
+  draft invoices.
+
+  ## Rules
+  - Only running dine-in KOTs can be moved; settled sessions are locked
+  - Sessions whose bill was split or has payments cannot be changed
+  - A session left without KOTs is closed and its draft invoice cancelled
+    (which returns its recipe stock)
+  - Moved KOTs lose their bill-printed mark so the target bill is printed again
+
+  ## Security
+  - RLS enabled on kot_transfers; staff can view and record transfers
+  - Transfer records cannot be edited or deleted
+  - Only staff can move KOTs and merge tables; the session helpers are
+    internal and cannot be called directly
+*/
+
+-- ============================================================================
+-- AUDIT TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS kot_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  action text NOT NULL CHECK (action IN ('move_kot', 'move_items', 'merge_tables')),
+  kot_id uuid REFERENCES kots(id) ON DELETE SET NULL,
+  source_kot_id uuid REFERENCES kots(id) ON DELETE SET NULL,
+  kot_item_ids uuid[] DEFAULT '{}',
+  from_table_id uuid REFERENCES dining_tables(id) ON DELETE SET NULL,
+  to_table_id uuid REFERENCES dining_tables(id) ON DELETE SET NULL,
+  from_session_id uuid REFERENCES table_sessions(id) ON DELETE SET NULL,
+  to_session_id uuid REFERENCES table_sessions(id) ON DELETE SET NULL,
+  reason text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kot_transfers_kot ON kot_transfers(kot_id);
+CREATE INDEX IF NOT EXISTS idx_kot_transfers_created_at ON kot_transfers(created_at);
+
+ALTER TABLE kot_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view kot transfers"
+  ON kot_transfers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Staff can record kot transfers"
+  ON kot_transfers FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION assert_can_transfer_kots()
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to move orders between tables';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION assert_can_transfer_kots() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_or_open_table_session(p_table_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_session_id uuid;
+BEGIN
+  SELECT id INTO v_session_id
+  FROM table_sessions
+  WHERE table_id = p_table_id AND status != 'settled';
+
+  IF v_session_id IS NULL THEN
+    INSERT INTO table_sessions (table_id, opened_by)
+    VALUES (p_table_id, auth.uid())
+    RETURNING id INTO v_session_id;
+  END IF;
+
+  RETURN v_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_or_open_table_session(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION assert_table_session_editable(p_session_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_session record;
+BEGIN
+  SELECT ts.status, i.status AS invoice_status, i.amount_paid
+  INTO v_session
+  FROM table_sessions ts
+  LEFT JOIN invoices i ON i.id = ts.invoice_id
+  WHERE ts.id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table session not found';
+  END IF;
+
+  IF v_session.status = 'settled' THEN
+    RAISE EXCEPTION 'Table session is already settled';
+  END IF;
+
+  IF v_session.invoice_status = 'split' OR COALESCE(v_session.amount_paid, 0) > 0 THEN
+    RAISE EXCEPTION 'The bill for this table has been split or part paid';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION assert_table_session_editable(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Closes a session that has no running KOTs left and cancels its draft invoice
+CREATE OR REPLACE FUNCTION close_empty_table_session(p_session_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_invoice_id uuid;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM kots
+    WHERE session_id = p_session_id AND status != 'cancelled'
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT invoice_id INTO v_invoice_id FROM table_sessions WHERE id = p_session_id;
+
+  UPDATE table_sessions
+  SET status = 'settled', settled_at = now()
+  WHERE id = p_session_id;
+
+  IF v_invoice_id IS NOT NULL THEN
+    UPDATE invoices SET status = 'cancelled' WHERE id = v_invoice_id;
+    PERFORM sync_invoice_recipe_consumption(v_invoice_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION close_empty_table_session(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- MOVE A KOT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION move_kot(p_kot_id uuid, p_to_table_id uuid, p_reason text DEFAULT NULL)
+RETURNS uuid[] AS $$
+DECLARE
+  v_kot record;
+  v_to_session_id uuid;
+BEGIN
+  PERFORM assert_can_transfer_kots();
+
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id;
+
+  IF NOT FOUND OR v_kot.session_id IS NULL THEN
+    RAISE EXCEPTION 'Only running dine-in KOTs can be moved';
+  END IF;
+
+  IF v_kot.table_id = p_to_table_id THEN
+    RAISE EXCEPTION 'KOT is already on this table';
+  END IF;
+
+  PERFORM assert_table_session_editable(v_kot.session_id);
+  v_to_session_id := get_or_open_table_session(p_to_table_id);
+  PERFORM assert_table_session_editable(v_to_session_id);
+
+  UPDATE kots
+  SET table_id = p_to_table_id,
+      session_id = v_to_session_id,
+      invoice_id = NULL,
+      bill_printed_at = NULL
+  WHERE id = p_kot_id;
+
+  INSERT INTO kot_transfers (
+    action, kot_id, from_table_id, to_table_id, from_session_id, to_session_id, reason, created_by
+  ) VALUES (
+    'move_kot', p_kot_id, v_kot.table_id, p_to_table_id, v_kot.session_id, v_to_session_id, p_reason, auth.uid()
+  );
+
+  PERFORM close_empty_table_session(v_kot.session_id);
+
+  RETURN ARRAY[v_kot.session_id, v_to_session_id];
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- MOVE SELECTED KOT ITEMS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION move_kot_items(p_item_ids uuid[], p_to_table_id uuid, p_reason text DEFAULT NULL)
+RETURNS uuid[] AS $$
+DECLARE
+  v_kot record;
+  v_to_session_id uuid;
+  v_new_kot_id uuid;
+BEGIN
+  PERFORM assert_can_transfer_kots();
+
+  IF (SELECT COUNT(DISTINCT kot_id) FROM kot_items WHERE id = ANY(p_item_ids)) != 1 THEN
+    RAISE EXCEPTION 'Items must be moved from a single KOT';
+  END IF;
+
+  SELECT kots.* INTO v_kot
+  FROM kots
+  WHERE id = (SELECT kot_id FROM kot_items WHERE id = p_item_ids[1]);
+
+  IF v_kot.session_id IS NULL THEN
+    RAISE EXCEPTION 'Only running dine-in KOTs can be moved';
+  END IF;
+
+  IF v_kot.table_id = p_to_table_id THEN
+    RAISE EXCEPTION 'Items are already on this table';
+  END IF;
+
+  PERFORM assert_table_session_editable(v_kot.session_id);
+  v_to_session_id := get_or_open_table_session(p_to_table_id);
+  PERFORM assert_table_session_editable(v_to_session_id);
+
+  INSERT INTO kots (
+    kot_number, order_type, table_id, session_id, customer_name, customer_phone,
+    status, notes, user_id
+  ) VALUES (
+    generate_kot_number(), 'dine_in', p_to_table_id, v_to_session_id, v_kot.customer_name, v_kot.customer_phone,
+    v_kot.status, 'Moved from ' || v_kot.kot_number, COALESCE(auth.uid(), v_kot.user_id)
+  )
+  RETURNING id INTO v_new_kot_id;
+
+  UPDATE kot_items SET kot_id = v_new_kot_id WHERE id = ANY(p_item_ids);
+
+  -- A KOT emptied by the move stays on record as cancelled
+  IF NOT EXISTS (SELECT 1 FROM kot_items WHERE kot_id = v_kot.id) THEN
+    UPDATE kots
+    SET status = 'cancelled',
+        notes = COALESCE(notes || E'\n', '') || 'All items moved'
+    WHERE id = v_kot.id;
+  END IF;
+
+  INSERT INTO kot_transfers (
+    action, kot_id, source_kot_id, kot_item_ids, from_table_id, to_table_id,
+    from_session_id, to_session_id, reason, created_by
+  ) VALUES (
+    'move_items', v_new_kot_id, v_kot.id, p_item_ids, v_kot.table_id, p_to_table_id,
+    v_kot.session_id, v_to_session_id, p_reason, auth.uid()
+  );
+
+  PERFORM close_empty_table_session(v_kot.session_id);
+
+  RETURN ARRAY[v_kot.session_id, v_to_session_id];
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- MERGE TABLES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_tables(p_from_table_id uuid, p_to_table_id uuid, p_reason text DEFAULT NULL)
+RETURNS uuid[] AS $$
+DECLARE
+  v_from_session_id uuid;
+  v_to_session_id uuid;
+BEGIN
+  PERFORM assert_can_transfer_kots();
+
+  IF p_from_table_id = p_to_table_id THEN
+    RAISE EXCEPTION 'Choose two different tables to merge';
+  END IF;
+
+  SELECT id INTO v_from_session_id
+  FROM table_sessions
+  WHERE table_id = p_from_table_id AND status != 'settled';
+
+  IF v_from_session_id IS NULL THEN
+    RAISE EXCEPTION 'Table has no running orders to merge';
+  END IF;
+
+  PERFORM assert_table_session_editable(v_from_session_id);
+  v_to_session_id := get_or_open_table_session(p_to_table_id);
+  PERFORM assert_table_session_editable(v_to_session_id);
+
+  UPDATE kots
+  SET table_id = p_to_table_id,
+      session_id = v_to_session_id,
+      invoice_id = NULL,
+      bill_printed_at = NULL
+  WHERE session_id = v_from_session_id;
+
+  INSERT INTO kot_transfers (
+    action, from_table_id, to_table_id, from_session_id, to_session_id, reason, created_by
+  ) VALUES (
+    'merge_tables', p_from_table_id, p_to_table_id, v_from_session_id, v_to_session_id, p_reason, auth.uid()
+  );
+
+  PERFORM close_empty_table_session(v_from_session_id);
+
+  RETURN ARRAY[v_from_session_id, v_to_session_id];
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
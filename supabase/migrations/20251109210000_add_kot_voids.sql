@@ -0,0 +1,445 @@
+/*
+  # Add KOT Voids with Reason Codes and Manager Approval
+
+  ## Overview
+  KOTs used to be hard-deleted, or set to 'cancelled' with no record of why.
+  Items and whole tickets are now voided through functions that require a
+  reason code, ask for an admin PIN once the kitchen has started on the order,
+  and keep a permanent record of the value lost. The linked invoice is adjusted
+  line by line rather than regenerated, so the change stays traceable.
+
+  ## New Tables
+  1. `kot_voids` - One row per voided KOT item
+     - `id` (uuid, primary key)
+     - `scope` (text) - 'item' for a single item, 'ticket' for a whole KOT
+     - `kot_id` / `kot_item_id` (uuid) - Voided KOT and item (item rows may be removed)
+     - `kot_number`, `menu_item_id`, `menu_item_name`, `variant_name` - Snapshot of the item
+     - `quantity`, `unit_price`, `amount` (numeric) - Value lost, before tax
+     - `reason_code` (text) - customer_changed_mind, kitchen_error, wastage,
+       wrong_order, duplicate or other
+     - `notes` (text) - Required when the reason is 'other'
+     - `prep_started` (boolean) - Kitchen had started on the item
+     - `voided_by` / `approved_by` (uuid) - Staff member and approving admin
+     - `invoice_id` (uuid) and `invoice_adjustment` (numeric) - Reduction made
+       to the linked invoice total, including tax
+     - `created_at` (timestamptz)
+  2. `approval_pins` - Hashed approval PIN per admin
+
+  ## New Functions
+  1. `set_approval_pin(p_pin)` - Admins set their own 4 to 8 digit PIN
+  2. `void_kot_item(p_kot_item_id, p_quantity, p_reason_code, p_notes, p_pin)`
+  3. `void_kot(p_kot_id, p_reason_code, p_notes, p_pin)`
+
+  ## Rules
+  - A PIN is needed when the KOT or item is no longer 'pending'
+  - Items voided in full are removed from the KOT; a KOT left empty is cancelled
+  - Invoices that are split or part paid cannot be adjusted
+  - Voiding reopens a billed table session so the bill is printed again
+
+  ## Security
+  - RLS enabled on kot_voids; admins and accountants can view voids
+  - Voids are only recorded through the void functions and cannot be edited
+  - approval_pins has no policies, so PIN hashes are never readable by clients
+  - The invoice adjustment and shared void checks are internal helpers and
+    cannot be called directly
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================================================
+-- VOID RECORDS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS kot_voids (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL CHECK (scope IN ('item', 'ticket')),
+  kot_id uuid REFERENCES kots(id) ON DELETE SET NULL,
+  kot_item_id uuid REFERENCES kot_items(id) ON DELETE SET NULL,
+  kot_number text,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE SET NULL,
+  menu_item_name text NOT NULL,
+  variant_name text,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  unit_price numeric NOT NULL DEFAULT 0,
+  amount numeric NOT NULL DEFAULT 0,
+  reason_code text NOT NULL CHECK (reason_code IN (
+    'customer_changed_mind', 'kitchen_error', 'wastage', 'wrong_order', 'duplicate', 'other'
+  )),
+  notes text,
+  prep_started boolean NOT NULL DEFAULT false,
+  voided_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  approved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  invoice_adjustment numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kot_voids_kot ON kot_voids(kot_id);
+CREATE INDEX IF NOT EXISTS idx_kot_voids_created_at ON kot_voids(created_at);
+CREATE INDEX IF NOT EXISTS idx_kot_voids_voided_by ON kot_voids(voided_by);
+
+ALTER TABLE kot_voids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and accountants can view kot voids"
+  ON kot_voids FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+-- ============================================================================
+-- APPROVAL PINS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS approval_pins (
+  profile_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- No policies: PINs are only set and checked by the functions below
+ALTER TABLE approval_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION set_approval_pin(p_pin text)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can set an approval PIN';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO approval_pins (profile_id, pin_hash)
+  VALUES (auth.uid(), extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (profile_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash,
+      updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Returns the admin whose PIN matches
+CREATE OR REPLACE FUNCTION verify_approval_pin(p_pin text)
+RETURNS uuid AS $$
+DECLARE
+  v_admin_id uuid;
+BEGIN
+  IF p_pin IS NULL OR p_pin = '' THEN
+    RAISE EXCEPTION 'Manager PIN is required once preparation has started';
+  END IF;
+
+  SELECT approval_pins.profile_id INTO v_admin_id
+  FROM approval_pins
+  JOIN profiles ON profiles.id = approval_pins.profile_id
+  WHERE profiles.role = 'admin'
+  AND approval_pins.pin_hash = extensions.crypt(p_pin, approval_pins.pin_hash)
+  LIMIT 1;
+
+  IF v_admin_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid manager PIN';
+  END IF;
+
+  RETURN v_admin_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION verify_approval_pin(text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- INVOICE ADJUSTMENT
+-- ============================================================================
+
+-- Reduces the invoice line that was generated from a KOT item and recomputes
+-- the invoice totals. Returns how much the invoice total went down.
+CREATE OR REPLACE FUNCTION adjust_invoice_for_void(p_invoice_id uuid, p_item kot_items, p_quantity numeric)
+RETURNS numeric AS $$
+DECLARE
+  v_invoice record;
+  v_line_id uuid;
+  v_group uuid;
+  v_total numeric;
+BEGIN
+  SELECT status, amount_paid, total, is_interstate INTO v_invoice
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR v_invoice.status = 'cancelled' THEN
+    RETURN 0;
+  END IF;
+
+  IF v_invoice.status = 'split' OR COALESCE(v_invoice.amount_paid, 0) > 0 THEN
+    RAISE EXCEPTION 'The bill has been split or part paid and cannot be adjusted';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_item.components, '[]'::jsonb)) > 0 THEN
+    -- Combo lines are stored as one row per component sharing a combo_group
+    SELECT combo_group INTO v_group
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+    AND combo_group IS NOT NULL
+    AND combo_id IS NOT DISTINCT FROM p_item.combo_id
+    AND combo_name IS NOT DISTINCT FROM p_item.menu_item_name
+    AND seat IS NOT DISTINCT FROM p_item.seat
+    AND combo_quantity >= p_quantity
+    ORDER BY combo_quantity DESC
+    LIMIT 1;
+
+    IF v_group IS NULL THEN
+      RETURN 0;
+    END IF;
+
+    UPDATE invoice_items
+    SET quantity = quantity - quantity / combo_quantity * p_quantity,
+        combo_quantity = combo_quantity - p_quantity
+    WHERE combo_group = v_group;
+  ELSE
+    SELECT id INTO v_line_id
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+    AND combo_group IS NULL
+    AND menu_item_id IS NOT DISTINCT FROM p_item.menu_item_id
+    AND variant_id IS NOT DISTINCT FROM p_item.variant_id
+    AND seat IS NOT DISTINCT FROM p_item.seat
+    AND unit_price = ROUND(p_item.unit_price, 2)
+    AND modifiers = COALESCE(p_item.modifiers, '[]'::jsonb)
+    AND portions = COALESCE(p_item.portions, '[]'::jsonb)
+    AND quantity >= p_quantity
+    ORDER BY quantity DESC
+    LIMIT 1;
+
+    IF v_line_id IS NULL THEN
+      RETURN 0;
+    END IF;
+
+    UPDATE invoice_items
+    SET quantity = quantity - p_quantity
+    WHERE id = v_line_id;
+  END IF;
+
+  DELETE FROM invoice_items
+  WHERE invoice_id = p_invoice_id
+  AND quantity <= 0;
+
+  UPDATE invoice_items
+  SET total = ROUND(quantity * unit_price, 2),
+      cgst_amount = CASE WHEN v_invoice.is_interstate THEN 0 ELSE ROUND(quantity * unit_price, 2) * gst_rate / 200 END,
+      sgst_amount = CASE WHEN v_invoice.is_interstate THEN 0 ELSE ROUND(quantity * unit_price, 2) * gst_rate / 200 END,
+      igst_amount = CASE WHEN v_invoice.is_interstate THEN ROUND(quantity * unit_price, 2) * gst_rate / 100 ELSE 0 END
+  WHERE id = v_line_id OR combo_group = v_group;
+
+  UPDATE invoices
+  SET subtotal = totals.subtotal,
+      cgst = totals.cgst,
+      sgst = totals.sgst,
+      igst = totals.igst,
+      tax = totals.cgst + totals.sgst + totals.igst,
+      total = totals.subtotal + totals.cgst + totals.sgst + totals.igst,
+      status = CASE WHEN totals.line_count = 0 THEN 'cancelled' ELSE invoices.status END
+  FROM (
+    SELECT
+      COUNT(*) AS line_count,
+      COALESCE(SUM(total), 0) AS subtotal,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+  ) AS totals
+  WHERE invoices.id = p_invoice_id
+  RETURNING invoices.total INTO v_total;
+
+  PERFORM sync_invoice_recipe_consumption(p_invoice_id);
+
+  RETURN v_invoice.total - v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION adjust_invoice_for_void(uuid, kot_items, numeric) FROM PUBLIC, anon, authenticated;
+
+-- Checks shared by item and ticket voids
+CREATE OR REPLACE FUNCTION assert_kot_voidable(p_kot kots, p_reason_code text, p_notes text)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to void orders';
+  END IF;
+
+  IF p_kot.status = 'cancelled' THEN
+    RAISE EXCEPTION 'KOT is already cancelled';
+  END IF;
+
+  IF p_kot.settled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'KOT has already been settled';
+  END IF;
+
+  IF p_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A void reason is required';
+  END IF;
+
+  IF p_reason_code = 'other' AND COALESCE(TRIM(p_notes), '') = '' THEN
+    RAISE EXCEPTION 'Describe the reason for the void';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION assert_kot_voidable(kots, text, text) FROM PUBLIC, anon, authenticated;
+
+-- A voided KOT can no longer be on a printed bill
+CREATE OR REPLACE FUNCTION reopen_voided_session(p_session_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_session_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE table_sessions
+  SET status = 'open', billed_at = NULL
+  WHERE id = p_session_id AND status = 'billed';
+
+  PERFORM close_empty_table_session(p_session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION reopen_voided_session(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- VOID AN ITEM
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION void_kot_item(
+  p_kot_item_id uuid,
+  p_quantity numeric,
+  p_reason_code text,
+  p_notes text DEFAULT NULL,
+  p_pin text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_item kot_items;
+  v_kot kots;
+  v_prep_started boolean;
+  v_approved_by uuid;
+  v_adjustment numeric := 0;
+  v_void_id uuid;
+BEGIN
+  SELECT * INTO v_item FROM kot_items WHERE id = p_kot_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT item not found';
+  END IF;
+
+  SELECT * INTO v_kot FROM kots WHERE id = v_item.kot_id;
+  PERFORM assert_kot_voidable(v_kot, p_reason_code, p_notes);
+
+  IF p_quantity IS NULL OR p_quantity <= 0 OR p_quantity > v_item.quantity THEN
+    RAISE EXCEPTION 'Void quantity must be between 0 and %', v_item.quantity;
+  END IF;
+
+  v_prep_started := v_item.status != 'pending' OR v_kot.status != 'pending';
+  IF v_prep_started THEN
+    v_approved_by := verify_approval_pin(p_pin);
+  END IF;
+
+  IF v_kot.invoice_id IS NOT NULL THEN
+    v_adjustment := adjust_invoice_for_void(v_kot.invoice_id, v_item, p_quantity);
+  END IF;
+
+  INSERT INTO kot_voids (
+    scope, kot_id, kot_item_id, kot_number, menu_item_id, menu_item_name, variant_name,
+    quantity, unit_price, amount, reason_code, notes, prep_started,
+    voided_by, approved_by, invoice_id, invoice_adjustment
+  ) VALUES (
+    'item', v_kot.id, v_item.id, v_kot.kot_number, v_item.menu_item_id, v_item.menu_item_name, v_item.variant_name,
+    p_quantity, v_item.unit_price, ROUND(p_quantity * v_item.unit_price, 2), p_reason_code, p_notes, v_prep_started,
+    auth.uid(), v_approved_by, v_kot.invoice_id, v_adjustment
+  )
+  RETURNING id INTO v_void_id;
+
+  IF p_quantity = v_item.quantity THEN
+    DELETE FROM kot_items WHERE id = v_item.id;
+  ELSE
+    UPDATE kot_items SET quantity = quantity - p_quantity WHERE id = v_item.id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM kot_items WHERE kot_id = v_kot.id) THEN
+    UPDATE kots
+    SET status = 'cancelled',
+        notes = COALESCE(notes || E'\n', '') || 'All items voided'
+    WHERE id = v_kot.id;
+  END IF;
+
+  PERFORM reopen_voided_session(v_kot.session_id);
+
+  RETURN v_void_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- VOID A TICKET
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION void_kot(
+  p_kot_id uuid,
+  p_reason_code text,
+  p_notes text DEFAULT NULL,
+  p_pin text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_kot kots;
+  v_item kot_items;
+  v_prep_started boolean;
+  v_approved_by uuid;
+  v_adjustment numeric;
+BEGIN
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT not found';
+  END IF;
+
+  PERFORM assert_kot_voidable(v_kot, p_reason_code, p_notes);
+
+  v_prep_started := v_kot.status != 'pending' OR EXISTS (
+    SELECT 1 FROM kot_items WHERE kot_id = p_kot_id AND status != 'pending'
+  );
+  IF v_prep_started THEN
+    v_approved_by := verify_approval_pin(p_pin);
+  END IF;
+
+  -- Items stay on the cancelled KOT so the ticket can still be reprinted
+  FOR v_item IN SELECT * FROM kot_items WHERE kot_id = p_kot_id LOOP
+    v_adjustment := 0;
+    IF v_kot.invoice_id IS NOT NULL THEN
+      v_adjustment := adjust_invoice_for_void(v_kot.invoice_id, v_item, v_item.quantity);
+    END IF;
+
+    INSERT INTO kot_voids (
+      scope, kot_id, kot_item_id, kot_number, menu_item_id, menu_item_name, variant_name,
+      quantity, unit_price, amount, reason_code, notes, prep_started,
+      voided_by, approved_by, invoice_id, invoice_adjustment
+    ) VALUES (
+      'ticket', v_kot.id, v_item.id, v_kot.kot_number, v_item.menu_item_id, v_item.menu_item_name, v_item.variant_name,
+      v_item.quantity, v_item.unit_price, ROUND(v_item.quantity * v_item.unit_price, 2), p_reason_code, p_notes, v_prep_started,
+      auth.uid(), v_approved_by, v_kot.invoice_id, v_adjustment
+    );
+  END LOOP;
+
+  UPDATE kots SET status = 'cancelled' WHERE id = p_kot_id;
+
+  PERFORM reopen_voided_session(v_kot.session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
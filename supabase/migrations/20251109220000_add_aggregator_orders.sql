@@ -0,0 +1,370 @@
+/*
+  # Add Delivery Aggregator Order Ingestion
+
+  ## Overview
+  Zomato and Swiggy orders were retyped into the KOT screen by hand. The
+  `aggregator-webhook` edge function now receives order webhooks, maps the
+  platform's item IDs to our menu items and creates the KOT and invoice through
+  `ingest_aggregator_order`. Kitchen status changes are pushed back to the
+  platform by the `aggregator-status` edge function.
+
+  ## New Tables
+  1. `aggregator_integrations` - One row per delivery platform
+     - `platform` (text, unique) - 'zomato' or 'swiggy'
+     - `display_name` (text) - Stored on KOTs as the delivery platform
+     - `webhook_secret` (text) - Shared secret used to sign incoming webhooks
+     - `outbound_url` / `outbound_api_key` (text) - Where status updates are sent
+     - `kot_user_id` (uuid) - Staff account that owns aggregator KOTs
+     - `is_active` (boolean)
+  2. `aggregator_item_mappings` - Platform item ID to menu item (and variant)
+  3. `aggregator_orders` - Every received webhook, keyed by platform order ID
+     - `status` (text) - 'created' or 'failed'
+     - `kot_id` / `invoice_id` (uuid) - Records created for the order
+     - `payload` (jsonb) - Raw webhook body
+     - `error` (text) - Why ingestion failed, e.g. unmapped items
+     - `last_pushed_status`, `last_pushed_at`, `push_error` - Outbound status sync
+
+  ## New Functions
+  1. `ingest_aggregator_order(...)` - Creates the delivery KOT and its draft
+     invoice in one transaction. Only the edge functions (service role) can call it.
+
+  ## Rules
+  - An order is ingested once per platform order ID
+  - Orders with unmapped items are rejected and recorded as failed
+  - Item prices come from the platform payload, including add-ons
+
+  ## Security
+  - RLS enabled on all tables
+  - Admins manage integrations and item mappings
+  - Admins and sales staff can view aggregator orders; only the edge functions write them
+*/
+
+-- ============================================================================
+-- INTEGRATIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS aggregator_integrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  platform text UNIQUE NOT NULL CHECK (platform IN ('zomato', 'swiggy')),
+  display_name text NOT NULL,
+  webhook_secret text,
+  outbound_url text,
+  outbound_api_key text,
+  kot_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  is_active boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE aggregator_integrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view aggregator integrations"
+  ON aggregator_integrations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can create aggregator integrations"
+  ON aggregator_integrations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update aggregator integrations"
+  ON aggregator_integrations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete aggregator integrations"
+  ON aggregator_integrations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_aggregator_integrations') THEN
+    CREATE TRIGGER set_updated_at_aggregator_integrations BEFORE UPDATE ON aggregator_integrations
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+INSERT INTO aggregator_integrations (platform, display_name)
+VALUES ('zomato', 'Zomato'), ('swiggy', 'Swiggy')
+ON CONFLICT (platform) DO NOTHING;
+
+-- ============================================================================
+-- ITEM MAPPINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS aggregator_item_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  platform text NOT NULL REFERENCES aggregator_integrations(platform) ON DELETE CASCADE,
+  external_item_id text NOT NULL,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  variant_id uuid REFERENCES menu_item_variants(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (platform, external_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_aggregator_item_mappings_menu_item ON aggregator_item_mappings(menu_item_id);
+
+ALTER TABLE aggregator_item_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view aggregator item mappings"
+  ON aggregator_item_mappings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create aggregator item mappings"
+  ON aggregator_item_mappings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update aggregator item mappings"
+  ON aggregator_item_mappings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete aggregator item mappings"
+  ON aggregator_item_mappings FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- RECEIVED ORDERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS aggregator_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  platform text NOT NULL,
+  external_order_id text NOT NULL,
+  status text NOT NULL CHECK (status IN ('created', 'failed')),
+  kot_id uuid REFERENCES kots(id) ON DELETE SET NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  error text,
+  last_pushed_status text,
+  last_pushed_at timestamptz,
+  push_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (platform, external_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_aggregator_orders_kot ON aggregator_orders(kot_id);
+CREATE INDEX IF NOT EXISTS idx_aggregator_orders_created_at ON aggregator_orders(created_at);
+
+ALTER TABLE aggregator_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view aggregator orders"
+  ON aggregator_orders FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_aggregator_orders') THEN
+    CREATE TRIGGER set_updated_at_aggregator_orders BEFORE UPDATE ON aggregator_orders
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- INGESTION
+-- ============================================================================
+
+-- p_items: [{ external_item_id, name, quantity, unit_price, modifiers, notes }]
+CREATE OR REPLACE FUNCTION ingest_aggregator_order(
+  p_platform text,
+  p_external_order_id text,
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text,
+  p_items jsonb,
+  p_payload jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_integration aggregator_integrations;
+  v_unmapped text;
+  v_kot_id uuid;
+  v_kot_number text;
+  v_invoice_id uuid;
+BEGIN
+  SELECT * INTO v_integration
+  FROM aggregator_integrations
+  WHERE platform = p_platform AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '% integration is not enabled', p_platform;
+  END IF;
+
+  IF v_integration.kot_user_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the staff account that owns % orders', v_integration.display_name;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Order has no items';
+  END IF;
+
+  SELECT string_agg((item->>'name') || ' [' || (item->>'external_item_id') || ']', ', ') INTO v_unmapped
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE NOT EXISTS (
+    SELECT 1 FROM aggregator_item_mappings
+    WHERE aggregator_item_mappings.platform = p_platform
+    AND aggregator_item_mappings.external_item_id = item->>'external_item_id'
+  );
+
+  IF v_unmapped IS NOT NULL THEN
+    RAISE EXCEPTION 'Unmapped items: %', v_unmapped;
+  END IF;
+
+  INSERT INTO kots (
+    kot_number, order_type, customer_name, customer_phone,
+    delivery_platform, delivery_order_id, status, notes, user_id
+  ) VALUES (
+    generate_kot_number(), 'delivery', p_customer_name, p_customer_phone,
+    v_integration.display_name, p_external_order_id, 'pending', p_notes, v_integration.kot_user_id
+  )
+  RETURNING id, kot_number INTO v_kot_id, v_kot_number;
+
+  INSERT INTO kot_items (
+    kot_id, menu_item_id, menu_item_name, variant_id, variant_name, modifiers,
+    quantity, unit_price, notes, station_id
+  )
+  SELECT
+    v_kot_id, menu_items.id, menu_items.name, menu_item_variants.id, menu_item_variants.name,
+    COALESCE(item->'modifiers', '[]'::jsonb),
+    (item->>'quantity')::numeric, (item->>'unit_price')::numeric, item->>'notes',
+    COALESCE(menu_items.station_id, menu_categories.station_id)
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN aggregator_item_mappings
+    ON aggregator_item_mappings.platform = p_platform
+    AND aggregator_item_mappings.external_item_id = item->>'external_item_id'
+  JOIN menu_items ON menu_items.id = aggregator_item_mappings.menu_item_id
+  LEFT JOIN menu_categories ON menu_categories.id = menu_items.category_id
+  LEFT JOIN menu_item_variants ON menu_item_variants.id = aggregator_item_mappings.variant_id;
+
+  -- Delivery orders are intra-state supplies
+  INSERT INTO invoices (
+    invoice_number, customer_id, is_interstate, place_of_supply, due_date,
+    status, payment_status, subtotal, cgst, sgst, igst, tax, total, created_by
+  ) VALUES (
+    'INV-' || to_char(now(), 'YYYYMM') || '-' || RIGHT((EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    NULL, false, (SELECT state FROM company_profile LIMIT 1), CURRENT_DATE,
+    'draft', 'unpaid', 0, 0, 0, 0, 0, 0, v_integration.kot_user_id
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (
+    invoice_id, product_id, menu_item_id, product_name, menu_item_name, variant_id, variant_name,
+    modifiers, quantity, unit_price, total, hsn_code, gst_rate, cgst_amount, sgst_amount, igst_amount
+  )
+  SELECT
+    v_invoice_id, NULL, kot_items.menu_item_id, NULL, kot_items.menu_item_name, kot_items.variant_id, kot_items.variant_name,
+    kot_items.modifiers, kot_items.quantity, kot_items.unit_price,
+    ROUND(kot_items.quantity * kot_items.unit_price, 2),
+    COALESCE(menu_items.hsn_code, ''),
+    COALESCE(menu_items.gst_rate, 5),
+    ROUND(kot_items.quantity * kot_items.unit_price, 2) * COALESCE(menu_items.gst_rate, 5) / 200,
+    ROUND(kot_items.quantity * kot_items.unit_price, 2) * COALESCE(menu_items.gst_rate, 5) / 200,
+    0
+  FROM kot_items
+  LEFT JOIN menu_items ON menu_items.id = kot_items.menu_item_id
+  WHERE kot_items.kot_id = v_kot_id;
+
+  UPDATE invoices
+  SET subtotal = totals.subtotal,
+      cgst = totals.cgst,
+      sgst = totals.sgst,
+      igst = 0,
+      tax = totals.cgst + totals.sgst,
+      total = totals.subtotal + totals.cgst + totals.sgst
+  FROM (
+    SELECT
+      COALESCE(SUM(total), 0) AS subtotal,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst
+    FROM invoice_items
+    WHERE invoice_id = v_invoice_id
+  ) AS totals
+  WHERE invoices.id = v_invoice_id;
+
+  UPDATE kots SET invoice_id = v_invoice_id WHERE id = v_kot_id;
+
+  PERFORM sync_invoice_recipe_consumption(v_invoice_id);
+
+  INSERT INTO aggregator_orders (platform, external_order_id, status, kot_id, invoice_id, payload)
+  VALUES (p_platform, p_external_order_id, 'created', v_kot_id, v_invoice_id, COALESCE(p_payload, '{}'::jsonb))
+  ON CONFLICT (platform, external_order_id) DO UPDATE
+  SET status = 'created',
+      kot_id = EXCLUDED.kot_id,
+      invoice_id = EXCLUDED.invoice_id,
+      payload = EXCLUDED.payload,
+      error = NULL;
+
+  RETURN jsonb_build_object('kot_id', v_kot_id, 'kot_number', v_kot_number, 'invoice_id', v_invoice_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION ingest_aggregator_order(text, text, text, text, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,172 @@
+/*
+  # Add Channel Price Lists
+
+  ## Overview
+  Delivery-app prices are usually higher than dine-in prices to cover platform
+  commission, but `menu_items.price` holds a single number. A price list sets
+  prices for one sales channel - an order type, optionally narrowed to a
+  delivery platform - either item by item or as a percentage markup on the
+  base menu price.
+
+  ## New Tables
+  1. `price_lists` - One list per channel
+     - `id` (uuid, primary key)
+     - `name` (text)
+     - `order_type` (text) - 'dine_in', 'take_away' or 'delivery'
+     - `delivery_platform` (text) - e.g. 'Zomato'; NULL applies to the whole order type
+     - `markup_percent` (numeric) - Added to base prices without an explicit list price
+     - `is_active` (boolean)
+  2. `price_list_items` - Explicit prices
+     - `price_list_id` (uuid) - Foreign key to price_lists
+     - `menu_item_id` (uuid) - Foreign key to menu_items
+     - `variant_id` (uuid) - Foreign key to menu_item_variants, NULL for the base item
+     - `price` (numeric)
+
+  ## Rules
+  - At most one active list per order type and platform
+  - A platform list wins over the general delivery list
+  - Without a matching list, items sell at their base menu price
+
+  ## Security
+  - RLS enabled on both tables
+  - All authenticated users can view price lists
+  - Admins and inventory staff (who manage the menu) can manage them
+*/
+
+-- ============================================================================
+-- PRICE LISTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS price_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  order_type text NOT NULL CHECK (order_type IN ('dine_in', 'take_away', 'delivery')),
+  delivery_platform text,
+  markup_percent numeric NOT NULL DEFAULT 0 CHECK (markup_percent >= -100),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT platform_only_for_delivery CHECK (delivery_platform IS NULL OR order_type = 'delivery')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_lists_one_active_per_channel
+  ON price_lists(order_type, LOWER(TRIM(COALESCE(delivery_platform, ''))))
+  WHERE is_active = true;
+
+ALTER TABLE price_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view price lists"
+  ON price_lists FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Menu managers can create price lists"
+  ON price_lists FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can update price lists"
+  ON price_lists FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can delete price lists"
+  ON price_lists FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_price_lists') THEN
+    CREATE TRIGGER set_updated_at_price_lists BEFORE UPDATE ON price_lists
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- EXPLICIT PRICES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS price_list_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_list_id uuid REFERENCES price_lists(id) ON DELETE CASCADE NOT NULL,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  variant_id uuid REFERENCES menu_item_variants(id) ON DELETE CASCADE,
+  price numeric NOT NULL CHECK (price >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_list_items_unique
+  ON price_list_items(price_list_id, menu_item_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE price_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view price list items"
+  ON price_list_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Menu managers can create price list items"
+  ON price_list_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can update price list items"
+  ON price_list_items FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can delete price list items"
+  ON price_list_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
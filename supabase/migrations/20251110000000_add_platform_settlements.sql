@@ -0,0 +1,465 @@
+/*
+  # Add Delivery Platform Settlements
+
+  ## Overview
+  Delivery platforms pay out the order value less their commission, GST on
+  that commission and TCS. Commission rates are configured per platform, the
+  platform's settlement CSV is imported and each line is matched to our
+  invoice through `kots.delivery_order_id`. Reconciliation flags missing
+  payouts, short payments and cancelled orders the platform still charged
+  for, and posts the net receipt to `invoice_payments`.
+
+  ## New Tables
+  1. `delivery_platform_settings` - Deduction rates per `kots.delivery_platform`
+     - `commission_percent` (numeric) - On the invoice subtotal
+     - `gst_on_commission_percent` (numeric) - On the commission, default 18%
+     - `tcs_percent` (numeric) - On the invoice subtotal, default 1%
+     - `tolerance` (numeric) - Rupee difference ignored before a line is short paid
+  2. `platform_settlements` - One imported settlement file
+     - `delivery_platform` (text)
+     - `file_name` (text)
+     - `period_start` / `period_end` (date) - Order dates the file covers,
+       used to find orders with no payout
+  3. `platform_settlement_lines` - One line of the settlement file
+     - Platform figures: `gross_amount`, `commission`, `gst_on_commission`,
+       `tcs`, `other_deductions`, `net_payout`, `utr`, `settlement_date`
+     - `kot_id` / `invoice_id` - Matched order
+     - `expected_net` (numeric) - Net payout expected from our rates
+     - `status` (text) - 'matched', 'short_paid', 'cancelled_charged',
+       'unmatched' or 'posted'
+     - `payment_id` (uuid) - Invoice payment created when posted
+
+  ## New Functions
+  1. `import_platform_settlement(...)` - Stores a settlement and matches its lines
+  2. `get_missing_settlement_payouts(p_settlement_id)` - Billed orders in the
+     period with no line in any settlement for the platform
+  3. `post_settlement_lines(p_line_ids)` - Records the net receipt and the
+     platform deductions as separate invoice payments, so the payments still
+     add up to the invoice's amount paid, and books both in transactions
+
+  ## Security
+  - RLS enabled on all tables; only admins and accountants can view or manage them
+*/
+
+-- ============================================================================
+-- COMMISSION SETTINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS delivery_platform_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_platform text NOT NULL,
+  commission_percent numeric NOT NULL DEFAULT 0 CHECK (commission_percent >= 0),
+  gst_on_commission_percent numeric NOT NULL DEFAULT 18 CHECK (gst_on_commission_percent >= 0),
+  tcs_percent numeric NOT NULL DEFAULT 1 CHECK (tcs_percent >= 0),
+  tolerance numeric NOT NULL DEFAULT 1 CHECK (tolerance >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_delivery_platform_settings_platform
+  ON delivery_platform_settings(LOWER(TRIM(delivery_platform)));
+
+ALTER TABLE delivery_platform_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Accountants and admins can view platform settings"
+  ON delivery_platform_settings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+CREATE POLICY "Accountants and admins can create platform settings"
+  ON delivery_platform_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+CREATE POLICY "Accountants and admins can update platform settings"
+  ON delivery_platform_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+CREATE POLICY "Accountants and admins can delete platform settings"
+  ON delivery_platform_settings FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_delivery_platform_settings') THEN
+    CREATE TRIGGER set_updated_at_delivery_platform_settings BEFORE UPDATE ON delivery_platform_settings
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- SETTLEMENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS platform_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_platform text NOT NULL,
+  file_name text,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  imported_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT settlement_period_order CHECK (period_end >= period_start)
+);
+
+CREATE TABLE IF NOT EXISTS platform_settlement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  settlement_id uuid REFERENCES platform_settlements(id) ON DELETE CASCADE NOT NULL,
+  delivery_order_id text NOT NULL,
+  order_status text,
+  gross_amount numeric NOT NULL DEFAULT 0,
+  commission numeric NOT NULL DEFAULT 0,
+  gst_on_commission numeric NOT NULL DEFAULT 0,
+  tcs numeric NOT NULL DEFAULT 0,
+  other_deductions numeric NOT NULL DEFAULT 0,
+  net_payout numeric NOT NULL DEFAULT 0,
+  utr text,
+  settlement_date date,
+  kot_id uuid REFERENCES kots(id) ON DELETE SET NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  expected_net numeric,
+  status text NOT NULL DEFAULT 'unmatched'
+    CHECK (status IN ('matched', 'short_paid', 'cancelled_charged', 'unmatched', 'posted')),
+  payment_id uuid REFERENCES invoice_payments(id) ON DELETE SET NULL,
+  posted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_settlement_lines_settlement ON platform_settlement_lines(settlement_id);
+CREATE INDEX IF NOT EXISTS idx_platform_settlement_lines_order ON platform_settlement_lines(delivery_order_id);
+CREATE INDEX IF NOT EXISTS idx_kots_delivery_order_id ON kots(delivery_order_id);
+
+ALTER TABLE platform_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_settlement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Accountants and admins can view settlements"
+  ON platform_settlements FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+CREATE POLICY "Accountants and admins can delete settlements"
+  ON platform_settlements FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+CREATE POLICY "Accountants and admins can view settlement lines"
+  ON platform_settlement_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'accountant')
+    )
+  );
+
+-- Settlements are written only through import_platform_settlement and
+-- post_settlement_lines, so there are no insert or update policies.
+
+-- ============================================================================
+-- IMPORT AND MATCHING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION assert_settlement_access()
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to reconcile platform settlements';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_lines: [{ delivery_order_id, order_status, gross_amount, commission,
+--   gst_on_commission, tcs, other_deductions, net_payout, utr, settlement_date }]
+CREATE OR REPLACE FUNCTION import_platform_settlement(
+  p_platform text,
+  p_file_name text,
+  p_period_start date,
+  p_period_end date,
+  p_lines jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_settlement_id uuid;
+  v_settings delivery_platform_settings;
+  v_line jsonb;
+  v_kot kots;
+  v_invoice invoices;
+  v_order_id text;
+  v_order_status text;
+  v_commission numeric;
+  v_gst numeric;
+  v_tcs numeric;
+  v_other numeric;
+  v_net numeric;
+  v_expected numeric;
+  v_status text;
+BEGIN
+  PERFORM assert_settlement_access();
+
+  IF COALESCE(TRIM(p_platform), '') = '' THEN
+    RAISE EXCEPTION 'Choose the delivery platform for this settlement';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'The settlement file has no order lines';
+  END IF;
+
+  SELECT * INTO v_settings
+  FROM delivery_platform_settings
+  WHERE LOWER(TRIM(delivery_platform)) = LOWER(TRIM(p_platform));
+
+  INSERT INTO platform_settlements (delivery_platform, file_name, period_start, period_end, imported_by)
+  VALUES (TRIM(p_platform), p_file_name, p_period_start, p_period_end, auth.uid())
+  RETURNING id INTO v_settlement_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_order_id := TRIM(v_line->>'delivery_order_id');
+    v_order_status := NULLIF(TRIM(v_line->>'order_status'), '');
+    v_commission := COALESCE((v_line->>'commission')::numeric, 0);
+    v_gst := COALESCE((v_line->>'gst_on_commission')::numeric, 0);
+    v_tcs := COALESCE((v_line->>'tcs')::numeric, 0);
+    v_other := COALESCE((v_line->>'other_deductions')::numeric, 0);
+    v_net := COALESCE((v_line->>'net_payout')::numeric, 0);
+    v_expected := NULL;
+
+    SELECT * INTO v_kot
+    FROM kots
+    WHERE delivery_order_id = v_order_id
+    AND LOWER(TRIM(delivery_platform)) = LOWER(TRIM(p_platform))
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_kot := NULL;
+      v_invoice := NULL;
+    ELSE
+      SELECT * INTO v_invoice FROM invoices WHERE id = v_kot.invoice_id;
+    END IF;
+
+    IF (v_kot.status = 'cancelled' OR v_invoice.status = 'cancelled' OR v_order_status ILIKE 'cancel%')
+      AND (v_commission + v_gst + v_tcs + v_other > 0 OR v_net < 0) THEN
+      v_status := 'cancelled_charged';
+    ELSIF v_invoice.id IS NULL THEN
+      v_status := 'unmatched';
+    ELSE
+      v_expected := ROUND(
+        v_invoice.total
+        - v_invoice.subtotal * COALESCE(v_settings.commission_percent, 0) / 100
+          * (1 + COALESCE(v_settings.gst_on_commission_percent, 18) / 100)
+        - v_invoice.subtotal * COALESCE(v_settings.tcs_percent, 1) / 100,
+        2
+      );
+      v_status := CASE
+        WHEN v_net < v_expected - COALESCE(v_settings.tolerance, 1) THEN 'short_paid'
+        ELSE 'matched'
+      END;
+    END IF;
+
+    INSERT INTO platform_settlement_lines (
+      settlement_id, delivery_order_id, order_status, gross_amount, commission, gst_on_commission,
+      tcs, other_deductions, net_payout, utr, settlement_date, kot_id, invoice_id, expected_net, status
+    ) VALUES (
+      v_settlement_id, v_order_id, v_order_status, COALESCE((v_line->>'gross_amount')::numeric, 0), v_commission, v_gst,
+      v_tcs, v_other, v_net, NULLIF(TRIM(v_line->>'utr'), ''), NULLIF(v_line->>'settlement_date', '')::date,
+      v_kot.id, v_invoice.id, v_expected, v_status
+    );
+  END LOOP;
+
+  RETURN v_settlement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_missing_settlement_payouts(p_settlement_id uuid)
+RETURNS TABLE (
+  kot_id uuid,
+  kot_number text,
+  delivery_order_id text,
+  invoice_id uuid,
+  invoice_number text,
+  total numeric,
+  ordered_at timestamptz
+) AS $$
+DECLARE
+  v_settlement platform_settlements;
+BEGIN
+  PERFORM assert_settlement_access();
+
+  SELECT * INTO v_settlement FROM platform_settlements WHERE id = p_settlement_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Settlement not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT k.id, k.kot_number, k.delivery_order_id, i.id, i.invoice_number, i.total, k.created_at
+  FROM kots k
+  JOIN invoices i ON i.id = k.invoice_id
+  WHERE k.order_type = 'delivery'
+  AND k.status != 'cancelled'
+  AND i.status NOT IN ('cancelled', 'split')
+  AND LOWER(TRIM(k.delivery_platform)) = LOWER(v_settlement.delivery_platform)
+  AND k.created_at >= v_settlement.period_start
+  AND k.created_at < v_settlement.period_end + 1
+  AND NOT EXISTS (
+    SELECT 1
+    FROM platform_settlement_lines l
+    JOIN platform_settlements s ON s.id = l.settlement_id
+    WHERE l.delivery_order_id = k.delivery_order_id
+    AND LOWER(s.delivery_platform) = LOWER(v_settlement.delivery_platform)
+  )
+  ORDER BY k.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- POSTING
+-- ============================================================================
+
+-- The net payout is the cash received. The platform's deductions settle the
+-- rest of the invoice and are booked as an expense, so a short payment only
+-- leaves a balance when the platform's gross is below the invoice total.
+CREATE OR REPLACE FUNCTION post_settlement_lines(p_line_ids uuid[])
+RETURNS integer AS $$
+DECLARE
+  v_line platform_settlement_lines;
+  v_settlement platform_settlements;
+  v_invoice invoices;
+  v_payment_id uuid;
+  v_deductions numeric;
+  v_withheld numeric;
+  v_amount_paid numeric;
+  v_payment_date date;
+  v_posted integer := 0;
+BEGIN
+  PERFORM assert_settlement_access();
+
+  FOR v_line IN
+    SELECT * FROM platform_settlement_lines WHERE id = ANY(p_line_ids) FOR UPDATE
+  LOOP
+    IF v_line.status NOT IN ('matched', 'short_paid') THEN
+      RAISE EXCEPTION 'Order % cannot be posted while it is %', v_line.delivery_order_id, v_line.status;
+    END IF;
+
+    IF v_line.net_payout <= 0 THEN
+      RAISE EXCEPTION 'Order % has no payout to post', v_line.delivery_order_id;
+    END IF;
+
+    SELECT * INTO v_settlement FROM platform_settlements WHERE id = v_line.settlement_id;
+    SELECT * INTO v_invoice FROM invoices WHERE id = v_line.invoice_id FOR UPDATE;
+
+    IF NOT FOUND OR v_invoice.status IN ('cancelled', 'split') THEN
+      RAISE EXCEPTION 'The invoice for order % can no longer be paid', v_line.delivery_order_id;
+    END IF;
+
+    IF v_invoice.payment_status = 'paid' THEN
+      RAISE EXCEPTION 'Invoice % is already paid', v_invoice.invoice_number;
+    END IF;
+
+    v_deductions := v_line.commission + v_line.gst_on_commission + v_line.tcs + v_line.other_deductions;
+    -- Deductions settle the invoice up to its total; the payout is recorded as received
+    v_withheld := GREATEST(0, LEAST(v_deductions, v_invoice.total - COALESCE(v_invoice.amount_paid, 0) - v_line.net_payout));
+    v_amount_paid := COALESCE(v_invoice.amount_paid, 0) + v_line.net_payout + v_withheld;
+    v_payment_date := COALESCE(v_line.settlement_date, CURRENT_DATE);
+
+    INSERT INTO invoice_payments (invoice_id, amount, payment_date, reference_number, notes, created_by)
+    VALUES (
+      v_invoice.id, v_line.net_payout, v_payment_date, v_line.utr,
+      format('%s payout for order %s (commission %s, GST %s, TCS %s, other %s)',
+        v_settlement.delivery_platform, v_line.delivery_order_id,
+        v_line.commission, v_line.gst_on_commission, v_line.tcs, v_line.other_deductions),
+      auth.uid()
+    )
+    RETURNING id INTO v_payment_id;
+
+    IF v_withheld > 0 THEN
+      INSERT INTO invoice_payments (invoice_id, amount, payment_date, reference_number, notes, created_by)
+      VALUES (
+        v_invoice.id, v_withheld, v_payment_date, v_line.utr,
+        format('%s commission, GST and TCS withheld on order %s', v_settlement.delivery_platform, v_line.delivery_order_id),
+        auth.uid()
+      );
+    END IF;
+
+    UPDATE invoices
+    SET amount_paid = v_amount_paid,
+        payment_status = CASE WHEN v_amount_paid >= total THEN 'paid' ELSE 'partial' END,
+        status = CASE WHEN v_amount_paid >= total THEN 'paid' ELSE 'sent' END,
+        paid_date = CASE WHEN v_amount_paid >= total THEN v_payment_date ELSE NULL END
+    WHERE id = v_invoice.id;
+
+    INSERT INTO transactions (type, category, amount, description, transaction_date, reference_number, invoice_id, created_by)
+    VALUES (
+      'income', 'Delivery Platform Payout', v_line.net_payout,
+      format('%s payout for Invoice %s', v_settlement.delivery_platform, v_invoice.invoice_number),
+      v_payment_date, v_line.utr, v_invoice.id, auth.uid()
+    );
+
+    IF v_deductions > 0 THEN
+      INSERT INTO transactions (type, category, amount, description, transaction_date, reference_number, invoice_id, created_by)
+      VALUES (
+        'expense', 'Delivery Platform Commission', v_deductions,
+        format('%s commission, GST and TCS on Invoice %s', v_settlement.delivery_platform, v_invoice.invoice_number),
+        v_payment_date, v_line.utr, v_invoice.id, auth.uid()
+      );
+    END IF;
+
+    UPDATE platform_settlement_lines
+    SET status = 'posted', payment_id = v_payment_id, posted_at = now()
+    WHERE id = v_line.id;
+
+    v_posted := v_posted + 1;
+  END LOOP;
+
+  RETURN v_posted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,326 @@
+/*
+  # Add Table QR Self-Ordering
+
+  ## Overview
+  Every table gets a QR code that opens a public ordering page. Guests see the
+  active menu at dine-in prices, build a cart with variants and modifiers and
+  submit it as a pending KOT for that table. Guest KOTs wait for a member of
+  staff to confirm them before they are shown in the kitchen.
+
+  ## Changes
+  1. `dining_tables.qr_token` (text) - Unguessable token printed in the table's
+     QR code; regenerating it invalidates the old code
+  2. `kots.source` (text) - 'staff' or 'qr'
+  3. `kots.awaiting_confirmation` (boolean) - Guest order not yet confirmed
+  4. `kots.confirmed_by` / `kots.confirmed_at` - Staff member who confirmed it
+
+  ## New Functions
+  1. `get_channel_price(...)` / `apply_price_markup(...)` - SQL versions of the
+     price list rules in src/lib/pricing.ts
+  2. `get_table_menu(p_token)` - Table name and the orderable menu
+  3. `submit_table_order(p_token, p_customer_name, p_notes, p_items)` - Prices
+     the cart on the server and creates the pending KOT
+
+  ## Security
+  - Guests never read or write tables directly; both public functions are
+    SECURITY DEFINER, validate the token and are granted to `anon`
+  - A table can have at most 3 guest orders waiting for confirmation
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'dining_tables' AND column_name = 'qr_token'
+  ) THEN
+    ALTER TABLE dining_tables ADD COLUMN qr_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', '');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN source text NOT NULL DEFAULT 'staff' CHECK (source IN ('staff', 'qr'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'awaiting_confirmation'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN awaiting_confirmation boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'confirmed_by'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN confirmed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'confirmed_at'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN confirmed_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_kots_awaiting_confirmation ON kots(table_id) WHERE awaiting_confirmation = true;
+
+-- ============================================================================
+-- CHANNEL PRICES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION apply_price_markup(p_list price_lists, p_amount numeric)
+RETURNS numeric AS $$
+BEGIN
+  IF p_list.id IS NULL OR COALESCE(p_list.markup_percent, 0) = 0 THEN
+    RETURN p_amount;
+  END IF;
+  RETURN ROUND(p_amount * (1 + p_list.markup_percent / 100), 2);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION get_channel_price(
+  p_list price_lists,
+  p_menu_item_id uuid,
+  p_variant_id uuid,
+  p_base_price numeric
+)
+RETURNS numeric AS $$
+DECLARE
+  v_price numeric;
+BEGIN
+  SELECT price INTO v_price
+  FROM price_list_items
+  WHERE price_list_id = p_list.id
+  AND menu_item_id = p_menu_item_id
+  AND variant_id IS NOT DISTINCT FROM p_variant_id;
+
+  RETURN COALESCE(v_price, apply_price_markup(p_list, p_base_price));
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- PUBLIC MENU
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_table_menu(p_token text)
+RETURNS jsonb AS $$
+DECLARE
+  v_table dining_tables;
+  v_list price_lists;
+BEGIN
+  SELECT * INTO v_table FROM dining_tables WHERE qr_token = p_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This table QR code is no longer valid. Please ask our staff for help.';
+  END IF;
+
+  SELECT * INTO v_list
+  FROM price_lists
+  WHERE order_type = 'dine_in' AND delivery_platform IS NULL AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'table_name', v_table.name,
+    'company_name', (SELECT company_name FROM company_profile LIMIT 1),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name) ORDER BY c.display_order, c.name)
+      FROM menu_categories c
+      WHERE c.is_active = true
+    ), '[]'::jsonb),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'category_id', m.category_id,
+        'name', m.name,
+        'description', m.description,
+        'image_url', m.image_url,
+        'is_vegetarian', m.is_vegetarian,
+        'price', get_channel_price(v_list, m.id, NULL, m.price),
+        'variants', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', v.id,
+            'name', v.name,
+            'price', get_channel_price(v_list, m.id, v.id, v.price)
+          ) ORDER BY v.display_order)
+          FROM menu_item_variants v
+          WHERE v.menu_item_id = m.id AND v.is_active = true
+        ), '[]'::jsonb),
+        'modifier_groups', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', g.id,
+            'name', g.name,
+            'min_select', g.min_select,
+            'max_select', g.max_select,
+            'modifiers', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object(
+                'id', md.id,
+                'name', md.name,
+                'price_delta', apply_price_markup(v_list, md.price_delta)
+              ) ORDER BY md.display_order)
+              FROM modifiers md
+              WHERE md.group_id = g.id AND md.is_active = true
+            ), '[]'::jsonb)
+          ) ORDER BY link.display_order)
+          FROM menu_item_modifier_groups link
+          JOIN modifier_groups g ON g.id = link.group_id
+          WHERE link.menu_item_id = m.id AND g.is_active = true
+        ), '[]'::jsonb)
+      ) ORDER BY m.display_order, m.name)
+      FROM menu_items m
+      LEFT JOIN menu_categories c ON c.id = m.category_id
+      WHERE m.is_active = true
+      AND m.is_available = true
+      AND COALESCE(c.is_active, true) = true
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GUEST ORDERS
+-- ============================================================================
+
+-- p_items: [{ menu_item_id, variant_id, modifier_ids: [uuid], quantity, notes }]
+CREATE OR REPLACE FUNCTION submit_table_order(
+  p_token text,
+  p_customer_name text,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_table dining_tables;
+  v_list price_lists;
+  v_owner uuid;
+  v_kot_id uuid;
+  v_kot_number text;
+  v_item jsonb;
+  v_menu_item menu_items;
+  v_variant menu_item_variants;
+  v_group modifier_groups;
+  v_chosen_ids uuid[];
+  v_group_count integer;
+  v_modifiers jsonb;
+  v_quantity integer;
+  v_unit_price numeric;
+BEGIN
+  SELECT * INTO v_table FROM dining_tables WHERE qr_token = p_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This table QR code is no longer valid. Please ask our staff for help.';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM kots WHERE table_id = v_table.id AND awaiting_confirmation = true) >= 3 THEN
+    RAISE EXCEPTION 'Your earlier orders are still waiting for our staff. Please wait a moment.';
+  END IF;
+
+  -- The waiter who opened the table owns the order; otherwise the first admin
+  SELECT opened_by INTO v_owner
+  FROM table_sessions
+  WHERE table_id = v_table.id AND status != 'settled' AND opened_by IS NOT NULL;
+
+  IF v_owner IS NULL THEN
+    SELECT id INTO v_owner FROM profiles WHERE role = 'admin' ORDER BY created_at LIMIT 1;
+  END IF;
+
+  SELECT * INTO v_list
+  FROM price_lists
+  WHERE order_type = 'dine_in' AND delivery_platform IS NULL AND is_active = true;
+
+  INSERT INTO kots (
+    kot_number, order_type, table_id, table_number, customer_name, notes,
+    status, source, awaiting_confirmation, user_id
+  ) VALUES (
+    generate_kot_number(), 'dine_in', v_table.id, v_table.name, NULLIF(TRIM(p_customer_name), ''), NULLIF(TRIM(p_notes), ''),
+    'pending', 'qr', true, v_owner
+  )
+  RETURNING id, kot_number INTO v_kot_id, v_kot_number;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity NOT BETWEEN 1 AND 20 THEN
+      RAISE EXCEPTION 'Quantities must be between 1 and 20';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid AND is_active = true AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'An item in your cart is no longer available';
+    END IF;
+
+    v_variant := NULL;
+    IF NULLIF(v_item->>'variant_id', '') IS NOT NULL THEN
+      SELECT * INTO v_variant
+      FROM menu_item_variants
+      WHERE id = (v_item->>'variant_id')::uuid AND menu_item_id = v_menu_item.id AND is_active = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The size chosen for % is no longer available', v_menu_item.name;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM menu_item_variants WHERE menu_item_id = v_menu_item.id AND is_active = true) THEN
+      RAISE EXCEPTION 'Please choose a size for %', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}') INTO v_chosen_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    v_modifiers := '[]'::jsonb;
+    FOR v_group IN
+      SELECT g.*
+      FROM menu_item_modifier_groups link
+      JOIN modifier_groups g ON g.id = link.group_id
+      WHERE link.menu_item_id = v_menu_item.id AND g.is_active = true
+      ORDER BY link.display_order
+    LOOP
+      SELECT COUNT(*) INTO v_group_count
+      FROM modifiers
+      WHERE group_id = v_group.id AND is_active = true AND id = ANY(v_chosen_ids);
+
+      IF v_group_count < v_group.min_select OR v_group_count > v_group.max_select THEN
+        RAISE EXCEPTION 'Please check your % choices for %', v_group.name, v_menu_item.name;
+      END IF;
+
+      SELECT v_modifiers || COALESCE(jsonb_agg(jsonb_build_object(
+        'id', md.id,
+        'group_id', v_group.id,
+        'group_name', v_group.name,
+        'name', md.name,
+        'price_delta', apply_price_markup(v_list, md.price_delta)
+      ) ORDER BY md.display_order), '[]'::jsonb) INTO v_modifiers
+      FROM modifiers md
+      WHERE md.group_id = v_group.id AND md.is_active = true AND md.id = ANY(v_chosen_ids);
+    END LOOP;
+
+    IF jsonb_array_length(v_modifiers) != cardinality(v_chosen_ids) THEN
+      RAISE EXCEPTION 'An option chosen for % is no longer available', v_menu_item.name;
+    END IF;
+
+    v_unit_price := get_channel_price(v_list, v_menu_item.id, v_variant.id, COALESCE(v_variant.price, v_menu_item.price))
+      + COALESCE((SELECT SUM((modifier->>'price_delta')::numeric) FROM jsonb_array_elements(v_modifiers) AS modifier), 0);
+
+    INSERT INTO kot_items (
+      kot_id, menu_item_id, menu_item_name, variant_id, variant_name, modifiers,
+      quantity, unit_price, notes, station_id
+    ) VALUES (
+      v_kot_id, v_menu_item.id,
+      CASE WHEN v_variant.id IS NULL THEN v_menu_item.name ELSE v_menu_item.name || ' (' || v_variant.name || ')' END,
+      v_variant.id, v_variant.name, v_modifiers,
+      v_quantity, v_unit_price, NULLIF(TRIM(v_item->>'notes'), ''),
+      COALESCE(v_menu_item.station_id, (SELECT station_id FROM menu_categories WHERE id = v_menu_item.category_id))
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('kot_number', v_kot_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_table_menu(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_table_order(text, text, text, jsonb) TO anon, authenticated;
@@ -0,0 +1,149 @@
+/*
+  # Add Customer Order Tracking
+
+  ## Overview
+  Takeaway and delivery customers receive a signed link over WhatsApp that
+  opens a public page showing their KOT moving through pending, preparing,
+  ready and served, with an estimated ready time.
+
+  ## New Tables
+  1. `order_tracking_secrets` - Single row holding the HMAC key used to sign
+     tracking links
+
+  ## New Functions
+  1. `sign_order_tracking(p_kot_id)` - Signature for a KOT's tracking link
+  2. `get_order_tracking(p_kot_id, p_signature)` - Public order status
+
+  ## Estimated Ready Time
+  - A KOT takes as long as its slowest item's `preparation_time` (15 minutes
+    when not set)
+  - While pending, the preparation time of every open KOT placed before it is
+    added, shared across the active kitchen stations
+  - The estimate never moves earlier than placed time plus preparation time
+
+  ## Security
+  - order_tracking_secrets has no policies, so the key is never readable by
+    clients
+  - Signing is limited to staff and the service role; anyone holding a valid
+    link can read that one order's status and items, nothing else
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS order_tracking_secrets (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  secret text NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO order_tracking_secrets (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- No policies: the key is only used by the functions below
+ALTER TABLE order_tracking_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION order_tracking_signature(p_kot_id uuid)
+RETURNS text AS $$
+  SELECT encode(extensions.hmac(p_kot_id::text, secret, 'sha256'), 'hex')
+  FROM order_tracking_secrets;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION order_tracking_signature(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sign_order_tracking(p_kot_id uuid)
+RETURNS text AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'Only staff can share order tracking links';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM kots WHERE id = p_kot_id) THEN
+    RAISE EXCEPTION 'KOT not found';
+  END IF;
+
+  RETURN order_tracking_signature(p_kot_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION sign_order_tracking(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sign_order_tracking(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION get_order_tracking(p_kot_id uuid, p_signature text)
+RETURNS jsonb AS $$
+DECLARE
+  v_kot kots;
+  v_prep_minutes integer;
+  v_queue_minutes integer := 0;
+  v_stations integer;
+  v_ready_at timestamptz;
+BEGIN
+  IF p_signature IS NULL OR p_signature IS DISTINCT FROM order_tracking_signature(p_kot_id) THEN
+    RAISE EXCEPTION 'This tracking link is not valid';
+  END IF;
+
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT COALESCE(MAX(COALESCE(m.preparation_time, 15)), 15) INTO v_prep_minutes
+  FROM kot_items ki
+  LEFT JOIN menu_items m ON m.id = ki.menu_item_id
+  WHERE ki.kot_id = v_kot.id;
+
+  IF v_kot.status = 'pending' THEN
+    SELECT GREATEST(COUNT(*), 1) INTO v_stations FROM kitchen_stations WHERE is_active = true;
+
+    SELECT COALESCE(SUM(ahead.prep_minutes), 0) INTO v_queue_minutes
+    FROM (
+      SELECT COALESCE(MAX(COALESCE(m.preparation_time, 15)), 15) AS prep_minutes
+      FROM kots k
+      LEFT JOIN kot_items ki ON ki.kot_id = k.id
+      LEFT JOIN menu_items m ON m.id = ki.menu_item_id
+      WHERE k.status IN ('pending', 'preparing')
+      AND k.awaiting_confirmation = false
+      AND k.created_at < v_kot.created_at
+      GROUP BY k.id
+    ) ahead;
+
+    v_queue_minutes := CEIL(v_queue_minutes::numeric / v_stations);
+    v_ready_at := GREATEST(
+      v_kot.created_at + make_interval(mins => v_prep_minutes),
+      now() + make_interval(mins => v_queue_minutes + v_prep_minutes)
+    );
+  ELSIF v_kot.status = 'preparing' THEN
+    v_ready_at := v_kot.created_at + make_interval(mins => v_prep_minutes);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'kot_number', v_kot.kot_number,
+    'order_type', v_kot.order_type,
+    'status', CASE WHEN v_kot.awaiting_confirmation THEN 'pending' ELSE v_kot.status END,
+    'customer_name', v_kot.customer_name,
+    'created_at', v_kot.created_at,
+    'estimated_ready_at', v_ready_at,
+    'orders_ahead', CASE WHEN v_kot.status = 'pending' THEN (
+      SELECT COUNT(*) FROM kots
+      WHERE status IN ('pending', 'preparing')
+      AND awaiting_confirmation = false
+      AND created_at < v_kot.created_at
+    ) END,
+    'company_name', (SELECT company_name FROM company_profile LIMIT 1),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', ki.menu_item_name,
+        'quantity', ki.quantity,
+        'status', ki.status
+      ) ORDER BY ki.menu_item_name)
+      FROM kot_items ki
+      WHERE ki.kot_id = v_kot.id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_order_tracking(uuid, text) TO anon, authenticated;
@@ -0,0 +1,269 @@
+/*
+  # Add Reservations and Waitlist
+
+  ## Overview
+  Front-of-house staff record table bookings and a walk-in waitlist. Guests
+  get WhatsApp confirmations, reminders and "your table is ready" messages.
+  Seating a booking or a waiting party opens the table session with the
+  guest's name and phone so new KOTs for the table start pre-filled.
+
+  ## New Tables
+  1. `reservations` - Table bookings
+     - `customer_name` / `customer_phone` (text)
+     - `party_size` (integer)
+     - `reserved_at` (timestamptz) - Start of the booked time slot
+     - `duration_minutes` (integer) - Length of the slot, 90 by default
+     - `table_id` (uuid) - Assigned table, optional until seating
+     - `status` (text) - 'booked', 'seated', 'cancelled' or 'no_show'
+     - `session_id` (uuid) - Table session opened when the party was seated
+     - `confirmation_sent_at` / `reminder_sent_at` (timestamptz)
+  2. `waitlist_entries` - Walk-in parties waiting for a table
+     - `customer_name` / `customer_phone` / `party_size`
+     - `quoted_wait_minutes` (integer) - Wait time quoted to the guest
+     - `status` (text) - 'waiting', 'notified', 'seated' or 'left'
+     - `table_id` / `session_id` - Where the party was seated
+     - `notified_at` / `seated_at` (timestamptz)
+
+  ## Changes
+  1. `table_sessions.customer_name` / `customer_phone` / `party_size` - Guest
+     details carried from the booking or waitlist onto the sitting
+
+  ## Rules
+  - Two active bookings cannot overlap on the same table
+
+  ## Security
+  - RLS enabled on both tables
+  - Admins and sales staff can view and manage bookings and the waitlist
+  - Only admins can delete them; staff cancel instead
+*/
+
+-- ============================================================================
+-- RESERVATIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_name text NOT NULL,
+  customer_phone text NOT NULL,
+  party_size integer NOT NULL CHECK (party_size > 0),
+  reserved_at timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 90 CHECK (duration_minutes > 0),
+  table_id uuid REFERENCES dining_tables(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'seated', 'cancelled', 'no_show')),
+  notes text,
+  session_id uuid REFERENCES table_sessions(id) ON DELETE SET NULL,
+  confirmation_sent_at timestamptz,
+  reminder_sent_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservations_reserved_at ON reservations(reserved_at);
+CREATE INDEX IF NOT EXISTS idx_reservations_table ON reservations(table_id);
+
+ALTER TABLE reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view reservations"
+  ON reservations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Staff can create reservations"
+  ON reservations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Staff can update reservations"
+  ON reservations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Admins can delete reservations"
+  ON reservations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_reservations') THEN
+    CREATE TRIGGER set_updated_at_reservations BEFORE UPDATE ON reservations
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION prevent_reservation_overlap()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.table_id IS NOT NULL AND NEW.status IN ('booked', 'seated') AND EXISTS (
+    SELECT 1 FROM reservations
+    WHERE table_id = NEW.table_id
+    AND id != NEW.id
+    AND status IN ('booked', 'seated')
+    AND reserved_at < NEW.reserved_at + make_interval(mins => NEW.duration_minutes)
+    AND NEW.reserved_at < reserved_at + make_interval(mins => duration_minutes)
+  ) THEN
+    RAISE EXCEPTION 'This table is already booked for part of that time slot';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_reservation_overlap ON reservations;
+CREATE TRIGGER prevent_reservation_overlap
+  BEFORE INSERT OR UPDATE OF table_id, reserved_at, duration_minutes, status ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_reservation_overlap();
+
+-- ============================================================================
+-- WAITLIST
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_name text NOT NULL,
+  customer_phone text,
+  party_size integer NOT NULL CHECK (party_size > 0),
+  quoted_wait_minutes integer NOT NULL DEFAULT 15 CHECK (quoted_wait_minutes >= 0),
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'notified', 'seated', 'left')),
+  notes text,
+  table_id uuid REFERENCES dining_tables(id) ON DELETE SET NULL,
+  session_id uuid REFERENCES table_sessions(id) ON DELETE SET NULL,
+  notified_at timestamptz,
+  seated_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(status);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view waitlist"
+  ON waitlist_entries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Staff can add to waitlist"
+  ON waitlist_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Staff can update waitlist"
+  ON waitlist_entries FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
+
+CREATE POLICY "Admins can delete waitlist entries"
+  ON waitlist_entries FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_waitlist_entries') THEN
+    CREATE TRIGGER set_updated_at_waitlist_entries BEFORE UPDATE ON waitlist_entries
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'waitlist_entries'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE waitlist_entries;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- GUEST DETAILS ON TABLE SESSIONS
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'table_sessions' AND column_name = 'customer_name'
+  ) THEN
+    ALTER TABLE table_sessions ADD COLUMN customer_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'table_sessions' AND column_name = 'customer_phone'
+  ) THEN
+    ALTER TABLE table_sessions ADD COLUMN customer_phone text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'table_sessions' AND column_name = 'party_size'
+  ) THEN
+    ALTER TABLE table_sessions ADD COLUMN party_size integer;
+  END IF;
+END $$;
@@ -0,0 +1,121 @@
+/*
+  # Add Thermal Printers
+
+  ## Overview
+  KOTs and receipts can be sent straight to ESC/POS thermal printers instead
+  of going through the browser print dialog. Each kitchen station can be
+  mapped to its own printer, and one printer prints bills and receipts.
+
+  ## New Tables
+  1. `printers` - Configured thermal printers
+     - `name` (text)
+     - `connection` (text) - 'webusb', 'bridge' or 'network'
+     - `bridge_url` (text) - Local print bridge endpoint (bridge and network)
+     - `host` / `port` (text, integer) - Network printer address, port 9100
+     - `usb_vendor_id` / `usb_product_id` (integer) - Paired USB printer
+     - `paper_width` (integer) - 58 or 80 mm
+     - `is_receipt_printer` (boolean) - Prints bills and invoice receipts
+     - `open_cash_drawer` (boolean) - Kick the drawer on cash receipts
+     - `is_active` (boolean)
+
+  ## Changes
+  1. `kitchen_stations.printer_id` - Printer for the station's KOT tickets
+
+  ## Rules
+  - Only one printer can be the receipt printer
+
+  ## Security
+  - RLS enabled on printers
+  - Authenticated users can view printers so any till can print
+  - Only admins can manage printers
+*/
+
+CREATE TABLE IF NOT EXISTS printers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  connection text NOT NULL CHECK (connection IN ('webusb', 'bridge', 'network')),
+  bridge_url text,
+  host text,
+  port integer NOT NULL DEFAULT 9100,
+  usb_vendor_id integer,
+  usb_product_id integer,
+  paper_width integer NOT NULL DEFAULT 80 CHECK (paper_width IN (58, 80)),
+  is_receipt_printer boolean NOT NULL DEFAULT false,
+  open_cash_drawer boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT printer_connection_details CHECK (
+    (connection = 'webusb' AND usb_vendor_id IS NOT NULL AND usb_product_id IS NOT NULL)
+    OR (connection = 'bridge' AND bridge_url IS NOT NULL)
+    OR (connection = 'network' AND bridge_url IS NOT NULL AND host IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_printers_one_receipt_printer
+  ON printers(is_receipt_printer) WHERE is_receipt_printer;
+
+ALTER TABLE printers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view printers"
+  ON printers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create printers"
+  ON printers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update printers"
+  ON printers FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete printers"
+  ON printers FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_printers') THEN
+    CREATE TRIGGER set_updated_at_printers BEFORE UPDATE ON printers
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kitchen_stations' AND column_name = 'printer_id'
+  ) THEN
+    ALTER TABLE kitchen_stations ADD COLUMN printer_id uuid REFERENCES printers(id) ON DELETE SET NULL;
+  END IF;
+END $$;
@@ -0,0 +1,173 @@
+/*
+  # Add Counter POS
+
+  ## Overview
+  The quick-billing screen wrote to its own `bills`/`bill_items` tables with a
+  flat 5% tax, so counter sales never reached invoices, GST returns, payment
+  receivables or stock consumption. The counter POS now raises a regular paid
+  GST invoice with a payment record, and existing bills are migrated into
+  invoices before the old tables are dropped.
+
+  ## Changes
+  1. `menu_items.barcode` (text) - Scanned at the counter; variants scan by `sku`
+  2. `invoices.discount` (numeric) - Bill discount, already taken off the line values
+  3. `invoice_payments.amount_tendered` (numeric) - Cash handed over; the change
+     given is `amount_tendered - amount`
+
+  ## Data Migration
+  - Each bill becomes a paid (or unpaid, for pending bills) invoice with the
+    same number, date and creator; its 5% tax is split into CGST and SGST
+  - Bill items become invoice items at 5% GST
+  - A bill's phone is matched to a customer, creating the customer when missing
+  - Paid bills get an invoice payment in the matching payment method
+  - Stock is not consumed for migrated bills, as it never was for bills
+  - `bills` and `bill_items` are dropped afterwards, but only once every bill
+    is found as an invoice with the same total, the same items and, when
+    paid, a payment; otherwise the migration stops and nothing is dropped
+
+  ## Security
+  - No new tables; existing invoice policies apply
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'barcode'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN barcode text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'discount'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN discount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_payments' AND column_name = 'amount_tendered'
+  ) THEN
+    ALTER TABLE invoice_payments ADD COLUMN amount_tendered numeric(10,2);
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_items_barcode
+  ON menu_items(barcode) WHERE barcode IS NOT NULL AND barcode != '';
+
+-- ============================================================================
+-- MIGRATE BILLS INTO INVOICES
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_missing text;
+BEGIN
+  IF to_regclass('public.bills') IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO customers (name, phone, created_by)
+  SELECT DISTINCT ON (TRIM(b.customer_phone))
+    COALESCE(NULLIF(TRIM(b.customer_name), ''), TRIM(b.customer_phone)),
+    TRIM(b.customer_phone),
+    (SELECT p.id FROM profiles p WHERE p.id = b.user_id)
+  FROM bills b
+  WHERE NULLIF(TRIM(b.customer_phone), '') IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM customers c WHERE c.phone = TRIM(b.customer_phone))
+  ORDER BY TRIM(b.customer_phone), b.bill_date DESC;
+
+  INSERT INTO invoices (
+    invoice_number, customer_id, status, payment_status, amount_paid,
+    subtotal, cgst, sgst, igst, tax, total, is_interstate, place_of_supply,
+    due_date, paid_date, created_by, created_at
+  )
+  SELECT
+    b.bill_number,
+    (SELECT c.id FROM customers c WHERE c.phone = NULLIF(TRIM(b.customer_phone), '') ORDER BY c.created_at LIMIT 1),
+    CASE WHEN b.payment_status = 'paid' THEN 'paid' ELSE 'sent' END,
+    CASE WHEN b.payment_status = 'paid' THEN 'paid' ELSE 'unpaid' END,
+    CASE WHEN b.payment_status = 'paid' THEN COALESCE(b.total_amount, 0) ELSE 0 END,
+    COALESCE(b.subtotal, 0),
+    ROUND(COALESCE(b.tax_amount, 0) / 2, 2),
+    COALESCE(b.tax_amount, 0) - ROUND(COALESCE(b.tax_amount, 0) / 2, 2),
+    0,
+    COALESCE(b.tax_amount, 0),
+    COALESCE(b.total_amount, 0),
+    false,
+    (SELECT cp.state FROM company_profile cp LIMIT 1),
+    COALESCE(b.bill_date, b.created_at)::date,
+    CASE WHEN b.payment_status = 'paid' THEN COALESCE(b.bill_date, b.created_at)::date END,
+    (SELECT p.id FROM profiles p WHERE p.id = b.user_id),
+    COALESCE(b.bill_date, b.created_at)
+  FROM bills b
+  WHERE NOT EXISTS (SELECT 1 FROM invoices i WHERE i.invoice_number = b.bill_number);
+
+  INSERT INTO invoice_items (
+    invoice_id, product_id, menu_item_id, menu_item_name, quantity, unit_price, total,
+    hsn_code, gst_rate, cgst_amount, sgst_amount, igst_amount, created_at
+  )
+  SELECT
+    i.id,
+    NULL,
+    bi.menu_item_id,
+    bi.menu_item_name,
+    bi.quantity,
+    bi.unit_price,
+    bi.total,
+    COALESCE(m.hsn_code, ''),
+    5,
+    ROUND(bi.total * 0.025, 2),
+    ROUND(bi.total * 0.025, 2),
+    0,
+    bi.created_at
+  FROM bill_items bi
+  JOIN bills b ON b.id = bi.bill_id
+  JOIN invoices i ON i.invoice_number = b.bill_number
+  LEFT JOIN menu_items m ON m.id = bi.menu_item_id
+  WHERE NOT EXISTS (SELECT 1 FROM invoice_items ii WHERE ii.invoice_id = i.id);
+
+  INSERT INTO invoice_payments (invoice_id, amount, payment_date, payment_method_id, notes, created_by, created_at)
+  SELECT
+    i.id,
+    i.total,
+    i.paid_date,
+    (
+      SELECT pm.id FROM payment_methods pm
+      WHERE pm.name = CASE LOWER(b.payment_method)
+        WHEN 'cash' THEN 'Cash'
+        WHEN 'card' THEN 'Credit Card'
+        WHEN 'upi' THEN 'UPI'
+      END
+      LIMIT 1
+    ),
+    'Migrated from quick bill',
+    i.created_by,
+    i.created_at
+  FROM bills b
+  JOIN invoices i ON i.invoice_number = b.bill_number
+  WHERE b.payment_status = 'paid'
+  AND NOT EXISTS (SELECT 1 FROM invoice_payments ip WHERE ip.invoice_id = i.id);
+
+  -- The old tables are only dropped when every bill made it across
+  SELECT string_agg(b.bill_number, ', ' ORDER BY b.bill_number) INTO v_missing
+  FROM bills b
+  WHERE NOT EXISTS (
+    SELECT 1 FROM invoices i
+    WHERE i.invoice_number = b.bill_number
+    AND i.total = COALESCE(b.total_amount, 0)
+    AND (SELECT COUNT(*) FROM invoice_items ii WHERE ii.invoice_id = i.id)
+      = (SELECT COUNT(*) FROM bill_items bi WHERE bi.bill_id = b.id)
+    AND (SELECT COALESCE(SUM(ii.total), 0) FROM invoice_items ii WHERE ii.invoice_id = i.id)
+      = (SELECT COALESCE(SUM(bi.total), 0) FROM bill_items bi WHERE bi.bill_id = b.id)
+    AND (b.payment_status IS DISTINCT FROM 'paid' OR EXISTS (SELECT 1 FROM invoice_payments ip WHERE ip.invoice_id = i.id))
+  );
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Bills not migrated to matching invoices, so bills and bill_items were kept: %', v_missing;
+  END IF;
+END $$;
+
+DROP TABLE IF EXISTS bill_items;
+DROP TABLE IF EXISTS bills;
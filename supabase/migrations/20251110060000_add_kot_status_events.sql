@@ -0,0 +1,112 @@
+/*
+  # Add KOT Status Events
+
+  ## Overview
+  `kots.status` and `kot_items.status` only hold the latest value, so nothing
+  records when a ticket reached the kitchen, was ready or was served. Triggers
+  now log every status transition with a timestamp, whichever screen, function
+  or webhook made the change. The order timing report reads this log.
+
+  ## New Tables
+  1. `kot_status_events` - One row per status transition
+     - `id` (uuid, primary key)
+     - `kot_id` (uuid) - Foreign key to kots
+     - `kot_item_id` (uuid) - The item that changed; NULL for the ticket itself
+     - `from_status` (text) - NULL when the ticket or item reaches the kitchen
+     - `to_status` (text)
+     - `changed_by` (uuid) - The signed-in user, NULL for guests and webhooks
+     - `changed_at` (timestamptz)
+
+  ## Rules
+  - A table QR order reaches the kitchen when staff confirm it, not when the
+    guest submits it
+  - Item rows are not foreign keys: editing a KOT replaces its items, and the
+    events of the old rows are kept
+  - There is no backfill; timings start with orders placed after this migration
+
+  ## Security
+  - RLS enabled; authenticated users can view events
+  - Rows are only written by the triggers
+*/
+
+CREATE TABLE IF NOT EXISTS kot_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kot_id uuid REFERENCES kots(id) ON DELETE CASCADE NOT NULL,
+  kot_item_id uuid,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kot_status_events_kot ON kot_status_events(kot_id);
+CREATE INDEX IF NOT EXISTS idx_kot_status_events_changed_at ON kot_status_events(changed_at);
+
+ALTER TABLE kot_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view KOT status events"
+  ON kot_status_events FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- LOGGING TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION log_kot_status_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  SELECT id INTO v_user_id FROM profiles WHERE id = auth.uid();
+
+  IF TG_OP = 'INSERT' THEN
+    -- Guest orders wait for staff before the kitchen sees them
+    IF NOT NEW.awaiting_confirmation THEN
+      INSERT INTO kot_status_events (kot_id, from_status, to_status, changed_by)
+      VALUES (NEW.id, NULL, NEW.status, v_user_id);
+    END IF;
+  ELSIF OLD.awaiting_confirmation AND NOT NEW.awaiting_confirmation AND NEW.status != 'cancelled' THEN
+    INSERT INTO kot_status_events (kot_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, v_user_id);
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO kot_status_events (kot_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, v_user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION log_kot_item_status_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO kot_status_events (kot_id, kot_item_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.kot_id,
+      NEW.id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      (SELECT id FROM profiles WHERE id = auth.uid())
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'log_kot_status_events') THEN
+    CREATE TRIGGER log_kot_status_events
+      AFTER INSERT OR UPDATE OF status, awaiting_confirmation ON kots
+      FOR EACH ROW EXECUTE FUNCTION log_kot_status_event();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'log_kot_item_status_events') THEN
+    CREATE TRIGGER log_kot_item_status_events
+      AFTER INSERT OR UPDATE OF status ON kot_items
+      FOR EACH ROW EXECUTE FUNCTION log_kot_item_status_event();
+  END IF;
+END $$;
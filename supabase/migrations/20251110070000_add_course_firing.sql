@@ -0,0 +1,216 @@
+/*
+  # Add Course Firing
+
+  ## Overview
+  Every line of a dine-in KOT went to the kitchen the moment the KOT was
+  saved, so mains were cooked alongside starters. Lines now carry a course
+  number, and later courses can be held: a held line stays off the kitchen
+  display and station printers until the server fires its course from the
+  table view. Firing prints a KOT with only the newly fired lines.
+
+  ## Modified Tables
+  1. `kot_items`
+     - `course` (integer, default 1) - 1 Starters, 2 Mains, 3 Desserts
+     - `fired_at` (timestamptz) - When a held course was fired
+     - `status` also allows 'held'
+
+  ## New Functions
+  - `fire_kot_course(p_kot_id, p_course)` - Sends the held lines of one course
+    to the kitchen and returns them for printing. A ticket the kitchen had
+    finished goes back to preparing.
+
+  ## Modified Functions
+  - `void_kot_item` and `void_kot` no longer ask for an approval PIN for held
+    lines, since the kitchen has not started on them
+
+  ## Security
+  - `fire_kot_course` is available to signed-in users only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'course'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN course integer NOT NULL DEFAULT 1 CHECK (course > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'fired_at'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN fired_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE kot_items DROP CONSTRAINT IF EXISTS kot_items_status_check;
+ALTER TABLE kot_items ADD CONSTRAINT kot_items_status_check
+  CHECK (status IN ('held', 'pending', 'preparing', 'ready'));
+
+CREATE INDEX IF NOT EXISTS idx_kot_items_held ON kot_items(kot_id, course) WHERE status = 'held';
+
+-- ============================================================================
+-- FIRE A COURSE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION fire_kot_course(p_kot_id uuid, p_course integer)
+RETURNS SETOF kot_items AS $$
+DECLARE
+  v_kot kots;
+BEGIN
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id;
+
+  IF NOT FOUND OR v_kot.status = 'cancelled' THEN
+    RAISE EXCEPTION 'KOT not found or cancelled';
+  END IF;
+
+  RETURN QUERY
+  UPDATE kot_items
+  SET status = 'pending',
+      fired_at = now()
+  WHERE kot_id = p_kot_id AND course = p_course AND status = 'held'
+  RETURNING *;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course % has no held items on this KOT', p_course;
+  END IF;
+
+  -- The fired lines put a finished ticket back on the kitchen display
+  UPDATE kots SET status = 'preparing'
+  WHERE id = p_kot_id AND status IN ('ready', 'served');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION fire_kot_course(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION fire_kot_course(uuid, integer) TO authenticated;
+
+-- ============================================================================
+-- VOID AN ITEM
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION void_kot_item(
+  p_kot_item_id uuid,
+  p_quantity numeric,
+  p_reason_code text,
+  p_notes text DEFAULT NULL,
+  p_pin text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_item kot_items;
+  v_kot kots;
+  v_prep_started boolean;
+  v_approved_by uuid;
+  v_adjustment numeric := 0;
+  v_void_id uuid;
+BEGIN
+  SELECT * INTO v_item FROM kot_items WHERE id = p_kot_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT item not found';
+  END IF;
+
+  SELECT * INTO v_kot FROM kots WHERE id = v_item.kot_id;
+  PERFORM assert_kot_voidable(v_kot, p_reason_code, p_notes);
+
+  IF p_quantity IS NULL OR p_quantity <= 0 OR p_quantity > v_item.quantity THEN
+    RAISE EXCEPTION 'Void quantity must be between 0 and %', v_item.quantity;
+  END IF;
+
+  -- A held line has not reached the kitchen, whatever the rest of the ticket is doing
+  v_prep_started := v_item.status != 'held' AND (v_item.status != 'pending' OR v_kot.status != 'pending');
+  IF v_prep_started THEN
+    v_approved_by := verify_approval_pin(p_pin);
+  END IF;
+
+  IF v_kot.invoice_id IS NOT NULL THEN
+    v_adjustment := adjust_invoice_for_void(v_kot.invoice_id, v_item, p_quantity);
+  END IF;
+
+  INSERT INTO kot_voids (
+    scope, kot_id, kot_item_id, kot_number, menu_item_id, menu_item_name, variant_name,
+    quantity, unit_price, amount, reason_code, notes, prep_started,
+    voided_by, approved_by, invoice_id, invoice_adjustment
+  ) VALUES (
+    'item', v_kot.id, v_item.id, v_kot.kot_number, v_item.menu_item_id, v_item.menu_item_name, v_item.variant_name,
+    p_quantity, v_item.unit_price, ROUND(p_quantity * v_item.unit_price, 2), p_reason_code, p_notes, v_prep_started,
+    auth.uid(), v_approved_by, v_kot.invoice_id, v_adjustment
+  )
+  RETURNING id INTO v_void_id;
+
+  IF p_quantity = v_item.quantity THEN
+    DELETE FROM kot_items WHERE id = v_item.id;
+  ELSE
+    UPDATE kot_items SET quantity = quantity - p_quantity WHERE id = v_item.id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM kot_items WHERE kot_id = v_kot.id) THEN
+    UPDATE kots
+    SET status = 'cancelled',
+        notes = COALESCE(notes || E'\n', '') || 'All items voided'
+    WHERE id = v_kot.id;
+  END IF;
+
+  PERFORM reopen_voided_session(v_kot.session_id);
+
+  RETURN v_void_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- VOID A TICKET
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION void_kot(
+  p_kot_id uuid,
+  p_reason_code text,
+  p_notes text DEFAULT NULL,
+  p_pin text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_kot kots;
+  v_item kot_items;
+  v_prep_started boolean;
+  v_approved_by uuid;
+  v_adjustment numeric;
+BEGIN
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT not found';
+  END IF;
+
+  PERFORM assert_kot_voidable(v_kot, p_reason_code, p_notes);
+
+  v_prep_started := v_kot.status != 'pending' OR EXISTS (
+    SELECT 1 FROM kot_items WHERE kot_id = p_kot_id AND status NOT IN ('pending', 'held')
+  );
+  IF v_prep_started THEN
+    v_approved_by := verify_approval_pin(p_pin);
+  END IF;
+
+  -- Items stay on the cancelled KOT so the ticket can still be reprinted
+  FOR v_item IN SELECT * FROM kot_items WHERE kot_id = p_kot_id LOOP
+    v_adjustment := 0;
+    IF v_kot.invoice_id IS NOT NULL THEN
+      v_adjustment := adjust_invoice_for_void(v_kot.invoice_id, v_item, v_item.quantity);
+    END IF;
+
+    INSERT INTO kot_voids (
+      scope, kot_id, kot_item_id, kot_number, menu_item_id, menu_item_name, variant_name,
+      quantity, unit_price, amount, reason_code, notes, prep_started,
+      voided_by, approved_by, invoice_id, invoice_adjustment
+    ) VALUES (
+      'ticket', v_kot.id, v_item.id, v_kot.kot_number, v_item.menu_item_id, v_item.menu_item_name, v_item.variant_name,
+      v_item.quantity, v_item.unit_price, ROUND(v_item.quantity * v_item.unit_price, 2), p_reason_code, p_notes, v_prep_started,
+      auth.uid(), v_approved_by, v_kot.invoice_id, v_adjustment
+    );
+  END LOOP;
+
+  UPDATE kots SET status = 'cancelled' WHERE id = p_kot_id;
+
+  PERFORM reopen_voided_session(v_kot.session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,73 @@
+/*
+  # Add KOT Revisions
+
+  ## Overview
+  Editing a KOT replaced all of its items, and reprinting it sent the whole
+  order to the kitchen again, so dishes already on the pass were cooked
+  twice. Each edit is now compared with the ticket as it stood, and only the
+  difference is printed: an "ADDED" / "CANCELLED" ticket carrying the same
+  KOT number with a revision suffix (KOT-20251110-0042-R1). Every revision is kept.
+
+  ## Modified Tables
+  1. `kots`
+     - `revision` (integer, default 0) - The latest revision number
+
+  ## New Tables
+  1. `kot_revisions` - One row per edit that changed the items
+     - `id` (uuid, primary key)
+     - `kot_id` (uuid) - Foreign key to kots
+     - `revision` (integer) - 1 for the first edit, unique per KOT
+     - `added` (jsonb) - Lines and quantities added by the edit
+     - `cancelled` (jsonb) - Lines and quantities removed by the edit
+     - `items` (jsonb) - The full item list after the edit
+     - `created_by` (uuid) - Foreign key to profiles
+     - `created_at` (timestamptz)
+
+  ## Security
+  - RLS enabled; authenticated users can view revisions
+  - Sales staff and admins can record revisions as themselves
+  - Revisions cannot be changed or deleted
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kots' AND column_name = 'revision'
+  ) THEN
+    ALTER TABLE kots ADD COLUMN revision integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS kot_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kot_id uuid REFERENCES kots(id) ON DELETE CASCADE NOT NULL,
+  revision integer NOT NULL CHECK (revision > 0),
+  added jsonb NOT NULL DEFAULT '[]'::jsonb,
+  cancelled jsonb NOT NULL DEFAULT '[]'::jsonb,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (kot_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kot_revisions_kot ON kot_revisions(kot_id);
+
+ALTER TABLE kot_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view KOT revisions"
+  ON kot_revisions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Sales staff can record KOT revisions"
+  ON kot_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'sales', 'sales_person')
+    )
+  );
@@ -0,0 +1,243 @@
+/*
+  # Add Recipe Food Cost
+
+  ## Overview
+  `menu_items.cost_price` was typed in by hand and went stale as ingredient
+  prices moved. For items with a recipe it is now the plate cost: the sum of
+  each ingredient's quantity times its product cost. Product cost becomes the
+  weighted average purchase cost when a purchase is received. When a price
+  change pushes an item's food cost (plate cost / price) above the target
+  percentage, an alert is raised for the menu engineering report.
+
+  ## Modified Tables
+  1. `company_profile`
+     - `target_food_cost_percent` (numeric, default 30)
+
+  ## New Tables
+  1. `food_cost_alerts` - Items whose food cost crossed the target
+     - `id` (uuid, primary key)
+     - `menu_item_id` (uuid) - Foreign key to menu_items
+     - `product_id` (uuid) - The ingredient whose price changed
+     - `previous_plate_cost` (numeric)
+     - `plate_cost` (numeric)
+     - `price` (numeric) - The menu price at the time
+     - `food_cost_percent` (numeric)
+     - `target_percent` (numeric)
+     - `acknowledged_by` (uuid) - Foreign key to profiles
+     - `acknowledged_at` (timestamptz)
+     - `created_at` (timestamptz)
+
+  ## New Functions
+  - `menu_item_plate_cost(p_menu_item_id)` - Current plate cost from the recipe
+  - `receive_purchase(p_purchase_id)` - Receives a purchase in one step: adds
+    stock, moves each product's cost to the weighted average of stock on hand
+    and the new purchase, and marks the purchase received
+
+  ## Triggers
+  - Changing a recipe recomputes the item's cost price
+  - Changing a product's cost recomputes the cost price of every item that
+    uses it and raises alerts for items that crossed the target
+
+  ## Security
+  - RLS enabled on food_cost_alerts; authenticated users can view alerts
+  - Admins and inventory staff can acknowledge alerts
+  - Alerts are only created by the trigger
+  - Only admins, inventory and purchase staff can receive purchases
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'company_profile' AND column_name = 'target_food_cost_percent'
+  ) THEN
+    ALTER TABLE company_profile ADD COLUMN target_food_cost_percent numeric DEFAULT 30
+      CHECK (target_food_cost_percent > 0 AND target_food_cost_percent <= 100);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS food_cost_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  previous_plate_cost numeric NOT NULL,
+  plate_cost numeric NOT NULL,
+  price numeric NOT NULL,
+  food_cost_percent numeric NOT NULL,
+  target_percent numeric NOT NULL,
+  acknowledged_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  acknowledged_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_food_cost_alerts_open ON food_cost_alerts(created_at) WHERE acknowledged_at IS NULL;
+
+ALTER TABLE food_cost_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view food cost alerts"
+  ON food_cost_alerts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and inventory staff can acknowledge food cost alerts"
+  ON food_cost_alerts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+-- ============================================================================
+-- PLATE COST
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION menu_item_plate_cost(p_menu_item_id uuid)
+RETURNS numeric AS $$
+  SELECT ROUND(COALESCE(SUM(r.quantity * p.cost_price), 0), 2)
+  FROM menu_item_recipes r
+  JOIN products p ON p.id = r.product_id
+  WHERE r.menu_item_id = p_menu_item_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION refresh_recipe_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_menu_item_id uuid;
+BEGIN
+  v_menu_item_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.menu_item_id ELSE NEW.menu_item_id END;
+
+  -- An item whose recipe was cleared keeps its last cost until it is typed in again
+  UPDATE menu_items
+  SET cost_price = menu_item_plate_cost(v_menu_item_id)
+  WHERE id = v_menu_item_id
+  AND EXISTS (SELECT 1 FROM menu_item_recipes WHERE menu_item_id = v_menu_item_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION refresh_product_food_costs()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_target numeric;
+  v_item record;
+BEGIN
+  IF NEW.cost_price IS NOT DISTINCT FROM OLD.cost_price THEN
+    RETURN NEW;
+  END IF;
+
+  v_target := COALESCE((SELECT target_food_cost_percent FROM company_profile LIMIT 1), 30);
+
+  FOR v_item IN
+    SELECT m.id, m.price, COALESCE(m.cost_price, 0) AS previous_cost, menu_item_plate_cost(m.id) AS plate_cost
+    FROM menu_items m
+    WHERE EXISTS (
+      SELECT 1 FROM menu_item_recipes r
+      WHERE r.menu_item_id = m.id AND r.product_id = NEW.id
+    )
+  LOOP
+    UPDATE menu_items SET cost_price = v_item.plate_cost WHERE id = v_item.id;
+
+    IF v_item.price > 0
+      AND v_item.plate_cost / v_item.price * 100 > v_target
+      AND v_item.previous_cost / v_item.price * 100 <= v_target
+    THEN
+      INSERT INTO food_cost_alerts (
+        menu_item_id, product_id, previous_plate_cost, plate_cost, price, food_cost_percent, target_percent
+      ) VALUES (
+        v_item.id, NEW.id, v_item.previous_cost, v_item.plate_cost, v_item.price,
+        ROUND(v_item.plate_cost / v_item.price * 100, 2), v_target
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'refresh_recipe_cost') THEN
+    CREATE TRIGGER refresh_recipe_cost
+      AFTER INSERT OR UPDATE OR DELETE ON menu_item_recipes
+      FOR EACH ROW EXECUTE FUNCTION refresh_recipe_cost();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'refresh_product_food_costs') THEN
+    CREATE TRIGGER refresh_product_food_costs
+      AFTER UPDATE OF cost_price ON products
+      FOR EACH ROW EXECUTE FUNCTION refresh_product_food_costs();
+  END IF;
+END $$;
+
+-- Items that already have a recipe start from their plate cost
+UPDATE menu_items m
+SET cost_price = menu_item_plate_cost(m.id)
+WHERE EXISTS (SELECT 1 FROM menu_item_recipes r WHERE r.menu_item_id = m.id);
+
+-- ============================================================================
+-- RECEIVE A PURCHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION receive_purchase(p_purchase_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_purchase purchases;
+  v_line record;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person', 'purchase_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to receive purchases';
+  END IF;
+
+  SELECT * INTO v_purchase FROM purchases WHERE id = p_purchase_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  IF v_purchase.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase % is already %', v_purchase.purchase_number, v_purchase.status;
+  END IF;
+
+  FOR v_line IN
+    SELECT product_id, SUM(quantity) AS quantity, SUM(quantity * unit_price) AS amount
+    FROM purchase_items
+    WHERE purchase_id = p_purchase_id AND product_id IS NOT NULL
+    GROUP BY product_id
+  LOOP
+    -- Stock on hand keeps its old cost; negative stock counts as none
+    UPDATE products
+    SET cost_price = COALESCE(
+          ROUND(
+            (GREATEST(quantity, 0) * cost_price + v_line.amount) / NULLIF(GREATEST(quantity, 0) + v_line.quantity, 0),
+            2
+          ),
+          cost_price
+        ),
+        quantity = quantity + v_line.quantity
+    WHERE id = v_line.product_id;
+
+    INSERT INTO inventory_movements (product_id, type, quantity, reason, created_by)
+    VALUES (v_line.product_id, 'in', v_line.quantity, 'Purchase ' || v_purchase.purchase_number || ' received', auth.uid());
+  END LOOP;
+
+  UPDATE purchases
+  SET status = 'received',
+      received_date = CURRENT_DATE
+  WHERE id = p_purchase_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
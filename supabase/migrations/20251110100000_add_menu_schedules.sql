@@ -0,0 +1,576 @@
+/*
+  # Add Menu Schedules
+
+  ## Overview
+  `menu_items.is_available` is a manual switch, so breakfast items, weekday
+  specials and happy hours had to be toggled by hand. A menu schedule is a
+  weekly time window attached to menu items or whole categories. It either
+  limits when those items can be ordered or runs a price rule on them during
+  the window, such as 20% off beverages from 5 to 7 pm or 2-for-1 pizzas on
+  Tuesdays. Schedules are checked in the restaurant's time zone.
+
+  ## New Tables
+  1. `menu_schedules`
+     - `id` (uuid, primary key)
+     - `name` (text) - Shown on bills when a price rule applies, e.g. 'Happy Hour'
+     - `schedule_type` (text) - 'availability', 'percent_off' or 'buy_get'
+     - `days_of_week` (smallint[]) - 0 = Sunday to 6 = Saturday
+     - `start_time` / `end_time` (time) - NULL for all day; a window that ends
+       before it starts runs past midnight
+     - `discount_percent` (numeric) - For 'percent_off'
+     - `buy_quantity` / `free_quantity` (integer) - For 'buy_get'; 2-for-1 is
+       buy 1 get 1 free
+     - `is_active` (boolean)
+  2. `menu_schedule_items` - What a schedule covers
+     - `schedule_id` (uuid) - Foreign key to menu_schedules
+     - `menu_item_id` (uuid) - Foreign key to menu_items
+     - `category_id` (uuid) - Foreign key to menu_categories
+
+  ## Modified Tables
+  1. `company_profile`
+     - `timezone` (text, default 'Asia/Kolkata') - Used for guest orders
+  2. `kot_items` / `invoice_items`
+     - `offer_name` (text) - The price rule applied to the line
+     - `offer_discount` (numeric) - Amount taken off the line by that rule
+
+  ## Rules
+  - An item with availability schedules can only be ordered while one of them
+    is open; items without one follow `is_available` alone
+  - Price rules are applied when the order is placed and folded into
+    `unit_price`; when several apply, the one with the biggest discount wins
+  - Combos and split portions keep their own price
+
+  ## Modified Functions
+  - `get_table_menu(p_token)` hides items outside their hours and lists the
+    offers running on each item
+  - `submit_table_order(...)` rejects items outside their hours and applies
+    running price rules
+
+  ## Security
+  - RLS enabled on both tables
+  - All authenticated users can view schedules
+  - Admins and inventory staff (who manage the menu) can manage them
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'company_profile' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE company_profile ADD COLUMN timezone text NOT NULL DEFAULT 'Asia/Kolkata';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'offer_name'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN offer_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'kot_items' AND column_name = 'offer_discount'
+  ) THEN
+    ALTER TABLE kot_items ADD COLUMN offer_discount numeric NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'offer_name'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN offer_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'offer_discount'
+  ) THEN
+    ALTER TABLE invoice_items ADD COLUMN offer_discount numeric NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- MENU SCHEDULES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS menu_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  schedule_type text NOT NULL CHECK (schedule_type IN ('availability', 'percent_off', 'buy_get')),
+  days_of_week smallint[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}' CHECK (days_of_week <@ '{0,1,2,3,4,5,6}'::smallint[]),
+  start_time time,
+  end_time time,
+  discount_percent numeric CHECK (discount_percent > 0 AND discount_percent <= 100),
+  buy_quantity integer CHECK (buy_quantity > 0),
+  free_quantity integer CHECK (free_quantity > 0),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT menu_schedule_window CHECK (
+    (start_time IS NULL AND end_time IS NULL)
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time <> end_time)
+  ),
+  CONSTRAINT menu_schedule_rule CHECK (
+    (schedule_type <> 'percent_off' OR discount_percent IS NOT NULL)
+    AND (schedule_type <> 'buy_get' OR (buy_quantity IS NOT NULL AND free_quantity IS NOT NULL))
+  )
+);
+
+ALTER TABLE menu_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view menu schedules"
+  ON menu_schedules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Menu managers can create menu schedules"
+  ON menu_schedules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can update menu schedules"
+  ON menu_schedules FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can delete menu schedules"
+  ON menu_schedules FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'set_updated_at_menu_schedules') THEN
+    CREATE TRIGGER set_updated_at_menu_schedules BEFORE UPDATE ON menu_schedules
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- SCHEDULE TARGETS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS menu_schedule_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid REFERENCES menu_schedules(id) ON DELETE CASCADE NOT NULL,
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE,
+  category_id uuid REFERENCES menu_categories(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT menu_schedule_item_target CHECK ((menu_item_id IS NULL) <> (category_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_schedule_items_schedule ON menu_schedule_items(schedule_id);
+CREATE INDEX IF NOT EXISTS idx_menu_schedule_items_menu_item ON menu_schedule_items(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_menu_schedule_items_category ON menu_schedule_items(category_id);
+
+ALTER TABLE menu_schedule_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view menu schedule items"
+  ON menu_schedule_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Menu managers can create menu schedule items"
+  ON menu_schedule_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can update menu schedule items"
+  ON menu_schedule_items FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+CREATE POLICY "Menu managers can delete menu schedule items"
+  ON menu_schedule_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('admin', 'inventory_manager', 'inventory_person')
+    )
+  );
+
+-- ============================================================================
+-- SCHEDULE RULES
+-- SQL versions of the rules in src/lib/menuSchedules.ts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION is_menu_schedule_open(p_schedule menu_schedules, p_at timestamptz)
+RETURNS boolean AS $$
+DECLARE
+  v_local timestamp;
+  v_day integer;
+  v_time time;
+BEGIN
+  IF NOT COALESCE(p_schedule.is_active, false) THEN
+    RETURN false;
+  END IF;
+
+  v_local := p_at AT TIME ZONE COALESCE((SELECT timezone FROM company_profile LIMIT 1), 'Asia/Kolkata');
+  v_day := EXTRACT(DOW FROM v_local);
+  v_time := v_local::time;
+
+  IF p_schedule.start_time IS NULL OR p_schedule.end_time IS NULL THEN
+    RETURN v_day = ANY(p_schedule.days_of_week);
+  END IF;
+
+  IF p_schedule.start_time < p_schedule.end_time THEN
+    RETURN v_day = ANY(p_schedule.days_of_week)
+      AND v_time >= p_schedule.start_time
+      AND v_time < p_schedule.end_time;
+  END IF;
+
+  -- Past midnight the window still belongs to the day it started on
+  IF v_time >= p_schedule.start_time THEN
+    RETURN v_day = ANY(p_schedule.days_of_week);
+  END IF;
+  RETURN v_time < p_schedule.end_time AND ((v_day + 6) % 7) = ANY(p_schedule.days_of_week);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION is_menu_item_scheduled(p_menu_item_id uuid, p_category_id uuid, p_at timestamptz)
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM menu_schedules s
+    WHERE s.schedule_type = 'availability'
+    AND s.is_active = true
+    AND EXISTS (
+      SELECT 1 FROM menu_schedule_items t
+      WHERE t.schedule_id = s.id
+      AND (t.menu_item_id = p_menu_item_id OR t.category_id = p_category_id)
+    )
+  ) OR EXISTS (
+    SELECT 1
+    FROM menu_schedules s
+    WHERE s.schedule_type = 'availability'
+    AND is_menu_schedule_open(s, p_at)
+    AND EXISTS (
+      SELECT 1 FROM menu_schedule_items t
+      WHERE t.schedule_id = s.id
+      AND (t.menu_item_id = p_menu_item_id OR t.category_id = p_category_id)
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_menu_item_offer(
+  p_menu_item_id uuid,
+  p_category_id uuid,
+  p_unit_price numeric,
+  p_quantity integer,
+  p_at timestamptz
+)
+RETURNS TABLE (offer_name text, offer_discount numeric) AS $$
+  SELECT s.name, d.discount
+  FROM menu_schedules s
+  CROSS JOIN LATERAL (
+    SELECT CASE s.schedule_type
+      WHEN 'percent_off' THEN ROUND(p_unit_price * p_quantity * s.discount_percent / 100, 2)
+      ELSE ROUND(FLOOR(p_quantity::numeric / (s.buy_quantity + s.free_quantity)) * s.free_quantity * p_unit_price, 2)
+    END AS discount
+  ) d
+  WHERE s.schedule_type IN ('percent_off', 'buy_get')
+  AND is_menu_schedule_open(s, p_at)
+  AND EXISTS (
+    SELECT 1 FROM menu_schedule_items t
+    WHERE t.schedule_id = s.id
+    AND (t.menu_item_id = p_menu_item_id OR t.category_id = p_category_id)
+  )
+  AND d.discount > 0
+  ORDER BY d.discount DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- PUBLIC MENU AND GUEST ORDERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_table_menu(p_token text)
+RETURNS jsonb AS $$
+DECLARE
+  v_table dining_tables;
+  v_list price_lists;
+BEGIN
+  SELECT * INTO v_table FROM dining_tables WHERE qr_token = p_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This table QR code is no longer valid. Please ask our staff for help.';
+  END IF;
+
+  SELECT * INTO v_list
+  FROM price_lists
+  WHERE order_type = 'dine_in' AND delivery_platform IS NULL AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'table_name', v_table.name,
+    'company_name', (SELECT company_name FROM company_profile LIMIT 1),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name) ORDER BY c.display_order, c.name)
+      FROM menu_categories c
+      WHERE c.is_active = true
+    ), '[]'::jsonb),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'category_id', m.category_id,
+        'name', m.name,
+        'description', m.description,
+        'image_url', m.image_url,
+        'is_vegetarian', m.is_vegetarian,
+        'price', get_channel_price(v_list, m.id, NULL, m.price),
+        'variants', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', v.id,
+            'name', v.name,
+            'price', get_channel_price(v_list, m.id, v.id, v.price)
+          ) ORDER BY v.display_order)
+          FROM menu_item_variants v
+          WHERE v.menu_item_id = m.id AND v.is_active = true
+        ), '[]'::jsonb),
+        'modifier_groups', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', g.id,
+            'name', g.name,
+            'min_select', g.min_select,
+            'max_select', g.max_select,
+            'modifiers', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object(
+                'id', md.id,
+                'name', md.name,
+                'price_delta', apply_price_markup(v_list, md.price_delta)
+              ) ORDER BY md.display_order)
+              FROM modifiers md
+              WHERE md.group_id = g.id AND md.is_active = true
+            ), '[]'::jsonb)
+          ) ORDER BY link.display_order)
+          FROM menu_item_modifier_groups link
+          JOIN modifier_groups g ON g.id = link.group_id
+          WHERE link.menu_item_id = m.id AND g.is_active = true
+        ), '[]'::jsonb),
+        'offers', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', s.id,
+            'name', s.name,
+            'schedule_type', s.schedule_type,
+            'discount_percent', s.discount_percent,
+            'buy_quantity', s.buy_quantity,
+            'free_quantity', s.free_quantity
+          ) ORDER BY s.name)
+          FROM menu_schedules s
+          WHERE s.schedule_type IN ('percent_off', 'buy_get')
+          AND is_menu_schedule_open(s, now())
+          AND EXISTS (
+            SELECT 1 FROM menu_schedule_items t
+            WHERE t.schedule_id = s.id
+            AND (t.menu_item_id = m.id OR t.category_id = m.category_id)
+          )
+        ), '[]'::jsonb)
+      ) ORDER BY m.display_order, m.name)
+      FROM menu_items m
+      LEFT JOIN menu_categories c ON c.id = m.category_id
+      WHERE m.is_active = true
+      AND m.is_available = true
+      AND COALESCE(c.is_active, true) = true
+      AND is_menu_item_scheduled(m.id, m.category_id, now())
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GUEST ORDERS
+-- ============================================================================
+
+-- p_items: [{ menu_item_id, variant_id, modifier_ids: [uuid], quantity, notes }]
+CREATE OR REPLACE FUNCTION submit_table_order(
+  p_token text,
+  p_customer_name text,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_table dining_tables;
+  v_list price_lists;
+  v_owner uuid;
+  v_kot_id uuid;
+  v_kot_number text;
+  v_item jsonb;
+  v_menu_item menu_items;
+  v_variant menu_item_variants;
+  v_group modifier_groups;
+  v_chosen_ids uuid[];
+  v_group_count integer;
+  v_modifiers jsonb;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_offer record;
+BEGIN
+  SELECT * INTO v_table FROM dining_tables WHERE qr_token = p_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This table QR code is no longer valid. Please ask our staff for help.';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM kots WHERE table_id = v_table.id AND awaiting_confirmation = true) >= 3 THEN
+    RAISE EXCEPTION 'Your earlier orders are still waiting for our staff. Please wait a moment.';
+  END IF;
+
+  -- The waiter who opened the table owns the order; otherwise the first admin
+  SELECT opened_by INTO v_owner
+  FROM table_sessions
+  WHERE table_id = v_table.id AND status != 'settled' AND opened_by IS NOT NULL;
+
+  IF v_owner IS NULL THEN
+    SELECT id INTO v_owner FROM profiles WHERE role = 'admin' ORDER BY created_at LIMIT 1;
+  END IF;
+
+  SELECT * INTO v_list
+  FROM price_lists
+  WHERE order_type = 'dine_in' AND delivery_platform IS NULL AND is_active = true;
+
+  INSERT INTO kots (
+    kot_number, order_type, table_id, table_number, customer_name, notes,
+    status, source, awaiting_confirmation, user_id
+  ) VALUES (
+    generate_kot_number(), 'dine_in', v_table.id, v_table.name, NULLIF(TRIM(p_customer_name), ''), NULLIF(TRIM(p_notes), ''),
+    'pending', 'qr', true, v_owner
+  )
+  RETURNING id, kot_number INTO v_kot_id, v_kot_number;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity NOT BETWEEN 1 AND 20 THEN
+      RAISE EXCEPTION 'Quantities must be between 1 and 20';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid AND is_active = true AND is_available = true;
+
+    IF NOT FOUND OR NOT is_menu_item_scheduled(v_menu_item.id, v_menu_item.category_id, now()) THEN
+      RAISE EXCEPTION 'An item in your cart is no longer available';
+    END IF;
+
+    v_variant := NULL;
+    IF NULLIF(v_item->>'variant_id', '') IS NOT NULL THEN
+      SELECT * INTO v_variant
+      FROM menu_item_variants
+      WHERE id = (v_item->>'variant_id')::uuid AND menu_item_id = v_menu_item.id AND is_active = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The size chosen for % is no longer available', v_menu_item.name;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM menu_item_variants WHERE menu_item_id = v_menu_item.id AND is_active = true) THEN
+      RAISE EXCEPTION 'Please choose a size for %', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}') INTO v_chosen_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    v_modifiers := '[]'::jsonb;
+    FOR v_group IN
+      SELECT g.*
+      FROM menu_item_modifier_groups link
+      JOIN modifier_groups g ON g.id = link.group_id
+      WHERE link.menu_item_id = v_menu_item.id AND g.is_active = true
+      ORDER BY link.display_order
+    LOOP
+      SELECT COUNT(*) INTO v_group_count
+      FROM modifiers
+      WHERE group_id = v_group.id AND is_active = true AND id = ANY(v_chosen_ids);
+
+      IF v_group_count < v_group.min_select OR v_group_count > v_group.max_select THEN
+        RAISE EXCEPTION 'Please check your % choices for %', v_group.name, v_menu_item.name;
+      END IF;
+
+      SELECT v_modifiers || COALESCE(jsonb_agg(jsonb_build_object(
+        'id', md.id,
+        'group_id', v_group.id,
+        'group_name', v_group.name,
+        'name', md.name,
+        'price_delta', apply_price_markup(v_list, md.price_delta)
+      ) ORDER BY md.display_order), '[]'::jsonb) INTO v_modifiers
+      FROM modifiers md
+      WHERE md.group_id = v_group.id AND md.is_active = true AND md.id = ANY(v_chosen_ids);
+    END LOOP;
+
+    IF jsonb_array_length(v_modifiers) != cardinality(v_chosen_ids) THEN
+      RAISE EXCEPTION 'An option chosen for % is no longer available', v_menu_item.name;
+    END IF;
+
+    v_unit_price := get_channel_price(v_list, v_menu_item.id, v_variant.id, COALESCE(v_variant.price, v_menu_item.price))
+      + COALESCE((SELECT SUM((modifier->>'price_delta')::numeric) FROM jsonb_array_elements(v_modifiers) AS modifier), 0);
+
+    SELECT * INTO v_offer
+    FROM get_menu_item_offer(v_menu_item.id, v_menu_item.category_id, v_unit_price, v_quantity, now());
+
+    IF v_offer.offer_name IS NOT NULL THEN
+      v_unit_price := (v_unit_price * v_quantity - v_offer.offer_discount) / v_quantity;
+    END IF;
+
+    INSERT INTO kot_items (
+      kot_id, menu_item_id, menu_item_name, variant_id, variant_name, modifiers,
+      quantity, unit_price, offer_name, offer_discount, notes, station_id
+    ) VALUES (
+      v_kot_id, v_menu_item.id,
+      CASE WHEN v_variant.id IS NULL THEN v_menu_item.name ELSE v_menu_item.name || ' (' || v_variant.name || ')' END,
+      v_variant.id, v_variant.name, v_modifiers,
+      v_quantity, v_unit_price, v_offer.offer_name, COALESCE(v_offer.offer_discount, 0), NULLIF(TRIM(v_item->>'notes'), ''),
+      COALESCE(v_menu_item.station_id, (SELECT station_id FROM menu_categories WHERE id = v_menu_item.category_id))
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('kot_number', v_kot_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
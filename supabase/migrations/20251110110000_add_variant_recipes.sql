@@ -0,0 +1,278 @@
+/*
+  # Add Variant Recipes
+
+  ## Overview
+  A large pizza uses more dough and cheese than a regular one, but recipes
+  were kept per menu item only, so every size deducted the same stock and
+  carried the same plate cost. A recipe line can now belong to a variant.
+  A variant with recipe lines of its own uses only those; a variant without
+  any, and the base item, use the item's base recipe (lines without a variant).
+
+  ## Changes
+  1. `menu_item_recipes.variant_id` (uuid, nullable) - Foreign key to
+     menu_item_variants; NULL for the base recipe
+  2. `food_cost_alerts.variant_id` (uuid, nullable) - Size whose own recipe
+     crossed the target; NULL for the item's base recipe
+
+  ## Updated Functions
+  1. `sync_invoice_recipe_consumption(p_invoice_id)` - Matches each line and
+     half-and-half portion to its variant's recipe before the base recipe
+  2. `menu_item_plate_cost(p_menu_item_id, p_variant_id)` - Plate cost of a
+     size, from its own recipe or the base recipe
+  3. `refresh_recipe_cost()` / `refresh_product_food_costs()` - Variants with
+     their own recipe have their cost price kept at their plate cost, and
+     raise a food cost alert against their own price
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_item_recipes' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE menu_item_recipes ADD COLUMN variant_id uuid REFERENCES menu_item_variants(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_cost_alerts' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE food_cost_alerts ADD COLUMN variant_id uuid REFERENCES menu_item_variants(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_recipes_variant ON menu_item_recipes(variant_id);
+
+-- ============================================================================
+-- RECIPE CONSUMPTION BY VARIANT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_invoice_recipe_consumption(p_invoice_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_invoice_number text;
+  v_invoice_status text;
+  v_line record;
+  v_before numeric;
+  v_after numeric;
+BEGIN
+  SELECT invoice_number, status INTO v_invoice_number, v_invoice_status
+  FROM invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.recipe_sync', 'on', true);
+
+  FOR v_line IN
+    WITH line_items AS (
+      -- Whole items
+      SELECT ii.menu_item_id, ii.variant_id, ii.quantity
+      FROM invoice_items ii
+      WHERE ii.invoice_id = p_invoice_id
+      AND jsonb_array_length(COALESCE(ii.portions, '[]'::jsonb)) = 0
+
+      UNION ALL
+
+      -- Portions of composite items, scaled by their fraction
+      SELECT p.menu_item_id, p.variant_id, ii.quantity * p.fraction
+      FROM invoice_items ii
+      CROSS JOIN LATERAL jsonb_to_recordset(ii.portions) AS p(menu_item_id uuid, variant_id uuid, fraction numeric)
+      WHERE ii.invoice_id = p_invoice_id
+      AND jsonb_array_length(COALESCE(ii.portions, '[]'::jsonb)) > 0
+    ),
+    required AS (
+      SELECT r.product_id, SUM(r.quantity * li.quantity) AS quantity
+      FROM line_items li
+      JOIN menu_item_recipes r ON r.menu_item_id = li.menu_item_id
+      -- A variant's own recipe replaces the base recipe
+      AND (
+        r.variant_id = li.variant_id
+        OR (
+          r.variant_id IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM menu_item_recipes vr
+            WHERE vr.menu_item_id = li.menu_item_id
+            AND vr.variant_id = li.variant_id
+          )
+        )
+      )
+      -- Split invoices hand their consumption over to their parts
+      WHERE v_invoice_status NOT IN ('cancelled', 'split')
+      GROUP BY r.product_id
+    ),
+    consumed AS (
+      SELECT product_id, -SUM(quantity_change) AS quantity
+      FROM inventory_history
+      WHERE reference_type = 'invoice'
+      AND reference_id = p_invoice_id
+      AND activity_type = 'sale'
+      GROUP BY product_id
+    )
+    SELECT
+      COALESCE(required.product_id, consumed.product_id) AS product_id,
+      COALESCE(required.quantity, 0) - COALESCE(consumed.quantity, 0) AS delta
+    FROM required
+    FULL OUTER JOIN consumed ON consumed.product_id = required.product_id
+  LOOP
+    IF v_line.delta = 0 THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE products
+    SET quantity = quantity - v_line.delta
+    WHERE id = v_line.product_id
+    RETURNING quantity + v_line.delta, quantity INTO v_before, v_after;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO inventory_history (
+      product_id,
+      activity_type,
+      quantity_before,
+      quantity_change,
+      quantity_after,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) VALUES (
+      v_line.product_id,
+      'sale',
+      v_before,
+      -v_line.delta,
+      v_after,
+      'invoice',
+      p_invoice_id,
+      CASE
+        WHEN v_line.delta > 0 THEN 'Recipe consumption for invoice ' || v_invoice_number
+        ELSE 'Recipe consumption reversed for invoice ' || v_invoice_number
+      END,
+      auth.uid()
+    );
+
+    PERFORM update_daily_snapshot(v_line.product_id, 'sale', v_line.delta);
+  END LOOP;
+
+  PERFORM set_config('app.recipe_sync', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PLATE COST BY VARIANT
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS menu_item_plate_cost(uuid);
+
+CREATE OR REPLACE FUNCTION menu_item_plate_cost(p_menu_item_id uuid, p_variant_id uuid DEFAULT NULL)
+RETURNS numeric AS $$
+  SELECT ROUND(COALESCE(SUM(r.quantity * p.cost_price), 0), 2)
+  FROM menu_item_recipes r
+  JOIN products p ON p.id = r.product_id
+  WHERE r.menu_item_id = p_menu_item_id
+  AND (
+    r.variant_id = p_variant_id
+    OR (
+      r.variant_id IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM menu_item_recipes vr
+        WHERE vr.menu_item_id = p_menu_item_id
+        AND vr.variant_id = p_variant_id
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION refresh_recipe_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_menu_item_id uuid;
+  v_variant_id uuid;
+BEGIN
+  v_menu_item_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.menu_item_id ELSE NEW.menu_item_id END;
+  v_variant_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.variant_id ELSE NEW.variant_id END;
+
+  -- An item whose recipe was cleared keeps its last cost until it is typed in again
+  IF v_variant_id IS NULL THEN
+    UPDATE menu_items
+    SET cost_price = menu_item_plate_cost(v_menu_item_id)
+    WHERE id = v_menu_item_id
+    AND EXISTS (SELECT 1 FROM menu_item_recipes WHERE menu_item_id = v_menu_item_id AND variant_id IS NULL);
+  ELSE
+    UPDATE menu_item_variants
+    SET cost_price = menu_item_plate_cost(v_menu_item_id, v_variant_id)
+    WHERE id = v_variant_id
+    AND EXISTS (SELECT 1 FROM menu_item_recipes WHERE variant_id = v_variant_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION refresh_product_food_costs()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_target numeric;
+  v_item record;
+BEGIN
+  IF NEW.cost_price IS NOT DISTINCT FROM OLD.cost_price THEN
+    RETURN NEW;
+  END IF;
+
+  v_target := COALESCE((SELECT target_food_cost_percent FROM company_profile LIMIT 1), 30);
+
+  FOR v_item IN
+    SELECT m.id, m.price, COALESCE(m.cost_price, 0) AS previous_cost, menu_item_plate_cost(m.id) AS plate_cost
+    FROM menu_items m
+    WHERE EXISTS (
+      SELECT 1 FROM menu_item_recipes r
+      WHERE r.menu_item_id = m.id AND r.variant_id IS NULL AND r.product_id = NEW.id
+    )
+  LOOP
+    UPDATE menu_items SET cost_price = v_item.plate_cost WHERE id = v_item.id;
+
+    IF v_item.price > 0
+      AND v_item.plate_cost / v_item.price * 100 > v_target
+      AND v_item.previous_cost / v_item.price * 100 <= v_target
+    THEN
+      INSERT INTO food_cost_alerts (
+        menu_item_id, product_id, previous_plate_cost, plate_cost, price, food_cost_percent, target_percent
+      ) VALUES (
+        v_item.id, NEW.id, v_item.previous_cost, v_item.plate_cost, v_item.price,
+        ROUND(v_item.plate_cost / v_item.price * 100, 2), v_target
+      );
+    END IF;
+  END LOOP;
+
+  -- Sizes with their own recipe are checked against their own price
+  FOR v_item IN
+    SELECT v.id, v.menu_item_id, v.price, COALESCE(v.cost_price, 0) AS previous_cost,
+      menu_item_plate_cost(v.menu_item_id, v.id) AS plate_cost
+    FROM menu_item_variants v
+    WHERE EXISTS (
+      SELECT 1 FROM menu_item_recipes r
+      WHERE r.variant_id = v.id AND r.product_id = NEW.id
+    )
+  LOOP
+    UPDATE menu_item_variants SET cost_price = v_item.plate_cost WHERE id = v_item.id;
+
+    IF v_item.price > 0
+      AND v_item.plate_cost / v_item.price * 100 > v_target
+      AND v_item.previous_cost / v_item.price * 100 <= v_target
+    THEN
+      INSERT INTO food_cost_alerts (
+        menu_item_id, variant_id, product_id, previous_plate_cost, plate_cost, price, food_cost_percent, target_percent
+      ) VALUES (
+        v_item.menu_item_id, v_item.id, NEW.id, v_item.previous_cost, v_item.plate_cost, v_item.price,
+        ROUND(v_item.plate_cost / v_item.price * 100, 2), v_target
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
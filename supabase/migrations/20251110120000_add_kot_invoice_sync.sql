@@ -0,0 +1,243 @@
+/*
+  # Rebuild KOT Invoices on the Server
+
+  ## Overview
+  Draft invoices for KOTs and table sessions were rebuilt from the browser:
+  the header was updated, every invoice item deleted and the new items
+  inserted in separate requests. A failure half way left an invoice without
+  items, or with totals that did not match its items, and the KOT screen only
+  logged the error. The rebuild now runs in one transaction on the server.
+
+  ## New Functions
+  1. `sync_session_invoice(p_session_id)` - Creates or rebuilds the table
+     session's consolidated invoice from its non-cancelled KOTs and links them
+     to it. Returns the invoice id (NULL while the session has no items).
+  2. `sync_kot_invoice(p_kot_id)` - Creates or rebuilds the invoice of a KOT
+     that is not part of a table session. Returns the invoice id.
+
+  Both price lines exactly as the KOT screen did: unit prices (with modifiers
+  and offers already folded in) come from the KOT, GST from the menu item, and
+  combos expand into one row per component at its allocated share so GST and
+  item-wise reports stay per HSN. Recipe stock is synced afterwards.
+
+  ## Rules
+  - Split, cancelled, paid and part paid bills cannot be rebuilt
+
+  ## Security
+  - Only staff can rebuild invoices
+  - `rebuild_invoice_from_kots` is an internal helper and cannot be called directly
+*/
+
+-- ============================================================================
+-- REBUILD HELPER
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION rebuild_invoice_from_kots(p_invoice_id uuid, p_kot_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.status = 'split' THEN
+    RAISE EXCEPTION 'This bill has already been split';
+  END IF;
+
+  IF v_invoice.status IN ('paid', 'cancelled') OR COALESCE(v_invoice.amount_paid, 0) > 0 THEN
+    RAISE EXCEPTION 'This bill has been paid or cancelled and cannot be changed';
+  END IF;
+
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+
+  WITH lines AS (
+    SELECT ki.*, gen_random_uuid() AS combo_group, k.created_at AS kot_created_at
+    FROM kot_items ki
+    JOIN kots k ON k.id = ki.kot_id
+    WHERE ki.kot_id = ANY(p_kot_ids)
+  ),
+  invoice_lines AS (
+    -- Whole items, half-and-half portions and items with modifiers
+    SELECT
+      l.menu_item_id, l.menu_item_name, l.variant_id, l.variant_name, l.modifiers, l.portions,
+      NULL::uuid AS combo_id, NULL::text AS combo_name, NULL::uuid AS combo_group, NULL::numeric AS combo_quantity,
+      l.seat, l.offer_name, COALESCE(l.offer_discount, 0) AS offer_discount,
+      l.quantity, l.unit_price,
+      l.kot_created_at, l.id AS kot_item_id, 0::bigint AS component_index
+    FROM lines l
+    WHERE jsonb_array_length(COALESCE(l.components, '[]'::jsonb)) = 0
+
+    UNION ALL
+
+    -- Combo components at their allocated share of the bundle price
+    SELECT
+      (c.component->>'menu_item_id')::uuid, c.component->>'menu_item_name', NULL, NULL, '[]'::jsonb, '[]'::jsonb,
+      l.combo_id, l.menu_item_name, l.combo_group, l.quantity,
+      l.seat, NULL, 0,
+      (c.component->>'quantity')::numeric * l.quantity,
+      (c.component->>'allocated_price')::numeric / (c.component->>'quantity')::numeric,
+      l.kot_created_at, l.id, c.ordinality
+    FROM lines l
+    CROSS JOIN LATERAL jsonb_array_elements(l.components) WITH ORDINALITY AS c(component, ordinality)
+    WHERE jsonb_array_length(COALESCE(l.components, '[]'::jsonb)) > 0
+  )
+  INSERT INTO invoice_items (
+    invoice_id, product_id, menu_item_id, product_name, menu_item_name, variant_id, variant_name,
+    modifiers, portions, combo_id, combo_name, combo_group, combo_quantity, seat,
+    offer_name, offer_discount, quantity, unit_price, total,
+    hsn_code, gst_rate, cgst_amount, sgst_amount, igst_amount
+  )
+  SELECT
+    p_invoice_id, NULL, invoice_lines.menu_item_id, NULL, invoice_lines.menu_item_name, invoice_lines.variant_id, invoice_lines.variant_name,
+    invoice_lines.modifiers, invoice_lines.portions, invoice_lines.combo_id, invoice_lines.combo_name, invoice_lines.combo_group, invoice_lines.combo_quantity, invoice_lines.seat,
+    invoice_lines.offer_name, invoice_lines.offer_discount, invoice_lines.quantity, invoice_lines.unit_price,
+    ROUND(invoice_lines.quantity * invoice_lines.unit_price, 2),
+    COALESCE(menu_items.hsn_code, ''),
+    COALESCE(menu_items.gst_rate, 5),
+    CASE WHEN v_invoice.is_interstate THEN 0 ELSE ROUND(invoice_lines.quantity * invoice_lines.unit_price, 2) * COALESCE(menu_items.gst_rate, 5) / 200 END,
+    CASE WHEN v_invoice.is_interstate THEN 0 ELSE ROUND(invoice_lines.quantity * invoice_lines.unit_price, 2) * COALESCE(menu_items.gst_rate, 5) / 200 END,
+    CASE WHEN v_invoice.is_interstate THEN ROUND(invoice_lines.quantity * invoice_lines.unit_price, 2) * COALESCE(menu_items.gst_rate, 5) / 100 ELSE 0 END
+  FROM invoice_lines
+  LEFT JOIN menu_items ON menu_items.id = invoice_lines.menu_item_id
+  ORDER BY invoice_lines.kot_created_at, invoice_lines.kot_item_id, invoice_lines.component_index;
+
+  UPDATE invoices
+  SET subtotal = totals.subtotal,
+      cgst = totals.cgst,
+      sgst = totals.sgst,
+      igst = totals.igst,
+      tax = totals.cgst + totals.sgst + totals.igst,
+      total = totals.subtotal + totals.cgst + totals.sgst + totals.igst
+  FROM (
+    SELECT
+      COALESCE(SUM(total), 0) AS subtotal,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+  ) AS totals
+  WHERE invoices.id = p_invoice_id;
+
+  UPDATE kots SET invoice_id = p_invoice_id WHERE id = ANY(p_kot_ids);
+
+  PERFORM sync_invoice_recipe_consumption(p_invoice_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION rebuild_invoice_from_kots(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+-- Counter, table and delivery sales are intra-state supplies
+CREATE OR REPLACE FUNCTION create_kot_draft_invoice()
+RETURNS uuid AS $$
+DECLARE
+  v_invoice_id uuid;
+BEGIN
+  INSERT INTO invoices (
+    invoice_number, customer_id, is_interstate, place_of_supply, due_date,
+    status, payment_status, subtotal, cgst, sgst, igst, tax, total, created_by
+  ) VALUES (
+    'INV-' || to_char(now(), 'YYYYMM') || '-' || RIGHT((EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    NULL, false, (SELECT state FROM company_profile LIMIT 1), CURRENT_DATE,
+    'draft', 'unpaid', 0, 0, 0, 0, 0, 0, auth.uid()
+  )
+  RETURNING id INTO v_invoice_id;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_kot_draft_invoice() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION assert_can_bill_kots()
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to bill orders';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION assert_can_bill_kots() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- SESSION INVOICE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_session_invoice(p_session_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_session table_sessions;
+  v_kot_ids uuid[];
+  v_invoice_id uuid;
+BEGIN
+  PERFORM assert_can_bill_kots();
+
+  SELECT * INTO v_session FROM table_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table session not found';
+  END IF;
+
+  SELECT array_agg(id) INTO v_kot_ids
+  FROM kots
+  WHERE session_id = p_session_id
+  AND status != 'cancelled';
+
+  IF NOT EXISTS (SELECT 1 FROM kot_items WHERE kot_id = ANY(COALESCE(v_kot_ids, '{}'))) THEN
+    RETURN v_session.invoice_id;
+  END IF;
+
+  v_invoice_id := v_session.invoice_id;
+
+  IF v_invoice_id IS NULL THEN
+    v_invoice_id := create_kot_draft_invoice();
+    UPDATE table_sessions SET invoice_id = v_invoice_id WHERE id = p_session_id;
+  END IF;
+
+  PERFORM rebuild_invoice_from_kots(v_invoice_id, v_kot_ids);
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- SINGLE KOT INVOICE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_kot_invoice(p_kot_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_kot kots;
+  v_invoice_id uuid;
+BEGIN
+  PERFORM assert_can_bill_kots();
+
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT not found';
+  END IF;
+
+  IF v_kot.session_id IS NOT NULL THEN
+    RETURN sync_session_invoice(v_kot.session_id);
+  END IF;
+
+  v_invoice_id := v_kot.invoice_id;
+
+  IF v_invoice_id IS NULL THEN
+    v_invoice_id := create_kot_draft_invoice();
+  END IF;
+
+  PERFORM rebuild_invoice_from_kots(v_invoice_id, ARRAY[p_kot_id]);
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
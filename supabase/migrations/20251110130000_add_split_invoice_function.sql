@@ -0,0 +1,130 @@
+/*
+  # Split Bills in One Transaction
+
+  ## Overview
+  Splitting a bill wrote each part, its items, the original's 'split' status
+  and the recipe stock moves as separate requests from the browser. A failure
+  part way left orphan parts next to a bill that was still payable, or a
+  split bill whose stock had not been handed over. The split now runs in one
+  transaction on the server.
+
+  ## New Functions
+  1. `split_invoice(p_invoice_id, p_parts)` - Creates the parts with their
+     items, marks the original 'split' and moves its recipe stock to the
+     parts. Returns the new invoice ids in part order.
+     `p_parts`: [{ label, subtotal, cgst, sgst, igst, tax, total, items: [invoice item] }]
+     The shares and GST of each part are still worked out by the Invoices
+     screen; the server checks that the parts add back up to the original.
+
+  ## Rules
+  - Only unpaid bills generated from KOTs can be split, and only once
+  - A split needs at least two parts
+
+  ## Security
+  - Only staff who can edit invoices can split them
+*/
+
+CREATE OR REPLACE FUNCTION split_invoice(p_invoice_id uuid, p_parts jsonb)
+RETURNS uuid[] AS $$
+DECLARE
+  v_invoice invoices;
+  v_part record;
+  v_part_id uuid;
+  v_part_ids uuid[] := '{}';
+  v_parts_subtotal numeric;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'accountant', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to split bills';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.status IN ('split', 'cancelled') OR v_invoice.split_from_invoice_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This bill has already been split or cancelled';
+  END IF;
+
+  IF COALESCE(v_invoice.amount_paid, 0) > 0 THEN
+    RAISE EXCEPTION 'A part paid bill cannot be split';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM kots WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'Only bills generated from KOTs can be split';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_parts, '[]'::jsonb)) < 2 THEN
+    RAISE EXCEPTION 'A split needs at least two parts';
+  END IF;
+
+  SELECT COALESCE(SUM((part->>'subtotal')::numeric), 0) INTO v_parts_subtotal
+  FROM jsonb_array_elements(p_parts) AS part;
+
+  IF ROUND(v_parts_subtotal, 2) != (SELECT ROUND(COALESCE(SUM(total), 0), 2) FROM invoice_items WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'The parts do not add up to the bill; reload it and split again';
+  END IF;
+
+  FOR v_part IN
+    SELECT part, ordinality
+    FROM jsonb_array_elements(p_parts) WITH ORDINALITY AS parts(part, ordinality)
+    ORDER BY ordinality
+  LOOP
+    INSERT INTO invoices (
+      invoice_number, customer_id, subtotal, cgst, sgst, igst, tax, total,
+      is_interstate, place_of_supply, due_date, status, payment_status,
+      split_from_invoice_id, split_label, created_by
+    ) VALUES (
+      v_invoice.invoice_number || '-' || v_part.ordinality,
+      v_invoice.customer_id,
+      (v_part.part->>'subtotal')::numeric,
+      (v_part.part->>'cgst')::numeric,
+      (v_part.part->>'sgst')::numeric,
+      (v_part.part->>'igst')::numeric,
+      (v_part.part->>'tax')::numeric,
+      (v_part.part->>'total')::numeric,
+      v_invoice.is_interstate,
+      v_invoice.place_of_supply,
+      v_invoice.due_date,
+      'draft',
+      'unpaid',
+      p_invoice_id,
+      v_part.part->>'label',
+      auth.uid()
+    )
+    RETURNING id INTO v_part_id;
+
+    INSERT INTO invoice_items (
+      invoice_id, product_id, menu_item_id, product_name, menu_item_name, variant_id, variant_name,
+      modifiers, portions, combo_id, combo_name, combo_group, combo_quantity, seat,
+      offer_name, offer_discount, quantity, unit_price, total,
+      hsn_code, gst_rate, cgst_amount, sgst_amount, igst_amount
+    )
+    SELECT
+      v_part_id, item.product_id, item.menu_item_id, item.product_name, item.menu_item_name, item.variant_id, item.variant_name,
+      COALESCE(item.modifiers, '[]'::jsonb), COALESCE(item.portions, '[]'::jsonb),
+      item.combo_id, item.combo_name, item.combo_group, item.combo_quantity, item.seat,
+      item.offer_name, COALESCE(item.offer_discount, 0), item.quantity, item.unit_price, item.total,
+      item.hsn_code, item.gst_rate, item.cgst_amount, item.sgst_amount, item.igst_amount
+    FROM jsonb_populate_recordset(NULL::invoice_items, v_part.part->'items') AS item;
+
+    v_part_ids := v_part_ids || v_part_id;
+  END LOOP;
+
+  UPDATE invoices SET status = 'split' WHERE id = p_invoice_id;
+
+  -- Release the original's recipe stock, then consume it again per part
+  PERFORM sync_invoice_recipe_consumption(p_invoice_id);
+
+  FOR v_part_id IN SELECT unnest(v_part_ids) LOOP
+    PERFORM sync_invoice_recipe_consumption(v_part_id);
+  END LOOP;
+
+  RETURN v_part_ids;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
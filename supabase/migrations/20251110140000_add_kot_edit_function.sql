@@ -0,0 +1,140 @@
+/*
+  # Edit KOT Items in Place
+
+  ## Overview
+  Saving an edited KOT deleted all of its items and inserted them again, so
+  every line got a new id: the status history logged for the kitchen display
+  lost its lines, and a failed insert left the KOT empty. Edits are now
+  applied by row id in one transaction, together with the revision that is
+  printed for the kitchen.
+
+  ## New Functions
+  1. `edit_kot_items(p_kot_id, p_items, p_added, p_cancelled)` - Updates the
+     lines that are kept, inserts new lines (those without an id) and deletes
+     the lines left out. When the edit added or cancelled anything it is
+     stored as the KOT's next revision and a ready KOT goes back to
+     preparing if the kitchen has new lines. Returns the revision number, or
+     NULL when the edit changed nothing the kitchen needs to see.
+     - `p_items`: the full item list after the edit, as kot_items rows
+     - `p_added` / `p_cancelled`: the difference worked out by the KOT screen
+
+  ## Rules
+  - Lines the kitchen has started keep their progress; a held line that is
+    fired gets its fired time from the server
+  - Lines removed from the KOT by someone else while it was being edited
+    cannot be brought back by the edit
+
+  ## Security
+  - Only staff can edit KOTs
+*/
+
+CREATE OR REPLACE FUNCTION edit_kot_items(
+  p_kot_id uuid,
+  p_items jsonb,
+  p_added jsonb DEFAULT '[]'::jsonb,
+  p_cancelled jsonb DEFAULT '[]'::jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_kot kots;
+  v_revision integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to edit KOTs';
+  END IF;
+
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT not found';
+  END IF;
+
+  IF v_kot.status = 'cancelled' OR v_kot.settled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cancelled or settled KOTs cannot be edited';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A KOT needs at least one item; void it instead';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_populate_recordset(NULL::kot_items, p_items) AS e
+    WHERE e.id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM kot_items ki WHERE ki.id = e.id AND ki.kot_id = p_kot_id)
+  ) THEN
+    RAISE EXCEPTION 'This KOT was changed while you were editing it; open it again';
+  END IF;
+
+  DELETE FROM kot_items ki
+  WHERE ki.kot_id = p_kot_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_populate_recordset(NULL::kot_items, p_items) AS e
+    WHERE e.id = ki.id
+  );
+
+  UPDATE kot_items ki
+  SET menu_item_id = e.menu_item_id,
+      menu_item_name = e.menu_item_name,
+      variant_id = e.variant_id,
+      variant_name = e.variant_name,
+      modifiers = COALESCE(e.modifiers, '[]'::jsonb),
+      portions = COALESCE(e.portions, '[]'::jsonb),
+      combo_id = e.combo_id,
+      components = COALESCE(e.components, '[]'::jsonb),
+      quantity = e.quantity,
+      unit_price = e.unit_price,
+      offer_name = e.offer_name,
+      offer_discount = COALESCE(e.offer_discount, 0),
+      notes = e.notes,
+      station_id = e.station_id,
+      seat = e.seat,
+      course = COALESCE(e.course, 1),
+      status = CASE WHEN e.status = 'pending' AND ki.status != 'held' THEN ki.status ELSE e.status END,
+      fired_at = CASE WHEN ki.status = 'held' AND e.status = 'pending' THEN now() ELSE ki.fired_at END
+  FROM jsonb_populate_recordset(NULL::kot_items, p_items) AS e
+  WHERE ki.id = e.id
+  AND ki.kot_id = p_kot_id;
+
+  INSERT INTO kot_items (
+    kot_id, menu_item_id, menu_item_name, variant_id, variant_name, modifiers, portions,
+    combo_id, components, quantity, unit_price, offer_name, offer_discount,
+    notes, station_id, seat, course, status, fired_at
+  )
+  SELECT
+    p_kot_id, e.menu_item_id, e.menu_item_name, e.variant_id, e.variant_name,
+    COALESCE(e.modifiers, '[]'::jsonb), COALESCE(e.portions, '[]'::jsonb),
+    e.combo_id, COALESCE(e.components, '[]'::jsonb), e.quantity, e.unit_price,
+    e.offer_name, COALESCE(e.offer_discount, 0),
+    e.notes, e.station_id, e.seat, COALESCE(e.course, 1), COALESCE(e.status, 'pending'), e.fired_at
+  FROM jsonb_populate_recordset(NULL::kot_items, p_items) AS e
+  WHERE e.id IS NULL;
+
+  IF jsonb_array_length(COALESCE(p_added, '[]'::jsonb)) = 0
+    AND jsonb_array_length(COALESCE(p_cancelled, '[]'::jsonb)) = 0
+  THEN
+    RETURN NULL;
+  END IF;
+
+  v_revision := v_kot.revision + 1;
+
+  INSERT INTO kot_revisions (kot_id, revision, added, cancelled, items, created_by)
+  VALUES (p_kot_id, v_revision, COALESCE(p_added, '[]'::jsonb), COALESCE(p_cancelled, '[]'::jsonb), p_items, auth.uid());
+
+  UPDATE kots
+  SET revision = v_revision,
+      status = CASE
+        WHEN status = 'ready' AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(COALESCE(p_added, '[]'::jsonb)) AS added
+          WHERE added->>'status' IS DISTINCT FROM 'held'
+        ) THEN 'preparing'
+        ELSE status
+      END
+  WHERE id = p_kot_id;
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,285 @@
+/*
+  # Protect Fired KOT Items and Limit Manager PIN Attempts
+
+  ## Overview
+  Editing a KOT could lower the quantity of, or remove, a line the kitchen
+  was already preparing or had ready, with no reason, no manager PIN and no
+  void record. Such lines can now only be reduced or removed through
+  `void_kot_item`. Separately, the manager PIN could be guessed without
+  limit; wrong PINs now lock the person entering them out for a while.
+
+  ## New Tables
+  1. `approval_pin_attempts` - Wrong manager PINs per staff member
+     - `profile_id` (uuid, primary key) - Staff member who entered the PIN
+     - `failed_attempts` (integer) - Wrong PINs since the last correct one
+     - `locked_until` (timestamptz) - No PIN is accepted from them until then
+     - `updated_at` (timestamptz)
+
+  ## Triggers
+  - `guard_fired_kot_items` - Deleting a kot_items row, or lowering its
+    quantity, fails once the kitchen has started on it, unless it is done by
+    a void. As for voids, a held line has not started and a pending line has
+    started once its KOT is no longer 'pending'
+
+  ## Modified Functions
+  1. `verify_approval_pin(p_pin)` - Refuses PINs while the caller is locked
+     out. A wrong PIN is counted and returns NULL instead of raising, so the
+     count is kept; 5 wrong PINs in a row lock the caller out for 15 minutes.
+  2. `void_kot_item(...)` - Returns NULL without voiding when the PIN is wrong
+  3. `void_kot(...)` - Now returns whether the ticket was voided; false when
+     the PIN is wrong
+
+  ## Security
+  - approval_pin_attempts has no policies; it is only read and written by
+    verify_approval_pin
+*/
+
+-- ============================================================================
+-- FIRED ITEMS ARE ONLY REMOVED BY VOIDS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION guard_fired_kot_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_kot_status text;
+BEGIN
+  IF current_setting('app.kot_void', true) = 'on'
+    OR OLD.status = 'held'
+    OR (TG_OP = 'UPDATE' AND NEW.quantity >= OLD.quantity)
+  THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  -- The kitchen works from the ticket, so a pending line is started with it.
+  -- No ticket means the whole KOT is being deleted.
+  SELECT status INTO v_kot_status FROM kots WHERE id = OLD.kot_id;
+
+  IF FOUND AND (OLD.status != 'pending' OR v_kot_status != 'pending') THEN
+    RAISE EXCEPTION '% is already being prepared; void it to take it off the KOT', OLD.menu_item_name;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'guard_fired_kot_items') THEN
+    CREATE TRIGGER guard_fired_kot_items
+      BEFORE DELETE OR UPDATE OF quantity ON kot_items
+      FOR EACH ROW EXECUTE FUNCTION guard_fired_kot_items();
+  END IF;
+END $$;
+
+-- ============================================================================
+-- PIN ATTEMPT LIMIT
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS approval_pin_attempts (
+  profile_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- No policies: attempts are only counted by verify_approval_pin
+ALTER TABLE approval_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Returns the admin whose PIN matches, or NULL for a wrong PIN. Callers must
+-- not raise on NULL, or the failed attempt is rolled back with them.
+CREATE OR REPLACE FUNCTION verify_approval_pin(p_pin text)
+RETURNS uuid AS $$
+DECLARE
+  v_admin_id uuid;
+  v_locked_until timestamptz;
+BEGIN
+  IF p_pin IS NULL OR p_pin = '' THEN
+    RAISE EXCEPTION 'Manager PIN is required once preparation has started';
+  END IF;
+
+  SELECT locked_until INTO v_locked_until
+  FROM approval_pin_attempts
+  WHERE profile_id = auth.uid();
+
+  IF v_locked_until > now() THEN
+    RAISE EXCEPTION 'Too many wrong PINs; try again after %', to_char(v_locked_until, 'HH24:MI');
+  END IF;
+
+  SELECT approval_pins.profile_id INTO v_admin_id
+  FROM approval_pins
+  JOIN profiles ON profiles.id = approval_pins.profile_id
+  WHERE profiles.role = 'admin'
+  AND approval_pins.pin_hash = extensions.crypt(p_pin, approval_pins.pin_hash)
+  LIMIT 1;
+
+  IF v_admin_id IS NULL THEN
+    INSERT INTO approval_pin_attempts (profile_id, failed_attempts)
+    VALUES (auth.uid(), 1)
+    ON CONFLICT (profile_id) DO UPDATE
+    SET failed_attempts = CASE
+          WHEN approval_pin_attempts.locked_until IS NOT NULL THEN 1
+          ELSE approval_pin_attempts.failed_attempts + 1
+        END,
+        locked_until = NULL,
+        updated_at = now();
+
+    UPDATE approval_pin_attempts
+    SET failed_attempts = 0,
+        locked_until = now() + interval '15 minutes'
+    WHERE profile_id = auth.uid()
+    AND failed_attempts >= 5;
+
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM approval_pin_attempts WHERE profile_id = auth.uid();
+
+  RETURN v_admin_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION verify_approval_pin(text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- VOID AN ITEM
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION void_kot_item(
+  p_kot_item_id uuid,
+  p_quantity numeric,
+  p_reason_code text,
+  p_notes text DEFAULT NULL,
+  p_pin text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_item kot_items;
+  v_kot kots;
+  v_prep_started boolean;
+  v_approved_by uuid;
+  v_adjustment numeric := 0;
+  v_void_id uuid;
+BEGIN
+  SELECT * INTO v_item FROM kot_items WHERE id = p_kot_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT item not found';
+  END IF;
+
+  SELECT * INTO v_kot FROM kots WHERE id = v_item.kot_id;
+  PERFORM assert_kot_voidable(v_kot, p_reason_code, p_notes);
+
+  IF p_quantity IS NULL OR p_quantity <= 0 OR p_quantity > v_item.quantity THEN
+    RAISE EXCEPTION 'Void quantity must be between 0 and %', v_item.quantity;
+  END IF;
+
+  -- A held line has not reached the kitchen, whatever the rest of the ticket is doing
+  v_prep_started := v_item.status != 'held' AND (v_item.status != 'pending' OR v_kot.status != 'pending');
+  IF v_prep_started THEN
+    v_approved_by := verify_approval_pin(p_pin);
+    IF v_approved_by IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  IF v_kot.invoice_id IS NOT NULL THEN
+    v_adjustment := adjust_invoice_for_void(v_kot.invoice_id, v_item, p_quantity);
+  END IF;
+
+  INSERT INTO kot_voids (
+    scope, kot_id, kot_item_id, kot_number, menu_item_id, menu_item_name, variant_name,
+    quantity, unit_price, amount, reason_code, notes, prep_started,
+    voided_by, approved_by, invoice_id, invoice_adjustment
+  ) VALUES (
+    'item', v_kot.id, v_item.id, v_kot.kot_number, v_item.menu_item_id, v_item.menu_item_name, v_item.variant_name,
+    p_quantity, v_item.unit_price, ROUND(p_quantity * v_item.unit_price, 2), p_reason_code, p_notes, v_prep_started,
+    auth.uid(), v_approved_by, v_kot.invoice_id, v_adjustment
+  )
+  RETURNING id INTO v_void_id;
+
+  PERFORM set_config('app.kot_void', 'on', true);
+
+  IF p_quantity = v_item.quantity THEN
+    DELETE FROM kot_items WHERE id = v_item.id;
+  ELSE
+    UPDATE kot_items SET quantity = quantity - p_quantity WHERE id = v_item.id;
+  END IF;
+
+  PERFORM set_config('app.kot_void', 'off', true);
+
+  IF NOT EXISTS (SELECT 1 FROM kot_items WHERE kot_id = v_kot.id) THEN
+    UPDATE kots
+    SET status = 'cancelled',
+        notes = COALESCE(notes || E'\n', '') || 'All items voided'
+    WHERE id = v_kot.id;
+  END IF;
+
+  PERFORM reopen_voided_session(v_kot.session_id);
+
+  RETURN v_void_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- VOID A TICKET
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS void_kot(uuid, text, text, text);
+
+CREATE OR REPLACE FUNCTION void_kot(
+  p_kot_id uuid,
+  p_reason_code text,
+  p_notes text DEFAULT NULL,
+  p_pin text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_kot kots;
+  v_item kot_items;
+  v_prep_started boolean;
+  v_approved_by uuid;
+  v_adjustment numeric;
+BEGIN
+  SELECT * INTO v_kot FROM kots WHERE id = p_kot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'KOT not found';
+  END IF;
+
+  PERFORM assert_kot_voidable(v_kot, p_reason_code, p_notes);
+
+  v_prep_started := v_kot.status != 'pending' OR EXISTS (
+    SELECT 1 FROM kot_items WHERE kot_id = p_kot_id AND status NOT IN ('pending', 'held')
+  );
+  IF v_prep_started THEN
+    v_approved_by := verify_approval_pin(p_pin);
+    IF v_approved_by IS NULL THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  -- Items stay on the cancelled KOT so the ticket can still be reprinted
+  FOR v_item IN SELECT * FROM kot_items WHERE kot_id = p_kot_id LOOP
+    v_adjustment := 0;
+    IF v_kot.invoice_id IS NOT NULL THEN
+      v_adjustment := adjust_invoice_for_void(v_kot.invoice_id, v_item, v_item.quantity);
+    END IF;
+
+    INSERT INTO kot_voids (
+      scope, kot_id, kot_item_id, kot_number, menu_item_id, menu_item_name, variant_name,
+      quantity, unit_price, amount, reason_code, notes, prep_started,
+      voided_by, approved_by, invoice_id, invoice_adjustment
+    ) VALUES (
+      'ticket', v_kot.id, v_item.id, v_kot.kot_number, v_item.menu_item_id, v_item.menu_item_name, v_item.variant_name,
+      v_item.quantity, v_item.unit_price, ROUND(v_item.quantity * v_item.unit_price, 2), p_reason_code, p_notes, v_prep_started,
+      auth.uid(), v_approved_by, v_kot.invoice_id, v_adjustment
+    );
+  END LOOP;
+
+  UPDATE kots SET status = 'cancelled' WHERE id = p_kot_id;
+
+  PERFORM reopen_voided_session(v_kot.session_id);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,179 @@
+/*
+  # Ingest Each Aggregator Order Once
+
+  ## Overview
+  `ingest_aggregator_order` created the KOT, the invoice and the recipe stock
+  moves first and registered the order in aggregator_orders last, overwriting
+  any row that was already there. A platform retrying its webhook, or two
+  deliveries of the same order arriving together, each created their own
+  KOT, invoice and stock deduction. The order is now claimed before anything
+  is created, and a delivery that loses the claim gets the existing order back.
+
+  ## Modified Functions
+  1. `ingest_aggregator_order(...)` - Registers the order as 'created' first;
+     an order that failed before is claimed again. When the order was already
+     created, returns its KOT and invoice with `duplicate: true` and creates
+     nothing.
+
+  ## Rules
+  - A concurrent delivery of the same order waits for the first one to commit
+    and is then answered as a duplicate; if the first one fails and rolls
+    back, the waiting delivery creates the order
+*/
+
+-- p_items: [{ external_item_id, name, quantity, unit_price, modifiers, notes }]
+CREATE OR REPLACE FUNCTION ingest_aggregator_order(
+  p_platform text,
+  p_external_order_id text,
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text,
+  p_items jsonb,
+  p_payload jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_integration aggregator_integrations;
+  v_unmapped text;
+  v_order_id uuid;
+  v_existing aggregator_orders;
+  v_kot_id uuid;
+  v_kot_number text;
+  v_invoice_id uuid;
+BEGIN
+  SELECT * INTO v_integration
+  FROM aggregator_integrations
+  WHERE platform = p_platform AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '% integration is not enabled', p_platform;
+  END IF;
+
+  IF v_integration.kot_user_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the staff account that owns % orders', v_integration.display_name;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Order has no items';
+  END IF;
+
+  SELECT string_agg((item->>'name') || ' [' || (item->>'external_item_id') || ']', ', ') INTO v_unmapped
+  FROM jsonb_array_elements(p_items) AS item
+  WHERE NOT EXISTS (
+    SELECT 1 FROM aggregator_item_mappings
+    WHERE aggregator_item_mappings.platform = p_platform
+    AND aggregator_item_mappings.external_item_id = item->>'external_item_id'
+  );
+
+  IF v_unmapped IS NOT NULL THEN
+    RAISE EXCEPTION 'Unmapped items: %', v_unmapped;
+  END IF;
+
+  -- Claim the order before creating anything; only a failed order is retried
+  INSERT INTO aggregator_orders (platform, external_order_id, status, payload)
+  VALUES (p_platform, p_external_order_id, 'created', COALESCE(p_payload, '{}'::jsonb))
+  ON CONFLICT (platform, external_order_id) DO UPDATE
+  SET status = 'created',
+      payload = EXCLUDED.payload,
+      error = NULL
+  WHERE aggregator_orders.status = 'failed'
+  RETURNING id INTO v_order_id;
+
+  IF v_order_id IS NULL THEN
+    SELECT * INTO v_existing
+    FROM aggregator_orders
+    WHERE platform = p_platform AND external_order_id = p_external_order_id;
+
+    RETURN jsonb_build_object(
+      'duplicate', true,
+      'kot_id', v_existing.kot_id,
+      'kot_number', (SELECT kot_number FROM kots WHERE id = v_existing.kot_id),
+      'invoice_id', v_existing.invoice_id
+    );
+  END IF;
+
+  INSERT INTO kots (
+    kot_number, order_type, customer_name, customer_phone,
+    delivery_platform, delivery_order_id, status, notes, user_id
+  ) VALUES (
+    generate_kot_number(), 'delivery', p_customer_name, p_customer_phone,
+    v_integration.display_name, p_external_order_id, 'pending', p_notes, v_integration.kot_user_id
+  )
+  RETURNING id, kot_number INTO v_kot_id, v_kot_number;
+
+  INSERT INTO kot_items (
+    kot_id, menu_item_id, menu_item_name, variant_id, variant_name, modifiers,
+    quantity, unit_price, notes, station_id
+  )
+  SELECT
+    v_kot_id, menu_items.id, menu_items.name, menu_item_variants.id, menu_item_variants.name,
+    COALESCE(item->'modifiers', '[]'::jsonb),
+    (item->>'quantity')::numeric, (item->>'unit_price')::numeric, item->>'notes',
+    COALESCE(menu_items.station_id, menu_categories.station_id)
+  FROM jsonb_array_elements(p_items) AS item
+  JOIN aggregator_item_mappings
+    ON aggregator_item_mappings.platform = p_platform
+    AND aggregator_item_mappings.external_item_id = item->>'external_item_id'
+  JOIN menu_items ON menu_items.id = aggregator_item_mappings.menu_item_id
+  LEFT JOIN menu_categories ON menu_categories.id = menu_items.category_id
+  LEFT JOIN menu_item_variants ON menu_item_variants.id = aggregator_item_mappings.variant_id;
+
+  -- Delivery orders are intra-state supplies
+  INSERT INTO invoices (
+    invoice_number, customer_id, is_interstate, place_of_supply, due_date,
+    status, payment_status, subtotal, cgst, sgst, igst, tax, total, created_by
+  ) VALUES (
+    'INV-' || to_char(now(), 'YYYYMM') || '-' || RIGHT((EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    NULL, false, (SELECT state FROM company_profile LIMIT 1), CURRENT_DATE,
+    'draft', 'unpaid', 0, 0, 0, 0, 0, 0, v_integration.kot_user_id
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (
+    invoice_id, product_id, menu_item_id, product_name, menu_item_name, variant_id, variant_name,
+    modifiers, quantity, unit_price, total, hsn_code, gst_rate, cgst_amount, sgst_amount, igst_amount
+  )
+  SELECT
+    v_invoice_id, NULL, kot_items.menu_item_id, NULL, kot_items.menu_item_name, kot_items.variant_id, kot_items.variant_name,
+    kot_items.modifiers, kot_items.quantity, kot_items.unit_price,
+    ROUND(kot_items.quantity * kot_items.unit_price, 2),
+    COALESCE(menu_items.hsn_code, ''),
+    COALESCE(menu_items.gst_rate, 5),
+    ROUND(kot_items.quantity * kot_items.unit_price, 2) * COALESCE(menu_items.gst_rate, 5) / 200,
+    ROUND(kot_items.quantity * kot_items.unit_price, 2) * COALESCE(menu_items.gst_rate, 5) / 200,
+    0
+  FROM kot_items
+  LEFT JOIN menu_items ON menu_items.id = kot_items.menu_item_id
+  WHERE kot_items.kot_id = v_kot_id;
+
+  UPDATE invoices
+  SET subtotal = totals.subtotal,
+      cgst = totals.cgst,
+      sgst = totals.sgst,
+      igst = 0,
+      tax = totals.cgst + totals.sgst,
+      total = totals.subtotal + totals.cgst + totals.sgst
+  FROM (
+    SELECT
+      COALESCE(SUM(total), 0) AS subtotal,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst
+    FROM invoice_items
+    WHERE invoice_id = v_invoice_id
+  ) AS totals
+  WHERE invoices.id = v_invoice_id;
+
+  UPDATE kots SET invoice_id = v_invoice_id WHERE id = v_kot_id;
+
+  PERFORM sync_invoice_recipe_consumption(v_invoice_id);
+
+  UPDATE aggregator_orders
+  SET kot_id = v_kot_id,
+      invoice_id = v_invoice_id
+  WHERE id = v_order_id;
+
+  RETURN jsonb_build_object('kot_id', v_kot_id, 'kot_number', v_kot_number, 'invoice_id', v_invoice_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION ingest_aggregator_order(text, text, text, text, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,113 @@
+/*
+  # Complete Counter Sales in One Transaction
+
+  ## Overview
+  The counter POS wrote a sale as separate requests from the browser: the
+  invoice (already marked paid), its items, its payment and the recipe stock
+  moves. A failure part way left a paid invoice without items or payment, and
+  trying the sale again created a second invoice. The sale now runs in one
+  transaction on the server.
+
+  ## New Functions
+  1. `complete_counter_sale(p_customer_id, p_discount, p_items, p_payment_method_id, p_amount_tendered)`
+     - Creates the paid invoice with its items and payment and consumes the
+       recipe stock. Returns the new invoice.
+     - `p_items`: invoice_items rows as built by the POS screen, with the bill
+       discount and GST already applied; the invoice totals are summed from them
+     - `p_amount_tendered`: cash handed over, or NULL
+
+  ## Rules
+  - A sale needs at least one item and a payment method
+  - Cash tendered cannot be less than the total
+
+  ## Security
+  - Only staff can complete counter sales
+*/
+
+CREATE OR REPLACE FUNCTION complete_counter_sale(
+  p_customer_id uuid,
+  p_discount numeric,
+  p_items jsonb,
+  p_payment_method_id uuid,
+  p_amount_tendered numeric DEFAULT NULL
+)
+RETURNS invoices AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to make counter sales';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the sale';
+  END IF;
+
+  IF p_payment_method_id IS NULL THEN
+    RAISE EXCEPTION 'Select a payment method';
+  END IF;
+
+  -- Counter sales are intra-state supplies
+  INSERT INTO invoices (
+    invoice_number, customer_id, is_interstate, place_of_supply, due_date, paid_date,
+    status, payment_status, discount, subtotal, cgst, sgst, igst, tax, total, amount_paid, created_by
+  ) VALUES (
+    'INV-' || to_char(now(), 'YYYYMM') || '-' || RIGHT((EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    p_customer_id, false, (SELECT state FROM company_profile LIMIT 1), CURRENT_DATE, CURRENT_DATE,
+    'paid', 'paid', COALESCE(p_discount, 0), 0, 0, 0, 0, 0, 0, 0, auth.uid()
+  )
+  RETURNING id INTO v_invoice.id;
+
+  INSERT INTO invoice_items (
+    invoice_id, product_id, menu_item_id, product_name, menu_item_name, variant_id, variant_name,
+    modifiers, portions, combo_id, combo_name, combo_group, combo_quantity, seat,
+    offer_name, offer_discount, quantity, unit_price, total,
+    hsn_code, gst_rate, cgst_amount, sgst_amount, igst_amount
+  )
+  SELECT
+    v_invoice.id, item.product_id, item.menu_item_id, item.product_name, item.menu_item_name, item.variant_id, item.variant_name,
+    COALESCE(item.modifiers, '[]'::jsonb), COALESCE(item.portions, '[]'::jsonb),
+    item.combo_id, item.combo_name, item.combo_group, item.combo_quantity, item.seat,
+    item.offer_name, COALESCE(item.offer_discount, 0), item.quantity, item.unit_price, item.total,
+    item.hsn_code, item.gst_rate, item.cgst_amount, item.sgst_amount, item.igst_amount
+  FROM jsonb_populate_recordset(NULL::invoice_items, p_items) AS item;
+
+  UPDATE invoices
+  SET subtotal = totals.subtotal,
+      cgst = totals.cgst,
+      sgst = totals.sgst,
+      igst = totals.igst,
+      tax = totals.cgst + totals.sgst + totals.igst,
+      total = totals.subtotal + totals.cgst + totals.sgst + totals.igst,
+      amount_paid = totals.subtotal + totals.cgst + totals.sgst + totals.igst
+  FROM (
+    SELECT
+      COALESCE(SUM(total), 0) AS subtotal,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM invoice_items
+    WHERE invoice_id = v_invoice.id
+  ) AS totals
+  WHERE invoices.id = v_invoice.id
+  RETURNING invoices.* INTO v_invoice;
+
+  IF p_amount_tendered IS NOT NULL AND p_amount_tendered < v_invoice.total THEN
+    RAISE EXCEPTION 'Cash tendered is less than the total of %', v_invoice.total;
+  END IF;
+
+  INSERT INTO invoice_payments (
+    invoice_id, amount, payment_date, payment_method_id, amount_tendered, notes, created_by
+  ) VALUES (
+    v_invoice.id, v_invoice.total, CURRENT_DATE, p_payment_method_id, p_amount_tendered, 'Counter sale', auth.uid()
+  );
+
+  PERFORM sync_invoice_recipe_consumption(v_invoice.id);
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,125 @@
+/*
+  # Mark Counter Sales
+
+  ## Overview
+  Counter POS sales are invoices without a KOT, so nothing told them apart
+  from invoices raised by hand and the revenue by channel report left them
+  out. Counter sales are now marked on the invoice.
+
+  ## Changes
+  1. `invoices.counter_sale` (boolean) - Sold at the counter POS. Existing
+     counter sales and migrated quick bills are found by their payment notes.
+
+  ## Modified Functions
+  1. `complete_counter_sale(...)` - Marks the invoice as a counter sale
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'counter_sale'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN counter_sale boolean NOT NULL DEFAULT false;
+
+    UPDATE invoices
+    SET counter_sale = true
+    WHERE EXISTS (
+      SELECT 1 FROM invoice_payments ip
+      WHERE ip.invoice_id = invoices.id
+      AND ip.notes IN ('Counter sale', 'Migrated from quick bill')
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_counter_sale ON invoices(created_at) WHERE counter_sale;
+
+CREATE OR REPLACE FUNCTION complete_counter_sale(
+  p_customer_id uuid,
+  p_discount numeric,
+  p_items jsonb,
+  p_payment_method_id uuid,
+  p_amount_tendered numeric DEFAULT NULL
+)
+RETURNS invoices AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('admin', 'sales', 'sales_person')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to make counter sales';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the sale';
+  END IF;
+
+  IF p_payment_method_id IS NULL THEN
+    RAISE EXCEPTION 'Select a payment method';
+  END IF;
+
+  -- Counter sales are intra-state supplies
+  INSERT INTO invoices (
+    invoice_number, customer_id, is_interstate, place_of_supply, due_date, paid_date,
+    status, payment_status, discount, subtotal, cgst, sgst, igst, tax, total, amount_paid,
+    counter_sale, created_by
+  ) VALUES (
+    'INV-' || to_char(now(), 'YYYYMM') || '-' || RIGHT((EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text, 6),
+    p_customer_id, false, (SELECT state FROM company_profile LIMIT 1), CURRENT_DATE, CURRENT_DATE,
+    'paid', 'paid', COALESCE(p_discount, 0), 0, 0, 0, 0, 0, 0, 0,
+    true, auth.uid()
+  )
+  RETURNING id INTO v_invoice.id;
+
+  INSERT INTO invoice_items (
+    invoice_id, product_id, menu_item_id, product_name, menu_item_name, variant_id, variant_name,
+    modifiers, portions, combo_id, combo_name, combo_group, combo_quantity, seat,
+    offer_name, offer_discount, quantity, unit_price, total,
+    hsn_code, gst_rate, cgst_amount, sgst_amount, igst_amount
+  )
+  SELECT
+    v_invoice.id, item.product_id, item.menu_item_id, item.product_name, item.menu_item_name, item.variant_id, item.variant_name,
+    COALESCE(item.modifiers, '[]'::jsonb), COALESCE(item.portions, '[]'::jsonb),
+    item.combo_id, item.combo_name, item.combo_group, item.combo_quantity, item.seat,
+    item.offer_name, COALESCE(item.offer_discount, 0), item.quantity, item.unit_price, item.total,
+    item.hsn_code, item.gst_rate, item.cgst_amount, item.sgst_amount, item.igst_amount
+  FROM jsonb_populate_recordset(NULL::invoice_items, p_items) AS item;
+
+  UPDATE invoices
+  SET subtotal = totals.subtotal,
+      cgst = totals.cgst,
+      sgst = totals.sgst,
+      igst = totals.igst,
+      tax = totals.cgst + totals.sgst + totals.igst,
+      total = totals.subtotal + totals.cgst + totals.sgst + totals.igst,
+      amount_paid = totals.subtotal + totals.cgst + totals.sgst + totals.igst
+  FROM (
+    SELECT
+      COALESCE(SUM(total), 0) AS subtotal,
+      COALESCE(SUM(cgst_amount), 0) AS cgst,
+      COALESCE(SUM(sgst_amount), 0) AS sgst,
+      COALESCE(SUM(igst_amount), 0) AS igst
+    FROM invoice_items
+    WHERE invoice_id = v_invoice.id
+  ) AS totals
+  WHERE invoices.id = v_invoice.id
+  RETURNING invoices.* INTO v_invoice;
+
+  IF p_amount_tendered IS NOT NULL AND p_amount_tendered < v_invoice.total THEN
+    RAISE EXCEPTION 'Cash tendered is less than the total of %', v_invoice.total;
+  END IF;
+
+  INSERT INTO invoice_payments (
+    invoice_id, amount, payment_date, payment_method_id, amount_tendered, notes, created_by
+  ) VALUES (
+    v_invoice.id, v_invoice.total, CURRENT_DATE, p_payment_method_id, p_amount_tendered, 'Counter sale', auth.uid()
+  );
+
+  PERFORM sync_invoice_recipe_consumption(v_invoice.id);
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
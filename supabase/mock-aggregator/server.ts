@@ -0,0 +1,94 @@
+/**
+ * Local stand-in for the Zomato and Swiggy partner APIs.
+ *
+ *   deno run --allow-net --allow-env supabase/mock-aggregator/server.ts
+ *
+ * - Any POST (e.g. to http://localhost:8787/zomato/orders/123/status) is logged
+ *   and acknowledged, so set an integration's status URL to
+ *   http://host.docker.internal:8787/<platform> when running Supabase locally.
+ * - GET /send/<platform>?items=ID1,ID2 signs a sample order with
+ *   <PLATFORM>_WEBHOOK_SECRET and posts it to the aggregator-webhook function.
+ */
+import { hmacHex } from '../functions/_shared/aggregators/types.ts';
+
+const PORT = Number(Deno.env.get('PORT') || 8787);
+const WEBHOOK_URL = Deno.env.get('WEBHOOK_URL') || 'http://127.0.0.1:54321/functions/v1/aggregator-webhook';
+
+const samplePayloads: Record<string, (orderId: string, itemIds: string[]) => Record<string, unknown>> = {
+  zomato: (orderId, itemIds) => ({
+    order: {
+      order_id: orderId,
+      order_instructions: 'Less spicy',
+      customer_details: { name: 'Test Customer', phone_number: '9876543210' },
+      items: itemIds.map((itemId, index) => ({
+        item_id: itemId,
+        item_name: `Zomato item ${itemId}`,
+        quantity: index + 1,
+        unit_cost: 200,
+        groups: index === 0
+          ? [{ group_id: 'G1', group_name: 'Add-ons', items: [{ item_id: 'ADDON-1', item_name: 'Extra cheese', unit_cost: 30 }] }]
+          : [],
+      })),
+    },
+  }),
+  swiggy: (orderId, itemIds) => ({
+    order_id: orderId,
+    instructions: 'Ring the bell',
+    customer: { name: 'Test Customer', mobile: '9876543210' },
+    cart: {
+      items: itemIds.map((itemId, index) => ({
+        id: itemId,
+        name: `Swiggy item ${itemId}`,
+        quantity: index + 1,
+        price: 180,
+        addons: index === 0 ? [{ id: 'ADDON-1', name: 'Extra cheese', price: 30 }] : [],
+      })),
+    },
+  }),
+};
+
+const signatureHeaders: Record<string, string> = {
+  zomato: 'x-zomato-signature',
+  swiggy: 'x-swiggy-signature',
+};
+
+async function sendSampleOrder(platform: string, url: URL): Promise<Response> {
+  const buildPayload = samplePayloads[platform];
+  if (!buildPayload) return new Response(`Unknown platform ${platform}`, { status: 404 });
+
+  const secret = Deno.env.get(`${platform.toUpperCase()}_WEBHOOK_SECRET`) || '';
+  const orderId = url.searchParams.get('order_id') || `${platform.toUpperCase()}-${Date.now()}`;
+  const itemIds = (url.searchParams.get('items') || `${platform === 'zomato' ? 'Z' : 'S'}-101`).split(',');
+  const body = JSON.stringify(buildPayload(orderId, itemIds));
+
+  const response = await fetch(`${WEBHOOK_URL}/${platform}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [signatureHeaders[platform]]: await hmacHex(secret, body),
+    },
+    body,
+  });
+
+  const result = await response.text();
+  console.log(`-> ${platform} order ${orderId}: ${response.status} ${result}`);
+  return new Response(result, { status: response.status, headers: { 'Content-Type': 'application/json' } });
+}
+
+Deno.serve({ port: PORT }, async (req: Request) => {
+  const url = new URL(req.url);
+  const [action, platform] = url.pathname.split('/').filter(Boolean);
+
+  if (req.method === 'GET' && action === 'send' && platform) {
+    return sendSampleOrder(platform, url);
+  }
+
+  if (req.method === 'POST') {
+    console.log(`<- ${url.pathname} key=${req.headers.get('x-api-key') || '-'} ${await req.text()}`);
+    return new Response(JSON.stringify({ ok: true }), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  return new Response('Not found', { status: 404 });
+});
+
+console.log(`Mock aggregator listening on http://localhost:${PORT}`);